@@ -11,6 +11,8 @@ const nextConfig: NextConfig = {
     "/api/mcp": ["./public/wasm/*.wasm"],
     "/api/mcp/*": ["./public/wasm/*.wasm"],
     "/api/\\[transport\\]": ["./public/wasm/*.wasm"],
+    // Background reindex worker
+    "/api/cron/jobs": ["./public/wasm/*.wasm"],
   },
   // Empty turbopack config to silence warning about webpack migration
   turbopack: {},
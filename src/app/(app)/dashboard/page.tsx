@@ -9,6 +9,7 @@ import { createServerSupabaseClient } from '@/lib/supabase/server';
 import { getLatestCoverage } from '@/lib/quoth/coverage';
 import { CoverageCard } from '@/components/dashboard/CoverageCard';
 import { ActivityCard } from '@/components/dashboard/ActivityCard';
+import { JobProgressCard } from '@/components/dashboard/JobProgressCard';
 import Link from 'next/link';
 import { redirect } from 'next/navigation';
 import {
@@ -213,6 +214,13 @@ export default async function DashboardPage() {
           </div>
         )}
 
+        {/* Background Jobs - renders only when the project has jobs */}
+        {firstProject && (
+          <div className="mb-10 animate-stagger stagger-5 empty:hidden">
+            <JobProgressCard projectId={firstProject.id} />
+          </div>
+        )}
+
         {/* Activity Section - wrapped in Suspense for progressive loading */}
         {firstProject && (
           <div className="mb-10 animate-stagger stagger-6">
@@ -2,12 +2,12 @@
 
 /**
  * Document Detail Page with Version History
- * View content with rollback functionality (admin only)
+ * View content, a version timeline with authors and diffs, and rollback (admin only)
  */
 
 import { useEffect, useState, use } from 'react';
 import { useRouter } from 'next/navigation';
-import { ArrowLeft, Clock, RotateCcw, ChevronDown } from 'lucide-react';
+import { ArrowLeft, Clock, RotateCcw, ChevronDown, GitCommit } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { useToast } from '@/contexts/ToastContext';
 
@@ -18,6 +18,31 @@ interface DocumentVersion {
   archivedAt: string;
 }
 
+interface TimelineEntry {
+  version: number;
+  history_id: string | null;
+  current: boolean;
+  author: { id: string; email: string | null } | null;
+  source: 'mcp' | 'proposal' | 'repo_sync' | 'rollback' | null;
+  commit: string | null;
+  valid_from: string | null;
+  valid_to: string | null;
+  lines_added: number;
+  lines_removed: number;
+  diff: string;
+}
+
+const sourceLabels: Record<string, string> = {
+  mcp: 'MCP agent',
+  proposal: 'Approved proposal',
+  repo_sync: 'Repository sync',
+  rollback: 'Rollback',
+};
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : 'unknown';
+}
+
 interface DocumentData {
   id: string;
   title: string;
@@ -38,6 +63,8 @@ export default function DocumentDetailPage({ params }: { params: Promise<{ id: s
   const [showHistory, setShowHistory] = useState(false);
   const [viewingVersion, setViewingVersion] = useState<number | null>(null);
   const [rollingBack, setRollingBack] = useState(false);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [diffVersion, setDiffVersion] = useState<number | null>(null);
 
   useEffect(() => {
     fetchDocument();
@@ -52,6 +79,12 @@ export default function DocumentDetailPage({ params }: { params: Promise<{ id: s
         return;
       }
       setDoc(data);
+
+      const historyRes = await fetch(`/api/knowledge-base/${id}/history`);
+      if (historyRes.ok) {
+        const historyData = await historyRes.json();
+        setTimeline(historyData.versions);
+      }
     } catch (err) {
       setError('Failed to load document');
     } finally {
@@ -147,26 +180,74 @@ export default function DocumentDetailPage({ params }: { params: Promise<{ id: s
 
         {showHistory && (
           <div className="border border-charcoal rounded-xl mb-6 overflow-hidden">
-            {doc.history.map((v) => (
-              <div key={v.id} className="flex justify-between items-center p-4 border-b border-charcoal last:border-0 bg-charcoal/30">
-                <span className="text-white">
-                  Version {v.version} - {new Date(v.archivedAt).toLocaleString()}
-                </span>
-                <div className="flex gap-2">
-                  <button
-                    onClick={() => setViewingVersion(viewingVersion === v.version ? null : v.version)}
-                    className="px-3 py-1 text-sm border border-charcoal rounded-lg hover:border-violet-spectral/50 transition-colors"
-                  >
-                    {viewingVersion === v.version ? 'Hide' : 'View'}
-                  </button>
-                  <button
-                    onClick={() => handleRollback(v.id)}
-                    disabled={rollingBack}
-                    className="px-3 py-1 text-sm bg-violet-spectral hover:bg-violet-glow text-white rounded-lg flex items-center gap-1 disabled:opacity-50 transition-colors"
-                  >
-                    <RotateCcw size={14} /> Restore
-                  </button>
+            {timeline.map((v) => (
+              <div key={v.version} className="p-4 border-b border-charcoal last:border-0 bg-charcoal/30">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <span className="text-white">
+                      Version {v.version}
+                      {v.current && <span className="ml-2 text-xs text-violet-glow">current</span>}
+                    </span>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {v.author?.email || 'Unknown author'}
+                      {v.source && ` · ${sourceLabels[v.source] || v.source}`}
+                      {' · '}{formatDate(v.valid_from)} → {v.valid_to ? formatDate(v.valid_to) : 'now'}
+                    </p>
+                    <p className="text-xs mt-1 flex items-center gap-2">
+                      <span className="text-green-400">+{v.lines_added}</span>
+                      <span className="text-red-400">−{v.lines_removed}</span>
+                      {v.commit && (
+                        <span className="flex items-center gap-1 text-gray-400 font-mono">
+                          <GitCommit size={12} /> {v.commit.slice(0, 7)}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setDiffVersion(diffVersion === v.version ? null : v.version)}
+                      className="px-3 py-1 text-sm border border-charcoal rounded-lg hover:border-violet-spectral/50 transition-colors"
+                    >
+                      {diffVersion === v.version ? 'Hide diff' : 'Diff'}
+                    </button>
+                    {v.history_id && (
+                      <>
+                        <button
+                          onClick={() => setViewingVersion(viewingVersion === v.version ? null : v.version)}
+                          className="px-3 py-1 text-sm border border-charcoal rounded-lg hover:border-violet-spectral/50 transition-colors"
+                        >
+                          {viewingVersion === v.version ? 'Hide' : 'View'}
+                        </button>
+                        <button
+                          onClick={() => handleRollback(v.history_id!)}
+                          disabled={rollingBack}
+                          className="px-3 py-1 text-sm bg-violet-spectral hover:bg-violet-glow text-white rounded-lg flex items-center gap-1 disabled:opacity-50 transition-colors"
+                        >
+                          <RotateCcw size={14} /> Restore
+                        </button>
+                      </>
+                    )}
+                  </div>
                 </div>
+                {diffVersion === v.version && (
+                  <pre className="mt-3 p-3 rounded-lg bg-obsidian border border-charcoal text-xs overflow-x-auto">
+                    {v.diff
+                      ? v.diff.split('\n').map((line, i) => (
+                          <div
+                            key={i}
+                            className={
+                              line.startsWith('+') ? 'text-green-400'
+                                : line.startsWith('-') ? 'text-red-400'
+                                : line.startsWith('@@') ? 'text-violet-glow'
+                                : 'text-gray-400'
+                            }
+                          >
+                            {line || ' '}
+                          </div>
+                        ))
+                      : <span className="text-gray-500">No content changes</span>}
+                  </pre>
+                )}
               </div>
             ))}
           </div>
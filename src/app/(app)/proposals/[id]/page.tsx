@@ -9,6 +9,35 @@ import { useEffect, useState, use } from 'react';
 import { useRouter } from 'next/navigation';
 import { ArrowLeft } from 'lucide-react';
 import { useToast } from '@/contexts/ToastContext';
+import { diffLines } from '@/lib/quoth/diff';
+import { describePatchOperation } from '@/lib/quoth/doc-patch';
+import type { PatchOperation } from '@/lib/quoth/types';
+import type { LintResult } from '@/lib/quoth/doc-lint';
+import type { ApprovalPolicy } from '@/lib/quoth/approval-policy';
+import type { CommentThread } from '@/lib/quoth/proposal-review';
+
+interface ConflictHunk {
+  baseLine: number;
+  base: string;
+  current: string;
+  proposed: string;
+}
+
+interface ApprovalVote {
+  id: string;
+  reviewer_email: string;
+  reviewer_role: string;
+  decision: 'approve' | 'reject';
+  notes: string | null;
+  created_at: string;
+}
+
+interface ApprovalInfo {
+  policy: ApprovalPolicy;
+  votes: ApprovalVote[];
+  approvals: number;
+  can_review: boolean;
+}
 
 interface Proposal {
   id: string;
@@ -22,6 +51,10 @@ interface Proposal {
   commit_url?: string;
   rejection_reason?: string;
   reviewed_by?: string;
+  conflicts?: ConflictHunk[] | null;
+  patch?: PatchOperation[] | null;
+  lint_findings?: LintResult | null;
+  revision?: number;
 }
 
 export default function ProposalDetailPage({ params }: { params: Promise<{ id: string }> }) {
@@ -29,6 +62,16 @@ export default function ProposalDetailPage({ params }: { params: Promise<{ id: s
   const router = useRouter();
   const { success, error: showError, warning } = useToast();
   const [proposal, setProposal] = useState<Proposal | null>(null);
+  const [approval, setApproval] = useState<ApprovalInfo | null>(null);
+  const [comments, setComments] = useState<CommentThread[]>([]);
+  const [commentBody, setCommentBody] = useState('');
+  const [commentLine, setCommentLine] = useState('');
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [showChangesDialog, setShowChangesDialog] = useState(false);
+  const [changesSummary, setChangesSummary] = useState('');
+  const [conflictDraft, setConflictDraft] = useState<string | null>(null);
+  const [showResolveDialog, setShowResolveDialog] = useState(false);
+  const [resolution, setResolution] = useState('');
   const [loading, setLoading] = useState(true);
   const [showApproveDialog, setShowApproveDialog] = useState(false);
   const [showRejectDialog, setShowRejectDialog] = useState(false);
@@ -48,6 +91,9 @@ export default function ProposalDetailPage({ params }: { params: Promise<{ id: s
 
       const data = await res.json();
       setProposal(data.proposal);
+      setApproval(data.approval ?? null);
+      setComments(data.comments ?? []);
+      setConflictDraft(data.conflict_draft ?? null);
     } catch (err) {
       console.error('Error fetching proposal:', err);
       setError('Failed to load proposal');
@@ -74,9 +120,21 @@ export default function ProposalDetailPage({ params }: { params: Promise<{ id: s
 
       const data = await res.json();
 
-      if (res.ok) {
-        success('Proposal approved', 'Changes applied to knowledge base');
+      if (res.status === 202) {
+        // More approvals needed under the path's policy
+        success('Approval recorded', data.message);
+        setShowApproveDialog(false);
+        setProcessing(false);
+        fetchProposal();
+      } else if (res.ok) {
+        success('Proposal approved', data.merged ? 'Merged with newer document changes' : 'Changes applied to knowledge base');
         router.push('/proposals');
+      } else if (res.status === 409) {
+        // Reload to show the conflicting hunks
+        setShowApproveDialog(false);
+        setError(data.error);
+        setProcessing(false);
+        fetchProposal();
       } else {
         setError(data.error || 'Failed to approve proposal');
         setProcessing(false);
@@ -125,6 +183,111 @@ export default function ProposalDetailPage({ params }: { params: Promise<{ id: s
     }
   }
 
+  async function postComment(body: string, options: { line?: number; parentId?: string } = {}) {
+    const res = await fetch(`/api/proposals/${id}/comments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ body, line: options.line ?? null, parent_id: options.parentId ?? null })
+    });
+    const data = await res.json();
+
+    if (!res.ok) {
+      showError('Comment not added', data.error || 'Failed to add comment');
+      return false;
+    }
+    fetchProposal();
+    return true;
+  }
+
+  async function handleAddComment() {
+    if (!commentBody.trim()) return;
+    const line = commentLine ? Number(commentLine) : undefined;
+    if (await postComment(commentBody, { line })) {
+      setCommentBody('');
+      setCommentLine('');
+    }
+  }
+
+  async function handleReply(threadId: string) {
+    const body = replyDrafts[threadId];
+    if (!body?.trim()) return;
+    if (await postComment(body, { parentId: threadId })) {
+      setReplyDrafts((drafts) => ({ ...drafts, [threadId]: '' }));
+    }
+  }
+
+  async function toggleResolved(thread: CommentThread) {
+    const res = await fetch(`/api/proposals/${id}/comments/${thread.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ resolved: !thread.resolved })
+    });
+    if (res.ok) fetchProposal();
+  }
+
+  async function handleRequestChanges() {
+    if (changesSummary.length < 10) {
+      warning('Summary must be at least 10 characters');
+      return;
+    }
+
+    setProcessing(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/proposals/${id}/request-changes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ summary: changesSummary })
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        success('Changes requested', 'The authoring agent can revise this proposal');
+        setShowChangesDialog(false);
+        setChangesSummary('');
+        fetchProposal();
+      } else {
+        setError(data.error || 'Failed to request changes');
+      }
+    } catch (err) {
+      console.error('Error requesting changes:', err);
+      setError('Failed to request changes');
+    } finally {
+      setProcessing(false);
+    }
+  }
+
+  async function handleResolve() {
+    setProcessing(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/proposals/${id}/resolve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: resolution })
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        success('Conflicts resolved', data.message);
+        setShowResolveDialog(false);
+        setResolution('');
+        fetchProposal();
+      } else {
+        setError(data.error || 'Failed to resolve conflicts');
+      }
+    } catch (err) {
+      console.error('Error resolving conflicts:', err);
+      setError('Failed to resolve conflicts');
+    } finally {
+      setProcessing(false);
+    }
+  }
+
   if (loading) {
     return (
       <div className="px-6 py-8 md:pt-8 flex items-center justify-center min-h-[50vh]">
@@ -174,6 +337,8 @@ export default function ProposalDetailPage({ params }: { params: Promise<{ id: s
     approved: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
     applied: 'bg-green-500/10 text-green-400 border-green-500/20',
     rejected: 'bg-red-500/10 text-red-400 border-red-500/20',
+    conflict: 'bg-orange-500/10 text-orange-400 border-orange-500/20',
+    changes_requested: 'bg-sky-500/10 text-sky-400 border-sky-500/20',
     error: 'bg-red-500/10 text-red-400 border-red-500/20'
   };
 
@@ -201,6 +366,7 @@ export default function ProposalDetailPage({ params }: { params: Promise<{ id: s
               <h1 className="text-3xl font-bold text-white mb-2">{proposal.file_path}</h1>
               <p className="text-sm text-gray-400">
                 Created {new Date(proposal.created_at).toLocaleString()}
+                {proposal.revision && proposal.revision > 1 && ` · Revision ${proposal.revision}`}
               </p>
               {proposal.reviewed_by && (
                 <p className="text-sm text-gray-400">
@@ -229,35 +395,268 @@ export default function ProposalDetailPage({ params }: { params: Promise<{ id: s
             </div>
           )}
 
-          {/* Diff Viewer */}
-          <div className="mb-6">
-            <h2 className="text-xl font-semibold text-white mb-2">Content Changes</h2>
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-              <div>
-                <h3 className="text-sm text-red-400 mb-2 font-semibold">Original</h3>
-                <pre className="bg-charcoal p-4 rounded-lg overflow-auto max-h-96 text-xs text-gray-400 whitespace-pre-wrap">
-                  {proposal.original_content}
-                </pre>
+          {/* Focused Diff (patch proposals) */}
+          {proposal.patch && proposal.patch.length > 0 ? (
+            <div className="mb-6">
+              <h2 className="text-xl font-semibold text-white mb-2">Content Changes</h2>
+              <ul className="text-sm text-gray-400 mb-4 list-disc list-inside">
+                {proposal.patch.map((operation, index) => (
+                  <li key={index}>{describePatchOperation(operation)}</li>
+                ))}
+              </ul>
+              <div className="space-y-4">
+                {diffLines(proposal.original_content ?? '', proposal.proposed_content).map((hunk) => (
+                  <div key={`${hunk.oldStart}:${hunk.newStart}`} className="bg-charcoal rounded-lg overflow-auto">
+                    <div className="px-4 py-1 text-xs text-violet-ghost/70 border-b border-graphite font-mono">
+                      Lines {hunk.newStart}–{hunk.newStart + Math.max(hunk.newLines - 1, 0)}
+                    </div>
+                    <pre className="p-4 text-xs whitespace-pre-wrap font-mono">
+                      {hunk.lines.map((line, index) => (
+                        <div
+                          key={index}
+                          className={
+                            line.type === 'add'
+                              ? 'bg-green-500/10 text-green-400'
+                              : line.type === 'remove'
+                                ? 'bg-red-500/10 text-red-400'
+                                : 'text-gray-500'
+                          }
+                        >
+                          {line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  '}
+                          {line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  </div>
+                ))}
               </div>
-              <div>
-                <h3 className="text-sm text-green-400 mb-2 font-semibold">Proposed</h3>
-                <pre className="bg-charcoal p-4 rounded-lg overflow-auto max-h-96 text-xs text-gray-400 whitespace-pre-wrap">
-                  {proposal.proposed_content}
-                </pre>
+            </div>
+          ) : (
+            <div className="mb-6">
+              <h2 className="text-xl font-semibold text-white mb-2">Content Changes</h2>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div>
+                  <h3 className="text-sm text-red-400 mb-2 font-semibold">Original</h3>
+                  <pre className="bg-charcoal p-4 rounded-lg overflow-auto max-h-96 text-xs text-gray-400 whitespace-pre-wrap">
+                    {proposal.original_content}
+                  </pre>
+                </div>
+                <div>
+                  <h3 className="text-sm text-green-400 mb-2 font-semibold">Proposed</h3>
+                  <pre className="bg-charcoal p-4 rounded-lg overflow-auto max-h-96 text-xs text-gray-400 whitespace-pre-wrap">
+                    {proposal.proposed_content}
+                  </pre>
+                </div>
               </div>
             </div>
-          </div>
+          )}
 
-          {/* Actions */}
-          {proposal.status === 'pending' && (
-            <div className="flex gap-4">
+          {/* Conflicts */}
+          {proposal.status === 'conflict' && proposal.conflicts && proposal.conflicts.length > 0 && (
+            <div className="mb-6">
+              <h2 className="text-xl font-semibold text-white mb-2">Conflicts</h2>
+              <p className="text-gray-400 mb-4">
+                The document changed after this proposal was created and these edits overlap.
+                Resolve the conflicts against the current document (or request changes so the
+                authoring agent revises it); the resolved revision is reviewed again and applies cleanly.
+              </p>
+              <div className="space-y-4">
+                {proposal.conflicts.map((hunk) => (
+                  <div key={hunk.baseLine} className="border border-orange-500/20 rounded-lg p-4">
+                    <h3 className="text-sm text-orange-400 mb-2 font-semibold">Line {hunk.baseLine}</h3>
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                      <div>
+                        <h4 className="text-xs text-gray-500 mb-1">Base</h4>
+                        <pre className="bg-charcoal p-3 rounded-lg overflow-auto max-h-64 text-xs text-gray-400 whitespace-pre-wrap">
+                          {hunk.base}
+                        </pre>
+                      </div>
+                      <div>
+                        <h4 className="text-xs text-blue-400 mb-1">Current document</h4>
+                        <pre className="bg-charcoal p-3 rounded-lg overflow-auto max-h-64 text-xs text-gray-400 whitespace-pre-wrap">
+                          {hunk.current}
+                        </pre>
+                      </div>
+                      <div>
+                        <h4 className="text-xs text-green-400 mb-1">Proposed</h4>
+                        <pre className="bg-charcoal p-3 rounded-lg overflow-auto max-h-64 text-xs text-gray-400 whitespace-pre-wrap">
+                          {hunk.proposed}
+                        </pre>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Lint Findings */}
+          {proposal.lint_findings && proposal.lint_findings.findings.length > 0 && (
+            <div className="mb-6">
+              <h2 className="text-xl font-semibold text-white mb-2">Lint Findings</h2>
+              <p className="text-gray-400 mb-4">
+                {proposal.lint_findings.errors} error(s), {proposal.lint_findings.warnings} warning(s) in the proposed content.
+              </p>
+              <ul className="space-y-2">
+                {proposal.lint_findings.findings.map((finding, index) => (
+                  <li
+                    key={index}
+                    className={`border rounded-lg px-4 py-2 text-sm ${
+                      finding.severity === 'error'
+                        ? 'border-red-500/20 text-red-400'
+                        : 'border-yellow-500/20 text-yellow-400'
+                    }`}
+                  >
+                    <span className="font-semibold">{finding.rule}</span>
+                    {finding.line !== null && <span className="text-gray-500"> · line {finding.line}</span>}
+                    <span className="text-gray-300"> — {finding.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Review Comments */}
+          <div className="mb-6">
+            <h2 className="text-xl font-semibold text-white mb-2">
+              Review Comments ({comments.filter((thread) => !thread.resolved).length} open)
+            </h2>
+            <div className="space-y-4 mb-4">
+              {comments.map((thread) => (
+                <div
+                  key={thread.id}
+                  className={`border rounded-lg p-4 ${thread.resolved ? 'border-graphite opacity-60' : 'border-violet-spectral/20'}`}
+                >
+                  <div className="flex justify-between items-start mb-2">
+                    <h3 className="text-sm text-violet-glow font-semibold">
+                      {thread.line !== null ? `Line ${thread.line}` : 'General'}
+                      {thread.outdated && <span className="text-gray-500 font-normal"> · outdated (revision {thread.revision})</span>}
+                    </h3>
+                    <button
+                      onClick={() => toggleResolved(thread)}
+                      className="text-xs text-gray-400 hover:text-white"
+                    >
+                      {thread.resolved ? 'Reopen' : 'Resolve'}
+                    </button>
+                  </div>
+                  {thread.line_text && (
+                    <pre className="bg-charcoal p-2 rounded text-xs text-gray-400 mb-2 whitespace-pre-wrap">{thread.line_text}</pre>
+                  )}
+                  {[thread, ...thread.replies].map((comment) => (
+                    <div key={comment.id} className={`text-sm mb-2 ${comment.id === thread.id ? '' : 'ml-4 border-l border-graphite pl-3'}`}>
+                      <span className="text-gray-300 font-semibold">
+                        {comment.author_type === 'agent' ? '🤖 ' : ''}{comment.author_name}
+                      </span>
+                      <span className="text-gray-500"> · {new Date(comment.created_at).toLocaleString()}</span>
+                      <p className="text-gray-400 whitespace-pre-wrap">{comment.body}</p>
+                    </div>
+                  ))}
+                  <div className="flex gap-2 mt-2">
+                    <input
+                      value={replyDrafts[thread.id] ?? ''}
+                      onChange={(e) => setReplyDrafts((drafts) => ({ ...drafts, [thread.id]: e.target.value }))}
+                      placeholder="Reply..."
+                      className="flex-1 bg-charcoal text-white px-3 py-1.5 rounded-lg text-sm border border-graphite focus:border-violet-spectral outline-none"
+                    />
+                    <button
+                      onClick={() => handleReply(thread.id)}
+                      className="text-sm text-violet-glow hover:text-violet-spectral px-3"
+                    >
+                      Reply
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={1}
+                value={commentLine}
+                onChange={(e) => setCommentLine(e.target.value)}
+                placeholder="Line"
+                className="w-24 bg-charcoal text-white px-3 py-2 rounded-lg text-sm border border-graphite focus:border-violet-spectral outline-none"
+              />
+              <textarea
+                value={commentBody}
+                onChange={(e) => setCommentBody(e.target.value)}
+                placeholder="Comment on the proposed content (optionally on a line)"
+                className="flex-1 bg-charcoal text-white px-3 py-2 rounded-lg text-sm h-16 border border-graphite focus:border-violet-spectral outline-none resize-none"
+              />
               <button
-                onClick={() => setShowApproveDialog(true)}
-                disabled={processing}
-                className="bg-green-600 hover:bg-green-700 disabled:bg-green-900 disabled:cursor-not-allowed text-white px-6 py-3 rounded-lg font-semibold transition-colors"
+                onClick={handleAddComment}
+                disabled={!commentBody.trim()}
+                className="bg-violet-spectral hover:bg-violet-glow disabled:opacity-50 text-white px-4 rounded-lg text-sm font-semibold"
               >
-                ✓ Approve & Commit
+                Comment
               </button>
+            </div>
+          </div>
+
+          {/* Approvals */}
+          {approval && !approval.policy.auto_apply && (
+            <div className="mb-6">
+              <h2 className="text-xl font-semibold text-white mb-2">
+                Approvals ({approval.approvals} of {approval.policy.required_approvals})
+              </h2>
+              <p className="text-gray-400 mb-4">
+                {approval.policy.path_pattern
+                  ? <>Policy <code className="text-violet-spectral">{approval.policy.path_pattern}</code>: </>
+                  : 'Project default: '}
+                {approval.policy.required_approvals} approval(s) from {approval.policy.reviewer_roles.join(', ') || 'named reviewers'}
+                {approval.policy.reviewer_user_ids.length > 0 && approval.policy.reviewer_roles.length > 0 && ' or named reviewers'}
+                {!approval.policy.allow_self_approval && '; authors cannot approve their own proposals'}
+              </p>
+              {approval.votes.length > 0 && (
+                <ul className="space-y-2">
+                  {approval.votes.map((vote) => (
+                    <li key={vote.id} className="border border-violet-spectral/20 rounded-lg px-4 py-2 text-sm">
+                      <span className={vote.decision === 'approve' ? 'text-green-400' : 'text-red-400'}>
+                        {vote.decision === 'approve' ? '✓ Approved' : '✗ Rejected'}
+                      </span>
+                      <span className="text-gray-300"> by {vote.reviewer_email} ({vote.reviewer_role})</span>
+                      <span className="text-gray-500"> · {new Date(vote.created_at).toLocaleString()}</span>
+                      {vote.notes && <p className="text-gray-400 mt-1">{vote.notes}</p>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* Actions */}
+          {['pending', 'conflict', 'changes_requested'].includes(proposal.status) && approval?.can_review !== false && (
+            <div className="flex gap-4">
+              {proposal.status !== 'changes_requested' && (
+                <>
+                  <button
+                    onClick={() => setShowApproveDialog(true)}
+                    disabled={processing}
+                    className="bg-green-600 hover:bg-green-700 disabled:bg-green-900 disabled:cursor-not-allowed text-white px-6 py-3 rounded-lg font-semibold transition-colors"
+                  >
+                    {proposal.status === 'conflict' ? '↻ Retry Merge' : '✓ Approve & Commit'}
+                  </button>
+                  {proposal.status === 'conflict' && conflictDraft !== null && (
+                    <button
+                      onClick={() => {
+                        setResolution(conflictDraft);
+                        setShowResolveDialog(true);
+                      }}
+                      disabled={processing}
+                      className="bg-orange-600 hover:bg-orange-700 disabled:bg-orange-900 disabled:cursor-not-allowed text-white px-6 py-3 rounded-lg font-semibold transition-colors"
+                    >
+                      ⇄ Resolve Conflicts
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setShowChangesDialog(true)}
+                    disabled={processing}
+                    className="bg-sky-600 hover:bg-sky-700 disabled:bg-sky-900 disabled:cursor-not-allowed text-white px-6 py-3 rounded-lg font-semibold transition-colors"
+                  >
+                    ✎ Request Changes
+                  </button>
+                </>
+              )}
               <button
                 onClick={() => setShowRejectDialog(true)}
                 disabled={processing}
@@ -325,6 +724,76 @@ export default function ProposalDetailPage({ params }: { params: Promise<{ id: s
           </div>
         )}
 
+        {/* Request Changes Dialog */}
+        {showChangesDialog && (
+          <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+            <div className="glass-panel p-8 max-w-md w-full">
+              <h2 className="text-2xl font-bold text-white mb-4">Request Changes</h2>
+              <p className="text-gray-400 mb-4 text-sm">
+                The authoring agent reads your comments with quoth_proposal_feedback and submits a revision.
+              </p>
+              <textarea
+                value={changesSummary}
+                onChange={(e) => setChangesSummary(e.target.value)}
+                placeholder="What needs to change (minimum 10 characters)"
+                className="w-full bg-charcoal text-white px-4 py-2 rounded-lg mb-4 h-24 border border-graphite focus:border-violet-spectral outline-none resize-none"
+                disabled={processing}
+              />
+              <div className="flex gap-4">
+                <button
+                  onClick={handleRequestChanges}
+                  disabled={processing}
+                  className="bg-sky-600 hover:bg-sky-700 disabled:bg-sky-900 disabled:cursor-not-allowed text-white px-6 py-2 rounded-lg flex-1 font-semibold"
+                >
+                  {processing ? 'Processing...' : 'Request Changes'}
+                </button>
+                <button
+                  onClick={() => setShowChangesDialog(false)}
+                  disabled={processing}
+                  className="bg-charcoal hover:bg-charcoal/80 disabled:cursor-not-allowed text-white px-6 py-2 rounded-lg"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Resolve Conflicts Dialog */}
+        {showResolveDialog && (
+          <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+            <div className="glass-panel p-8 max-w-4xl w-full">
+              <h2 className="text-2xl font-bold text-white mb-4">Resolve Conflicts</h2>
+              <p className="text-gray-400 mb-4 text-sm">
+                The current document merged with the proposal. Edit each conflict down to the
+                intended text and remove the markers; the result is submitted as a new revision.
+              </p>
+              <textarea
+                value={resolution}
+                onChange={(e) => setResolution(e.target.value)}
+                className="w-full bg-charcoal text-white px-4 py-2 rounded-lg mb-4 h-96 font-mono text-xs border border-graphite focus:border-violet-spectral outline-none resize-none"
+                disabled={processing}
+              />
+              <div className="flex gap-4">
+                <button
+                  onClick={handleResolve}
+                  disabled={processing}
+                  className="bg-orange-600 hover:bg-orange-700 disabled:bg-orange-900 disabled:cursor-not-allowed text-white px-6 py-2 rounded-lg flex-1 font-semibold"
+                >
+                  {processing ? 'Processing...' : 'Submit Resolution'}
+                </button>
+                <button
+                  onClick={() => setShowResolveDialog(false)}
+                  disabled={processing}
+                  className="bg-charcoal hover:bg-charcoal/80 disabled:cursor-not-allowed text-white px-6 py-2 rounded-lg"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Reject Dialog */}
         {showRejectDialog && (
           <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
@@ -9,6 +9,8 @@ import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import {
   GitPullRequest,
+  GitMerge,
+  MessageSquare,
   Clock,
   CheckCircle2,
   XCircle,
@@ -58,6 +60,18 @@ const statusConfig: Record<string, {
     className: 'bg-red-500/15 text-red-400 border-red-500/30',
     dotColor: 'bg-red-400',
   },
+  conflict: {
+    label: 'Conflict',
+    icon: GitMerge,
+    className: 'bg-orange-500/15 text-orange-400 border-orange-500/30',
+    dotColor: 'bg-orange-400',
+  },
+  changes_requested: {
+    label: 'Changes Requested',
+    icon: MessageSquare,
+    className: 'bg-sky-500/15 text-sky-400 border-sky-500/30',
+    dotColor: 'bg-sky-400',
+  },
   error: {
     label: 'Error',
     icon: AlertCircle,
@@ -100,7 +114,7 @@ export default function ProposalsPage() {
     return acc;
   }, {} as Record<string, number>);
 
-  const filters = ['all', 'pending', 'approved', 'applied', 'rejected', 'error'];
+  const filters = ['all', 'pending', 'changes_requested', 'conflict', 'approved', 'applied', 'rejected', 'error'];
 
   return (
     <div className="px-6 py-8 md:py-10">
@@ -217,7 +231,7 @@ export default function ProposalsPage() {
                   {status !== 'all' && statusConfig[status] && (
                     <span className={`w-2 h-2 rounded-full ${isActive ? 'bg-white' : statusConfig[status].dotColor}`} />
                   )}
-                  <span>{status.charAt(0).toUpperCase() + status.slice(1)}</span>
+                  <span>{statusConfig[status]?.label ?? status.charAt(0).toUpperCase() + status.slice(1)}</span>
                   <span className={`
                     px-1.5 py-0.5 text-xs rounded-md
                     ${isActive ? 'bg-white/20' : 'bg-charcoal'}
@@ -8,6 +8,7 @@
  * - OAuth 2.1 authentication via MCP API keys or OAuth tokens
  * - Proper WWW-Authenticate headers for OAuth discovery
  * - 9 Tools: search, read, propose, guidelines, templates, chunks, accounts
+ * - Per-API-key and per-agent rate limit quotas (configurable per project)
  *
  * Authentication:
  * - Requires Bearer token in Authorization header
@@ -21,6 +22,8 @@ import { createMcpHandler, withMcpAuth } from 'mcp-handler';
 import { registerQuothTools } from '@/lib/quoth/tools';
 import { verifyMcpApiKey, type AuthContext } from '@/lib/auth/mcp-auth';
 import { sessionManager } from '@/lib/auth/session-manager';
+import { enforceMcpQuotas, getRequestAgentId } from '@/lib/quoth/rate-limit-quotas';
+import { rateLimitResponse, withRateLimitHeaders } from '@/lib/rate-limit';
 import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { randomUUID } from 'crypto';
@@ -51,6 +54,7 @@ async function verifyToken(req: Request, bearerToken?: string): Promise<AuthInfo
         project_id: mcpAuth.project_id,
         user_id: mcpAuth.user_id,
         role: mcpAuth.role,
+        key_id: mcpAuth.key_id,
         connection_id: connectionId,
         available_projects: mcpAuth.available_projects,
       },
@@ -79,6 +83,7 @@ function getAuthContextFromRequest(req: Request): AuthContext {
     project_id: (extra.project_id as string) || 'quoth-knowledge-base',
     user_id: (extra.user_id as string) || 'anonymous',
     role: (extra.role as 'admin' | 'editor' | 'viewer') || 'viewer',
+    key_id: extra.key_id as string | undefined,
     connection_id: extra.connection_id as string | undefined,
     available_projects: extra.available_projects as AuthContext['available_projects'],
   };
@@ -136,10 +141,25 @@ const oauthHandler = withMcpAuth(
   async (req: Request) => {
     // Extract auth context from the authenticated request
     const authContext = getAuthContextFromRequest(req);
-    
+
+    // Charge the request to the caller's API key (OAuth sessions: user) and agent quotas
+    const quota = await enforceMcpQuotas({
+      projectId: authContext.project_id,
+      keyId: authContext.key_id || `user:${authContext.user_id}`,
+      agentId: await getRequestAgentId(req),
+    });
+
+    if (!quota.allowed) {
+      return rateLimitResponse(
+        quota.result,
+        quota.options,
+        `Rate limit exceeded for this ${quota.scope === 'agent' ? 'agent' : 'API key'}. Please wait before trying again.`
+      );
+    }
+
     // Create handler with auth context and process request
     const handler = createHandlerWithContext(authContext);
-    return handler(req);
+    return withRateLimitHeaders(await handler(req), quota.result, quota.options);
   },
   verifyToken,
   {
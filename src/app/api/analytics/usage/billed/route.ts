@@ -0,0 +1,77 @@
+/**
+ * Billed Usage API
+ * GET /api/analytics/usage/billed
+ *
+ * Returns metered usage from the usage store (the counters tier limits are
+ * enforced against), rather than estimates from the activity log:
+ * - Tier and daily limits
+ * - Today's and this month's counts per metric
+ * - Counts per day for the period
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getTierForProject, TIER_LIMITS } from '@/lib/quoth/tier';
+import { getUsageStore, USAGE_METRICS, type UsageMetric } from '@/lib/quoth/usage-store';
+
+export async function GET(request: NextRequest) {
+  const supabase = await createServerSupabaseClient();
+
+  // Get authenticated user
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // Get project_id from query params
+  const { searchParams } = new URL(request.url);
+  const projectId = searchParams.get('project_id');
+  const period = searchParams.get('period') || '7d'; // 7d, 30d, 90d
+
+  if (!projectId) {
+    return NextResponse.json({ error: 'project_id required' }, { status: 400 });
+  }
+
+  // Verify user has access to this project
+  const { data: membership, error: membershipError } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (membershipError || !membership) {
+    return NextResponse.json({ error: 'Project not found or access denied' }, { status: 403 });
+  }
+
+  // Calculate date range (UTC days, today included)
+  const days = period === '30d' ? 30 : period === '90d' ? 90 : 7;
+  const startDate = new Date();
+  startDate.setUTCDate(startDate.getUTCDate() - (days - 1));
+
+  try {
+    const store = getUsageStore();
+    const tier = await getTierForProject(projectId);
+    const limits = TIER_LIMITS[tier];
+
+    const current = {} as Record<UsageMetric, { today: number; month: number; dailyLimit: number }>;
+    for (const metric of USAGE_METRICS) {
+      const counts = await store.get(projectId, metric);
+      current[metric] = {
+        today: counts.daily,
+        month: counts.monthly,
+        dailyLimit: metric === 'semantic_search' ? limits.semanticSearchesPerDay : limits.ragAnswersPerDay,
+      };
+    }
+
+    const perDay: Record<string, Partial<Record<UsageMetric, number>>> = {};
+    for (const row of await store.daily(projectId, startDate)) {
+      perDay[row.day] = { ...perDay[row.day], [row.metric]: row.count };
+    }
+
+    return NextResponse.json({ tier, store: store.id, usage: current, perDay });
+  } catch (error) {
+    console.error('[Analytics] Error fetching billed usage:', error);
+    return NextResponse.json({ error: 'Failed to fetch billed usage' }, { status: 500 });
+  }
+}
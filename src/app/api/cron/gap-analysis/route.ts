@@ -0,0 +1,82 @@
+// src/app/api/cron/gap-analysis/route.ts
+/**
+ * Documentation Gap Analysis Cron
+ * Clusters each project's missed searches into suggested documents to write.
+ * Schedule: Daily at 6:00 AM UTC
+ *
+ * Projects are analyzed least recently run first, so projects not reached
+ * within the time budget are at the front of the next run.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { runGapAnalysis } from '@/lib/quoth/gap-analysis';
+
+export const maxDuration = 60;
+const ANALYSIS_BUDGET_MS = 50_000;
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret (Vercel sets this automatically for cron jobs)
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  // In production, require authorization
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const deadline = Date.now() + ANALYSIS_BUDGET_MS;
+
+    const { data: projects, error: projectsError } = await supabase
+      .from('projects')
+      .select('id, slug')
+      .order('gap_analysis_ran_at', { ascending: true, nullsFirst: true })
+      .order('created_at', { ascending: true });
+
+    if (projectsError || !projects) {
+      console.error('[Cron] Failed to fetch projects:', projectsError);
+      return NextResponse.json({ error: 'Failed to fetch projects' }, { status: 500 });
+    }
+
+    let analyzed = 0;
+    let suggestions = 0;
+    const errors: string[] = [];
+
+    for (const project of projects) {
+      if (Date.now() >= deadline) break;
+
+      try {
+        const result = await runGapAnalysis(project.id);
+        analyzed++;
+        suggestions += result.suggestions;
+      } catch (projectError) {
+        const errorMessage = projectError instanceof Error ? projectError.message : 'Unknown error';
+        console.error(`[Cron] Gap analysis failed for project ${project.slug}:`, errorMessage);
+        errors.push(`${project.slug}: ${errorMessage}`);
+      }
+
+      // A failing project moves to the back as well, so it cannot use up every run
+      const { error: stampError } = await supabase
+        .from('projects')
+        .update({ gap_analysis_ran_at: new Date().toISOString() })
+        .eq('id', project.id);
+      if (stampError) {
+        console.error(`[Cron] Failed to record gap analysis run for ${project.slug}:`, stampError.message);
+      }
+    }
+
+    console.log(`[Cron] Gap analysis: ${analyzed}/${projects.length} projects, ${suggestions} suggestions`);
+
+    return NextResponse.json({
+      success: true,
+      projectsAnalyzed: analyzed,
+      projectsTotal: projects.length,
+      suggestions,
+      errors: errors.length > 0 ? errors : undefined,
+    });
+  } catch (error) {
+    console.error('[Cron] Gap analysis error:', error);
+    return NextResponse.json({ error: 'Gap analysis failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+// src/app/api/cron/jobs/route.ts
+/**
+ * Background Job Worker Cron
+ * Claims queued (or stalled) jobs and processes them within the function time budget.
+ * Schedule: Every minute
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runJobWorker } from '@/lib/quoth/jobs';
+
+// Leave headroom below the platform limit so the lease is released cleanly
+export const maxDuration = 60;
+const WORKER_BUDGET_MS = 50_000;
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret (Vercel sets this automatically for cron jobs)
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  // In production, require authorization
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await runJobWorker({ maxDurationMs: WORKER_BUDGET_MS });
+
+    console.log(`[Cron] Job worker: ${result.jobsProcessed} jobs, ${result.itemsProcessed} items`);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[Cron] Job worker error:', error);
+    return NextResponse.json({ error: 'Job worker failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Knowledge Base Document History API
+ * GET /api/knowledge-base/[id]/history - Version timeline with authors and diffs
+ *
+ * Each version carries the interval it was current, who wrote it and through
+ * which path, the commit it was verified against (repository-synced docs) and
+ * a unified diff against the previous version.
+ * Pass ?include_content=true to also return each version's full content.
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { supabase } from '@/lib/supabase';
+import { getDocumentVersions, versionDiff } from '@/lib/quoth/history';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const includeContent = new URL(request.url).searchParams.get('include_content') === 'true';
+    const authSupabase = await createServerSupabaseClient();
+    const { data: { user } } = await authSupabase.auth.getUser();
+
+    if (!user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 1. Get document
+    const { data: doc, error: docError } = await supabase
+      .from('documents')
+      .select('id, project_id, file_path, title')
+      .eq('id', id)
+      .single();
+
+    if (docError || !doc) {
+      return Response.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    // 2. Verify user has access to this project
+    const { data: membership } = await authSupabase
+      .from('project_members')
+      .select('role')
+      .eq('project_id', doc.project_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!membership) {
+      return Response.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    // 3. Build the timeline (newest first)
+    const versions = await getDocumentVersions(id);
+
+    // 4. Resolve author emails
+    const authorIds = [...new Set(versions.map((v) => v.author_id).filter((a): a is string => Boolean(a)))];
+    const emails = new Map<string, string>();
+    if (authorIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, email')
+        .in('id', authorIds);
+      for (const profile of profiles || []) {
+        emails.set(profile.id, profile.email);
+      }
+    }
+
+    return Response.json({
+      id: doc.id,
+      title: doc.title,
+      path: doc.file_path,
+      versions: versions.map((v, i) => ({
+        version: v.version,
+        history_id: v.history_id,
+        current: v.history_id === null,
+        title: v.title,
+        author: v.author_id ? { id: v.author_id, email: emails.get(v.author_id) ?? null } : null,
+        source: v.source,
+        commit: v.commit,
+        valid_from: v.valid_from,
+        valid_to: v.valid_to,
+        ...versionDiff(versions[i + 1], v),
+        ...(includeContent && { content: v.content }),
+      })),
+    });
+  } catch (error) {
+    console.error('Document history error:', error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch document history' },
+      { status: 500 }
+    );
+  }
+}
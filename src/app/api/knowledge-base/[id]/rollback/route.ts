@@ -70,7 +70,11 @@ export async function POST(
       doc.project_id,
       doc.file_path,
       historyVersion.title || doc.title,
-      historyVersion.content
+      historyVersion.content,
+      undefined,
+      undefined,
+      undefined,
+      { userId: user.id, source: 'rollback' }
     );
 
     return Response.json({
@@ -0,0 +1,64 @@
+/**
+ * Document Verification API
+ * POST /api/knowledge-base/[id]/verify
+ * Editor or admin - confirms the document is still accurate, which resets
+ * its staleness without editing the content (no new version is created)
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { supabase } from '@/lib/supabase';
+import { getDocumentStaleness, verifyDocument } from '@/lib/quoth/health';
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const authSupabase = await createServerSupabaseClient();
+    const { data: { user } } = await authSupabase.auth.getUser();
+
+    if (!user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: doc, error: docError } = await supabase
+      .from('documents')
+      .select('id, project_id')
+      .eq('id', id)
+      .single();
+
+    if (docError || !doc) {
+      return Response.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const { data: membership } = await authSupabase
+      .from('project_members')
+      .select('role')
+      .eq('project_id', doc.project_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!membership || membership.role === 'viewer') {
+      return Response.json(
+        { error: 'Only editors and admins can verify documents' },
+        { status: 403 }
+      );
+    }
+
+    const verifiedAt = await verifyDocument(id, doc.project_id, user.id);
+    const staleness = await getDocumentStaleness(id, doc.project_id);
+
+    return Response.json({
+      success: true,
+      verified_at: verifiedAt,
+      staleness,
+    });
+  } catch (error) {
+    console.error('Verify error:', error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Verification failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
 /**
  * Knowledge Base Search API
  * POST /api/knowledge-base/search
+ *
+ * Body: { query, doc_type?, path?, status?, exclude_status?, related_stack?, tags?, updated_since? }
+ * Filters match quoth_search_index and are applied inside the retrieval RPCs.
  */
 
 import { createServerSupabaseClient } from '@/lib/supabase/server';
-import { searchDocuments } from '@/lib/quoth/search';
+import { searchDocuments, toSearchFilters } from '@/lib/quoth/search';
+import { SearchFiltersInputSchema } from '@/lib/quoth/types';
 import { logActivity } from '@/lib/quoth/activity';
 
 export async function POST(request: Request) {
@@ -27,14 +31,26 @@ export async function POST(request: Request) {
       return Response.json({ error: 'No project access' }, { status: 403 });
     }
 
-    const { query } = await request.json();
+    const body = await request.json();
+    const { query } = body;
     
     if (!query || typeof query !== 'string') {
       return Response.json({ error: 'Query is required' }, { status: 400 });
     }
 
+    const validation = SearchFiltersInputSchema.safeParse(body);
+
+    if (!validation.success) {
+      return Response.json(
+        { error: 'Invalid filters', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
     const startTime = Date.now();
-    const results = await searchDocuments(query, membership.project_id);
+    const results = await searchDocuments(query, membership.project_id, {
+      filters: toSearchFilters(validation.data),
+    });
     const responseTimeMs = Date.now() - startTime;
 
     // Log search activity with result_count (non-blocking)
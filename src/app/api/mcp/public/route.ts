@@ -16,7 +16,13 @@ import { z } from 'zod';
 import type { NextRequest } from 'next/server';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { searchDocuments, readDocument, buildSearchIndex } from '@/lib/quoth/search';
-import { checkRateLimit } from '@/lib/rate-limit';
+import {
+  checkRateLimit,
+  getClientIp,
+  rateLimitResponse,
+  RateLimits,
+  withRateLimitHeaders,
+} from '@/lib/rate-limit';
 
 // Public demo project ID
 const PUBLIC_PROJECT_ID = 'quoth-knowledge-base';
@@ -205,48 +211,17 @@ async function withPublicRateLimit(
   req: NextRequest,
   handler: (req: NextRequest) => Promise<Response>
 ): Promise<Response> {
-  const ip = req.headers.get('x-forwarded-for')?.split(',')[0] ||
-             req.headers.get('x-real-ip') ||
-             'anonymous';
-
-  const rateLimitResult = checkRateLimit(`public:${ip}`, {
-    windowMs: 60 * 1000, // 1 minute
-    maxRequests: 10, // 10 requests per minute for public
-  });
+  const ip = getClientIp(req);
+  const rateLimitResult = await checkRateLimit(`public:${ip}`, RateLimits.PUBLIC_MCP);
 
   if (!rateLimitResult.allowed) {
-    return new Response(
-      JSON.stringify({
-        error: 'rate_limit_exceeded',
-        error_description: 'Too many requests. Please wait before trying again.',
-        retry_after: Math.ceil(rateLimitResult.resetIn / 1000),
-      }),
-      {
-        status: 429,
-        headers: {
-          'Content-Type': 'application/json',
-          'Retry-After': String(Math.ceil(rateLimitResult.resetIn / 1000)),
-          'X-RateLimit-Limit': '10',
-          'X-RateLimit-Remaining': String(rateLimitResult.remaining),
-          'X-RateLimit-Reset': String(Math.ceil(Date.now() / 1000 + rateLimitResult.resetIn / 1000)),
-        },
-      }
-    );
+    return rateLimitResponse(rateLimitResult, RateLimits.PUBLIC_MCP);
   }
 
   const response = await handler(req);
 
   // Add rate limit headers to response
-  const headers = new Headers(response.headers);
-  headers.set('X-RateLimit-Limit', '10');
-  headers.set('X-RateLimit-Remaining', String(rateLimitResult.remaining));
-  headers.set('X-RateLimit-Reset', String(Math.ceil(Date.now() / 1000 + rateLimitResult.resetIn / 1000)));
-
-  return new Response(response.body, {
-    status: response.status,
-    statusText: response.statusText,
-    headers,
-  });
+  return withRateLimitHeaders(response, rateLimitResult, RateLimits.PUBLIC_MCP);
 }
 
 const publicHandler = createPublicHandler();
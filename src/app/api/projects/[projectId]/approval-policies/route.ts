@@ -0,0 +1,114 @@
+/**
+ * Approval Policies API
+ * GET /api/projects/:projectId/approval-policies - List the project's rules (in match order)
+ * PUT /api/projects/:projectId/approval-policies - Replace all rules (admin only)
+ *
+ * PUT body: { rules: [{ path_pattern, auto_apply?, required_approvals?, reviewer_roles?,
+ *   reviewer_user_ids?, allow_self_approval? }] }. The last matching rule wins.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import {
+  ApprovalPolicyRuleInputSchema,
+  getApprovalRules,
+  replaceApprovalRules,
+} from '@/lib/quoth/approval-policy';
+
+interface RouteParams {
+  params: Promise<{ projectId: string }>;
+}
+
+const ReplaceRulesSchema = z.object({
+  rules: z.array(ApprovalPolicyRuleInputSchema).max(100),
+});
+
+async function getMembership(projectId: string) {
+  const supabase = await createServerSupabaseClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { user: null, membership: null, supabase };
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single();
+
+  return { user, membership, supabase };
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params;
+    const { user, membership } = await getMembership(projectId);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const rules = await getApprovalRules(projectId);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('[Approval Policies API] GET error:', error);
+    return NextResponse.json({ error: 'Failed to load approval policies' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params;
+    const { user, membership, supabase } = await getMembership(projectId);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!membership || membership.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const validation = ReplaceRulesSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    // Named reviewers must be members of the project
+    const reviewerIds = [...new Set(validation.data.rules.flatMap((rule) => rule.reviewer_user_ids))];
+    if (reviewerIds.length > 0) {
+      const { data: members } = await supabase
+        .from('project_members')
+        .select('user_id')
+        .eq('project_id', projectId)
+        .in('user_id', reviewerIds);
+
+      const memberIds = new Set((members || []).map((m: { user_id: string }) => m.user_id));
+      const unknown = reviewerIds.filter((id) => !memberIds.has(id));
+      if (unknown.length > 0) {
+        return NextResponse.json(
+          { error: `Reviewers are not project members: ${unknown.join(', ')}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const rules = await replaceApprovalRules(projectId, validation.data.rules, user.id);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('[Approval Policies API] PUT error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save approval policies' },
+      { status: 500 }
+    );
+  }
+}
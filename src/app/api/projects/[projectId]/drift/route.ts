@@ -1,7 +1,8 @@
 /**
  * Drift Detection API
  * GET: Fetch drift timeline and summary
- * POST: Record a new drift event or resolve existing
+ * POST: Record a new drift event, resolve one, or draft a fix proposal
+ *   (action: 'propose', driftId) that is applied like any other proposal
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -12,6 +13,7 @@ import {
   detectDrift,
   resolveDrift,
 } from '@/lib/quoth/drift';
+import { createDriftProposal } from '@/lib/quoth/drift-proposal';
 
 interface RouteParams {
   params: Promise<{ projectId: string }>;
@@ -98,6 +100,18 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Failed to resolve drift' }, { status: 500 });
     }
 
+    if (action === 'propose') {
+      try {
+        const proposal = await createDriftProposal(projectId, data.driftId, { userId: user.id });
+        return NextResponse.json({ proposal });
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Failed to draft proposal' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Default: detect new drift
     const driftEvent = await detectDrift({
       projectId,
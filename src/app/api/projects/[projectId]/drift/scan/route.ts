@@ -0,0 +1,63 @@
+/**
+ * Drift Scan API
+ * POST /api/projects/:projectId/drift/scan - Check document code references against an uploaded git bundle
+ *
+ * Body: raw bundle bytes (git bundle create code.bundle HEAD)
+ * Query: ?ref=HEAD&dry_run=true (all optional)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { scanDrift } from '@/lib/quoth/drift-scanner';
+import { withUploadedBundle } from '@/lib/quoth/repo-sync';
+
+export const maxDuration = 60;
+
+interface RouteParams {
+  params: Promise<{ projectId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params;
+    const supabase = await createServerSupabaseClient();
+
+    // 1. Authenticate and verify editor+ role
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabase
+      .from('project_members')
+      .select('role')
+      .eq('project_id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!membership || !['admin', 'editor'].includes(membership.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    // 2. Scan the uploaded bundle
+    const { searchParams } = request.nextUrl;
+    return await withUploadedBundle(request, async (source) => {
+      const result = await scanDrift(projectId, source, {
+        ref: searchParams.get('ref') ?? undefined,
+        dryRun: searchParams.get('dry_run') === 'true',
+        userId: user.id,
+      });
+
+      return NextResponse.json({ result });
+    });
+  } catch (error) {
+    console.error('[Drift Scan API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Drift scan failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Documentation Gaps API
+ * GET: Suggested documents to write, clustered from missed searches
+ * POST: Re-run the analysis (action: 'analyze'), start a suggestion as a
+ *   new-document proposal (action: 'start', gapId) or dismiss it (action: 'dismiss', gapId)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import {
+  getDocGaps,
+  runGapAnalysis,
+  startDocGap,
+  dismissDocGap,
+} from '@/lib/quoth/gap-analysis';
+
+interface RouteParams {
+  params: Promise<{ projectId: string }>;
+}
+
+async function getMembership(projectId: string) {
+  const supabase = await createServerSupabaseClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { user: null, membership: null };
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single();
+
+  return { user, membership };
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params;
+    const { user, membership } = await getMembership(projectId);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!membership) {
+      return NextResponse.json({ error: 'Not a project member' }, { status: 403 });
+    }
+
+    const gaps = await getDocGaps(projectId);
+    return NextResponse.json({ gaps });
+  } catch (error) {
+    console.error('[Gaps API] GET error:', error);
+    return NextResponse.json({ error: 'Failed to fetch documentation gaps' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params;
+    const { user, membership } = await getMembership(projectId);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!membership || !['admin', 'editor'].includes(membership.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { action, gapId } = await request.json();
+
+    if (action === 'analyze') {
+      const result = await runGapAnalysis(projectId);
+      return NextResponse.json({ result, gaps: await getDocGaps(projectId) });
+    }
+
+    if ((action === 'start' || action === 'dismiss') && typeof gapId === 'string') {
+      try {
+        if (action === 'dismiss') {
+          await dismissDocGap(projectId, gapId);
+          return NextResponse.json({ success: true });
+        }
+        const started = await startDocGap(projectId, gapId, user.id);
+        return NextResponse.json({ proposal_id: started.proposalId, file_path: started.filePath });
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Failed to update suggestion' },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+  } catch (error) {
+    console.error('[Gaps API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to process documentation gaps' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Jobs API Endpoint
+ * GET: Recent background jobs with progress (polled by the dashboard)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getRecentJobs, getJobProgress } from '@/lib/quoth/jobs';
+
+interface RouteParams {
+  params: Promise<{ projectId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params;
+    const supabase = await createServerSupabaseClient();
+
+    // Verify user has access to project
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabase
+      .from('project_members')
+      .select('role')
+      .eq('project_id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const jobs = await getRecentJobs(projectId);
+
+    return NextResponse.json({
+      jobs: jobs.map((job) => ({
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        totalItems: job.total_items,
+        completedItems: job.completed_items,
+        failedItems: job.failed_items,
+        createdAt: job.created_at,
+        completedAt: job.completed_at,
+        progress: getJobProgress(job),
+      })),
+    });
+  } catch (error) {
+    console.error('[Jobs API] GET error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Rate Limit Quotas API
+ * GET /api/projects/:projectId/rate-limits - List the project's MCP quotas
+ * PUT /api/projects/:projectId/rate-limits - Replace all quotas (admin only)
+ *
+ * PUT body: { quotas: [{ scope: 'api_key' | 'agent', subject?, algorithm?,
+ *   max_requests, window_seconds }] }. A quota without a subject is the
+ * default for every API key (or agent) of the project.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { RateLimits } from '@/lib/rate-limit';
+import {
+  RateLimitQuotaInputSchema,
+  getRateLimitQuotas,
+  replaceRateLimitQuotas,
+} from '@/lib/quoth/rate-limit-quotas';
+
+interface RouteParams {
+  params: Promise<{ projectId: string }>;
+}
+
+const ReplaceQuotasSchema = z.object({
+  quotas: z.array(RateLimitQuotaInputSchema).max(200),
+});
+
+async function getMembership(projectId: string) {
+  const supabase = await createServerSupabaseClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { user: null, membership: null, supabase };
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single();
+
+  return { user, membership, supabase };
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params;
+    const { user, membership } = await getMembership(projectId);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const quotas = await getRateLimitQuotas(projectId);
+    return NextResponse.json({
+      quotas,
+      defaults: {
+        api_key: {
+          algorithm: 'sliding_window',
+          max_requests: RateLimits.MCP_API_KEY.maxRequests,
+          window_seconds: RateLimits.MCP_API_KEY.windowMs / 1000,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('[Rate Limits API] GET error:', error);
+    return NextResponse.json({ error: 'Failed to load rate limit quotas' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params;
+    const { user, membership, supabase } = await getMembership(projectId);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!membership || membership.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const validation = ReplaceQuotasSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { quotas } = validation.data;
+
+    // One quota per subject (or default) and scope
+    const seen = new Set<string>();
+    for (const quota of quotas) {
+      const id = `${quota.scope}:${quota.subject ?? ''}`;
+      if (seen.has(id)) {
+        return NextResponse.json(
+          { error: `Duplicate ${quota.scope} quota for ${quota.subject ?? 'the default'}` },
+          { status: 400 }
+        );
+      }
+      seen.add(id);
+    }
+
+    // API key quotas must name keys of this project
+    const keyIds = [...new Set(quotas.filter((q) => q.scope === 'api_key' && q.subject).map((q) => q.subject!))];
+    if (keyIds.length > 0) {
+      const { data: keys } = await supabase
+        .from('project_api_keys')
+        .select('id')
+        .eq('project_id', projectId)
+        .in('id', keyIds);
+
+      const known = new Set((keys || []).map((k: { id: string }) => k.id));
+      const unknown = keyIds.filter((id) => !known.has(id));
+      if (unknown.length > 0) {
+        return NextResponse.json(
+          { error: `API keys not found in this project: ${unknown.join(', ')}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const saved = await replaceRateLimitQuotas(projectId, quotas, user.id);
+    return NextResponse.json({ quotas: saved });
+  } catch (error) {
+    console.error('[Rate Limits API] PUT error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save rate limit quotas' },
+      { status: 500 }
+    );
+  }
+}
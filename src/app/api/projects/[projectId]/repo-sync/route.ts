@@ -0,0 +1,63 @@
+/**
+ * Repository Sync API
+ * POST /api/projects/:projectId/repo-sync - Index the docs directory from an uploaded git bundle
+ *
+ * Body: raw bundle bytes (git bundle create docs.bundle HEAD)
+ * Query: ?docs_path=docs&ref=HEAD&dry_run=true (all optional)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { syncRepository, withUploadedBundle } from '@/lib/quoth/repo-sync';
+
+export const maxDuration = 60;
+
+interface RouteParams {
+  params: Promise<{ projectId: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params;
+    const supabase = await createServerSupabaseClient();
+
+    // 1. Authenticate and verify admin
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabase
+      .from('project_members')
+      .select('role')
+      .eq('project_id', projectId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!membership || membership.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    // 2. Sync the uploaded bundle
+    const { searchParams } = request.nextUrl;
+    return await withUploadedBundle(request, async (source) => {
+      const result = await syncRepository(projectId, source, {
+        docsPath: searchParams.get('docs_path') ?? undefined,
+        ref: searchParams.get('ref') ?? undefined,
+        dryRun: searchParams.get('dry_run') === 'true',
+        userId: user.id,
+      });
+
+      return NextResponse.json({ result });
+    });
+  } catch (error) {
+    console.error('[Repo Sync API] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Repository sync failed' },
+      { status: 500 }
+    );
+  }
+}
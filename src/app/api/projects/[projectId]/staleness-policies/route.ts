@@ -0,0 +1,96 @@
+/**
+ * Staleness Policies API
+ * GET /api/projects/:projectId/staleness-policies - List the project's rules (in match order)
+ * PUT /api/projects/:projectId/staleness-policies - Replace all rules (admin only)
+ *
+ * PUT body: { rules: [{ doc_type?, path_pattern?, max_age_days }] }. The last matching
+ * rule wins; documents without a match use the default thresholds.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import {
+  StalenessPolicyRuleInputSchema,
+  getStalenessRules,
+  replaceStalenessRules,
+} from '@/lib/quoth/staleness-policy';
+import { DEFAULT_THRESHOLDS } from '@/lib/quoth/health';
+
+interface RouteParams {
+  params: Promise<{ projectId: string }>;
+}
+
+const ReplaceRulesSchema = z.object({
+  rules: z.array(StalenessPolicyRuleInputSchema).max(100),
+});
+
+async function getMembership(projectId: string) {
+  const supabase = await createServerSupabaseClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { user: null, membership: null };
+
+  const { data: membership } = await supabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', projectId)
+    .eq('user_id', user.id)
+    .single();
+
+  return { user, membership };
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params;
+    const { user, membership } = await getMembership(projectId);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!membership) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const rules = await getStalenessRules(projectId);
+    return NextResponse.json({ rules, defaults: DEFAULT_THRESHOLDS });
+  } catch (error) {
+    console.error('[Staleness Policies API] GET error:', error);
+    return NextResponse.json({ error: 'Failed to load staleness policies' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { projectId } = await params;
+    const { user, membership } = await getMembership(projectId);
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!membership || membership.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const validation = ReplaceRulesSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const rules = await replaceStalenessRules(projectId, validation.data.rules, user.id);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('[Staleness Policies API] PUT error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save staleness policies' },
+      { status: 500 }
+    );
+  }
+}
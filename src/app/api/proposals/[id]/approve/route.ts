@@ -1,13 +1,29 @@
 /**
  * Proposals API - Approve Endpoint
  * POST /api/proposals/:id/approve - Approve proposal and apply to knowledge base
- * Requires authentication and admin role
+ * Requires authentication and a reviewer role under the path's approval policy
+ *
+ * Each call records a vote. Proposals whose policy needs several approvals
+ * stay pending (202) until enough distinct reviewers have approved.
+ *
+ * If the document changed since the proposal was created, the proposed content
+ * is three-way merged into the current document (base = original_content).
+ * Overlapping edits mark the proposal 'conflict' and return 409 with the hunks.
  */
 
 import { z } from 'zod';
 import { createServerSupabaseClient } from '@/lib/supabase/server';
 import { supabase } from '@/lib/supabase';
 import { syncDocument } from '@/lib/sync';
+import { mergeProposal } from '@/lib/quoth/merge';
+import {
+  getApprovalPolicy,
+  canReview,
+  tallyApprovals,
+  describeApprovalPolicy,
+  type ApprovalVote,
+} from '@/lib/quoth/approval-policy';
+import { resolveDriftForProposal } from '@/lib/quoth/drift';
 import { sendApprovalNotification } from '@/lib/email';
 
 const ApproveSchema = z.object({
@@ -65,7 +81,7 @@ export async function POST(
       return Response.json({ error: 'Proposal not found' }, { status: 404 });
     }
 
-    // 5. Verify user is admin of the proposal's project
+    // 5. Verify user may review this path under the project's approval policy
     const { data: membership, error: membershipError } = await authSupabase
       .from('project_members')
       .select('role')
@@ -80,36 +96,140 @@ export async function POST(
       );
     }
 
-    if (membership.role !== 'admin') {
+    const policy = await getApprovalPolicy(proposal.project_id, proposal.file_path);
+
+    if (!canReview(policy, user.id, membership.role)) {
       return Response.json(
-        { error: 'Only admins can approve proposals.' },
+        { error: `You are not a reviewer for this document. Requires ${describeApprovalPolicy(policy)}.` },
         { status: 403 }
       );
     }
 
-    // 6. Validate status
-    if (proposal.status !== 'pending') {
+    if (!policy.allow_self_approval && proposal.proposed_by === user.id) {
+      return Response.json(
+        { error: 'You cannot approve a proposal submitted with your own token.' },
+        { status: 403 }
+      );
+    }
+
+    // 6. Validate status (conflicted proposals can be retried, resolved or rejected)
+    if (proposal.status !== 'pending' && proposal.status !== 'conflict') {
       return Response.json(
         { error: `Cannot approve proposal with status: ${proposal.status}` },
         { status: 400 }
       );
     }
 
-    // 7. Update status to 'approved'
-    const { error: updateError } = await supabase
+    // 7. Record the vote and check the policy's approval count: each
+    // reviewer's latest vote on this revision counts (votes on earlier
+    // revisions do not), earlier votes stay as the audit trail
+    const { error: voteError } = await supabase
+      .from('proposal_approvals')
+      .insert({
+        proposal_id: id,
+        user_id: user.id,
+        reviewer_email: profile.email,
+        reviewer_role: membership.role,
+        decision: 'approve',
+        notes: validation.data.notes ?? null,
+        policy_id: policy.policy_id,
+        revision: proposal.revision,
+      });
+
+    if (voteError) {
+      throw new Error(`Failed to record approval: ${voteError.message}`);
+    }
+
+    const { data: votes } = await supabase
+      .from('latest_proposal_votes')
+      .select('user_id, reviewer_email, reviewer_role, decision')
+      .eq('proposal_id', id)
+      .eq('revision', proposal.revision);
+
+    const { data: members } = await supabase
+      .from('project_members')
+      .select('user_id, role')
+      .eq('project_id', proposal.project_id);
+
+    const tally = tallyApprovals(
+      (votes || []) as ApprovalVote[],
+      policy,
+      proposal.proposed_by ?? null,
+      new Map((members || []).map((m: { user_id: string; role: string }) => [m.user_id, m.role]))
+    );
+
+    if (!tally.satisfied) {
+      return Response.json(
+        {
+          success: true,
+          status: proposal.status,
+          message: `Approval recorded (${tally.approvals} of ${tally.required})`,
+          approvals: tally.approvals,
+          required_approvals: tally.required,
+        },
+        { status: 202 }
+      );
+    }
+
+    // 8. Merge with edits made to the document since the proposal was created
+    const { data: currentDoc } = await supabase
+      .from('documents')
+      .select('content')
+      .eq('project_id', proposal.project_id)
+      .eq('file_path', proposal.file_path)
+      .maybeSingle();
+
+    const merge = mergeProposal(proposal.original_content, currentDoc?.content ?? null, proposal.proposed_content);
+
+    if (!merge.clean) {
+      const { error: conflictError } = await supabase
+        .from('document_proposals')
+        .update({ status: 'conflict', conflicts: merge.conflicts })
+        .eq('id', id)
+        .eq('status', proposal.status)
+        .eq('revision', proposal.revision);
+
+      if (conflictError) {
+        throw new Error(`Failed to update proposal: ${conflictError.message}`);
+      }
+
+      return Response.json(
+        {
+          error: 'The document changed since this proposal was created and the edits overlap',
+          conflicts: merge.conflicts,
+        },
+        { status: 409 }
+      );
+    }
+
+    const { content, merged } = merge;
+
+    // 9. Update status to 'approved', unless a concurrent approval, rejection
+    // or revision got there first (only the request that moves it applies it)
+    const { data: approved, error: updateError } = await supabase
       .from('document_proposals')
       .update({
         status: 'approved',
         reviewed_at: new Date().toISOString(),
-        reviewed_by: profile.email
+        reviewed_by: tally.approvers.join(', ')
       })
-      .eq('id', id);
+      .eq('id', id)
+      .eq('status', proposal.status)
+      .eq('revision', proposal.revision)
+      .select('id');
 
     if (updateError) {
       throw new Error(`Failed to update proposal: ${updateError.message}`);
     }
 
-    // 8. Apply changes directly to Supabase and re-index
+    if (!approved || approved.length === 0) {
+      return Response.json(
+        { error: 'The proposal changed while it was being approved. Reload it and review again.' },
+        { status: 409 }
+      );
+    }
+
+    // 10. Apply changes directly to Supabase and re-index
     try {
       const title = proposal.file_path.replace('.md', '').split('/').pop() || proposal.file_path;
       
@@ -117,24 +237,38 @@ export async function POST(
         proposal.project_id,
         proposal.file_path,
         title,
-        proposal.proposed_content
+        content,
+        undefined,
+        undefined,
+        undefined,
+        { userId: proposal.proposed_by, source: 'proposal' }
       );
 
       await supabase
         .from('document_proposals')
         .update({
           status: 'applied',
-          applied_at: new Date().toISOString()
+          applied_at: new Date().toISOString(),
+          conflicts: null
         })
         .eq('id', id);
 
+      // Drift events this proposal was drafted for are fixed now
+      const driftResolved = await resolveDriftForProposal(id, user.id);
+
       // Send email notification (fire and forget)
-      sendApprovalNotification({ ...proposal, reviewed_by: profile.email })
+      sendApprovalNotification({ ...proposal, reviewed_by: tally.approvers.join(', ') })
         .catch((err) => console.error('Email notification failed:', err));
 
       return Response.json({
         success: true,
-        message: 'Proposal approved and applied to knowledge base',
+        message: merged
+          ? 'Proposal approved and merged with newer document changes'
+          : 'Proposal approved and applied to knowledge base',
+        merged,
+        drift_resolved: driftResolved,
+        approvals: tally.approvals,
+        required_approvals: tally.required,
         document: { 
           id: document.id, 
           version: document.version, 
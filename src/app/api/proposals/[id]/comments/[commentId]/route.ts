@@ -0,0 +1,91 @@
+/**
+ * Proposals API - Review Comment
+ * PATCH /api/proposals/:id/comments/:commentId - Resolve or reopen a thread
+ * Requires authentication and editor or admin role
+ */
+
+import { z } from 'zod';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { supabase } from '@/lib/supabase';
+
+const UpdateCommentSchema = z.object({
+  resolved: z.boolean(),
+});
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const { id, commentId } = await params;
+    const authSupabase = await createServerSupabaseClient();
+
+    // 1. Authenticate user
+    const {
+      data: { user },
+      error: authError,
+    } = await authSupabase.auth.getUser();
+
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Validate request body
+    const validation = UpdateCommentSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return Response.json(
+        { error: 'Invalid request data', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    // 3. Fetch proposal and verify role
+    const { data: proposal } = await supabase
+      .from('document_proposals')
+      .select('project_id')
+      .eq('id', id)
+      .single();
+
+    if (!proposal) {
+      return Response.json({ error: 'Proposal not found' }, { status: 404 });
+    }
+
+    const { data: membership } = await authSupabase
+      .from('project_members')
+      .select('role')
+      .eq('project_id', proposal.project_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!membership || membership.role === 'viewer') {
+      return Response.json(
+        { error: 'Only editors and admins can resolve review comments.' },
+        { status: 403 }
+      );
+    }
+
+    // 4. Update the thread
+    const { data: comment, error: updateError } = await supabase
+      .from('proposal_comments')
+      .update({ resolved: validation.data.resolved })
+      .eq('id', commentId)
+      .eq('proposal_id', id)
+      .select('id, resolved')
+      .maybeSingle();
+
+    if (updateError) {
+      throw new Error(`Failed to update comment: ${updateError.message}`);
+    }
+    if (!comment) {
+      return Response.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    return Response.json({ comment });
+  } catch (error) {
+    console.error('Error updating proposal comment:', error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Proposals API - Review Comments
+ * GET  /api/proposals/:id/comments - List comment threads
+ * POST /api/proposals/:id/comments - Add a comment (optionally on a line) or a reply
+ * Requires authentication and project membership (editors and admins can comment)
+ */
+
+import { z } from 'zod';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { supabase } from '@/lib/supabase';
+import {
+  addProposalComment,
+  buildCommentThreads,
+  getProposalComments,
+} from '@/lib/quoth/proposal-review';
+
+const CommentSchema = z.object({
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(10000),
+  line: z.number().int().positive().nullable().optional(),
+  parent_id: z.string().uuid().nullable().optional(),
+});
+
+async function authorize(id: string) {
+  const authSupabase = await createServerSupabaseClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await authSupabase.auth.getUser();
+
+  if (authError || !user) {
+    return { error: Response.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: proposal } = await supabase
+    .from('document_proposals')
+    .select('id, project_id, revision, proposed_content')
+    .eq('id', id)
+    .single();
+
+  if (!proposal) {
+    return { error: Response.json({ error: 'Proposal not found' }, { status: 404 }) };
+  }
+
+  const { data: membership } = await authSupabase
+    .from('project_members')
+    .select('role')
+    .eq('project_id', proposal.project_id)
+    .eq('user_id', user.id)
+    .single();
+
+  if (!membership) {
+    return {
+      error: Response.json(
+        { error: 'Access denied. You are not a member of this project.' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user, proposal, membership, authSupabase };
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authorize(id);
+    if (auth.error) return auth.error;
+
+    const comments = await getProposalComments(id);
+    return Response.json({ threads: buildCommentThreads(comments, auth.proposal.revision) });
+  } catch (error) {
+    console.error('Error listing proposal comments:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const auth = await authorize(id);
+    if (auth.error) return auth.error;
+
+    if (auth.membership.role === 'viewer') {
+      return Response.json({ error: 'Viewers cannot comment on proposals.' }, { status: 403 });
+    }
+
+    const validation = CommentSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return Response.json(
+        { error: 'Invalid request data', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { data: profile } = await auth.authSupabase
+      .from('profiles')
+      .select('email')
+      .eq('id', auth.user.id)
+      .single();
+
+    try {
+      const comment = await addProposalComment(auth.proposal, {
+        ...validation.data,
+        author_type: 'user',
+        author_id: auth.user.id,
+        author_name: profile?.email ?? auth.user.email ?? 'reviewer',
+      });
+      return Response.json({ comment }, { status: 201 });
+    } catch (error) {
+      // Bad anchor (line out of range, unknown parent)
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Invalid comment' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error adding proposal comment:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Proposals API - Patch Endpoint
+ * GET /api/proposals/:id/patch - Download an applied proposal as a `git am`-ready patch
+ * Requires authentication and project access
+ *
+ * The patch is based on the proposal's original content, so it applies cleanly
+ * when the repository file still matches what the knowledge base had.
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getExportableProposals, exportProposals } from '@/lib/quoth/proposal-export';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createServerSupabaseClient();
+
+    // 1. Authenticate user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Fetch proposal
+    const { data: proposal, error } = await supabase
+      .from('document_proposals')
+      .select('id, project_id, status')
+      .eq('id', id)
+      .single();
+
+    if (error || !proposal) {
+      return Response.json({ error: 'Proposal not found' }, { status: 404 });
+    }
+
+    // 3. Verify user has access to the proposal's project
+    const { data: membership } = await supabase
+      .from('project_members')
+      .select('role')
+      .eq('project_id', proposal.project_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!membership) {
+      return Response.json(
+        { error: 'Access denied. You are not a member of this project.' },
+        { status: 403 }
+      );
+    }
+
+    if (proposal.status !== 'applied') {
+      return Response.json(
+        { error: `Only applied proposals can be exported (status: ${proposal.status})` },
+        { status: 400 }
+      );
+    }
+
+    // 4. Build the patch (downloading does not mark the proposal as exported)
+    const proposals = await getExportableProposals(proposal.project_id, [proposal.id]);
+    const result = await exportProposals(proposal.project_id, proposals, { format: 'patch', dryRun: true });
+
+    const [exported] = result.exported;
+    if (!exported) {
+      return Response.json({ error: 'Proposal does not change the document' }, { status: 422 });
+    }
+
+    return new Response(exported.patch, {
+      headers: {
+        'Content-Type': 'text/x-patch; charset=utf-8',
+        'Content-Disposition': `attachment; filename="proposal-${proposal.id.slice(0, 8)}.patch"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting proposal patch:', error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
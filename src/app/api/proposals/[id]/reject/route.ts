@@ -1,13 +1,14 @@
 /**
  * Proposals API - Reject Endpoint
  * POST /api/proposals/:id/reject - Reject proposal with reason
- * Requires authentication and admin role
+ * Requires authentication and a reviewer role under the path's approval policy
  */
 
 import { z } from 'zod';
 import { createServerSupabaseClient } from '@/lib/supabase/server';
 import { supabase } from '@/lib/supabase';
 import { sendRejectionNotification } from '@/lib/email';
+import { getApprovalPolicy, canReview, describeApprovalPolicy } from '@/lib/quoth/approval-policy';
 
 const RejectSchema = z.object({
   reason: z.string().min(10, 'Rejection reason must be at least 10 characters')
@@ -66,7 +67,7 @@ export async function POST(
       return Response.json({ error: 'Proposal not found' }, { status: 404 });
     }
 
-    // 5. Verify user is admin of the proposal's project
+    // 5. Verify user may review this path under the project's approval policy
     const { data: membership, error: membershipError } = await authSupabase
       .from('project_members')
       .select('role')
@@ -81,22 +82,42 @@ export async function POST(
       );
     }
 
-    if (membership.role !== 'admin') {
+    const policy = await getApprovalPolicy(proposal.project_id, proposal.file_path);
+
+    if (!canReview(policy, user.id, membership.role)) {
       return Response.json(
-        { error: 'Only admins can reject proposals.' },
+        { error: `You are not a reviewer for this document. Requires ${describeApprovalPolicy(policy)}.` },
         { status: 403 }
       );
     }
 
-    // 6. Validate status
-    if (proposal.status !== 'pending') {
+    // 6. Validate status (conflicted proposals can be retried or rejected)
+    if (!['pending', 'conflict', 'changes_requested'].includes(proposal.status)) {
       return Response.json(
         { error: `Cannot reject proposal with status: ${proposal.status}` },
         { status: 400 }
       );
     }
 
-    // 7. Update status to 'rejected'
+    // 7. Record the vote; a single rejection closes the proposal
+    const { error: voteError } = await supabase
+      .from('proposal_approvals')
+      .insert({
+        proposal_id: id,
+        user_id: user.id,
+        reviewer_email: profile.email,
+        reviewer_role: membership.role,
+        decision: 'reject',
+        notes: reason,
+        policy_id: policy.policy_id,
+        revision: proposal.revision,
+      });
+
+    if (voteError) {
+      throw new Error(`Failed to record rejection: ${voteError.message}`);
+    }
+
+    // 8. Update status to 'rejected'
     const { error: updateError } = await supabase
       .from('document_proposals')
       .update({
@@ -111,7 +132,7 @@ export async function POST(
       throw new Error(`Failed to update proposal: ${updateError.message}`);
     }
 
-    // 8. Send email notification (fire and forget)
+    // 9. Send email notification (fire and forget)
     sendRejectionNotification(
       { ...proposal, reviewed_by: profile.email },
       reason
@@ -0,0 +1,155 @@
+/**
+ * Proposals API - Request Changes Endpoint
+ * POST /api/proposals/:id/request-changes - Send a proposal back to its author
+ * Requires authentication and a reviewer role under the path's approval policy
+ *
+ * The summary is recorded as a vote and as a general review comment, and the
+ * proposal moves to 'changes_requested' until the authoring agent submits a
+ * revision with quoth_proposal_feedback.
+ */
+
+import { z } from 'zod';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { supabase } from '@/lib/supabase';
+import { getApprovalPolicy, canReview, describeApprovalPolicy } from '@/lib/quoth/approval-policy';
+import { addProposalComment } from '@/lib/quoth/proposal-review';
+
+const RequestChangesSchema = z.object({
+  summary: z.string().min(10, 'Summary must be at least 10 characters')
+});
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const authSupabase = await createServerSupabaseClient();
+
+    // 1. Authenticate user
+    const {
+      data: { user },
+      error: authError,
+    } = await authSupabase.auth.getUser();
+
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Get user profile for reviewer email
+    const { data: profile, error: profileError } = await authSupabase
+      .from('profiles')
+      .select('email')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      return Response.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    // 3. Validate request body
+    const validation = RequestChangesSchema.safeParse(await request.json());
+
+    if (!validation.success) {
+      return Response.json(
+        { error: 'Invalid request data', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { summary } = validation.data;
+
+    // 4. Fetch proposal
+    const { data: proposal, error: fetchError } = await supabase
+      .from('document_proposals')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !proposal) {
+      return Response.json({ error: 'Proposal not found' }, { status: 404 });
+    }
+
+    // 5. Verify user may review this path under the project's approval policy
+    const { data: membership, error: membershipError } = await authSupabase
+      .from('project_members')
+      .select('role')
+      .eq('project_id', proposal.project_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (membershipError || !membership) {
+      return Response.json(
+        { error: 'Access denied. You are not a member of this project.' },
+        { status: 403 }
+      );
+    }
+
+    const policy = await getApprovalPolicy(proposal.project_id, proposal.file_path);
+
+    if (!canReview(policy, user.id, membership.role)) {
+      return Response.json(
+        { error: `You are not a reviewer for this document. Requires ${describeApprovalPolicy(policy)}.` },
+        { status: 403 }
+      );
+    }
+
+    // 6. Validate status
+    if (proposal.status !== 'pending' && proposal.status !== 'conflict') {
+      return Response.json(
+        { error: `Cannot request changes on proposal with status: ${proposal.status}` },
+        { status: 400 }
+      );
+    }
+
+    // 7. Record the vote and the summary comment
+    const { error: voteError } = await supabase
+      .from('proposal_approvals')
+      .insert({
+        proposal_id: id,
+        user_id: user.id,
+        reviewer_email: profile.email,
+        reviewer_role: membership.role,
+        decision: 'request_changes',
+        notes: summary,
+        policy_id: policy.policy_id,
+        revision: proposal.revision,
+      });
+
+    if (voteError) {
+      throw new Error(`Failed to record vote: ${voteError.message}`);
+    }
+
+    await addProposalComment(proposal, {
+      body: summary,
+      author_type: 'user',
+      author_id: user.id,
+      author_name: profile.email,
+    });
+
+    // 8. Update status to 'changes_requested'
+    const { error: updateError } = await supabase
+      .from('document_proposals')
+      .update({
+        status: 'changes_requested',
+        reviewed_at: new Date().toISOString(),
+        reviewed_by: profile.email
+      })
+      .eq('id', id);
+
+    if (updateError) {
+      throw new Error(`Failed to update proposal: ${updateError.message}`);
+    }
+
+    return Response.json({
+      success: true,
+      message: 'Changes requested'
+    });
+  } catch (error) {
+    console.error('Error in request-changes endpoint:', error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Proposals API - Resolve Conflict Endpoint
+ * POST /api/proposals/:id/resolve - Submit resolved content for a conflicted proposal
+ * Requires authentication and a reviewer role under the path's approval policy
+ *
+ * The resolved content is written against the document as it is now: it is
+ * submitted as a new revision whose merge base is the current document, so
+ * approving it applies without conflicting again.
+ */
+
+import { z } from 'zod';
+import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { supabase } from '@/lib/supabase';
+import { getApprovalPolicy, canReview, describeApprovalPolicy } from '@/lib/quoth/approval-policy';
+import { reviseProposal } from '@/lib/quoth/proposal-review';
+import { hasConflictMarkers } from '@/lib/quoth/merge';
+import { lintDocument } from '@/lib/quoth/doc-lint';
+
+const ResolveSchema = z.object({
+  content: z.string().min(1).max(500000),
+  reasoning: z.string().max(5000).optional(),
+});
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const authSupabase = await createServerSupabaseClient();
+
+    // 1. Authenticate user
+    const {
+      data: { user },
+      error: authError,
+    } = await authSupabase.auth.getUser();
+
+    if (authError || !user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Validate request body
+    const body = await request.json();
+    const validation = ResolveSchema.safeParse(body);
+
+    if (!validation.success) {
+      return Response.json(
+        { error: 'Invalid request data', details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { content, reasoning } = validation.data;
+
+    if (hasConflictMarkers(content)) {
+      return Response.json(
+        { error: 'The content still has conflict markers. Resolve every conflict first.' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Fetch proposal
+    const { data: proposal, error: fetchError } = await supabase
+      .from('document_proposals')
+      .select('id, project_id, file_path, status, revision, proposed_content, reasoning, patch, lint_findings')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !proposal) {
+      return Response.json({ error: 'Proposal not found' }, { status: 404 });
+    }
+
+    // 4. Verify user may review this path under the project's approval policy
+    const { data: membership, error: membershipError } = await authSupabase
+      .from('project_members')
+      .select('role')
+      .eq('project_id', proposal.project_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (membershipError || !membership) {
+      return Response.json(
+        { error: 'Access denied. You are not a member of this project.' },
+        { status: 403 }
+      );
+    }
+
+    const policy = await getApprovalPolicy(proposal.project_id, proposal.file_path);
+
+    if (!canReview(policy, user.id, membership.role)) {
+      return Response.json(
+        { error: `You are not a reviewer for this document. Requires ${describeApprovalPolicy(policy)}.` },
+        { status: 403 }
+      );
+    }
+
+    // 5. Validate status
+    if (proposal.status !== 'conflict') {
+      return Response.json(
+        { error: `Only conflicted proposals can be resolved (status: ${proposal.status})` },
+        { status: 400 }
+      );
+    }
+
+    // 6. Submit the resolution as a revision based on the current document
+    const { data: currentDoc } = await supabase
+      .from('documents')
+      .select('content, checksum')
+      .eq('project_id', proposal.project_id)
+      .eq('file_path', proposal.file_path)
+      .maybeSingle();
+
+    const { data: paths } = await supabase
+      .from('documents')
+      .select('file_path')
+      .eq('project_id', proposal.project_id);
+
+    const lint = lintDocument(proposal.file_path, content, {
+      knownPaths: (paths || []).map((d: { file_path: string }) => d.file_path),
+    });
+
+    const revision = await reviseProposal(proposal, {
+      proposed_content: content,
+      reasoning,
+      lint,
+      base: currentDoc ?? undefined,
+    });
+
+    return Response.json({
+      success: true,
+      message: `Conflicts resolved in revision ${revision}; the proposal is pending review again`,
+      revision,
+      lint,
+    });
+  } catch (error) {
+    console.error('Error in resolve endpoint:', error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,15 @@
 /**
  * Proposals API - Detail Endpoint
- * GET /api/proposals/:id - Get single proposal with all details
+ * GET /api/proposals/:id - Get single proposal with all details,
+ * its approval votes, the approval policy for its path and review comments
+ * (and, for conflicted proposals, the merge with conflict markers to resolve)
  * Requires authentication and project access
  */
 
 import { createServerSupabaseClient } from '@/lib/supabase/server';
+import { getApprovalPolicy, canReview, tallyApprovals, type ApprovalVote } from '@/lib/quoth/approval-policy';
+import { buildCommentThreads, type ProposalComment } from '@/lib/quoth/proposal-review';
+import { mergeProposal } from '@/lib/quoth/merge';
 
 export async function GET(
   request: Request,
@@ -60,7 +65,64 @@ export async function GET(
       );
     }
 
-    return Response.json({ proposal: data });
+    // 4. Approval votes and the policy they are counted against
+    const { data: votes } = await supabase
+      .from('proposal_approvals')
+      .select('id, user_id, reviewer_email, reviewer_role, decision, notes, revision, created_at')
+      .eq('proposal_id', id)
+      .order('created_at', { ascending: true });
+
+    // Each reviewer's latest vote on the current revision counts
+    const { data: latestVotes } = await supabase
+      .from('latest_proposal_votes')
+      .select('user_id, reviewer_email, reviewer_role, decision')
+      .eq('proposal_id', id)
+      .eq('revision', data.revision);
+
+    const { data: comments } = await supabase
+      .from('proposal_comments')
+      .select('*')
+      .eq('proposal_id', id)
+      .order('created_at', { ascending: true });
+
+    const { data: members } = await supabase
+      .from('project_members')
+      .select('user_id, role')
+      .eq('project_id', data.project_id);
+
+    const policy = await getApprovalPolicy(data.project_id, data.file_path);
+    const tally = tallyApprovals(
+      (latestVotes || []) as ApprovalVote[],
+      policy,
+      data.proposed_by ?? null,
+      new Map((members || []).map((m: { user_id: string; role: string }) => [m.user_id, m.role]))
+    );
+
+    // 5. Starting point for resolving conflicts: the merge with conflict markers
+    let conflictDraft: string | null = null;
+    if (data.status === 'conflict') {
+      const { data: currentDoc } = await supabase
+        .from('documents')
+        .select('content')
+        .eq('project_id', data.project_id)
+        .eq('file_path', data.file_path)
+        .maybeSingle();
+
+      conflictDraft = mergeProposal(data.original_content, currentDoc?.content ?? null, data.proposed_content).content;
+    }
+
+    return Response.json({
+      proposal: data,
+      conflict_draft: conflictDraft,
+      approval: {
+        policy,
+        votes: votes || [],
+        approvals: tally.approvals,
+        can_review: canReview(policy, user.id, membership.role)
+          && (policy.allow_self_approval || data.proposed_by !== user.id),
+      },
+      comments: buildCommentThreads((comments || []) as ProposalComment[], data.revision ?? 1),
+    });
   } catch (error) {
     console.error('Error fetching proposal:', error);
     return Response.json(
@@ -0,0 +1,224 @@
+'use client';
+
+/**
+ * Documentation Gaps Component
+ * Suggested documents to write, clustered from missed and low-relevance
+ * searches, with a one-click start from the suggested template
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import {
+  Lightbulb,
+  FilePlus,
+  X,
+  RefreshCw,
+  GitPullRequest,
+  CheckCircle,
+} from 'lucide-react';
+
+interface DocGap {
+  id: string;
+  label: string;
+  representative_queries: string[];
+  query_count: number;
+  miss_count: number;
+  zero_result_count: number;
+  suggested_template: string | null;
+  suggested_path: string | null;
+}
+
+interface DocGapsCardProps {
+  projectId: string;
+}
+
+export function DocGapsCard({ projectId }: DocGapsCardProps) {
+  const [gaps, setGaps] = useState<DocGap[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [started, setStarted] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchGaps = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/gaps`);
+      if (!res.ok) throw new Error('Failed to fetch documentation gaps');
+      const data = await res.json();
+      setGaps(data.gaps || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchGaps();
+  }, [fetchGaps]);
+
+  const postAction = async (body: Record<string, unknown>) => {
+    const res = await fetch(`/api/projects/${projectId}/gaps`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Request failed');
+    return data;
+  };
+
+  const analyze = async () => {
+    setIsAnalyzing(true);
+    setError(null);
+    try {
+      const data = await postAction({ action: 'analyze' });
+      setGaps(data.gaps || []);
+      setStarted({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const startGap = async (gapId: string) => {
+    setBusyId(gapId);
+    setError(null);
+    try {
+      const data = await postAction({ action: 'start', gapId });
+      setStarted((prev) => ({ ...prev, [gapId]: data.proposal_id }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const dismissGap = async (gapId: string) => {
+    setBusyId(gapId);
+    setError(null);
+    try {
+      await postAction({ action: 'dismiss', gapId });
+      setGaps((prev) => prev.filter((gap) => gap.id !== gapId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="glass-panel rounded-2xl p-6 animate-pulse">
+        <div className="h-6 bg-charcoal rounded w-1/3 mb-4" />
+        <div className="h-24 bg-charcoal rounded" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-panel rounded-2xl p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-violet-spectral/15">
+            <Lightbulb className="w-5 h-5 text-violet-spectral" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-white">Suggested Documents</h3>
+            <p className="text-sm text-gray-500">Clustered from missed searches (last 30 days)</p>
+          </div>
+        </div>
+        <button
+          onClick={analyze}
+          disabled={isAnalyzing}
+          className="p-2 rounded-lg hover:bg-charcoal/50 transition-colors disabled:opacity-50"
+          title="Re-run gap analysis"
+        >
+          <RefreshCw className={`w-4 h-4 text-gray-500 ${isAnalyzing ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+      {gaps.length === 0 ? (
+        <div className="text-center py-4 border-t border-white/5">
+          <div className="flex items-center justify-center gap-2 text-emerald-400">
+            <CheckCircle className="w-5 h-5" />
+            <span className="text-sm font-medium">No documentation gaps found</span>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {gaps.map((gap) => (
+            <div
+              key={gap.id}
+              className="p-4 rounded-xl bg-charcoal/50 border border-white/5 hover:border-violet-spectral/30 transition-colors"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-200 font-medium">&quot;{gap.label}&quot;</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {gap.miss_count} missed searches · {gap.query_count} distinct queries
+                    {gap.zero_result_count > 0 && ` · ${gap.zero_result_count} with no results`}
+                  </p>
+                  {gap.representative_queries.length > 1 && (
+                    <ul className="mt-2 space-y-0.5">
+                      {gap.representative_queries.slice(1).map((query) => (
+                        <li key={query} className="text-xs text-gray-400 truncate max-w-[480px]">
+                          &quot;{query}&quot;
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {gap.suggested_path && (
+                    <p className="text-xs text-gray-500 mt-2 truncate">
+                      <code>{gap.suggested_path}</code>
+                      {gap.suggested_template && ` from ${gap.suggested_template}`}
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2 shrink-0">
+                  {started[gap.id] ? (
+                    <Link
+                      href={`/proposals/${started[gap.id]}`}
+                      className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg
+                        bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                    >
+                      <GitPullRequest className="w-3.5 h-3.5" />
+                      Open Draft
+                    </Link>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => startGap(gap.id)}
+                        disabled={busyId === gap.id}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg
+                          bg-violet-spectral/20 text-violet-ghost hover:bg-violet-spectral/30
+                          border border-violet-spectral/30 transition-all disabled:opacity-50"
+                        title="Draft this document from the suggested template"
+                      >
+                        <FilePlus className="w-3.5 h-3.5" />
+                        Start Doc
+                      </button>
+                      <button
+                        onClick={() => dismissGap(gap.id)}
+                        disabled={busyId === gap.id}
+                        className="p-1.5 rounded-lg hover:bg-charcoal transition-all disabled:opacity-50"
+                        title="Dismiss suggestion"
+                      >
+                        <X className="w-4 h-4 text-gray-500" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -19,7 +19,10 @@ import {
   Clock,
   Filter,
   RefreshCw,
+  GitPullRequest,
+  Wand2,
 } from 'lucide-react';
+import Link from 'next/link';
 
 // Types matching the API response
 type DriftSeverity = 'info' | 'warning' | 'critical';
@@ -39,6 +42,8 @@ interface DriftEvent {
   resolved: boolean;
   resolvedAt?: string;
   detectedAt: string;
+  proposalId?: string;
+  proposalStatus?: string;
 }
 
 interface DriftSummary {
@@ -86,6 +91,9 @@ const driftTypeLabels: Record<DriftType, string> = {
   pattern_violation: 'Pattern Violation',
 };
 
+// Proposal statuses that still may be applied
+const OPEN_PROPOSAL_STATUSES = ['pending', 'conflict', 'changes_requested'];
+
 // Format relative time
 function formatRelativeTime(dateString: string): string {
   const date = new Date(dateString);
@@ -110,6 +118,8 @@ export function DriftTimeline({ projectId }: DriftTimelineProps) {
   const [showResolved, setShowResolved] = useState(false);
   const [expandedEvents, setExpandedEvents] = useState<Set<string>>(new Set());
   const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [proposingId, setProposingId] = useState<string | null>(null);
+  const [proposeError, setProposeError] = useState<{ eventId: string; message: string } | null>(null);
 
   const fetchDriftData = useCallback(async () => {
     try {
@@ -165,6 +175,28 @@ export function DriftTimeline({ projectId }: DriftTimelineProps) {
     }
   };
 
+  const handlePropose = async (eventId: string) => {
+    try {
+      setProposingId(eventId);
+      setProposeError(null);
+      const res = await fetch(`/api/projects/${projectId}/drift`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'propose', driftId: eventId }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to draft proposal');
+
+      // Refresh data to show the linked proposal
+      await fetchDriftData();
+    } catch (err) {
+      setProposeError({ eventId, message: err instanceof Error ? err.message : 'Failed to draft proposal' });
+    } finally {
+      setProposingId(null);
+    }
+  };
+
   // Loading state
   if (isLoading) {
     return (
@@ -276,6 +308,14 @@ export function DriftTimeline({ projectId }: DriftTimelineProps) {
             const isExpanded = expandedEvents.has(event.id);
             const isResolving = resolvingId === event.id;
             const hasDetails = event.expectedPattern || event.actualCode;
+            const isProposing = proposingId === event.id;
+            const hasOpenProposal =
+              event.proposalId && OPEN_PROPOSAL_STATUSES.includes(event.proposalStatus || '');
+            const canPropose =
+              !event.resolved &&
+              !hasOpenProposal &&
+              Boolean(event.documentId || event.docPath) &&
+              Boolean(event.expectedPattern && event.actualCode);
 
             return (
               <div
@@ -365,6 +405,39 @@ export function DriftTimeline({ projectId }: DriftTimelineProps) {
                           </button>
                         )}
 
+                        {/* Linked Proposal */}
+                        {event.proposalId && (hasOpenProposal || event.resolved) && (
+                          <Link
+                            href={`/proposals/${event.proposalId}`}
+                            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-violet-spectral/15 text-violet-ghost hover:bg-violet-spectral/25 transition-colors flex items-center gap-1"
+                          >
+                            <GitPullRequest className="w-3 h-3" />
+                            Proposal
+                          </Link>
+                        )}
+
+                        {/* Draft Fix Button */}
+                        {canPropose && (
+                          <button
+                            onClick={() => handlePropose(event.id)}
+                            disabled={isProposing}
+                            title="Draft a proposal that updates the document to match the code"
+                            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-violet-spectral/15 text-violet-ghost hover:bg-violet-spectral/25 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                          >
+                            {isProposing ? (
+                              <>
+                                <RefreshCw className="w-3 h-3 animate-spin" />
+                                Drafting...
+                              </>
+                            ) : (
+                              <>
+                                <Wand2 className="w-3 h-3" />
+                                Draft Fix
+                              </>
+                            )}
+                          </button>
+                        )}
+
                         {/* Resolve Button */}
                         {!event.resolved && (
                           <button
@@ -388,6 +461,10 @@ export function DriftTimeline({ projectId }: DriftTimelineProps) {
                       </div>
                     </div>
                   </div>
+
+                  {proposeError?.eventId === event.id && (
+                    <p className="mt-3 text-xs text-red-400">{proposeError.message}</p>
+                  )}
                 </div>
 
                 {/* Expanded Details */}
@@ -17,10 +17,12 @@ import {
   ExternalLink,
   RefreshCw,
   Info,
+  BadgeCheck,
 } from 'lucide-react';
 
 // Types matching the API response structure
 type StalenessLevel = 'fresh' | 'aging' | 'stale' | 'critical';
+type StalenessSource = 'default' | 'policy' | 'review_by' | 'code';
 
 interface DocumentHealth {
   documentId: string;
@@ -31,7 +33,11 @@ interface DocumentHealth {
     daysStale: number;
     lastUpdated: string;
     suggestedAction?: string;
+    source: StalenessSource;
+    staleAt: string;
+    lastVerified: string | null;
   };
+  policy: string;
   lastReadCount: number;
   searchHitRate: number;
 }
@@ -87,6 +93,8 @@ export function HealthDashboard({ projectId }: HealthDashboardProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showLegend, setShowLegend] = useState(false);
+  const [verifyingId, setVerifyingId] = useState<string | null>(null);
+  const [verifyError, setVerifyError] = useState<string | null>(null);
 
   const fetchHealthData = async () => {
     setIsLoading(true);
@@ -104,6 +112,23 @@ export function HealthDashboard({ projectId }: HealthDashboardProps) {
     }
   };
 
+  // Confirm a document is still accurate; resets staleness without editing it
+  const verifyDocument = async (documentId: string) => {
+    setVerifyingId(documentId);
+    setVerifyError(null);
+
+    try {
+      const res = await fetch(`/api/knowledge-base/${documentId}/verify`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to verify document');
+      await fetchHealthData();
+    } catch (err) {
+      setVerifyError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setVerifyingId(null);
+    }
+  };
+
   useEffect(() => {
     fetchHealthData();
   }, [projectId]);
@@ -249,7 +274,7 @@ export function HealthDashboard({ projectId }: HealthDashboardProps) {
       {/* Legend (collapsible) */}
       {showLegend && (
         <div className="mb-6 p-4 rounded-xl bg-charcoal/50 border border-white/5">
-          <h4 className="text-sm font-semibold text-white mb-3">Staleness Thresholds</h4>
+          <h4 className="text-sm font-semibold text-white mb-3">Default Staleness Thresholds</h4>
           <div className="grid grid-cols-2 gap-3 text-sm">
             <div className="flex items-center gap-2">
               <div className="w-3 h-3 rounded-full bg-emerald-400" />
@@ -268,6 +293,10 @@ export function HealthDashboard({ projectId }: HealthDashboardProps) {
               <span className="text-gray-400">Critical: &gt;60 days</span>
             </div>
           </div>
+          <p className="text-xs text-gray-500 mt-3">
+            Project staleness policies and a document&apos;s <code>review_by</code> date
+            override these defaults. Verifying a document restarts its clock.
+          </p>
         </div>
       )}
 
@@ -452,6 +481,11 @@ export function HealthDashboard({ projectId }: HealthDashboardProps) {
                       <p className="text-xs text-gray-500 truncate max-w-[300px]">
                         {doc.filePath}
                       </p>
+                      {doc.staleness.suggestedAction && (
+                        <p className="text-xs text-gray-500 truncate max-w-[300px]" title={doc.policy}>
+                          {doc.staleness.suggestedAction}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-3 shrink-0">
@@ -463,6 +497,14 @@ export function HealthDashboard({ projectId }: HealthDashboardProps) {
                         {doc.staleness.daysStale} days ago
                       </p>
                     </div>
+                    <button
+                      onClick={() => verifyDocument(doc.documentId)}
+                      disabled={verifyingId === doc.documentId}
+                      className="p-1.5 rounded-lg hover:bg-charcoal transition-all disabled:opacity-50"
+                      title="Mark as verified (still accurate)"
+                    >
+                      <BadgeCheck className="w-4 h-4 text-emerald-400" />
+                    </button>
                     <a
                       href={`/dashboard/documents/${doc.documentId}`}
                       className="p-1.5 rounded-lg opacity-0 group-hover:opacity-100
@@ -477,11 +519,8 @@ export function HealthDashboard({ projectId }: HealthDashboardProps) {
             })}
           </div>
 
-          {documentsNeedingAttention[0]?.staleness.suggestedAction && (
-            <p className="text-xs text-gray-500 mt-3 flex items-center gap-1">
-              <Info className="w-3 h-3" />
-              Suggested: {documentsNeedingAttention[0]?.staleness.suggestedAction}
-            </p>
+          {verifyError && (
+            <p className="text-xs text-red-400 mt-3">{verifyError}</p>
           )}
         </div>
       )}
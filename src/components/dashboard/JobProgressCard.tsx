@@ -0,0 +1,121 @@
+'use client';
+
+/**
+ * Job Progress Card Component
+ * Shows background jobs (reindex) with live progress.
+ * Polls every 3 seconds while a job is queued or running; hidden when there are no jobs.
+ */
+
+import useSWR from 'swr';
+import { Loader2, CheckCircle2, XCircle, Clock, RefreshCw } from 'lucide-react';
+import { fetcher } from '@/lib/swr';
+
+interface JobSummary {
+  id: string;
+  type: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  totalItems: number;
+  completedItems: number;
+  failedItems: number;
+  createdAt: string;
+  completedAt: string | null;
+  progress: {
+    processed: number;
+    remaining: number;
+    percent: number;
+    etaSeconds: number | null;
+  };
+}
+
+interface JobsResponse {
+  jobs: JobSummary[];
+}
+
+interface JobProgressCardProps {
+  projectId: string;
+}
+
+function isActive(job: JobSummary): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+function formatEta(etaSeconds: number | null): string {
+  if (etaSeconds === null) return 'estimating…';
+  if (etaSeconds < 60) return `${etaSeconds}s left`;
+  return `~${Math.round(etaSeconds / 60)} min left`;
+}
+
+function StatusIcon({ status }: { status: JobSummary['status'] }) {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="w-4 h-4 text-violet-spectral animate-spin" />;
+    case 'queued':
+      return <Clock className="w-4 h-4 text-amber-warning" />;
+    case 'completed':
+      return <CheckCircle2 className="w-4 h-4 text-emerald-muted" />;
+    default:
+      return <XCircle className="w-4 h-4 text-red-400" />;
+  }
+}
+
+export function JobProgressCard({ projectId }: JobProgressCardProps) {
+  const { data } = useSWR<JobsResponse>(
+    `/api/projects/${projectId}/jobs`,
+    fetcher,
+    {
+      revalidateOnFocus: true,
+      refreshInterval: (latest) => (latest?.jobs.some(isActive) ? 3000 : 0),
+    }
+  );
+
+  const jobs = data?.jobs ?? [];
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="glass-panel rounded-2xl p-6">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 rounded-xl bg-violet-spectral/15">
+          <RefreshCw className="w-5 h-5 text-violet-spectral" />
+        </div>
+        <div>
+          <h3 className="text-lg font-bold text-white">Background Jobs</h3>
+          <p className="text-sm text-gray-500">Reindexing progress</p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {jobs.map((job) => (
+          <div key={job.id}>
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-2">
+                <StatusIcon status={job.status} />
+                <span className="text-sm font-medium text-white capitalize">{job.type}</span>
+                <span className="text-xs text-gray-500">
+                  {new Date(job.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <span className="text-xs text-gray-400 font-mono">
+                {job.progress.processed}/{job.totalItems} docs
+                {isActive(job) && ` · ${formatEta(job.progress.etaSeconds)}`}
+              </span>
+            </div>
+            <div className="h-1.5 rounded-full bg-charcoal overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-all duration-500 ${
+                  job.failedItems > 0 ? 'bg-amber-warning' : 'bg-violet-spectral'
+                }`}
+                style={{ width: `${job.progress.percent}%` }}
+              />
+            </div>
+            {job.failedItems > 0 && (
+              <p className="text-xs text-amber-warning mt-1">
+                {job.failedItems} document{job.failedItems !== 1 ? 's' : ''} failed (previous embeddings kept)
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
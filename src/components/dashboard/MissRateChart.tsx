@@ -191,7 +191,7 @@ export function MissRateChart({ projectId }: MissRateChartProps) {
                 ))}
               </div>
               <p className="text-xs text-gray-500 mt-3">
-                Consider documenting these topics to reduce miss rate
+                See Suggested Documents for what to write next
               </p>
             </div>
           )}
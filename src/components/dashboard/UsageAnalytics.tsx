@@ -3,7 +3,7 @@
 /**
  * Usage Analytics Component
  * Displays MCP usage statistics with period selection, stat cards,
- * and integrated Phase 3 insight components (HealthDashboard, MissRateChart, DriftTimeline)
+ * and integrated Phase 3 insight components (HealthDashboard, MissRateChart, DocGapsCard, DriftTimeline)
  */
 
 import { useState, useEffect, Suspense } from 'react';
@@ -14,12 +14,14 @@ import {
   FileText,
   TrendingUp,
   Activity,
+  Gauge,
 } from 'lucide-react';
 
 // Phase 3 Insight Components
 import { HealthDashboard } from './HealthDashboard';
 import { MissRateChart } from './MissRateChart';
 import { DriftTimeline } from './DriftTimeline';
+import { DocGapsCard } from './DocGapsCard';
 
 type Period = '7d' | '30d' | '90d';
 
@@ -31,10 +33,24 @@ interface UsageStats {
   avgResultsPerSearch: number;
 }
 
+type UsageMetric = 'semantic_search' | 'rag_answer';
+
+interface BilledUsage {
+  tier: 'free' | 'pro' | 'team';
+  usage: Record<UsageMetric, { today: number; month: number; dailyLimit: number }>;
+  perDay: Record<string, Partial<Record<UsageMetric, number>>>;
+}
+
+const metricLabels: Record<UsageMetric, string> = {
+  semantic_search: 'Semantic searches',
+  rag_answer: 'AI answers',
+};
+
 export function UsageAnalytics() {
   const { profile, session } = useAuth();
   const [period, setPeriod] = useState<Period>('7d');
   const [stats, setStats] = useState<UsageStats | null>(null);
+  const [billed, setBilled] = useState<BilledUsage | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -49,14 +65,12 @@ export function UsageAnalytics() {
       setError(null);
 
       try {
-        const res = await fetch(
-          `/api/analytics/usage?project_id=${profile.default_project_id}&period=${period}`,
-          {
-            headers: {
-              Authorization: `Bearer ${session.access_token}`,
-            },
-          }
-        );
+        const query = `project_id=${profile.default_project_id}&period=${period}`;
+        const headers = { Authorization: `Bearer ${session.access_token}` };
+        const [res, billedRes] = await Promise.all([
+          fetch(`/api/analytics/usage?${query}`, { headers }),
+          fetch(`/api/analytics/usage/billed?${query}`, { headers }),
+        ]);
 
         if (!res.ok) {
           const data = await res.json();
@@ -65,6 +79,8 @@ export function UsageAnalytics() {
 
         const data = await res.json();
         setStats(data);
+        // Billed usage is supplementary; keep the page if it is unavailable
+        setBilled(billedRes.ok ? await billedRes.json() : null);
       } catch (err) {
         console.error('[UsageAnalytics] Error:', err);
         setError(err instanceof Error ? err.message : 'Failed to load analytics');
@@ -204,6 +220,55 @@ export function UsageAnalytics() {
               ))}
             </div>
 
+            {/* Billed Usage (metered counters tier limits are enforced against) */}
+            {billed && (
+              <div className="glass-panel rounded-2xl p-6 mb-10">
+                <div className="flex items-center justify-between mb-6">
+                  <div className="flex items-center gap-3">
+                    <Gauge className="w-5 h-5 text-violet-spectral" strokeWidth={1.5} />
+                    <h2 className="text-xl font-bold text-white">Billed Usage</h2>
+                  </div>
+                  <span className="text-sm text-violet-ghost uppercase tracking-wider">{billed.tier} plan</span>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {(Object.keys(metricLabels) as UsageMetric[]).map((metric) => {
+                    const usage = billed.usage[metric];
+                    const periodTotal = Object.values(billed.perDay)
+                      .reduce((sum, day) => sum + (day[metric] ?? 0), 0);
+                    const limited = usage.dailyLimit !== -1;
+                    const percent = limited && usage.dailyLimit > 0
+                      ? Math.min(100, Math.round((usage.today / usage.dailyLimit) * 100))
+                      : 0;
+
+                    return (
+                      <div key={metric} className="py-4 px-4 bg-charcoal/50 rounded-lg border border-graphite">
+                        <div className="flex items-baseline justify-between mb-2">
+                          <span className="text-gray-400">{metricLabels[metric]} today</span>
+                          <span className="text-white font-medium">
+                            {usage.today.toLocaleString()}
+                            {limited ? ` / ${usage.dailyLimit.toLocaleString()}` : ' (unlimited)'}
+                          </span>
+                        </div>
+                        {limited && (
+                          <div className="h-2 bg-graphite rounded-full overflow-hidden mb-3">
+                            <div
+                              className={`h-full rounded-full ${percent >= 100 ? 'bg-red-500' : 'bg-violet-spectral'}`}
+                              style={{ width: `${percent}%` }}
+                            />
+                          </div>
+                        )}
+                        <div className="flex justify-between text-sm text-gray-500">
+                          <span>This month: {usage.month.toLocaleString()}</span>
+                          <span>{periodLabels[period]}: {periodTotal.toLocaleString()}</span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Phase 3 Insights: Health Dashboard & Miss Rate Chart */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-10">
               <Suspense fallback={<InsightCardSkeleton />}>
@@ -214,6 +279,13 @@ export function UsageAnalytics() {
               </Suspense>
             </div>
 
+            {/* Suggested documents from missed searches (Full Width) */}
+            <div className="mb-10">
+              <Suspense fallback={<InsightCardSkeleton />}>
+                <DocGapsCard projectId={profile.default_project_id} />
+              </Suspense>
+            </div>
+
             {/* Top Searches */}
             <div className="glass-panel rounded-2xl p-6 mb-10">
               <div className="flex items-center gap-3 mb-6">
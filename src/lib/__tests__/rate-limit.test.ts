@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+let quotaRows: unknown[] = [];
+
+// Mock Supabase (quota lookups only; rate limits use the in-memory store)
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(() => {
+      const chain: Record<string, unknown> = {};
+      for (const method of ['select', 'eq']) chain[method] = vi.fn(() => chain);
+      chain.order = vi.fn(() => Promise.resolve({ data: quotaRows, error: null }));
+      return chain;
+    }),
+  },
+  isSupabaseConfigured: () => false,
+}));
+
+import {
+  applySlidingWindow,
+  applyTokenBucket,
+  createMemoryRateLimitStore,
+  rateLimitHeaders,
+  setRateLimitStore,
+  type RateLimitOptions,
+} from '../rate-limit';
+import { enforceMcpQuotas, getRequestAgentId, resolveQuota, type RateLimitQuota } from '../quoth/rate-limit-quotas';
+
+const minute: RateLimitOptions = { windowMs: 60_000, maxRequests: 10 };
+
+describe('applySlidingWindow', () => {
+  it('should weight the previous window by its remaining overlap', () => {
+    // 10 requests in the previous window and 8 in the current one, a quarter in
+    const denied = applySlidingWindow({ windowStart: 60_000, count: 8, prevCount: 10 }, minute, 75_000);
+    expect(denied.result).toMatchObject({ allowed: false, remaining: 0 });
+    // 10 * (1 - e) + 8 + 1 <= 10 once e >= 0.9, i.e. at 114s
+    expect(denied.result.retryAfter).toBe(39_000);
+
+    // Half way into the next window only half of the previous count remains
+    const state = { windowStart: 0, count: 10, prevCount: 0 };
+    const allowed = applySlidingWindow(state, minute, 90_000);
+    expect(allowed.result).toMatchObject({ allowed: true, remaining: 4, resetIn: 30_000 });
+    expect(allowed.state).toEqual({ windowStart: 60_000, count: 1, prevCount: 10 });
+  });
+
+  it('should retry after the previous window decays when the current one has room', () => {
+    const { result } = applySlidingWindow({ windowStart: 0, count: 10 }, minute, 60_000);
+    // 10 * (1 - e) + 1 <= 10 at e = 0.1
+    expect(result).toMatchObject({ allowed: false, retryAfter: 6_000 });
+  });
+
+  it('should forget windows older than the previous one', () => {
+    const { result } = applySlidingWindow({ windowStart: 0, count: 10 }, minute, 130_000);
+    expect(result).toMatchObject({ allowed: true, remaining: 9 });
+  });
+});
+
+describe('applyTokenBucket', () => {
+  it('should allow bursts up to the bucket size and refill evenly', () => {
+    let state;
+    for (let i = 0; i < 10; i++) {
+      ({ state } = applyTokenBucket(state, { ...minute, algorithm: 'token_bucket' }, 0));
+    }
+    const empty = applyTokenBucket(state, minute, 0);
+    expect(empty.result).toMatchObject({ allowed: false, retryAfter: 6_000, resetIn: 60_000 });
+
+    const refilled = applyTokenBucket(state, minute, 12_000);
+    expect(refilled.result).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('should refund a negative cost without exceeding the bucket size', () => {
+    const bucket = { ...minute, algorithm: 'token_bucket' as const };
+    expect(applyTokenBucket({ tokens: 4, updatedAt: 0 }, bucket, 0, -1).state.tokens).toBe(5);
+    expect(applyTokenBucket({ tokens: 10, updatedAt: 0 }, bucket, 0, -1).state.tokens).toBe(10);
+    expect(applySlidingWindow({ windowStart: 60_000, count: 0, prevCount: 3 }, minute, 60_000, -1).state.count).toBe(0);
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  it('should emit RateLimit-* fields and Retry-After when refused', () => {
+    const headers = rateLimitHeaders(
+      { allowed: false, limit: 10, remaining: 0, resetIn: 30_500, retryAfter: 1_200 },
+      minute
+    );
+    expect(headers).toMatchObject({
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '31',
+      'RateLimit-Policy': '10;w=60',
+      'Retry-After': '2',
+    });
+  });
+});
+
+describe('MCP quotas', () => {
+  const quota = (overrides: Partial<RateLimitQuota>): RateLimitQuota => ({
+    id: 'q',
+    scope: 'api_key',
+    subject: null,
+    algorithm: 'sliding_window',
+    max_requests: 100,
+    window_seconds: 60,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  it('should prefer a subject quota over the scope default', () => {
+    const quotas = [
+      quota({ id: 'default', max_requests: 50 }),
+      quota({ id: 'ci', subject: 'key-ci', max_requests: 5, algorithm: 'token_bucket' }),
+    ];
+
+    expect(resolveQuota(quotas, 'api_key', 'key-ci')).toEqual({ windowMs: 60_000, maxRequests: 5, algorithm: 'token_bucket' });
+    expect(resolveQuota(quotas, 'api_key', 'key-dev')).toMatchObject({ maxRequests: 50 });
+    expect(resolveQuota([], 'api_key', 'key-dev')).toMatchObject({ maxRequests: 120 });
+    expect(resolveQuota(quotas, 'agent', 'bot')).toBeNull();
+  });
+
+  it('should refuse once the agent quota is exhausted', async () => {
+    quotaRows = [quota({ scope: 'agent', subject: 'bot', max_requests: 2, window_seconds: 3600 })];
+    const subject = { projectId: 'p-agents', keyId: 'key-1', agentId: 'bot' };
+
+    expect((await enforceMcpQuotas(subject)).result).toMatchObject({ allowed: true, remaining: 1 });
+    expect((await enforceMcpQuotas(subject)).scope).toBe('agent');
+    const refused = await enforceMcpQuotas(subject);
+    expect(refused).toMatchObject({ allowed: false, scope: 'agent' });
+  });
+
+  it('should refund the key quota when the agent quota refuses', async () => {
+    quotaRows = [
+      quota({ scope: 'api_key', subject: null, max_requests: 2, window_seconds: 3600 }),
+      quota({ scope: 'agent', subject: 'bot', max_requests: 1, window_seconds: 3600 }),
+    ];
+    const subject = { projectId: 'p-refund', keyId: 'key-1' };
+
+    expect((await enforceMcpQuotas({ ...subject, agentId: 'bot' })).allowed).toBe(true);
+    expect(await enforceMcpQuotas({ ...subject, agentId: 'bot' })).toMatchObject({ allowed: false, scope: 'agent' });
+    // The refused request did not use up the key's second request
+    expect((await enforceMcpQuotas(subject)).result).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await enforceMcpQuotas(subject)).toMatchObject({ allowed: false, scope: 'api_key' });
+  });
+
+  it('should share one default agent bucket per key across unnamed agents', async () => {
+    quotaRows = [quota({ scope: 'agent', subject: null, max_requests: 2, window_seconds: 3600 })];
+    const key1 = { projectId: 'p-default-agents', keyId: 'key-1' };
+
+    expect((await enforceMcpQuotas({ ...key1, agentId: 'bot-a' })).allowed).toBe(true);
+    expect((await enforceMcpQuotas({ ...key1, agentId: 'bot-b' })).allowed).toBe(true);
+    // A fresh agent name does not get a fresh bucket
+    expect(await enforceMcpQuotas({ ...key1, agentId: 'bot-c' })).toMatchObject({ allowed: false, scope: 'agent' });
+    // Another key's agents are unaffected
+    expect((await enforceMcpQuotas({ projectId: 'p-default-agents', keyId: 'key-2', agentId: 'bot-a' })).allowed).toBe(true);
+  });
+
+  it('should read the agent from a tools/call request', async () => {
+    const req = new Request('https://quoth.test/api/mcp', {
+      method: 'POST',
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'quoth_propose_update', arguments: { agent_id: 'docs-bot' } } }),
+    });
+    expect(await getRequestAgentId(req)).toBe('docs-bot');
+    // The body is still readable by the MCP handler
+    expect(await req.json()).toMatchObject({ method: 'tools/call' });
+
+    const headerReq = new Request('https://quoth.test/api/mcp', { headers: { 'X-Quoth-Agent': 'reviewer' } });
+    expect(await getRequestAgentId(headerReq)).toBe('reviewer');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const inserts: Array<{ table: string; row: Record<string, unknown> }> = [];
+let insertCalls = 0;
+let activeGeneration = 2;
+let storedDocument: Record<string, unknown> = { id: 'doc-1', checksum: 'stale' };
+const writes: Array<Record<string, unknown>> = [];
+
+// Chainable query builder: filters return the chain, terminals resolve per table
+function builder(table: string) {
+  const result = () => {
+    if (table === 'projects') return { data: { embedding_provider: 'local', active_embedding_generation: activeGeneration }, error: null };
+    // Stale checksum by default so the document is re-indexed
+    if (table === 'documents') return { data: storedDocument, error: null };
+    return { data: [], error: null };
+  };
+  const chain: Record<string, unknown> = {};
+  for (const method of ['select', 'eq', 'in', 'upsert', 'update', 'delete']) {
+    chain[method] = vi.fn(() => chain);
+  }
+  chain.single = vi.fn(() => Promise.resolve(result()));
+  chain.insert = vi.fn((rows: Record<string, unknown> | Record<string, unknown>[]) => {
+    insertCalls++;
+    for (const row of Array.isArray(rows) ? rows : [rows]) inserts.push({ table, row });
+    return Promise.resolve({ data: null, error: null });
+  });
+  chain.then = (resolve: (value: unknown) => unknown) => resolve(result());
+  return chain;
+}
+
+// Mock Supabase
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn((table: string) => builder(table)),
+    rpc: vi.fn((fn: string, args: Record<string, unknown>) => {
+      writes.push(args);
+      for (const row of args.p_rows as Record<string, unknown>[]) inserts.push({ table: 'document_embeddings', row });
+      return Promise.resolve({ data: (args.p_rows as unknown[]).length, error: null });
+    }),
+  },
+  isSupabaseConfigured: vi.fn(() => true),
+}));
+
+import { syncDocument, calculateChecksum } from '../sync';
+import { supabase } from '../supabase';
+import { clearEmbeddingProviderCache } from '../embeddings';
+
+describe('syncDocument', () => {
+  beforeEach(() => {
+    inserts.length = 0;
+    insertCalls = 0;
+    writes.length = 0;
+    activeGeneration = 2;
+    storedDocument = { id: 'doc-1', checksum: 'stale' };
+    clearEmbeddingProviderCache();
+  });
+
+  it('should embed chunks offline with the project provider', async () => {
+    const result = await syncDocument(
+      'project-1',
+      'patterns/auth.md',
+      'Auth Pattern',
+      '# Auth Pattern\n\nWrap protected routes with useAuthGuard.'
+    );
+
+    expect(result.chunksIndexed).toBeGreaterThan(0);
+
+    const embeddingRows = inserts.filter((i) => i.table === 'document_embeddings');
+    expect(embeddingRows).toHaveLength(result.chunksIndexed);
+    expect(embeddingRows[0].row.embedding_model).toBe('local-hash-v1');
+    expect(embeddingRows[0].row.embedding_dimensions).toBe(512);
+    expect(embeddingRows[0].row.embedding).toHaveLength(512);
+    expect(writes[0].p_generation).toBe(2);
+  });
+
+  it('should insert all new chunks in one bulk insert and report stats', async () => {
+    const sections = Array.from({ length: 6 }, (_, i) =>
+      `## Section ${i}\n\n${'Guidance about testing conventions and mocking strategy. '.repeat(8)}${i}`
+    );
+
+    const startedAt = Date.now();
+    const result = await syncDocument('project-1', 'patterns/testing.md', 'Testing', sections.join('\n\n'));
+
+    // No fixed per-chunk sleeps
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+    expect(result.chunksIndexed).toBeGreaterThan(1);
+    expect(result.stats.batches).toBe(1);
+    expect(result.stats.retries).toBe(0);
+    expect(result.stats.failedChunks).toBe(0);
+    expect(writes).toHaveLength(1);
+    expect(insertCalls).toBe(0);
+  });
+
+  it('should re-embed an unchanged document whose last sync left chunks unembedded', async () => {
+    const content = '# Auth\n\nUse useAuthGuard.';
+
+    storedDocument = { id: 'doc-1', checksum: calculateChecksum(content), embeddings_incomplete: false };
+    expect((await syncDocument('project-1', 'patterns/auth.md', 'Auth', content)).chunksIndexed).toBe(0);
+
+    storedDocument = { id: 'doc-1', checksum: calculateChecksum(content), embeddings_incomplete: true };
+    expect((await syncDocument('project-1', 'patterns/auth.md', 'Auth', content)).chunksIndexed).toBeGreaterThan(0);
+  });
+
+  it('should diff again when a reindex activates a new generation before the write', async () => {
+    vi.mocked(supabase.rpc).mockImplementationOnce(((_fn: string, args: Record<string, unknown>) => {
+      writes.push(args);
+      activeGeneration = 3;
+      return Promise.resolve({ data: null, error: { code: '40001', message: 'Embedding generation changed from 2 to 3' } });
+    }) as never);
+
+    const result = await syncDocument('project-1', 'patterns/auth.md', 'Auth Pattern', '# Auth\n\nUse useAuthGuard.');
+
+    expect(writes.map((w) => w.p_generation)).toEqual([2, 3]);
+    expect(result.chunksIndexed).toBe((writes[1].p_rows as unknown[]).length);
+  });
+});
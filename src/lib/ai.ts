@@ -1,8 +1,10 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { getEmbeddingProvider, embedBatched, type ContentType } from "./embeddings";
+
+export type { ContentType } from "./embeddings";
 
 // Use GEMINIAI_API_KEY (as configured in Vercel) or fall back to GOOGLE_API_KEY
 const googleApiKey = process.env.GEMINIAI_API_KEY || process.env.GOOGLE_API_KEY;
-const jinaApiKey = process.env.JINA_API_KEY;
 
 // Debug logging - only in development with explicit flag
 const DEBUG_AI = process.env.NODE_ENV === 'development' && process.env.DEBUG_AI === 'true';
@@ -18,13 +20,13 @@ if (process.env.NODE_ENV === 'development') {
   if (!googleApiKey) {
     console.warn("[AI] Warning: No Gemini API key found (GEMINIAI_API_KEY or GOOGLE_API_KEY)");
   }
-  if (!jinaApiKey) {
-    console.warn("[AI] Warning: No Jina API key found (JINA_API_KEY). Semantic search for code will fail.");
+  const embeddingProvider = getEmbeddingProvider();
+  if (!embeddingProvider.isConfigured()) {
+    console.warn(`[AI] Warning: Default embedding provider "${embeddingProvider.id}" is not configured. Semantic search will fail.`);
   }
 }
 
 const genAI = googleApiKey ? new GoogleGenerativeAI(googleApiKey) : null;
-const googleModel = genAI?.getGenerativeModel({ model: "text-embedding-004" });
 
 // Gemini 2.0 Flash for generative responses (RAG answers) — LEGACY, kept as fallback
 const flashModel = genAI?.getGenerativeModel({
@@ -40,11 +42,6 @@ const flashModel = genAI?.getGenerativeModel({
 const CF_RAG_WORKER_URL = process.env.CF_RAG_WORKER_URL;
 const CF_RAG_API_KEY = process.env.CF_RAG_API_KEY;
 
-/**
- * Content type for dual embedding support
- */
-export type ContentType = 'text' | 'code';
-
 /**
  * Detect content type based on heuristics
  * Returns 'code' if content has code-like patterns, otherwise 'text'
@@ -78,120 +75,6 @@ export function detectContentType(text: string): ContentType {
   return codeRatio > 0.3 ? 'code' : 'text';
 }
 
-/**
- * Generate embedding using Jina Embeddings v3 (optimized for text)
- */
-export async function generateJinaEmbedding(text: string, contentType?: ContentType): Promise<number[]> {
-  if (!jinaApiKey) {
-    throw new Error("Jina API not configured. Set JINA_API_KEY");
-  }
-
-  const cleanText = text.replace(/\n+/g, " ").trim();
-  if (!cleanText) return [];
-
-  // Auto-detect content type if not provided
-  const detectedType = contentType || detectContentType(text);
-  
-  // Use appropriate model based on content type
-  if (detectedType === 'code') {
-    return generateCodeEmbedding(cleanText);
-  }
-
-  const response = await fetch('https://api.jina.ai/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${jinaApiKey}`
-    },
-    body: JSON.stringify({
-      model: 'jina-embeddings-v3',
-      task: 'retrieval.passage', // optimized for storing docs
-      dimensions: 512, // Matryoshka optimized
-      late_chunking: false, // keeping it simple for now as per plan
-      input: [cleanText]
-    })
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Jina API Error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  return data.data[0].embedding;
-}
-
-/**
- * Generate code embedding using Jina Code Embeddings v1.5b
- * Optimized for code snippets, functions, and technical content
- */
-export async function generateCodeEmbedding(text: string): Promise<number[]> {
-  if (!jinaApiKey) {
-    throw new Error("Jina API not configured. Set JINA_API_KEY");
-  }
-
-  const cleanText = text.replace(/\n+/g, " ").trim();
-  if (!cleanText) return [];
-
-  const response = await fetch('https://api.jina.ai/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${jinaApiKey}`
-    },
-    body: JSON.stringify({
-      model: 'jina-code-embeddings-1.5b',
-      task: 'nl2code.passage', // store docs for natural language → code search
-      dimensions: 512, // Matryoshka: truncate 896d to 512d
-      input: [cleanText]
-    })
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Jina Code API Error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  return data.data[0].embedding;
-}
-
-/**
- * Generate query embedding for code search
- * Optimized for code-related queries
- */
-export async function generateCodeQueryEmbedding(query: string): Promise<number[]> {
-  if (!jinaApiKey) {
-    throw new Error("Jina API not configured. Set JINA_API_KEY");
-  }
-
-  debugLog('Generating code query embedding for:', query.slice(0, 100));
-
-  const response = await fetch('https://api.jina.ai/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${jinaApiKey}`
-    },
-    body: JSON.stringify({
-      model: 'jina-code-embeddings-1.5b',
-      task: 'nl2code.query', // search docs with natural language queries
-      dimensions: 512,
-      input: [query]
-    })
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Jina Code API Error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  const embedding = data.data[0].embedding;
-  debugLog('Successfully generated code embedding:', embedding ? `${embedding.length} dimensions` : 'FAILED');
-  return embedding;
-}
-
 /**
  * Detect if a query is code-related based on keywords
  */
@@ -208,112 +91,63 @@ function isCodeQuery(query: string): boolean {
 }
 
 /**
- * Generate embedding for search query using Jina
- * Automatically detects if query is code-related and uses appropriate model
+ * Generate embedding for search query using the default embedding provider.
+ * Automatically detects if query is code-related and uses the provider's code model.
+ * Project-scoped callers should use getEmbeddingProviderForProject() instead.
  */
 export async function generateQueryEmbedding(query: string, contentType?: ContentType): Promise<number[]> {
   debugLog('Generating query embedding for:', query.slice(0, 100));
 
-  if (!jinaApiKey) {
-    throw new Error("Jina API not configured. Set JINA_API_KEY");
-  }
-
-  // Auto-detect if this is a code query
   const isCode = contentType === 'code' || (contentType === undefined && isCodeQuery(query));
-  
-  if (isCode) {
-    debugLog('Code query detected, using jina-code-embeddings-1.5b');
-    return generateCodeQueryEmbedding(query);
-  }
+  const provider = getEmbeddingProvider();
 
-  debugLog('Calling Jina API (model: jina-embeddings-v3, task: retrieval.query, dims: 512)');
-
-  const response = await fetch('https://api.jina.ai/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${jinaApiKey}`
-    },
-    body: JSON.stringify({
-      model: 'jina-embeddings-v3',
-      task: 'retrieval.query', // optimized for queries
-      dimensions: 512,
-      input: [query]
-    })
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Jina API Error: ${response.status} - ${errorText}`);
-  }
+  debugLog(`Calling ${provider.id} (model: ${provider.modelFor(isCode ? 'code' : 'text')})`);
 
-  const data = await response.json();
-  const embedding = data.data[0].embedding;
+  const embedding = await provider.embedQuery(query, isCode ? 'code' : 'text');
   debugLog('Successfully generated:', embedding ? `${embedding.length} dimensions` : 'FAILED');
   return embedding;
 }
 
 /**
- * Legacy/Fallback: Generate a 512-dimensional embedding vector for text
- * Uses Jina embeddings (primary) or falls back to Gemini text-embedding-004
+ * Generate a 512-dimensional passage embedding using the default embedding provider.
+ * Project-scoped callers should use getEmbeddingProviderForProject() instead.
  * @param text - Text to embed
- * @param contentType - Optional content type hint ('text' or 'code')
+ * @param contentType - Optional content type hint ('text' or 'code'); auto-detected if omitted
  */
 export async function generateEmbedding(text: string, contentType?: ContentType): Promise<number[]> {
-  // Prefer Jina if available for this new architecture
-  if (jinaApiKey) {
-    try {
-      return await generateJinaEmbedding(text, contentType);
-    } catch (e) {
-      debugLog("Jina generation failed, falling back to Gemini", e);
-    }
-  }
-
-  if (!googleModel) {
-    throw new Error("Gemini API not configured. Set GEMINIAI_API_KEY or GOOGLE_API_KEY");
-  }
-
-  // Clean text for better semantic quality
-  const cleanText = text
-    .replace(/\n+/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-
-  if (!cleanText) {
+  if (!text.trim()) {
     throw new Error("Cannot generate embedding for empty text");
   }
 
-  const result = await googleModel.embedContent(cleanText);
-  return result.embedding.values; // Returns array of 768 numbers
+  const [embedding] = await getEmbeddingProvider().embedDocuments(
+    [text],
+    contentType || detectContentType(text)
+  );
+  return embedding;
 }
 
 /**
  * Check if AI embedding service is configured
  */
 export function isAIConfigured(): boolean {
-  return !!googleApiKey || !!jinaApiKey;
+  return getEmbeddingProvider().isConfigured();
 }
 
 /**
- * Batch generate embeddings with rate limiting
+ * Batch generate embeddings using the default provider's batch size and rate limit.
+ * Content type is detected per text. Throws if any text could not be embedded.
  */
-export async function generateEmbeddingsBatch(
-  texts: string[],
-  delayMs: number = 1000
-): Promise<number[][]> {
-  const embeddings: number[][] = [];
-
-  for (let i = 0; i < texts.length; i++) {
-    const embedding = await generateEmbedding(texts[i]);
-    embeddings.push(embedding);
-
-    // Add delay between requests (except for last one)
-    if (i < texts.length - 1 && delayMs > 0) {
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
-    }
+export async function generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
+  const { embeddings, stats } = await embedBatched(
+    getEmbeddingProvider(),
+    texts.map((text) => ({ text, contentType: detectContentType(text) }))
+  );
+
+  if (stats.failed > 0) {
+    throw new Error(`Failed to embed ${stats.failed} of ${texts.length} texts`);
   }
 
-  return embeddings;
+  return embeddings as number[][];
 }
 
 // ============================================
@@ -420,7 +254,7 @@ export async function generateRAGAnswer(
       };
     }
 
-    incrementUsage(projectId, 'rag_answer');
+    await incrementUsage(projectId, 'rag_answer');
   }
 
   if (contexts.length === 0) {
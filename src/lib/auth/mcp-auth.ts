@@ -27,6 +27,7 @@ export interface AuthContext {
   user_id: string;
   role: 'admin' | 'editor' | 'viewer';
   label?: string; // Optional token label for logging
+  key_id?: string; // project_api_keys.id for manual API keys (rate limit quotas)
   // Multi-account support
   connection_id?: string; // Unique per MCP connection
   available_projects?: Array<{
@@ -167,6 +168,7 @@ async function verifyCustomJwt(token: string): Promise<AuthContext | null> {
       user_id: payload.user_id as string,
       role: (payload.role as 'admin' | 'editor' | 'viewer') || 'viewer',
       label: (payload.label as string) || (payload.email as string),
+      key_id: payload.jti,
     };
 
     if (!authContext.project_id || !authContext.user_id) {
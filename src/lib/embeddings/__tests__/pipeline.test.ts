@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  embedBatched,
+  getEmbeddingErrorStatus,
+  clearEmbeddingRateLimits,
+} from '../pipeline';
+import { hashEmbedding } from '../local';
+import type { EmbeddingProvider } from '../types';
+
+function fakeProvider(overrides: Partial<EmbeddingProvider> = {}): EmbeddingProvider {
+  return {
+    id: 'local',
+    dimensions: 512,
+    maxBatchSize: 2,
+    requestsPerMinute: 0,
+    isConfigured: () => true,
+    modelFor: (contentType) => `fake-${contentType}`,
+    embedDocuments: vi.fn(async (texts: string[]) => texts.map((text) => hashEmbedding(text))),
+    embedQuery: async (query) => hashEmbedding(query),
+    ...overrides,
+  };
+}
+
+describe('embedding pipeline', () => {
+  beforeEach(() => {
+    clearEmbeddingRateLimits();
+  });
+
+  it('should split inputs into provider-sized batches per content type', async () => {
+    const provider = fakeProvider();
+    const inputs = [
+      { text: 'a', contentType: 'text' as const },
+      { text: 'function b() {}', contentType: 'code' as const },
+      { text: 'c', contentType: 'text' as const },
+      { text: 'd', contentType: 'text' as const },
+    ];
+
+    const { embeddings, stats } = await embedBatched(provider, inputs);
+
+    // text: [a, c], [d]; code: [b]
+    expect(stats.batches).toBe(3);
+    expect(provider.embedDocuments).toHaveBeenCalledTimes(3);
+    expect(embeddings).toHaveLength(4);
+    expect(embeddings[1]).toEqual(hashEmbedding('function b() {}'));
+    expect(embeddings[3]).toEqual(hashEmbedding('d'));
+  });
+
+  it('should retry 429 responses with backoff', async () => {
+    let calls = 0;
+    const provider = fakeProvider({
+      embedDocuments: vi.fn(async (texts: string[]) => {
+        if (calls++ < 2) throw new Error('Jina API Error: 429 - Too Many Requests');
+        return texts.map((text) => hashEmbedding(text));
+      }),
+    });
+
+    const { embeddings, stats } = await embedBatched(
+      provider,
+      [{ text: 'retry me', contentType: 'text' }],
+      { baseDelayMs: 1 }
+    );
+
+    expect(stats.retries).toBe(2);
+    expect(stats.failed).toBe(0);
+    expect(embeddings[0]).toHaveLength(512);
+  });
+
+  it('should not retry other errors and mark the batch as failed', async () => {
+    const provider = fakeProvider({
+      embedDocuments: vi.fn(async () => {
+        throw new Error('OpenAI-compatible API Error: 400 - bad input');
+      }),
+    });
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { embeddings, stats } = await embedBatched(
+      provider,
+      [{ text: 'x', contentType: 'text' }],
+      { baseDelayMs: 1 }
+    );
+
+    expect(provider.embedDocuments).toHaveBeenCalledTimes(1);
+    expect(stats.retries).toBe(0);
+    expect(stats.failed).toBe(1);
+    expect(embeddings[0]).toBeNull();
+    consoleSpy.mockRestore();
+  });
+
+  it('should parse status codes from provider errors', () => {
+    expect(getEmbeddingErrorStatus(new Error('Jina API Error: 429 - slow down'))).toBe(429);
+    expect(getEmbeddingErrorStatus({ status: 503 })).toBe(503);
+    expect(getEmbeddingErrorStatus(new Error('network down'))).toBeNull();
+  });
+});
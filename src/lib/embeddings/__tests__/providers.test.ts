@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock Supabase
+vi.mock('../../supabase', () => ({
+  supabase: {
+    from: vi.fn(() => ({
+      select: vi.fn(() => ({
+        eq: vi.fn(() => ({
+          single: vi.fn(() => Promise.resolve({ data: { embedding_provider: 'local' }, error: null })),
+        })),
+      })),
+    })),
+  },
+  isSupabaseConfigured: vi.fn(() => true),
+}));
+
+import {
+  getEmbeddingProvider,
+  getEmbeddingProviderForProject,
+  getDefaultEmbeddingProviderId,
+  clearEmbeddingProviderCache,
+  fitToDimensions,
+  hashEmbedding,
+  EMBEDDING_DIMENSIONS,
+} from '../index';
+
+describe('local embedding provider', () => {
+  const local = getEmbeddingProvider('local');
+
+  it('should be configured without credentials', () => {
+    expect(local.isConfigured()).toBe(true);
+  });
+
+  it('should produce deterministic 512d unit vectors', async () => {
+    const [a] = await local.embedDocuments(['useAuthGuard protects routes'], 'text');
+    const [b] = await local.embedDocuments(['useAuthGuard protects routes'], 'text');
+
+    expect(a).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(a).toEqual(b);
+
+    const norm = Math.sqrt(a.reduce((sum, v) => sum + v * v, 0));
+    expect(norm).toBeCloseTo(1, 6);
+  });
+
+  it('should score related text above unrelated text', () => {
+    const query = hashEmbedding('vitest mock setup', EMBEDDING_DIMENSIONS);
+    const related = hashEmbedding('how to mock modules in vitest setup files', EMBEDDING_DIMENSIONS);
+    const unrelated = hashEmbedding('postgres migration rollback', EMBEDDING_DIMENSIONS);
+
+    const dot = (x: number[], y: number[]) => x.reduce((sum, v, i) => sum + v * y[i], 0);
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+  });
+
+  it('should return one vector per input in order', async () => {
+    const vectors = await local.embedDocuments(['alpha', 'beta', 'alpha'], 'code');
+    expect(vectors).toHaveLength(3);
+    expect(vectors[0]).toEqual(vectors[2]);
+    expect(vectors[0]).not.toEqual(vectors[1]);
+  });
+});
+
+describe('embedding provider registry', () => {
+  const originalProvider = process.env.EMBEDDING_PROVIDER;
+
+  beforeEach(() => {
+    clearEmbeddingProviderCache();
+  });
+
+  afterEach(() => {
+    if (originalProvider === undefined) {
+      delete process.env.EMBEDDING_PROVIDER;
+    } else {
+      process.env.EMBEDDING_PROVIDER = originalProvider;
+    }
+  });
+
+  it('should default to jina', () => {
+    delete process.env.EMBEDDING_PROVIDER;
+    expect(getDefaultEmbeddingProviderId()).toBe('jina');
+  });
+
+  it('should honor EMBEDDING_PROVIDER and ignore unknown values', () => {
+    process.env.EMBEDDING_PROVIDER = 'openai-compatible';
+    expect(getEmbeddingProvider().id).toBe('openai-compatible');
+
+    process.env.EMBEDDING_PROVIDER = 'word2vec';
+    expect(getDefaultEmbeddingProviderId()).toBe('jina');
+  });
+
+  it('should resolve the provider selected on the project', async () => {
+    const provider = await getEmbeddingProviderForProject('project-1');
+    expect(provider.id).toBe('local');
+    expect(provider.modelFor('text')).toBe('local-hash-v1');
+  });
+});
+
+describe('fitToDimensions', () => {
+  it('should truncate and renormalize larger vectors', () => {
+    const fitted = fitToDimensions([3, 4, 12], 2);
+    expect(fitted).toEqual([0.6, 0.8]);
+  });
+
+  it('should reject vectors smaller than the target dimension', () => {
+    expect(() => fitToDimensions([1, 0], 512)).toThrow();
+  });
+});
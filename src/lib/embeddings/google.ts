@@ -0,0 +1,53 @@
+/**
+ * Google Embedding Provider
+ * Gemini text-embedding-004 (768d), truncated to 512d for storage.
+ * The same model is used for text and code.
+ */
+
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+import { EMBEDDING_DIMENSIONS, type EmbeddingProvider } from './types';
+import { fitToDimensions } from './vector';
+
+const GOOGLE_EMBEDDING_MODEL = 'text-embedding-004';
+
+// Use GEMINIAI_API_KEY (as configured in Vercel) or fall back to GOOGLE_API_KEY
+const googleApiKey = process.env.GEMINIAI_API_KEY || process.env.GOOGLE_API_KEY;
+const model = googleApiKey
+  ? new GoogleGenerativeAI(googleApiKey).getGenerativeModel({ model: GOOGLE_EMBEDDING_MODEL })
+  : null;
+
+function requireModel() {
+  if (!model) {
+    throw new Error('Gemini API not configured. Set GEMINIAI_API_KEY or GOOGLE_API_KEY');
+  }
+  return model;
+}
+
+export const googleProvider: EmbeddingProvider = {
+  id: 'google',
+  dimensions: EMBEDDING_DIMENSIONS,
+  maxBatchSize: 100,
+  requestsPerMinute: 1500,
+
+  isConfigured: () => !!model,
+
+  modelFor: () => GOOGLE_EMBEDDING_MODEL,
+
+  embedDocuments: async (texts) => {
+    const result = await requireModel().batchEmbedContents({
+      requests: texts.map((text) => ({
+        content: { role: 'user', parts: [{ text }] },
+        taskType: TaskType.RETRIEVAL_DOCUMENT,
+      })),
+    });
+    return result.embeddings.map((e) => fitToDimensions(e.values, EMBEDDING_DIMENSIONS));
+  },
+
+  embedQuery: async (query) => {
+    const result = await requireModel().embedContent({
+      content: { role: 'user', parts: [{ text: query }] },
+      taskType: TaskType.RETRIEVAL_QUERY,
+    });
+    return fitToDimensions(result.embedding.values, EMBEDDING_DIMENSIONS);
+  },
+};
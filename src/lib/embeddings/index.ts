@@ -0,0 +1,10 @@
+/**
+ * Embeddings Export
+ * Pluggable embedding providers and per-project resolution
+ */
+
+export * from './types';
+export * from './registry';
+export { fitToDimensions, l2Normalize } from './vector';
+export { hashEmbedding } from './local';
+export * from './pipeline';
@@ -0,0 +1,78 @@
+/**
+ * Jina Embedding Provider
+ * Text: jina-embeddings-v3, Code: jina-code-embeddings-1.5b (both Matryoshka-truncated to 512d)
+ */
+
+import { EMBEDDING_DIMENSIONS, type ContentType, type EmbeddingProvider } from './types';
+
+const JINA_API_URL = 'https://api.jina.ai/v1/embeddings';
+const jinaApiKey = process.env.JINA_API_KEY;
+
+const MODELS: Record<ContentType, string> = {
+  text: 'jina-embeddings-v3',
+  code: 'jina-code-embeddings-1.5b',
+};
+
+// Asymmetric task prompts: passages are stored, queries are searched
+const TASKS: Record<ContentType, { passage: string; query: string }> = {
+  text: { passage: 'retrieval.passage', query: 'retrieval.query' },
+  code: { passage: 'nl2code.passage', query: 'nl2code.query' },
+};
+
+async function callJina(
+  input: string[],
+  contentType: ContentType,
+  task: string
+): Promise<number[][]> {
+  if (!jinaApiKey) {
+    throw new Error('Jina API not configured. Set JINA_API_KEY');
+  }
+
+  const response = await fetch(JINA_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${jinaApiKey}`,
+    },
+    body: JSON.stringify({
+      model: MODELS[contentType],
+      task,
+      dimensions: EMBEDDING_DIMENSIONS, // Matryoshka optimized
+      ...(contentType === 'text' && { late_chunking: false }),
+      input,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Jina API Error: ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  return (data.data as Array<{ index: number; embedding: number[] }>)
+    .sort((a, b) => a.index - b.index)
+    .map((item) => item.embedding);
+}
+
+export const jinaProvider: EmbeddingProvider = {
+  id: 'jina',
+  dimensions: EMBEDDING_DIMENSIONS,
+  maxBatchSize: 64,
+  requestsPerMinute: 500,
+
+  isConfigured: () => !!jinaApiKey,
+
+  modelFor: (contentType) => MODELS[contentType],
+
+  embedDocuments: (texts, contentType) =>
+    callJina(
+      texts.map((text) => text.replace(/\n+/g, ' ').trim()),
+      contentType,
+      TASKS[contentType].passage
+    ),
+
+  embedQuery: async (query, contentType) => {
+    const [embedding] = await callJina([query], contentType, TASKS[contentType].query);
+    return embedding;
+  },
+};
@@ -0,0 +1,68 @@
+/**
+ * Local Embedding Provider
+ * Deterministic feature-hashing embeddings computed in-process.
+ * No network, no credentials: used by tests and offline/air-gapped setups.
+ * Captures lexical overlap only (words + character trigrams), not semantics.
+ */
+
+import { EMBEDDING_DIMENSIONS, type EmbeddingProvider } from './types';
+import { l2Normalize } from './vector';
+
+const LOCAL_EMBEDDING_MODEL = 'local-hash-v1';
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function extractFeatures(text: string): string[] {
+  const words = text.toLowerCase().split(/[^a-z0-9_]+/).filter(Boolean);
+  const features: string[] = [];
+
+  for (const word of words) {
+    features.push(`w:${word}`);
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      features.push(`t:${padded.slice(i, i + 3)}`);
+    }
+  }
+
+  return features;
+}
+
+/**
+ * Embed text by hashing its features into signed buckets
+ */
+export function hashEmbedding(text: string, dimensions: number = EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+
+  for (const feature of extractFeatures(text)) {
+    const hash = fnv1a(feature);
+    const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+    vector[hash % dimensions] += sign;
+  }
+
+  return l2Normalize(vector);
+}
+
+export const localProvider: EmbeddingProvider = {
+  id: 'local',
+  dimensions: EMBEDDING_DIMENSIONS,
+  maxBatchSize: 1000,
+  requestsPerMinute: 0,
+
+  isConfigured: () => true,
+
+  modelFor: () => LOCAL_EMBEDDING_MODEL,
+
+  embedDocuments: async (texts) => texts.map((text) => hashEmbedding(text)),
+
+  embedQuery: async (query) => hashEmbedding(query),
+};
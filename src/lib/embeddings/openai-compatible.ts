@@ -0,0 +1,67 @@
+/**
+ * OpenAI-Compatible Embedding Provider
+ * Works with any endpoint implementing POST /embeddings (OpenAI, Azure OpenAI proxies,
+ * vLLM, Ollama, LiteLLM, text-embeddings-inference, ...). Intended for self-hosted deployments.
+ *
+ * Env:
+ * - OPENAI_EMBEDDINGS_BASE_URL (default: https://api.openai.com/v1)
+ * - OPENAI_EMBEDDINGS_API_KEY (falls back to OPENAI_API_KEY; optional for local endpoints)
+ * - OPENAI_EMBEDDINGS_MODEL (default: text-embedding-3-small)
+ * - OPENAI_EMBEDDINGS_CODE_MODEL (optional; defaults to OPENAI_EMBEDDINGS_MODEL)
+ */
+
+import { EMBEDDING_DIMENSIONS, type ContentType, type EmbeddingProvider } from './types';
+import { fitToDimensions } from './vector';
+
+const baseUrl = (process.env.OPENAI_EMBEDDINGS_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+const apiKey = process.env.OPENAI_EMBEDDINGS_API_KEY || process.env.OPENAI_API_KEY;
+const textModel = process.env.OPENAI_EMBEDDINGS_MODEL || 'text-embedding-3-small';
+const codeModel = process.env.OPENAI_EMBEDDINGS_CODE_MODEL || textModel;
+
+function modelFor(contentType: ContentType): string {
+  return contentType === 'code' ? codeModel : textModel;
+}
+
+async function callEmbeddings(input: string[], contentType: ContentType): Promise<number[][]> {
+  const response = await fetch(`${baseUrl}/embeddings`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+    },
+    body: JSON.stringify({
+      model: modelFor(contentType),
+      dimensions: EMBEDDING_DIMENSIONS,
+      input,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`OpenAI-compatible API Error: ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  return (data.data as Array<{ index: number; embedding: number[] }>)
+    .sort((a, b) => a.index - b.index)
+    .map((item) => fitToDimensions(item.embedding, EMBEDDING_DIMENSIONS));
+}
+
+export const openAICompatibleProvider: EmbeddingProvider = {
+  id: 'openai-compatible',
+  dimensions: EMBEDDING_DIMENSIONS,
+  maxBatchSize: 256,
+  requestsPerMinute: 3000,
+
+  // A custom base URL without a key is valid (e.g. a local Ollama/vLLM server)
+  isConfigured: () => !!apiKey || !!process.env.OPENAI_EMBEDDINGS_BASE_URL,
+
+  modelFor,
+
+  embedDocuments: (texts, contentType) => callEmbeddings(texts, contentType),
+
+  embedQuery: async (query, contentType) => {
+    const [embedding] = await callEmbeddings([query], contentType);
+    return embedding;
+  },
+};
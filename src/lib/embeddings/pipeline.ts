@@ -0,0 +1,195 @@
+/**
+ * Batched Embedding Pipeline
+ * Groups inputs into provider-sized batches, runs them concurrently under a
+ * per-provider token bucket, and retries rate-limited (429) batches with
+ * exponential backoff.
+ *
+ * Note: Buckets are in-memory, so each serverless instance has its own budget.
+ */
+
+import type { ContentType, EmbeddingProvider, EmbeddingProviderId } from './types';
+
+export interface EmbeddingInput {
+  text: string;
+  contentType: ContentType;
+}
+
+export interface EmbedBatchOptions {
+  /** Batches in flight at once (default: 4) */
+  concurrency?: number;
+  /** Retries per batch after a 429 (default: 4) */
+  maxRetries?: number;
+  /** First backoff delay, doubled on each retry (default: 1000ms) */
+  baseDelayMs?: number;
+}
+
+export interface EmbeddingBatchStats {
+  batches: number;
+  retries: number;
+  /** Inputs that could not be embedded (their slot in `embeddings` is null) */
+  failed: number;
+  durationMs: number;
+}
+
+export interface EmbedBatchResult {
+  /** One entry per input, in input order */
+  embeddings: Array<number[] | null>;
+  stats: EmbeddingBatchStats;
+}
+
+const DEFAULT_OPTIONS: Required<EmbedBatchOptions> = {
+  concurrency: 4,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+};
+
+// ============ Token Bucket ============
+
+interface TokenBucket {
+  tokens: number;
+  capacity: number;
+  refillPerMs: number;
+  updatedAt: number;
+}
+
+// Map<providerId, TokenBucket>
+const buckets = new Map<EmbeddingProviderId, TokenBucket>();
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Requests per minute for a provider.
+ * EMBEDDING_REQUESTS_PER_MINUTE overrides the provider default (e.g. for free-tier keys).
+ */
+function getRequestsPerMinute(provider: EmbeddingProvider): number {
+  const override = Number(process.env.EMBEDDING_REQUESTS_PER_MINUTE);
+  return Number.isFinite(override) && override > 0 ? override : provider.requestsPerMinute;
+}
+
+/**
+ * Wait until the provider's bucket has a token, then take it
+ */
+async function acquireToken(provider: EmbeddingProvider): Promise<void> {
+  const rpm = getRequestsPerMinute(provider);
+  if (rpm <= 0) return;
+
+  let bucket = buckets.get(provider.id);
+  if (!bucket || bucket.capacity !== rpm) {
+    bucket = { tokens: rpm, capacity: rpm, refillPerMs: rpm / 60000, updatedAt: Date.now() };
+    buckets.set(provider.id, bucket);
+  }
+
+  for (;;) {
+    const now = Date.now();
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.refillPerMs);
+    bucket.updatedAt = now;
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+
+    await sleep(Math.ceil((1 - bucket.tokens) / bucket.refillPerMs));
+  }
+}
+
+/**
+ * Reset all token buckets (for testing)
+ */
+export function clearEmbeddingRateLimits(): void {
+  buckets.clear();
+}
+
+// ============ Retry ============
+
+/**
+ * Extract the HTTP status from a provider error.
+ * Providers throw "<Name> API Error: <status> - <body>"; SDK errors carry `status`.
+ */
+export function getEmbeddingErrorStatus(error: unknown): number | null {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status;
+
+  const match = error instanceof Error ? error.message.match(/API Error: (\d{3})\b/) : null;
+  return match ? Number(match[1]) : null;
+}
+
+async function embedWithRetry(
+  provider: EmbeddingProvider,
+  texts: string[],
+  contentType: ContentType,
+  options: Required<EmbedBatchOptions>,
+  stats: EmbeddingBatchStats
+): Promise<number[][]> {
+  for (let attempt = 0; ; attempt++) {
+    await acquireToken(provider);
+    try {
+      return await provider.embedDocuments(texts, contentType);
+    } catch (error) {
+      if (getEmbeddingErrorStatus(error) !== 429 || attempt >= options.maxRetries) {
+        throw error;
+      }
+      stats.retries++;
+      const jitter = Math.random() * options.baseDelayMs * 0.25;
+      await sleep(options.baseDelayMs * 2 ** attempt + jitter);
+    }
+  }
+}
+
+// ============ Pipeline ============
+
+/**
+ * Embed many inputs with batching, concurrency, rate limiting and 429 retries.
+ * A batch that still fails is logged and its inputs come back as null,
+ * so one bad batch does not lose the rest of the document.
+ */
+export async function embedBatched(
+  provider: EmbeddingProvider,
+  inputs: EmbeddingInput[],
+  options: EmbedBatchOptions = {}
+): Promise<EmbedBatchResult> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const startedAt = Date.now();
+  const stats: EmbeddingBatchStats = { batches: 0, retries: 0, failed: 0, durationMs: 0 };
+  const embeddings: Array<number[] | null> = new Array(inputs.length).fill(null);
+
+  // Group by content type (each type may use a different model), then split by batch size
+  const batches: Array<{ contentType: ContentType; indexes: number[] }> = [];
+  for (const contentType of ['text', 'code'] as ContentType[]) {
+    const indexes = inputs.flatMap((input, i) => (input.contentType === contentType ? [i] : []));
+    for (let i = 0; i < indexes.length; i += provider.maxBatchSize) {
+      batches.push({ contentType, indexes: indexes.slice(i, i + provider.maxBatchSize) });
+    }
+  }
+  stats.batches = batches.length;
+
+  let next = 0;
+  const worker = async () => {
+    while (next < batches.length) {
+      const batch = batches[next++];
+      try {
+        const vectors = await embedWithRetry(
+          provider,
+          batch.indexes.map((i) => inputs[i].text),
+          batch.contentType,
+          opts,
+          stats
+        );
+        batch.indexes.forEach((inputIndex, j) => {
+          embeddings[inputIndex] = vectors[j] ?? null;
+        });
+      } catch (error) {
+        console.error(`Embedding batch failed (${provider.id}, ${batch.indexes.length} inputs):`, error);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, opts.concurrency), batches.length) }, worker)
+  );
+
+  stats.failed = embeddings.filter((e) => e === null).length;
+  stats.durationMs = Date.now() - startedAt;
+
+  return { embeddings, stats };
+}
@@ -0,0 +1,107 @@
+/**
+ * Embedding Provider Registry
+ * Resolves the embedding backend per project (projects.embedding_provider),
+ * falling back to the deployment default (EMBEDDING_PROVIDER env, else Jina).
+ */
+
+import { supabase, isSupabaseConfigured } from '../supabase';
+import { jinaProvider } from './jina';
+import { googleProvider } from './google';
+import { openAICompatibleProvider } from './openai-compatible';
+import { localProvider } from './local';
+import {
+  EMBEDDING_PROVIDER_IDS,
+  type EmbeddingProvider,
+  type EmbeddingProviderId,
+} from './types';
+
+const providers = new Map<EmbeddingProviderId, EmbeddingProvider>([
+  [jinaProvider.id, jinaProvider],
+  [googleProvider.id, googleProvider],
+  [openAICompatibleProvider.id, openAICompatibleProvider],
+  [localProvider.id, localProvider],
+]);
+
+// Cache project provider lookups for 5 minutes to avoid repeated DB calls
+const projectProviderCache = new Map<string, { id: EmbeddingProviderId; expiresAt: number }>();
+const PROVIDER_CACHE_TTL_MS = 5 * 60 * 1000;
+
+export function isEmbeddingProviderId(value: unknown): value is EmbeddingProviderId {
+  return typeof value === 'string' && (EMBEDDING_PROVIDER_IDS as string[]).includes(value);
+}
+
+/**
+ * Register (or replace) a provider implementation.
+ * Lets tests and self-hosted deployments swap in their own backend.
+ */
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Deployment-wide default provider id.
+ * Set EMBEDDING_PROVIDER to one of: jina, google, openai-compatible, local.
+ */
+export function getDefaultEmbeddingProviderId(): EmbeddingProviderId {
+  const configured = process.env.EMBEDDING_PROVIDER;
+  return isEmbeddingProviderId(configured) ? configured : 'jina';
+}
+
+/**
+ * Get a provider by id (defaults to the deployment default)
+ */
+export function getEmbeddingProvider(id?: EmbeddingProviderId | null): EmbeddingProvider {
+  const providerId = id || getDefaultEmbeddingProviderId();
+  const provider = providers.get(providerId);
+  if (!provider) {
+    throw new Error(`Unknown embedding provider: ${providerId}`);
+  }
+  return provider;
+}
+
+/**
+ * Get the provider configured for a project.
+ * Caches result for 5 minutes.
+ */
+export async function getEmbeddingProviderForProject(projectId: string): Promise<EmbeddingProvider> {
+  const cached = projectProviderCache.get(projectId);
+  if (cached && Date.now() < cached.expiresAt) {
+    return getEmbeddingProvider(cached.id);
+  }
+
+  let providerId = getDefaultEmbeddingProviderId();
+
+  if (isSupabaseConfigured()) {
+    try {
+      const { data } = await supabase
+        .from('projects')
+        .select('embedding_provider')
+        .eq('id', projectId)
+        .single();
+
+      if (isEmbeddingProviderId(data?.embedding_provider)) {
+        providerId = data.embedding_provider;
+      }
+    } catch {
+      // Fall back to the default provider
+    }
+  }
+
+  projectProviderCache.set(projectId, {
+    id: providerId,
+    expiresAt: Date.now() + PROVIDER_CACHE_TTL_MS,
+  });
+
+  return getEmbeddingProvider(providerId);
+}
+
+/**
+ * Drop cached project lookups (after a project's provider changes, and in tests)
+ */
+export function clearEmbeddingProviderCache(projectId?: string): void {
+  if (projectId) {
+    projectProviderCache.delete(projectId);
+  } else {
+    projectProviderCache.clear();
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Embedding Provider Types
+ * Contract shared by all embedding backends (Jina, Google, OpenAI-compatible, local)
+ */
+
+/**
+ * Content type for dual embedding support
+ */
+export type ContentType = 'text' | 'code';
+
+/**
+ * Registered embedding provider identifiers
+ */
+export type EmbeddingProviderId = 'jina' | 'google' | 'openai-compatible' | 'local';
+
+export const EMBEDDING_PROVIDER_IDS: EmbeddingProviderId[] = [
+  'jina',
+  'google',
+  'openai-compatible',
+  'local',
+];
+
+/**
+ * Dimension of the document_embeddings.embedding column (vector(512)).
+ * Every provider must return vectors of exactly this size.
+ */
+export const EMBEDDING_DIMENSIONS = 512;
+
+/**
+ * An embedding backend.
+ * Providers embed passages (for storage) and queries (for search) separately
+ * because most models use asymmetric task prompts for the two.
+ */
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  /** Output vector size (always EMBEDDING_DIMENSIONS for stored embeddings) */
+  dimensions: number;
+  /** Max inputs accepted in one embedDocuments call */
+  maxBatchSize: number;
+  /** Request budget enforced by the batching pipeline (0 = unlimited) */
+  requestsPerMinute: number;
+  /** Whether credentials/endpoints needed by this provider are present */
+  isConfigured(): boolean;
+  /** Model name stored in document_embeddings.embedding_model for a content type */
+  modelFor(contentType: ContentType): string;
+  /** Embed passages for storage. Returns one vector per input, in order. */
+  embedDocuments(texts: string[], contentType: ContentType): Promise<number[][]>;
+  /** Embed a search query */
+  embedQuery(query: string, contentType: ContentType): Promise<number[]>;
+}
@@ -0,0 +1,26 @@
+/**
+ * Vector helpers shared by embedding providers
+ */
+
+/**
+ * Scale a vector to unit length (no-op for the zero vector)
+ */
+export function l2Normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) return vector;
+  return vector.map((v) => v / norm);
+}
+
+/**
+ * Fit a vector to the storage dimension.
+ * Longer vectors are truncated and re-normalized (Matryoshka-style), which is
+ * how providers without a native dimensions parameter are mapped onto vector(512).
+ * Shorter vectors cannot be stored and are rejected.
+ */
+export function fitToDimensions(vector: number[], dimensions: number): number[] {
+  if (vector.length === dimensions) return vector;
+  if (vector.length < dimensions) {
+    throw new Error(`Embedding has ${vector.length} dimensions, expected at least ${dimensions}`);
+  }
+  return l2Normalize(vector.slice(0, dimensions));
+}
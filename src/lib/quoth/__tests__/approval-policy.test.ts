@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock the supabase module before importing approval-policy
+vi.mock('../../supabase', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+import {
+  matchesPathPattern,
+  resolveApprovalPolicy,
+  canReview,
+  tallyApprovals,
+  describeApprovalPolicy,
+  type ApprovalPolicyRule,
+  type ApprovalVote,
+} from '../approval-policy';
+
+const rule = (overrides: Partial<ApprovalPolicyRule>): ApprovalPolicyRule => ({
+  id: 'rule',
+  position: 0,
+  path_pattern: '*',
+  auto_apply: false,
+  required_approvals: 1,
+  reviewer_roles: ['admin'],
+  reviewer_user_ids: [],
+  allow_self_approval: false,
+  ...overrides,
+});
+
+const vote = (user_id: string, decision: ApprovalVote['decision'] = 'approve'): ApprovalVote => ({
+  user_id,
+  reviewer_email: `${user_id}@example.com`,
+  reviewer_role: 'admin',
+  decision,
+});
+
+describe('matchesPathPattern', () => {
+  it('should match directories and everything below them', () => {
+    expect(matchesPathPattern('contracts/', 'contracts/api.md')).toBe(true);
+    expect(matchesPathPattern('contracts', 'contracts/v2/api.md')).toBe(true);
+    expect(matchesPathPattern('contracts/', 'patterns/contracts.md')).toBe(false);
+  });
+
+  it('should anchor patterns with a slash and float bare names', () => {
+    expect(matchesPathPattern('/api.md', 'api.md')).toBe(true);
+    expect(matchesPathPattern('/api.md', 'contracts/api.md')).toBe(false);
+    expect(matchesPathPattern('api.md', 'contracts/api.md')).toBe(true);
+    expect(matchesPathPattern('docs/api', 'archive/docs/api/x.md')).toBe(false);
+  });
+
+  it('should support *, ** and ?', () => {
+    expect(matchesPathPattern('patterns/*.md', 'patterns/auth.md')).toBe(true);
+    expect(matchesPathPattern('/patterns/*.md', 'patterns/sub/auth.md')).toBe(false);
+    expect(matchesPathPattern('**/api-*.md', 'contracts/v1/api-users.md')).toBe(true);
+    expect(matchesPathPattern('**/api-*.md', 'api-users.md')).toBe(true);
+    expect(matchesPathPattern('v?/*.md', 'v1/a.md')).toBe(true);
+    expect(matchesPathPattern('a.b.md', 'axb.md')).toBe(false);
+  });
+});
+
+describe('resolveApprovalPolicy', () => {
+  const rules = [
+    rule({ id: 'all', position: 0, path_pattern: '*' }),
+    rule({ id: 'contracts', position: 1, path_pattern: 'contracts/', required_approvals: 2, reviewer_user_ids: ['senior-1', 'senior-2'] }),
+    rule({ id: 'patterns', position: 2, path_pattern: 'patterns/', auto_apply: true }),
+  ];
+
+  it('should let the last matching rule win', () => {
+    expect(resolveApprovalPolicy(rules, 'contracts/api.md', true)).toMatchObject({
+      policy_id: 'contracts',
+      required_approvals: 2,
+      auto_apply: false,
+    });
+    expect(resolveApprovalPolicy(rules, 'patterns/auth.md', true).auto_apply).toBe(true);
+    expect(resolveApprovalPolicy([...rules].reverse(), 'architecture/overview.md', false).policy_id).toBe('all');
+  });
+
+  it('should fall back to the project default when no rule matches', () => {
+    expect(resolveApprovalPolicy([], 'a.md', true)).toEqual({
+      policy_id: null,
+      path_pattern: null,
+      auto_apply: false,
+      required_approvals: 1,
+      reviewer_roles: ['admin'],
+      reviewer_user_ids: [],
+      allow_self_approval: true,
+    });
+    expect(resolveApprovalPolicy([], 'a.md', false).auto_apply).toBe(true);
+  });
+});
+
+describe('tallyApprovals', () => {
+  const policy = resolveApprovalPolicy(
+    [rule({ path_pattern: 'contracts/', required_approvals: 2, reviewer_roles: [], reviewer_user_ids: ['a', 'b', 'c'] })],
+    'contracts/api.md',
+    true
+  );
+
+  it('should count distinct eligible reviewers', () => {
+    const roles = new Map([['a', 'editor'], ['b', 'editor'], ['x', 'admin']]);
+
+    expect(canReview(policy, 'a', 'editor')).toBe(true);
+    expect(canReview(policy, 'x', 'admin')).toBe(false);
+    expect(tallyApprovals([vote('a'), vote('a'), vote('x')], policy, null, roles)).toMatchObject({
+      approvals: 1,
+      satisfied: false,
+    });
+    expect(tallyApprovals([vote('a'), vote('b')], policy, null, roles)).toEqual({
+      approvals: 2,
+      required: 2,
+      satisfied: true,
+      approvers: ['a@example.com', 'b@example.com'],
+    });
+  });
+
+  it('should not count the author when self-approval is blocked', () => {
+    const roles = new Map([['a', 'editor'], ['b', 'editor']]);
+
+    expect(tallyApprovals([vote('a'), vote('b')], policy, 'a', roles).approvals).toBe(1);
+    expect(tallyApprovals([vote('a'), vote('b')], { ...policy, allow_self_approval: true }, 'a', roles).approvals).toBe(2);
+  });
+
+  it('should describe who must approve', () => {
+    expect(describeApprovalPolicy(policy)).toBe('2 approval(s) from 3 named reviewer(s) (policy `contracts/`)');
+    expect(describeApprovalPolicy(resolveApprovalPolicy([], 'a.md', true))).toBe('1 approval(s) from admins');
+  });
+});
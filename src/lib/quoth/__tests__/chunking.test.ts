@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { ASTChunker, type CodeChunk } from '../chunking';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf-8');
+}
+
+describe('AST chunking for additional languages', () => {
+  const chunker = new ASTChunker();
+
+  async function chunkFixture(name: string): Promise<CodeChunk[]> {
+    return chunker.chunkFile(`services/${name}`, readFixture(name));
+  }
+
+  function findChunk(chunks: CodeChunk[], type: string, text: string): CodeChunk | undefined {
+    return chunks.find((c) => c.type === type && c.content.includes(text));
+  }
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await chunker.init();
+  });
+
+  it('should have tree-sitter available', () => {
+    expect(chunker.isASTEnabled()).toBe(true);
+  });
+
+  it('should chunk Go functions, methods and types with their doc comments', async () => {
+    const chunks = await chunkFixture('sample.go');
+
+    const total = findChunk(chunks, 'function_declaration', 'func Total');
+    expect(total).toBeDefined();
+    expect(total!.metadata.language).toBe('go');
+    // Multi-line // doc comment stays attached
+    expect(total!.content).toMatch(/^\/\/ Total sums invoice amounts\.\n\/\/ Invoices with/);
+    expect(total!.content.trimEnd().endsWith('}')).toBe(true);
+
+    expect(findChunk(chunks, 'method_declaration', 'func (i *Invoice) Validate')).toBeDefined();
+    expect(findChunk(chunks, 'type_declaration', 'type Invoice struct')).toBeDefined();
+  });
+
+  it('should chunk Rust items and record the impl target as parent context', async () => {
+    const chunks = await chunkFixture('sample.rs');
+
+    expect(findChunk(chunks, 'struct_item', 'pub struct Cache')).toBeDefined();
+    expect(findChunk(chunks, 'enum_item', 'pub enum Eviction')).toBeDefined();
+    expect(findChunk(chunks, 'impl_item', 'impl Cache')).toBeDefined();
+
+    const insert = findChunk(chunks, 'function_item', 'pub fn insert');
+    expect(insert).toBeDefined();
+    expect(insert!.content).toContain('/// Insert a value');
+    expect(insert!.metadata.parentContext).toBe('Cache');
+  });
+
+  it('should chunk Java classes, constructors and methods', async () => {
+    const chunks = await chunkFixture('Sample.java');
+
+    expect(findChunk(chunks, 'class_declaration', 'public class TokenService')).toBeDefined();
+    expect(findChunk(chunks, 'interface_declaration', 'interface TokenStore')).toBeDefined();
+    expect(findChunk(chunks, 'constructor_declaration', 'public TokenService(String secret)')).toBeDefined();
+
+    const validate = findChunk(chunks, 'method_declaration', 'public boolean validate');
+    expect(validate).toBeDefined();
+    expect(validate!.content).toContain('Returns true when the token');
+    expect(validate!.metadata.parentContext).toBe('TokenService');
+  });
+
+  it('should chunk C# classes, interfaces and methods', async () => {
+    const chunks = await chunkFixture('Sample.cs');
+
+    expect(findChunk(chunks, 'class_declaration', 'public class OrderService')).toBeDefined();
+    expect(findChunk(chunks, 'interface_declaration', 'public interface IOrderRepository')).toBeDefined();
+
+    const placeOrder = findChunk(chunks, 'method_declaration', 'public void PlaceOrder');
+    expect(placeOrder).toBeDefined();
+    expect(placeOrder!.metadata.language).toBe('csharp');
+    expect(placeOrder!.content).toContain('/// <summary>Places an order');
+    expect(placeOrder!.metadata.parentContext).toBe('OrderService');
+  });
+
+  it('should chunk Ruby modules, classes and methods', async () => {
+    const chunks = await chunkFixture('sample.rb');
+
+    expect(findChunk(chunks, 'module', 'module Api')).toBeDefined();
+    expect(findChunk(chunks, 'class', 'class UserSerializer')).toBeDefined();
+    expect(findChunk(chunks, 'singleton_method', 'def self.collection')).toBeDefined();
+
+    const asJson = findChunk(chunks, 'method', 'def as_json');
+    expect(asJson).toBeDefined();
+    expect(asJson!.content).toContain('# Hash representation');
+    expect(asJson!.metadata.parentContext).toBe('UserSerializer');
+  });
+
+  it('should keep functions whole instead of splitting on blank lines', async () => {
+    const chunks = await chunkFixture('sample.go');
+
+    // The text fallback emits text_block chunks split on blank lines
+    expect(chunks.every((c) => c.type !== 'text_block')).toBe(true);
+  });
+});
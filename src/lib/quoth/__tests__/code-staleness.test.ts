@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+// Documents seen by the Supabase mock
+const state = vi.hoisted(() => ({
+  documents: [] as Array<{
+    id: string;
+    file_path: string;
+    content: string;
+    last_verified_commit: string | null;
+    verified_at?: string | null;
+    last_updated?: string | null;
+  }>,
+}));
+
+// Mock Supabase (chainable query builder; only dry runs are exercised)
+vi.mock('../../supabase', () => {
+  const query = () => {
+    const builder: Record<string, unknown> = {
+      select: () => builder,
+      eq: () => builder,
+      then: (resolve: (value: unknown) => void) => resolve({ data: state.documents, error: null }),
+    };
+    return builder;
+  };
+
+  return { supabase: { from: vi.fn(query) } };
+});
+
+import { referencedCodePaths, scanCodeStaleness } from '../code-staleness';
+
+describe('referencedCodePaths', () => {
+  it('should combine code references with related_stack entries that are repo paths', () => {
+    const files = new Set(['src/lib/auth.ts', 'src/lib/billing/invoice.ts', 'package.json']);
+    const content = [
+      '---',
+      'related_stack: [nextjs, src/lib/billing/, src/lib/missing.ts]',
+      '---',
+      'Guards: `src/lib/auth.ts:3-8` and `src/lib/gone.ts:1`.',
+    ].join('\n');
+
+    expect(referencedCodePaths(content, files)).toEqual(['src/lib/auth.ts', 'src/lib/billing']);
+  });
+});
+
+describe('scanCodeStaleness', () => {
+  let repo: string;
+
+  function git(...args: string[]): string {
+    return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args], {
+      cwd: repo,
+      encoding: 'utf8',
+    }).trim();
+  }
+
+  function commit(file: string, content: string): string {
+    mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+    writeFileSync(path.join(repo, file), content);
+    git('add', '-A');
+    git('commit', '-q', '-m', `edit ${file}`);
+    return git('rev-parse', 'HEAD');
+  }
+
+  let verified: string;
+
+  beforeAll(() => {
+    repo = mkdtempSync(path.join(tmpdir(), 'quoth-staleness-test-'));
+    git('init', '-q');
+    commit('src/lib/stable.ts', 'export const stable = 1;\n');
+    verified = commit('src/lib/auth.ts', 'export const auth = 0;\n');
+    for (let i = 1; i <= 5; i++) commit('src/lib/auth.ts', `export const auth = ${i};\n`);
+    commit('src/lib/other.ts', 'export const other = 1;\n');
+  });
+
+  afterAll(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should count commits to referenced code since the verified commit', async () => {
+    state.documents = [
+      { id: 'doc-auth', file_path: 'auth.md', content: 'See `src/lib/auth.ts:1`.', last_verified_commit: verified },
+      {
+        id: 'doc-stable',
+        file_path: 'stable.md',
+        content: `---\nlast_verified_commit: "${verified.slice(0, 10)}"\n---\nSee \`src/lib/stable.ts:1\`.`,
+        last_verified_commit: null,
+      },
+      { id: 'doc-none', file_path: 'none.md', content: 'No code here.', last_verified_commit: verified },
+      { id: 'doc-lost', file_path: 'lost.md', content: 'See `src/lib/auth.ts:1`.', last_verified_commit: 'deadbeef' },
+    ];
+
+    const result = await scanCodeStaleness('project-1', { type: 'worktree', path: repo }, { dryRun: true });
+
+    expect(result.documents.map((doc) => [doc.documentId, doc.status, doc.commits, doc.changedPaths, doc.level])).toEqual([
+      ['doc-auth', 'checked', 5, ['src/lib/auth.ts'], 'stale'],
+      ['doc-stable', 'checked', 0, [], 'fresh'],
+      ['doc-none', 'no_references', 0, [], 'fresh'],
+      ['doc-lost', 'unknown_commit', 0, [], 'fresh'],
+    ]);
+    expect(result.documents[1].verifiedCommit).toBe(verified);
+    expect(result.updated).toBe(0);
+  });
+
+  it('should not count commits made before the document was verified or updated', async () => {
+    const later = new Date(Date.now() + 60_000).toISOString();
+    const earlier = '2000-01-01T00:00:00.000Z';
+    const doc = { file_path: 'auth.md', content: 'See `src/lib/auth.ts:1`.', last_verified_commit: verified };
+    state.documents = [
+      { ...doc, id: 'doc-verified', verified_at: later, last_updated: earlier },
+      { ...doc, id: 'doc-rewritten', verified_at: null, last_updated: later },
+      { ...doc, id: 'doc-old', verified_at: earlier, last_updated: earlier },
+    ];
+
+    const result = await scanCodeStaleness('project-1', { type: 'worktree', path: repo }, { dryRun: true });
+
+    expect(result.documents.map((d) => [d.documentId, d.commits, d.changedPaths, d.level])).toEqual([
+      ['doc-verified', 0, [], 'fresh'],
+      ['doc-rewritten', 0, [], 'fresh'],
+      ['doc-old', 5, ['src/lib/auth.ts'], 'stale'],
+    ]);
+  });
+});
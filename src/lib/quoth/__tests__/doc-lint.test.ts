@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { lintDocument, headingSlug, formatLintFindings } from '../doc-lint';
+
+const FRONTMATTER = `---
+id: auth-guards
+type: testing-pattern
+status: active
+last_updated_date: 2026-01-15
+---
+`;
+
+const filler = (words: number) => Array.from({ length: words }, (_, i) => `word${i}`).join(' ');
+
+const section = (title: string, words = 60) => `## ${title}
+
+**Summary:** ${title} in one line.
+
+${filler(words)}
+`;
+
+const VALID = `${FRONTMATTER}# Auth Guards
+
+${section('Route Guards')}
+${section('Common Questions (FAQ)', 10)}`;
+
+describe('lintDocument', () => {
+  it('should pass a document that follows the rules', () => {
+    const result = lintDocument('patterns/auth.md', VALID, { knownPaths: ['patterns/auth.md'] });
+
+    expect(result).toEqual({ errors: 0, warnings: 0, findings: [] });
+    expect(formatLintFindings(result)).toBe('No lint findings.');
+  });
+
+  it('should report missing and invalid frontmatter fields', () => {
+    const content = VALID.replace('last_updated_date: 2026-01-15\n', '').replace('type: testing-pattern', 'type: recipe');
+
+    const result = lintDocument('patterns/auth.md', content);
+
+    expect(result.errors).toBe(2);
+    expect(result.findings.map((f) => f.message)).toEqual([
+      expect.stringContaining('Frontmatter field `type`'),
+      'Frontmatter is missing required field `last_updated_date`',
+    ]);
+  });
+
+  it('should reject documents without frontmatter or with an unparsable date', () => {
+    expect(lintDocument('a.md', '# Title\n').findings[0]).toMatchObject({
+      rule: 'frontmatter',
+      severity: 'error',
+      message: 'Missing YAML frontmatter',
+    });
+
+    const badDate = lintDocument('a.md', VALID.replace('2026-01-15', '"last tuesday"'));
+    expect(badDate.findings.map((f) => f.message)).toEqual([
+      'Frontmatter field `last_updated_date` is not a date: "last tuesday"',
+    ]);
+  });
+
+  it('should warn about section length, missing summaries and a missing FAQ', () => {
+    const content = `${FRONTMATTER}# Auth
+
+## Short
+
+Too short.
+
+${section('Long', 300)}`;
+
+    const result = lintDocument('a.md', content);
+
+    expect(result.errors).toBe(0);
+    expect(result.findings.map((f) => [f.rule, f.line])).toEqual([
+      ['section-length', 9],
+      ['section-summary', 9],
+      ['section-length', 13],
+      ['faq', null],
+    ]);
+  });
+
+  it('should not require a FAQ in templates and ignore code when counting words', () => {
+    const code = Array.from({ length: 20 }, (_, i) => `const x${i} = ${i};`).join('\n');
+    const content = `${VALID.replace('type: testing-pattern', 'type: template').replace(/## Common Questions[\s\S]*/, '')}
+## Example
+
+**Summary:** Example.
+
+\`\`\`ts
+${code}
+\`\`\`
+`;
+
+    const result = lintDocument('a.md', content);
+
+    expect(result.findings.map((f) => f.rule)).toEqual(['section-length', 'code-block-size']);
+    expect(result.findings[1].message).toContain('Code block has 20 lines');
+  });
+
+  it('should report broken document links and anchors, skipping code', () => {
+    const content = `${VALID}
+See [guards](#route-guards), [tokens](#tokens) and [errors](../errors/handling.md#retries).
+Also [setup](./setup.md), [site](https://example.com) and \`[inline](missing.md)\`.
+
+\`\`\`md
+[fenced](missing.md)
+\`\`\`
+`;
+
+    const result = lintDocument('patterns/auth.md', content, {
+      knownPaths: ['patterns/auth.md', 'errors/handling.md'],
+    });
+
+    expect(result.findings.map((f) => f.message)).toEqual([
+      'Link to missing section "#tokens"',
+      'Link to missing document "./setup.md"',
+    ]);
+    expect(result.findings.every((f) => f.severity === 'error')).toBe(true);
+  });
+});
+
+describe('headingSlug', () => {
+  it('should follow GitHub anchor rules', () => {
+    expect(headingSlug('Common Questions (FAQ)')).toBe('common-questions-faq');
+    expect(headingSlug('`useAuth()` & Guards')).toBe('useauth--guards');
+  });
+});
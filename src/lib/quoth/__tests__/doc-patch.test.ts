@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { applyDocumentPatch, describePatchOperation } from '../doc-patch';
+import { diffLines, formatUnifiedDiff } from '../diff';
+
+const DOC = `---
+id: auth
+---
+# Auth
+
+Intro.
+
+## Guards
+
+Use guards.
+
+### Redirects
+
+Redirect to /login.
+
+## Tokens
+
+Tokens expire after 1h.
+
+\`\`\`bash
+## not a heading
+\`\`\`
+`;
+
+describe('applyDocumentPatch', () => {
+  it('should replace a section body including its subsections', () => {
+    const result = applyDocumentPatch(DOC, [
+      { op: 'replace_section', heading: 'Guards', content: 'Guards live in src/guards.\n' },
+    ]);
+
+    expect(result).toContain('## Guards\n\nGuards live in src/guards.\n\n## Tokens');
+    expect(result).not.toContain('Redirects');
+  });
+
+  it('should append to the section body before its subsections', () => {
+    const result = applyDocumentPatch(DOC, [
+      { op: 'append_to_section', heading: '## Guards', content: 'Guards run before loaders.' },
+    ]);
+
+    expect(result).toContain('Use guards.\n\nGuards run before loaders.\n\n### Redirects');
+  });
+
+  it('should insert below a heading and append at the end of the document', () => {
+    const result = applyDocumentPatch(DOC, [
+      { op: 'insert_after_heading', heading: 'Auth > Guards > Redirects', content: '> Applies to pages only.' },
+      { op: 'append_to_section', heading: 'Tokens', content: 'Refresh with /token.' },
+    ]);
+
+    expect(result).toContain('### Redirects\n\n> Applies to pages only.\n\nRedirect to /login.');
+    expect(result.endsWith('## not a heading\n```\n\nRefresh with /token.\n')).toBe(true);
+  });
+
+  it('should ignore headings inside code fences and report unknown headings', () => {
+    expect(() => applyDocumentPatch(DOC, [
+      { op: 'replace_section', heading: 'Guards', content: 'x' },
+      { op: 'replace_section', heading: 'not a heading', content: 'x' },
+    ])).toThrow('Operation 2 (replace_section): heading "not a heading" not found. Headings: # Auth, ## Guards, ## Tokens');
+  });
+
+  it('should reject ambiguous headings', () => {
+    const doc = '# A\n\n## Setup\n\nx\n\n# B\n\n## Setup\n\ny\n';
+
+    expect(() => applyDocumentPatch(doc, [{ op: 'append_to_section', heading: 'Setup', content: 'z' }]))
+      .toThrow('is ambiguous (2 matches)');
+    expect(applyDocumentPatch(doc, [{ op: 'append_to_section', heading: 'B > Setup', content: 'z' }]))
+      .toBe('# A\n\n## Setup\n\nx\n\n# B\n\n## Setup\n\ny\n\nz\n');
+  });
+
+  it('should apply unified diff hunks whose line numbers drifted', () => {
+    const diff = [
+      '--- a/patterns/auth.md',
+      '+++ b/patterns/auth.md',
+      '@@ -10,3 +10,3 @@',
+      ' ',
+      '-Use guards.',
+      '+Use route guards.',
+      '',
+      '@@ -20,1 +20,2 @@',
+      ' Tokens expire after 1h.',
+      '+Refresh tokens expire after 30d.',
+    ].join('\n');
+
+    const result = applyDocumentPatch(DOC, [{ op: 'unified_diff', diff }]);
+
+    expect(result).toContain('## Guards\n\nUse route guards.\n\n### Redirects');
+    expect(result).toContain('Tokens expire after 1h.\nRefresh tokens expire after 30d.\n');
+  });
+
+  it('should reject diff hunks whose context is not in the document', () => {
+    const diff = '@@ -1,1 +1,1 @@\n-Tokens expire after 2h.\n+Tokens expire after 3h.';
+
+    expect(() => applyDocumentPatch(DOC, [{ op: 'unified_diff', diff }]))
+      .toThrow('Operation 1 (unified_diff): hunk 1 (@@ -1) does not match the current document');
+  });
+
+  it('should describe operations for reviewers', () => {
+    expect(describePatchOperation({ op: 'insert_after_heading', heading: 'Tokens', content: 'x' }))
+      .toBe('Insert after heading "Tokens"');
+    expect(describePatchOperation({ op: 'unified_diff', diff: '@@ -1 +1 @@\n-a\n+b\n@@ -5 +5 @@\n-c\n+d' }))
+      .toBe('Apply diff (2 hunk(s))');
+  });
+});
+
+describe('diffLines', () => {
+  it('should return only changed regions with context', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+    const after = before.replace('line 3\n', 'line three\n').replace('line 18\n', 'line 18\nline 18b\n');
+
+    const hunks = diffLines(before, after, 1);
+
+    expect(formatUnifiedDiff(hunks)).toBe([
+      '@@ -2,3 +2,3 @@',
+      ' line 2',
+      '-line 3',
+      '+line three',
+      ' line 4',
+      '@@ -18,2 +18,3 @@',
+      ' line 18',
+      '+line 18b',
+      ' line 19',
+    ].join('\n'));
+  });
+
+  it('should round-trip through unified_diff operations', () => {
+    const after = DOC.replace('Intro.', 'Intro to auth.').replace('Tokens expire after 1h.\n', '');
+    const diff = formatUnifiedDiff(diffLines(DOC, after));
+
+    expect(applyDocumentPatch(DOC, [{ op: 'unified_diff', diff }])).toBe(after);
+  });
+});
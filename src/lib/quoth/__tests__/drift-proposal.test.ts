@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock Supabase (only the pure drafting is tested here)
+vi.mock('../../supabase', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+import { draftDriftFix } from '../drift-proposal';
+
+const DOC = [
+  '# Auth',
+  '',
+  '## Guards',
+  '',
+  'See `src/lib/auth.ts:1-2` and `src/lib/auth.ts:1-20`.',
+  '',
+  '- Step:',
+  '  ```ts',
+  '  const session = await getSession();',
+  '  if (!session) redirect();',
+  '  ```',
+].join('\n');
+
+describe('draftDriftFix', () => {
+  it('should replace exact occurrences without touching longer references', () => {
+    const fix = draftDriftFix(DOC, 'src/lib/auth.ts:1-2', 'src/lib/auth.ts:6-7');
+
+    expect(fix.replacements).toBe(1);
+    expect(fix.section).toBe('Guards');
+    expect(fix.content).toContain('`src/lib/auth.ts:6-7` and `src/lib/auth.ts:1-20`');
+  });
+
+  it('should match snippets ignoring indentation and keep the document indentation', () => {
+    const fix = draftDriftFix(
+      DOC,
+      'const session = await getSession();\nif (!session) redirect();',
+      'const { data } = await supabase.auth.getUser();\nif (!data.user) {\n  redirect();\n}'
+    );
+
+    expect(fix.content.split('\n').slice(8)).toEqual([
+      '  const { data } = await supabase.auth.getUser();',
+      '  if (!data.user) {',
+      '    redirect();',
+      '  }',
+      '  ```',
+    ]);
+  });
+
+  it('should refuse when the expected text is gone', () => {
+    expect(() => draftDriftFix(DOC, 'useSession()', 'getUser()')).toThrow(/no longer appears/);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+// Documents, open drift events and inserts seen by the Supabase mock
+const state = vi.hoisted(() => ({
+  documents: [] as Array<{ id: string; file_path: string; content: string }>,
+  open: [] as Array<Record<string, unknown>>,
+  inserts: [] as Array<Record<string, unknown>>,
+}));
+
+// Mock Supabase (chainable query builder)
+vi.mock('../../supabase', () => {
+  const query = (table: string) => {
+    const builder: Record<string, unknown> = {
+      select: () => builder,
+      eq: () => builder,
+      insert: (row: Record<string, unknown>) => {
+        state.inserts.push(row);
+        return Promise.resolve({ error: null });
+      },
+      then: (resolve: (value: unknown) => void) =>
+        resolve({ data: table === 'documents' ? state.documents : state.open, error: null }),
+    };
+    return builder;
+  };
+
+  return { supabase: { from: vi.fn(query) } };
+});
+
+vi.mock('../activity', () => ({ logActivity: vi.fn() }));
+
+import { extractCodeReferences, checkReference, scanDrift } from '../drift-scanner';
+
+const AUTH_TS = [
+  "import { createClient } from './client';",
+  '',
+  'export async function requireUser() {',
+  '  const supabase = createClient();',
+  '  const { data } = await supabase.auth.getUser();',
+  "  if (!data.user) throw new Error('Unauthorized');",
+  '  return data.user;',
+  '}',
+  '',
+].join('\n');
+
+describe('extractCodeReferences', () => {
+  it('should attach fenced snippets from the info string, a first-line comment or the line before', () => {
+    const refs = extractCodeReferences([
+      'Guards live in `src/lib/auth.ts:3-8`:',
+      '',
+      '```ts',
+      'export async function requireUser() {',
+      '  // ...',
+      '}',
+      '```',
+      '',
+      '```ts src/lib/client.ts:1',
+      'export const createClient = () => null;',
+      '```',
+      '',
+      '```ts',
+      '// src/app/api/route.ts',
+      'export const GET = handler;',
+      '```',
+      '',
+      'See https://example.com/src/lib/auth.ts and README.md and `lib/util.ts` too.',
+    ].join('\n'));
+
+    expect(refs).toEqual([
+      { path: 'src/lib/auth.ts', startLine: 3, endLine: 8, docLine: 1, snippet: 'export async function requireUser() {\n  // ...\n}' },
+      { path: 'src/lib/client.ts', startLine: 1, endLine: 1, docLine: 9, snippet: 'export const createClient = () => null;' },
+      { path: 'src/app/api/route.ts', startLine: null, endLine: null, docLine: 14, snippet: 'export const GET = handler;' },
+      { path: 'lib/util.ts', startLine: null, endLine: null, docLine: 18, snippet: null },
+    ]);
+  });
+});
+
+describe('checkReference', () => {
+  const ref = (startLine: number | null, endLine: number | null, snippet: string | null) => ({
+    path: 'src/lib/auth.ts', startLine, endLine, docLine: 1, snippet,
+  });
+
+  it('should accept snippets with elisions inside the referenced lines', () => {
+    const snippet = 'export async function requireUser() {\n  // ...\n  return data.user;\n}';
+    expect(checkReference(ref(3, 8, snippet), AUTH_TS)).toEqual({ status: 'ok' });
+  });
+
+  it('should report moved, diverged, out of range and missing files', () => {
+    const snippet = "if (!data.user) throw new Error('Unauthorized');";
+    expect(checkReference(ref(1, 2, snippet), AUTH_TS)).toEqual({ status: 'moved', startLine: 6, endLine: 6 });
+    expect(checkReference(ref(40, 45, null), AUTH_TS)).toEqual({ status: 'out_of_range', lineCount: 8 });
+    expect(checkReference(ref(3, 3, null), null)).toEqual({ status: 'missing_file' });
+
+    const stale = "  const user = await getSession();\n  if (!user) throw new Error('Unauthorized');";
+    expect(checkReference(ref(4, 5, stale), AUTH_TS)).toEqual({
+      status: 'diverged',
+      startLine: 4,
+      endLine: 5,
+      actualCode: '  const supabase = createClient();\n  const { data } = await supabase.auth.getUser();',
+    });
+  });
+});
+
+describe('scanDrift', () => {
+  let repo: string;
+
+  function git(...args: string[]): string {
+    return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args], {
+      cwd: repo,
+      encoding: 'utf8',
+    }).trim();
+  }
+
+  function write(file: string, content: string) {
+    mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+    writeFileSync(path.join(repo, file), content);
+  }
+
+  beforeAll(() => {
+    repo = mkdtempSync(path.join(tmpdir(), 'quoth-drift-test-'));
+    git('init', '-q');
+    write('src/lib/auth.ts', AUTH_TS);
+    write('src/lib/client.ts', 'export const createClient = () => null;\n');
+    write('src/lib/__tests__/auth.test.ts', 'test\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'code');
+  });
+
+  afterAll(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    state.inserts = [];
+    state.open = [];
+    state.documents = [{
+      id: 'doc-auth',
+      file_path: 'patterns/auth.md',
+      content: [
+        '# Auth',
+        '',
+        '`src/lib/auth.ts:5-6`',
+        '```ts',
+        'const session = await getSession();',
+        '```',
+        '',
+        'Sessions are stored by `src/lib/session.ts:10-20`.',
+      ].join('\n'),
+    }];
+  });
+
+  it('should record each kind of finding once', async () => {
+    const result = await scanDrift('project-1', { type: 'worktree', path: repo }, { userId: 'user-1' });
+
+    expect(result).toMatchObject({ documentsScanned: 1, referencesChecked: 2, recorded: 3, alreadyOpen: 0 });
+    expect(result.findings.map((f) => [f.driftType, f.filePath])).toEqual([
+      ['code_diverged', 'src/lib/auth.ts'],
+      ['stale_doc', 'src/lib/session.ts'],
+      ['missing_doc', 'src/lib/client.ts'],
+    ]);
+    expect(state.inserts[0]).toMatchObject({
+      document_id: 'doc-auth',
+      drift_type: 'code_diverged',
+      severity: 'warning',
+      expected_pattern: 'const session = await getSession();',
+      actual_code: "  const { data } = await supabase.auth.getUser();\n  if (!data.user) throw new Error('Unauthorized');",
+    });
+    expect(state.inserts[1]).toMatchObject({ drift_type: 'stale_doc', severity: 'critical' });
+
+    // A second scan with the findings still open records nothing
+    state.open = state.inserts;
+    state.inserts = [];
+    const rescan = await scanDrift('project-1', { type: 'worktree', path: repo });
+    expect(rescan).toMatchObject({ recorded: 0, alreadyOpen: 3 });
+    expect(state.inserts).toEqual([]);
+  });
+});
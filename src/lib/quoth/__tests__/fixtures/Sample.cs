@@ -0,0 +1,27 @@
+using System;
+
+namespace Example.Orders
+{
+    /// <summary>Places customer orders.</summary>
+    public class OrderService
+    {
+        private readonly IOrderRepository _repository;
+
+        public OrderService(IOrderRepository repository)
+        {
+            _repository = repository;
+        }
+
+        /// <summary>Places an order after validating quantity.</summary>
+        public void PlaceOrder(string sku, int quantity)
+        {
+            if (quantity <= 0) throw new ArgumentException("quantity");
+            _repository.Save(sku, quantity);
+        }
+    }
+
+    public interface IOrderRepository
+    {
+        void Save(string sku, int quantity);
+    }
+}
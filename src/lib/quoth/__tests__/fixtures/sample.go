@@ -0,0 +1,33 @@
+package billing
+
+import "errors"
+
+// ErrInvalidAmount is returned for non-positive charges.
+var ErrInvalidAmount = errors.New("invalid amount")
+
+// Invoice is a customer charge.
+type Invoice struct {
+	ID     string
+	Amount int64
+}
+
+// Total sums invoice amounts.
+// Invoices with non-positive amounts are rejected.
+func Total(invoices []Invoice) (int64, error) {
+	var sum int64
+	for _, inv := range invoices {
+		if inv.Amount <= 0 {
+			return 0, ErrInvalidAmount
+		}
+		sum += inv.Amount
+	}
+	return sum, nil
+}
+
+// Validate checks a single invoice.
+func (i *Invoice) Validate() error {
+	if i.Amount <= 0 {
+		return ErrInvalidAmount
+	}
+	return nil
+}
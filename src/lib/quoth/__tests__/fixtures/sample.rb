@@ -0,0 +1,20 @@
+require "json"
+
+# Serializes users for the public API.
+module Api
+  class UserSerializer
+    # Build a serializer for one user.
+    def initialize(user)
+      @user = user
+    end
+
+    # Hash representation without private fields.
+    def as_json
+      { id: @user.id, name: @user.name }
+    end
+
+    def self.collection(users)
+      users.map { |u| new(u).as_json }
+    end
+  end
+end
@@ -0,0 +1,28 @@
+use std::collections::HashMap;
+
+/// In-memory cache with a fixed capacity.
+pub struct Cache {
+    entries: HashMap<String, String>,
+    capacity: usize,
+}
+
+impl Cache {
+    /// Create an empty cache.
+    pub fn new(capacity: usize) -> Self {
+        Cache { entries: HashMap::new(), capacity }
+    }
+
+    /// Insert a value, refusing writes once full.
+    pub fn insert(&mut self, key: String, value: String) -> bool {
+        if self.entries.len() >= self.capacity {
+            return false;
+        }
+        self.entries.insert(key, value);
+        true
+    }
+}
+
+pub enum Eviction {
+    Lru,
+    Fifo,
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import matter from 'gray-matter';
+
+// Mock Supabase (only clustering, templates and drafting are tested here)
+vi.mock('../../supabase', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+import {
+  clusterQueries,
+  loadGapTemplates,
+  suggestTemplate,
+  draftGapDocument,
+  gapTitle,
+  type MissedQuery,
+} from '../gap-analysis';
+
+const missed = (query: string, missCount: number): MissedQuery => ({
+  query,
+  missCount,
+  zeroResultCount: missCount,
+  lastMissed: '2026-03-01T00:00:00Z',
+});
+
+describe('clusterQueries', () => {
+  it('should group similar queries and label each cluster with its most central query', () => {
+    const queries = [
+      missed('retry failed webhooks', 3),
+      missed('webhook retries', 5),
+      missed('webhook backoff policy', 1),
+      missed('dark mode colors', 2),
+    ];
+    const embeddings = [
+      [0.9, 0.1, 0],
+      [1, 0, 0],
+      [0.8, 0.3, 0],
+      [0, 0, 1],
+    ];
+
+    const clusters = clusterQueries(queries, embeddings, 0.9);
+
+    expect(clusters.map((c) => [c.label, c.missCount, c.queries.map((q) => q.query)])).toEqual([
+      ['retry failed webhooks', 9, ['webhook retries', 'retry failed webhooks', 'webhook backoff policy']],
+      ['dark mode colors', 2, ['dark mode colors']],
+    ]);
+  });
+});
+
+describe('templates', () => {
+  it('should suggest the template whose keywords match the missed queries', () => {
+    const templates = loadGapTemplates();
+    const cluster = {
+      label: 'how do we handle api errors',
+      missCount: 4,
+      queries: [missed('how do we handle api errors', 3), missed('exception boundaries', 1)],
+    };
+
+    expect(suggestTemplate(cluster, templates)?.path).toBe('templates/patterns/error-handling.md');
+    expect(suggestTemplate({ label: 'zzz', missCount: 1, queries: [missed('zzz', 1)] }, templates)).toBeNull();
+  });
+
+  it('should draft a new document under the suggested title with the queries to answer', () => {
+    const template = [
+      '---',
+      'id: template-patterns-error-handling',
+      'type: template',
+      'target_type: testing-pattern',
+      '---',
+      '',
+      '# Error Handling Template',
+      '',
+      '## Error Types',
+      '',
+      '{types}',
+    ].join('\n');
+
+    const draft = draftGapDocument(
+      {
+        label: 'how do we handle api errors?',
+        representative_queries: ['how do we handle api errors?', 'exception boundaries'],
+        suggested_path: 'patterns/handle-api-errors.md',
+      },
+      template
+    );
+    const { data, content } = matter(draft);
+
+    expect(data).toMatchObject({
+      id: 'handle-api-errors',
+      type: 'testing-pattern',
+      status: 'draft',
+      common_queries: ['how do we handle api errors?', 'exception boundaries'],
+    });
+    expect(content).toContain('# How do we handle api errors\n\n> **Drafted from missed searches.**');
+    expect(content).toContain('> - "exception boundaries"\n\n## Error Types');
+    expect(content).not.toContain('Error Handling Template');
+    expect(gapTitle('  webhook retries ')).toBe('Webhook retries');
+  });
+});
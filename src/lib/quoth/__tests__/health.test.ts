@@ -18,6 +18,7 @@ vi.mock('../../supabase', () => ({
 }));
 
 import { calculateStaleness, StalenessLevel } from '../health';
+import { resolveStalenessPolicy, DEFAULT_STALENESS_POLICY } from '../staleness-policy';
 
 describe('document health', () => {
   it('should classify recently updated docs as fresh', () => {
@@ -88,3 +89,86 @@ describe('document health', () => {
     expect(critical.suggestedAction).toBe('Urgent update required');
   });
 });
+
+describe('staleness policies', () => {
+  const now = new Date('2026-03-01T00:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  it('should scale thresholds to the policy max age', () => {
+    const contract = calculateStaleness(daysAgo(20), { maxAgeDays: 14, now });
+    expect(contract).toMatchObject({ level: 'stale', source: 'policy' });
+
+    const architecture = calculateStaleness(daysAgo(100), { maxAgeDays: 180, now });
+    expect(architecture).toMatchObject({ level: 'aging', source: 'policy' });
+  });
+
+  it('should let review_by override the policy until it is passed by an update', () => {
+    const due = calculateStaleness(daysAgo(10), { maxAgeDays: 14, reviewBy: '2026-03-10', now });
+    expect(due).toMatchObject({ level: 'aging', source: 'review_by', suggestedAction: 'Review due by 2026-03-10' });
+
+    const overdue = calculateStaleness(daysAgo(20), { maxAgeDays: 180, reviewBy: '2026-02-20', now });
+    expect(overdue).toMatchObject({ level: 'stale', source: 'review_by', suggestedAction: 'Review was due 2026-02-20' });
+
+    // Updated after review_by: the policy applies again
+    const updated = calculateStaleness(daysAgo(2), { maxAgeDays: 14, reviewBy: '2026-02-20', now });
+    expect(updated).toMatchObject({ level: 'fresh', source: 'policy' });
+  });
+
+  it('should count from the last verification when it is newer than the last update', () => {
+    const result = calculateStaleness(daysAgo(90), { verifiedAt: daysAgo(3), now });
+    expect(result).toMatchObject({ level: 'fresh', daysStale: 3 });
+    expect(result.lastUpdated).toEqual(daysAgo(90));
+  });
+
+  it('should resolve the last matching rule by type and path', () => {
+    const rules = [
+      { id: 'r1', position: 0, doc_type: 'contract' as const, path_pattern: null, max_age_days: 14 },
+      { id: 'r2', position: 1, doc_type: null, path_pattern: 'contracts/legacy/', max_age_days: 365 },
+      { id: 'r3', position: 2, doc_type: 'architecture' as const, path_pattern: null, max_age_days: 180 },
+    ];
+
+    expect(resolveStalenessPolicy(rules, { doc_type: 'contract', file_path: 'contracts/api.md' }).max_age_days).toBe(14);
+    expect(resolveStalenessPolicy(rules, { doc_type: 'contract', file_path: 'contracts/legacy/v1.md' }).policy_id).toBe('r2');
+    expect(resolveStalenessPolicy(rules, { doc_type: 'testing-pattern', file_path: 'patterns/unit.md' }))
+      .toEqual(DEFAULT_STALENESS_POLICY);
+  });
+});
+
+describe('code-aware staleness', () => {
+  const now = new Date('2026-03-01T00:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  const changes = (commits: number, filesChanged: number, filesReferenced = 4) => ({
+    verifiedCommit: 'a1b2c3d4e5f6a7b8',
+    commits,
+    filesChanged,
+    filesReferenced,
+    checkedAt: now,
+  });
+
+  it('should keep old docs about unchanged code out of stale and critical', () => {
+    const result = calculateStaleness(daysAgo(365), { codeChanges: changes(0, 0), now });
+    expect(result).toMatchObject({ level: 'aging', source: 'default', suggestedAction: 'Review for accuracy' });
+  });
+
+  it('should raise recent docs whose code was rewritten', () => {
+    const result = calculateStaleness(daysAgo(7), { codeChanges: changes(16, 1), now });
+    expect(result).toMatchObject({
+      level: 'critical',
+      source: 'code',
+      suggestedAction: '16 commit(s) changed 1 of 4 referenced file(s) since a1b2c3d4e5f6',
+    });
+
+    // Few commits, but most referenced files changed
+    expect(calculateStaleness(daysAgo(7), { codeChanges: changes(2, 3), now }).level).toBe('stale');
+  });
+
+  it('should ignore counts taken before the last update or verification', () => {
+    const result = calculateStaleness(daysAgo(7), {
+      verifiedAt: daysAgo(1),
+      codeChanges: { ...changes(20, 4), checkedAt: daysAgo(2) },
+      now,
+    });
+    expect(result).toMatchObject({ level: 'fresh', source: 'default' });
+    expect(result.codeChanges).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock the supabase module before importing history
+vi.mock('../../supabase', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+import {
+  buildVersionTimeline,
+  selectVersion,
+  versionDiff,
+  type CurrentDocumentRow,
+  type HistoryRow,
+} from '../history';
+
+const doc: CurrentDocumentRow = {
+  title: 'Auth',
+  content: '# Auth\n\nTokens expire after 24h.\n',
+  version: 3,
+  created_at: '2026-01-01T00:00:00Z',
+  last_updated: '2026-03-01T00:00:00Z',
+  updated_by: 'u3',
+  update_source: 'repo_sync',
+  last_verified_commit: 'cccccccccccccccccccccccccccccccccccccccc',
+};
+
+const history: HistoryRow[] = [
+  {
+    id: 'h2', title: 'Auth', content: '# Auth\n\nTokens expire after 1h.\n', version: 2,
+    archived_at: '2026-03-01T00:00:00Z', updated_by: 'u2', update_source: 'repo_sync',
+    last_verified_commit: 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+  },
+  {
+    id: 'h1', title: 'Auth', content: '# Auth\n', version: 1,
+    archived_at: '2026-02-01T00:00:00Z', updated_by: null, update_source: null,
+    last_verified_commit: null,
+  },
+];
+
+describe('buildVersionTimeline', () => {
+  it('should list versions newest first with contiguous validity intervals', () => {
+    const versions = buildVersionTimeline(doc, history);
+
+    expect(versions.map((v) => [v.version, v.history_id, v.valid_from, v.valid_to])).toEqual([
+      [3, null, '2026-03-01T00:00:00Z', null],
+      [2, 'h2', '2026-02-01T00:00:00Z', '2026-03-01T00:00:00Z'],
+      [1, 'h1', '2026-01-01T00:00:00Z', '2026-02-01T00:00:00Z'],
+    ]);
+    expect(versions[0]).toMatchObject({ author_id: 'u3', source: 'repo_sync' });
+  });
+
+  it('should fall back to last_updated for a document without history', () => {
+    const [only] = buildVersionTimeline({ ...doc, version: 1, created_at: null }, []);
+    expect(only).toMatchObject({ version: 1, valid_from: '2026-03-01T00:00:00Z', valid_to: null });
+  });
+});
+
+describe('selectVersion', () => {
+  const versions = buildVersionTimeline(doc, history);
+
+  it('should select by version number', () => {
+    expect(selectVersion(versions, { version: 2 })?.history_id).toBe('h2');
+    expect(selectVersion(versions, { version: 9 })).toBeNull();
+    expect(selectVersion(versions, {})?.version).toBe(3);
+  });
+
+  it('should select the version current at a date', () => {
+    expect(selectVersion(versions, { as_of: '2026-02-15T12:00:00Z' })?.version).toBe(2);
+    expect(selectVersion(versions, { as_of: '2026-03-01T00:00:00Z' })?.version).toBe(3);
+    // A bare date covers the whole day
+    expect(selectVersion(versions, { as_of: '2026-01-31' })?.version).toBe(1);
+    expect(selectVersion(versions, { as_of: '2025-12-01' })).toBeNull();
+    expect(() => selectVersion(versions, { as_of: 'last week' })).toThrow('Invalid as_of');
+  });
+
+  it('should select by commit SHA prefix', () => {
+    expect(selectVersion(versions, { as_of: 'BBBBBBB' })?.version).toBe(2);
+    expect(selectVersion(versions, { as_of: 'ddddddd' })).toBeNull();
+  });
+
+  it('should find versions verified at an older commit without a content change', () => {
+    // Synced at aaaa… and bbbb… unchanged; only bbbb… is left in last_verified_commit
+    const verified = buildVersionTimeline(doc, history, [
+      { commit_sha: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', version: 2 },
+      { commit_sha: 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb', version: 2 },
+    ]);
+
+    expect(selectVersion(versions, { as_of: 'aaaaaaa' })).toBeNull();
+    expect(selectVersion(verified, { as_of: 'aaaaaaa' })).toMatchObject({
+      version: 2,
+      verified_commits: ['aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb'],
+    });
+  });
+});
+
+describe('versionDiff', () => {
+  it('should count changed lines against the previous version', () => {
+    const [v3, v2] = buildVersionTimeline(doc, history);
+    const result = versionDiff(v2, v3);
+
+    expect(result).toMatchObject({ lines_added: 1, lines_removed: 1 });
+    expect(result.diff).toContain('-Tokens expire after 1h.');
+    expect(result.diff).toContain('+Tokens expire after 24h.');
+  });
+});
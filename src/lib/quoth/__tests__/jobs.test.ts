@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const deleteSpy = vi.fn();
+const insertSpy = vi.fn();
+
+// Mock Supabase
+vi.mock('../../supabase', () => ({
+  supabase: {
+    from: vi.fn(() => ({
+      delete: vi.fn(() => ({
+        eq: vi.fn((...first: unknown[]) => ({
+          eq: vi.fn((...second: unknown[]) => {
+            deleteSpy(...first, ...second);
+            return Promise.resolve({ error: null });
+          }),
+        })),
+      })),
+      insert: vi.fn((rows: unknown) => {
+        insertSpy(rows);
+        return Promise.resolve({ error: null });
+      }),
+    })),
+    rpc: vi.fn(),
+  },
+  isSupabaseConfigured: vi.fn(() => true),
+}));
+
+import { getJobProgress, reindexDocument, planReindexGeneration, type Job } from '../jobs';
+import { getEmbeddingProvider, type EmbeddingProvider } from '../../embeddings';
+
+function job(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job-1',
+    project_id: 'project-1',
+    type: 'reindex',
+    status: 'running',
+    payload: {},
+    total_items: 10,
+    completed_items: 0,
+    failed_items: 0,
+    result: null,
+    error_message: null,
+    locked_by: 'worker-1',
+    locked_until: null,
+    attempts: 1,
+    created_by: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    started_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    completed_at: null,
+    ...overrides,
+  };
+}
+
+const doc = {
+  id: 'doc-1',
+  file_path: 'patterns/auth.md',
+  title: 'Auth',
+  content: '# Auth\n\nWrap protected routes with useAuthGuard and redirect anonymous users to login.',
+};
+
+describe('job progress', () => {
+  it('should report percent and ETA from the pace so far', () => {
+    const started = new Date('2026-01-01T00:00:00.000Z').getTime();
+    const progress = getJobProgress(
+      job({ completed_items: 3, failed_items: 1 }),
+      started + 40_000 // 4 docs in 40s -> 6 remaining at 10s each
+    );
+
+    expect(progress.processed).toBe(4);
+    expect(progress.remaining).toBe(6);
+    expect(progress.percent).toBe(40);
+    expect(progress.etaSeconds).toBe(60);
+  });
+
+  it('should not estimate before any document is processed', () => {
+    expect(getJobProgress(job()).etaSeconds).toBeNull();
+  });
+
+  it('should report finished jobs as done', () => {
+    const progress = getJobProgress(job({ status: 'completed', completed_items: 10 }));
+    expect(progress.percent).toBe(100);
+    expect(progress.etaSeconds).toBe(0);
+  });
+});
+
+describe('planReindexGeneration', () => {
+  it('should build active + 1 and record the provider on the first run', () => {
+    expect(planReindexGeneration({}, 'jina', 4)).toEqual({
+      payload: { provider: 'jina', generation: 5 },
+      restart: false,
+    });
+    expect(planReindexGeneration({ generation: 5 }, 'jina', 4).payload.generation).toBe(5);
+  });
+
+  it('should keep the generation when resuming with the same provider', () => {
+    expect(planReindexGeneration({ provider: 'jina', generation: 5 }, 'jina', 4).restart).toBe(false);
+  });
+
+  it('should restart in a fresh generation when the provider changed mid-job', () => {
+    expect(planReindexGeneration({ provider: 'jina', generation: 5 }, 'gemini', 4)).toEqual({
+      payload: {
+        provider: 'gemini',
+        generation: 6,
+        restarted_from: { provider: 'jina', generation: 5 },
+      },
+      restart: true,
+    });
+  });
+});
+
+describe('reindexDocument', () => {
+  beforeEach(() => {
+    deleteSpy.mockClear();
+    insertSpy.mockClear();
+  });
+
+  it('should write the shadow generation without touching active rows', async () => {
+    const chunks = await reindexDocument(doc, getEmbeddingProvider('local'), 3);
+
+    expect(chunks).toBeGreaterThan(0);
+    // Only rows of the shadow generation are cleared
+    expect(deleteSpy).toHaveBeenCalledWith('document_id', 'doc-1', 'generation', 3);
+    expect(insertSpy).toHaveBeenCalledTimes(1);
+
+    const rows = insertSpy.mock.calls[0][0] as Array<{ generation: number }>;
+    expect(rows).toHaveLength(chunks);
+    expect(rows.every((row) => row.generation === 3)).toBe(true);
+  });
+
+  it('should keep existing embeddings when embedding fails', async () => {
+    const failing: EmbeddingProvider = {
+      ...getEmbeddingProvider('local'),
+      embedDocuments: async () => {
+        throw new Error('Jina API Error: 500 - upstream down');
+      },
+    };
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(reindexDocument(doc, failing, 1)).rejects.toThrow(/chunks embedded successfully/);
+    expect(deleteSpy).not.toHaveBeenCalled();
+    expect(insertSpy).not.toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+});
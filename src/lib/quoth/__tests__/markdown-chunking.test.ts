@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { chunkMarkdown, estimateTokens } from '../markdown-chunking';
+import { ASTChunker } from '../chunking';
+
+function paragraph(words: number, word = 'lorem'): string {
+  return Array.from({ length: words }, () => word).join(' ');
+}
+
+describe('chunkMarkdown', () => {
+  const config = { minTokens: 20, maxTokens: 80 };
+
+  it('should not start a section at a ## line inside a code fence', () => {
+    const doc = [
+      '# Deploy',
+      '',
+      '## Script',
+      '',
+      paragraph(20),
+      '',
+      '```bash',
+      '## install dependencies',
+      'npm ci',
+      '```',
+      '',
+      '## Rollback',
+      '',
+      paragraph(20),
+    ].join('\n');
+
+    const chunks = chunkMarkdown(doc, config);
+    const script = chunks.find((c) => c.content.includes('npm ci'))!;
+
+    expect(script.content).toContain('```bash\n## install dependencies\nnpm ci\n```');
+    expect(script.headings).toEqual(['Deploy', 'Script']);
+    expect(chunks.some((c) => c.content.startsWith('## install'))).toBe(false);
+  });
+
+  it('should split oversized sections at H3 boundaries with breadcrumbs', () => {
+    const doc = [
+      '# Auth',
+      '',
+      '## Guards',
+      '',
+      '### Server',
+      '',
+      paragraph(40),
+      '',
+      '### Client',
+      '',
+      paragraph(40),
+    ].join('\n');
+
+    const chunks = chunkMarkdown(doc, config);
+    const headings = chunks.map((c) => c.headings.join(' > '));
+
+    expect(headings).toContain('Auth > Guards > Server');
+    expect(headings).toContain('Auth > Guards > Client');
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk.content)).toBeLessThanOrEqual(config.maxTokens);
+    }
+  });
+
+  it('should split at paragraph boundaries without cutting fences or tables', () => {
+    const fence = ['```ts', ...Array.from({ length: 12 }, (_, i) => `const value${i} = ${i}; // ${paragraph(6)}`), '```'];
+    const table = ['| Key | Value |', '| --- | --- |', '| a | 1 |', '| b | 2 |'];
+    const doc = ['## Reference', '', paragraph(40), '', ...fence, '', ...table, '', paragraph(40)].join('\n');
+
+    const chunks = chunkMarkdown(doc, config);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    // Each fence / table lives entirely within one chunk, even when over budget
+    expect(chunks.filter((c) => c.content.includes('```ts')).every((c) => c.content.includes(fence.join('\n')))).toBe(true);
+    expect(chunks.filter((c) => c.content.includes('| Key |')).every((c) => c.content.includes(table.join('\n')))).toBe(true);
+    expect(chunks.every((c) => c.headings.join() === 'Reference')).toBe(true);
+  });
+
+  it('should merge undersized sections into their neighbour', () => {
+    const doc = ['# Guide', '', '## Setup', '', paragraph(30), '', '## See also', '', '- [Other](other.md)'].join('\n');
+
+    const chunks = chunkMarkdown(doc, config);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toContain('## See also');
+    expect(chunks[0].headings).toEqual(['Guide']);
+  });
+
+  it('should report line ranges that match the chunk content', () => {
+    const doc = ['---', 'id: guide', '---', '# Guide', '', paragraph(30), '', '## Usage', '', paragraph(70)].join('\n');
+    const lines = doc.split('\n');
+
+    const chunks = chunkMarkdown(doc, config);
+
+    expect(chunks[0].hasFrontmatter).toBe(true);
+    for (const chunk of chunks) {
+      expect(lines.slice(chunk.startLine - 1, chunk.endLine).join('\n')).toBe(chunk.content);
+    }
+    expect(chunks[chunks.length - 1].startLine).toBe(8);
+  });
+});
+
+describe('ASTChunker markdown chunking', () => {
+  const chunker = new ASTChunker();
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should record breadcrumbs and lines in metadata and prefix non-frontmatter chunks', async () => {
+    const doc = [
+      '---',
+      'id: auth',
+      'keywords: [auth, guards]',
+      '---',
+      '# Auth Patterns',
+      '',
+      paragraph(80),
+      '',
+      '## Guards',
+      '',
+      paragraph(80),
+    ].join('\n');
+
+    const chunks = await chunker.chunkFile('patterns/auth.md', doc);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].content.startsWith('---')).toBe(true);
+    expect(chunks[1].content.startsWith('[Auth Patterns | auth, guards] \n## Guards')).toBe(true);
+    expect(chunks[1].metadata).toMatchObject({
+      language: 'markdown',
+      breadcrumb: 'Auth Patterns > Guards',
+      startLine: 9,
+      endLine: 11,
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { threeWayMerge, mergeProposal, hasConflictMarkers } from '../merge';
+
+const BASE = ['# Auth', '', 'Use guards.', '', '## Tokens', '', 'Tokens expire after 1h.', ''].join('\n');
+
+describe('threeWayMerge', () => {
+  it('should merge edits to different sections', () => {
+    const current = BASE.replace('# Auth', '# Authentication');
+    const proposed = BASE.replace('Tokens expire after 1h.', 'Tokens expire after 15m.');
+
+    const result = threeWayMerge(BASE, current, proposed);
+
+    expect(result.clean).toBe(true);
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toBe(
+      ['# Authentication', '', 'Use guards.', '', '## Tokens', '', 'Tokens expire after 15m.', ''].join('\n')
+    );
+  });
+
+  it('should keep insertions from both sides', () => {
+    const current = BASE.replace('Use guards.', 'Use guards.\nGuards live in src/guards.');
+    const proposed = `${BASE}## Refresh\n\nRefresh with /token.\n`;
+
+    const result = threeWayMerge(BASE, current, proposed);
+
+    expect(result.clean).toBe(true);
+    expect(result.content).toContain('Guards live in src/guards.');
+    expect(result.content.endsWith('## Refresh\n\nRefresh with /token.\n')).toBe(true);
+  });
+
+  it('should accept identical changes on both sides', () => {
+    const changed = BASE.replace('1h', '2h');
+    const result = threeWayMerge(BASE, changed, changed);
+
+    expect(result.clean).toBe(true);
+    expect(result.content).toBe(changed);
+  });
+
+  it('should report overlapping edits as conflicts', () => {
+    const current = BASE.replace('Tokens expire after 1h.', 'Tokens expire after 30m.');
+    const proposed = BASE.replace('Tokens expire after 1h.', 'Tokens expire after 15m.');
+
+    const result = threeWayMerge(BASE, current, proposed);
+
+    expect(result.clean).toBe(false);
+    expect(result.conflicts).toEqual([
+      {
+        baseLine: 7,
+        base: 'Tokens expire after 1h.',
+        current: 'Tokens expire after 30m.',
+        proposed: 'Tokens expire after 15m.',
+      },
+    ]);
+    expect(result.content).toContain(
+      '<<<<<<< current\nTokens expire after 30m.\n||||||| base\nTokens expire after 1h.\n=======\nTokens expire after 15m.\n>>>>>>> proposed'
+    );
+  });
+
+  it('should conflict when a document was created after a new-document proposal', () => {
+    const result = threeWayMerge('', '# Auth\n', '# Auth v2\n');
+
+    expect(result.clean).toBe(false);
+    expect(result.conflicts[0]).toMatchObject({ baseLine: 1, base: '', current: '# Auth\n', proposed: '# Auth v2\n' });
+    expect(hasConflictMarkers(result.content)).toBe(true);
+    expect(hasConflictMarkers('# Auth v2\n')).toBe(false);
+  });
+});
+
+describe('mergeProposal', () => {
+  it('should apply the proposed content while the document matches the base', () => {
+    const proposed = BASE.replace('1h', '2h');
+
+    expect(mergeProposal(BASE, BASE, proposed)).toEqual({ clean: true, content: proposed, conflicts: [], merged: false });
+    expect(mergeProposal(null, null, proposed)).toMatchObject({ clean: true, content: proposed, merged: false });
+  });
+
+  it('should merge with a document that changed since the base', () => {
+    const current = BASE.replace('# Auth', '# Authentication');
+    const result = mergeProposal(BASE, current, BASE.replace('1h', '2h'));
+
+    expect(result).toMatchObject({ clean: true, merged: true });
+    expect(result.content).toContain('# Authentication');
+    expect(result.content).toContain('2h');
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+// Proposal updates seen by the Supabase mock
+const state = vi.hoisted(() => ({
+  updates: [] as Array<{ id: unknown; values: Record<string, unknown> }>,
+}));
+
+// Mock Supabase (chainable query builder)
+vi.mock('../../supabase', () => {
+  const query = (table: string) => {
+    let values: Record<string, unknown> | null = null;
+    let id: unknown;
+    const builder: Record<string, unknown> = {
+      select: () => builder,
+      in: () => builder,
+      eq: (column: string, value: unknown) => {
+        if (column === 'id') id = value;
+        return builder;
+      },
+      update: (next: Record<string, unknown>) => {
+        values = next;
+        return builder;
+      },
+      single: () => Promise.resolve({ data: { docs_path: 'docs', github_repo: 'acme/handbook' }, error: null }),
+      then: (resolve: (value: unknown) => void) => {
+        if (values) {
+          state.updates.push({ id, values });
+          resolve({ error: null });
+        } else if (table === 'documents') {
+          resolve({ data: [{ file_path: 'patterns/auth.md', repo_path: 'handbook/patterns/auth.md' }], error: null });
+        } else {
+          resolve({ data: [], error: null });
+        }
+      },
+    };
+    return builder;
+  };
+
+  return {
+    supabase: { from: vi.fn(query) },
+    isSupabaseConfigured: vi.fn(() => true),
+  };
+});
+
+import { exportProposals, type ExportableProposal } from '../proposal-export';
+
+const ORIGINAL = '# Auth\n\nUse guards.\n';
+const UPDATED = '# Auth\n\nUse guards.\n\nRedirect to /login on 401.\n';
+
+let root: string;
+let repo: string;
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args], {
+    cwd,
+    encoding: 'utf8',
+  }).trim();
+}
+
+function proposal(overrides: Partial<ExportableProposal>): ExportableProposal {
+  return {
+    id: '11111111-0000-4000-8000-000000000001',
+    project_id: 'project-1',
+    file_path: 'patterns/auth.md',
+    original_content: ORIGINAL,
+    proposed_content: UPDATED,
+    reasoning: 'Document the 401 redirect',
+    evidence_snippet: 'src/middleware.ts: if (res.status === 401) redirect("/login")',
+    reviewed_by: 'lead@example.com',
+    applied_at: '2026-10-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('proposal export', () => {
+  beforeEach(() => {
+    state.updates = [];
+    root = mkdtempSync(path.join(tmpdir(), 'quoth-export-test-'));
+    repo = path.join(root, 'repo');
+    mkdirSync(path.join(repo, 'handbook', 'patterns'), { recursive: true });
+    writeFileSync(path.join(repo, 'handbook', 'patterns', 'auth.md'), ORIGINAL);
+    git(repo, 'init', '-q');
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'initial');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should commit each proposal to a new branch without touching the checkout', async () => {
+    const head = git(repo, 'rev-parse', 'HEAD');
+    const newDoc = proposal({
+      id: '22222222-0000-4000-8000-000000000002',
+      file_path: 'contracts/api.md',
+      original_content: null,
+      proposed_content: '# API\n',
+      reasoning: 'Add API contract',
+      evidence_snippet: null,
+    });
+
+    const result = await exportProposals('project-1', [proposal({}), newDoc], {
+      format: 'branch',
+      worktree: repo,
+      branch: 'quoth/kb-sync',
+    });
+
+    expect(result.baseCommit).toBe(head);
+    expect(result.exported.map((e) => e.repoPath)).toEqual(['handbook/patterns/auth.md', 'docs/contracts/api.md']);
+
+    // The clone's checkout is unchanged
+    expect(git(repo, 'rev-parse', 'HEAD')).toBe(head);
+    expect(git(repo, 'status', '--porcelain')).toBe('');
+
+    expect(git(repo, 'rev-list', '--count', `${head}..quoth/kb-sync`)).toBe('2');
+    expect(git(repo, 'show', 'quoth/kb-sync:handbook/patterns/auth.md')).toBe(UPDATED.trim());
+
+    const message = git(repo, 'log', '-1', '--format=%B', result.exported[0].commit.sha!);
+    expect(message).toContain('docs: update handbook/patterns/auth.md');
+    expect(message).toContain('Document the 401 redirect');
+    expect(message).toContain('    src/middleware.ts: if (res.status === 401) redirect("/login")');
+    expect(message).toContain('Quoth-Proposal: 11111111-0000-4000-8000-000000000001');
+    expect(message).toContain('Reviewed-by: lead@example.com');
+
+    expect(state.updates[0]).toEqual({
+      id: '11111111-0000-4000-8000-000000000001',
+      values: expect.objectContaining({
+        export_format: 'branch',
+        export_ref: 'quoth/kb-sync',
+        commit_sha: result.exported[0].commit.sha,
+        commit_url: `https://github.com/acme/handbook/commit/${result.exported[0].commit.sha}`,
+      }),
+    });
+  });
+
+  it('should produce patches from original content that apply with git am', async () => {
+    const result = await exportProposals('project-1', [proposal({})], { format: 'patch', dryRun: true });
+
+    expect(result.exported).toHaveLength(1);
+    const patch = result.exported[0].patch!;
+    expect(patch).toContain('Subject: [PATCH] docs: update handbook/patterns/auth.md');
+    expect(patch).toContain('+Redirect to /login on 401.');
+
+    const patchFile = path.join(root, 'proposal.patch');
+    writeFileSync(patchFile, patch);
+    git(repo, 'am', '-q', patchFile);
+
+    expect(readFileSync(path.join(repo, 'handbook', 'patterns', 'auth.md'), 'utf8')).toBe(UPDATED);
+    expect(state.updates).toEqual([]);
+  });
+
+  it('should skip proposals the repository already has and drop the empty branch', async () => {
+    const result = await exportProposals('project-1', [proposal({ proposed_content: ORIGINAL })], {
+      format: 'branch',
+      worktree: repo,
+      branch: 'quoth/noop',
+    });
+
+    expect(result.exported).toEqual([]);
+    expect(result.skipped).toHaveLength(1);
+    expect(result.branch).toBeNull();
+    expect(git(repo, 'branch', '--list', 'quoth/noop')).toBe('');
+    expect(git(repo, 'worktree', 'list').split('\n')).toHaveLength(1);
+  });
+
+  it('should not create or delete any branch on a dry run', async () => {
+    const refs = git(repo, 'for-each-ref');
+
+    const result = await exportProposals('project-1', [proposal({})], {
+      format: 'branch',
+      worktree: repo,
+      branch: 'quoth/preview',
+      dryRun: true,
+    });
+
+    expect(result.branch).toBe('quoth/preview');
+    expect(result.exported).toHaveLength(1);
+    expect(git(repo, 'show', `${result.exported[0].commit.sha}:handbook/patterns/auth.md`)).toBe(UPDATED.trim());
+    expect(git(repo, 'for-each-ref')).toBe(refs);
+    expect(git(repo, 'worktree', 'list').split('\n')).toHaveLength(1);
+    expect(state.updates).toEqual([]);
+
+    git(repo, 'branch', 'quoth/taken');
+    await expect(exportProposals('project-1', [proposal({})], {
+      format: 'branch',
+      worktree: repo,
+      branch: 'quoth/taken',
+      dryRun: true,
+    })).rejects.toThrow('Branch already exists: quoth/taken');
+  });
+
+  it('should refuse proposals that resolve outside the repository', async () => {
+    for (const file_path of ['..', '../..', '../../etc/passwd']) {
+      await expect(exportProposals('project-1', [proposal({ file_path })], { format: 'patch', dryRun: true }))
+        .rejects.toThrow('outside the repository');
+    }
+  });
+
+  it('should reject branch names git would misread', async () => {
+    for (const branch of ['-f', '--orphan=x', 'bad..name', 'has space', '@{-1}']) {
+      await expect(exportProposals('project-1', [proposal({})], { format: 'branch', worktree: repo, branch }))
+        .rejects.toThrow(`Invalid branch name: ${branch}`);
+    }
+    expect(git(repo, 'worktree', 'list').split('\n')).toHaveLength(1);
+  });
+
+  it('should require a clone for branch exports', async () => {
+    await expect(exportProposals('project-1', [proposal({})], { format: 'branch' }))
+      .rejects.toThrow('local clone');
+  });
+});
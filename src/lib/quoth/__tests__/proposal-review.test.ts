@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const inserts: Array<{ table: string; row: unknown }> = [];
+const updates: Array<{ table: string; values: Record<string, unknown>; filters: unknown[][] }> = [];
+const stored = vi.hoisted(() => ({ comments: [] as unknown[] }));
+
+// Mock the supabase module before importing proposal-review
+vi.mock('../../supabase', () => ({
+  supabase: {
+    from: vi.fn((table: string) => ({
+      insert: vi.fn((row: unknown) => {
+        inserts.push({ table, row });
+        return Promise.resolve({ error: null });
+      }),
+      update: vi.fn((values: Record<string, unknown>) => {
+        const filters: unknown[][] = [];
+        updates.push({ table, values, filters });
+        const chain = {
+          eq: vi.fn((...args: unknown[]) => {
+            filters.push(args);
+            return chain;
+          }),
+          then: (resolve: (v: unknown) => void) => resolve({ error: null }),
+        };
+        return chain;
+      }),
+      select: vi.fn(() => {
+        const chain = {
+          eq: vi.fn(() => chain),
+          order: vi.fn(() => Promise.resolve({ data: stored.comments, error: null })),
+        };
+        return chain;
+      }),
+    })),
+  },
+}));
+
+// Reviewers are admins of the project
+vi.mock('../approval-policy', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../approval-policy')>();
+  return {
+    ...actual,
+    getApprovalPolicy: vi.fn(async () => actual.resolveApprovalPolicy([], 'a.md', true)),
+  };
+});
+
+import {
+  anchorComment,
+  buildCommentThreads,
+  formatCommentThreads,
+  reviseProposal,
+  resolveCommentThread,
+  canReviseProposal,
+  type ProposalComment,
+  type ReviewableProposal,
+} from '../proposal-review';
+import { mergeProposal } from '../merge';
+
+const comment = (overrides: Partial<ProposalComment>): ProposalComment => ({
+  id: 'c1',
+  proposal_id: 'p1',
+  parent_id: null,
+  revision: 1,
+  line: null,
+  line_text: null,
+  body: 'Looks off',
+  author_type: 'user',
+  author_id: 'u1',
+  author_name: 'reviewer@example.com',
+  resolved: false,
+  created_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const lint = { errors: 0, warnings: 0, findings: [] };
+
+describe('buildCommentThreads', () => {
+  it('should nest replies (including replies to replies) under their root', () => {
+    const threads = buildCommentThreads([
+      comment({ id: 'r2', parent_id: 'r1', created_at: '2026-01-03T00:00:00Z', author_type: 'agent', author_name: 'bot' }),
+      comment({ id: 'c1', line: 3, line_text: 'Tokens expire after 1h.' }),
+      comment({ id: 'r1', parent_id: 'c1', created_at: '2026-01-02T00:00:00Z' }),
+      comment({ id: 'c2', revision: 2, created_at: '2026-01-04T00:00:00Z' }),
+    ], 2);
+
+    expect(threads.map((t) => [t.id, t.replies.map((r) => r.id), t.outdated])).toEqual([
+      ['c1', ['r1', 'r2'], true],
+      ['c2', [], false],
+    ]);
+  });
+
+  it('should format open threads first with their anchors', () => {
+    const threads = buildCommentThreads([
+      comment({ id: 'c1', resolved: true, body: 'Fixed typo' }),
+      comment({ id: 'c2', line: 3, line_text: '  Tokens expire after 1h.', created_at: '2026-01-02T00:00:00Z' }),
+      comment({ id: 'r1', parent_id: 'c2', author_type: 'agent', author_name: 'bot', body: 'Updated\nin rev 2', created_at: '2026-01-03T00:00:00Z' }),
+    ], 1);
+
+    expect(formatCommentThreads(threads)).toBe([
+      '#### Line 3: `Tokens expire after 1h.` (open)',
+      '*id: `c2`*',
+      '- **reviewer@example.com**: Looks off',
+      '  - **🤖 bot**: Updated in rev 2',
+      '',
+      '#### General (resolved)',
+      '*id: `c1`*',
+      '- **reviewer@example.com**: Fixed typo',
+    ].join('\n'));
+    expect(formatCommentThreads([])).toBe('No review comments.');
+  });
+});
+
+describe('anchorComment', () => {
+  it('should capture the line text and reject lines outside the content', () => {
+    expect(anchorComment('# Title\n\nBody\n', 3)).toEqual({ line: 3, line_text: 'Body' });
+    expect(() => anchorComment('# Title\n\nBody\n', 4)).toThrow('Line 4 is outside the proposal (3 lines)');
+  });
+});
+
+describe('reviseProposal', () => {
+  const proposal: ReviewableProposal = {
+    id: 'p1',
+    project_id: 'proj',
+    status: 'changes_requested',
+    revision: 2,
+    proposed_content: 'old',
+    reasoning: 'why',
+    patch: [{ op: 'append_to_section', heading: 'Tokens', content: 'a' }],
+    lint_findings: null,
+  };
+
+  beforeEach(() => {
+    inserts.length = 0;
+    updates.length = 0;
+  });
+
+  it('should archive the current revision and reopen the proposal', async () => {
+    const operations = [{ op: 'append_to_section' as const, heading: 'Tokens', content: 'b' }];
+
+    const next = await reviseProposal(proposal, { proposed_content: 'new', operations, lint });
+
+    expect(next).toBe(3);
+    expect(inserts).toEqual([{
+      table: 'proposal_revisions',
+      row: expect.objectContaining({ proposal_id: 'p1', revision: 2, proposed_content: 'old', reasoning: 'why' }),
+    }]);
+    expect(updates[0].values).toMatchObject({
+      proposed_content: 'new',
+      revision: 3,
+      status: 'pending',
+      patch: [...proposal.patch!, ...operations],
+      rejection_reason: null,
+    });
+    expect(updates[0].values).not.toHaveProperty('reasoning');
+  });
+
+  it('should rebase a conflicted proposal so the revision applies on approval', async () => {
+    const original = 'alpha\nbeta\ngamma';
+    const current = 'alpha\nBETA\ngamma';
+    const conflicted = { ...proposal, status: 'conflict', patch: null, proposed_content: 'alpha\nbeta2\ngamma' };
+    expect(mergeProposal(original, current, conflicted.proposed_content).clean).toBe(false);
+
+    await reviseProposal(conflicted, {
+      proposed_content: 'alpha\nBETA2\ngamma',
+      lint,
+      base: { content: current, checksum: 'current-checksum' },
+    });
+
+    const revised = updates[0].values;
+    expect(revised).toMatchObject({ original_content: current, base_checksum: 'current-checksum', status: 'pending' });
+
+    const approval = mergeProposal(revised.original_content as string, current, revised.proposed_content as string);
+    expect(approval).toMatchObject({ clean: true, merged: false, content: 'alpha\nBETA2\ngamma' });
+  });
+
+  it('should refuse applied proposals', async () => {
+    await expect(reviseProposal({ ...proposal, status: 'applied' }, { proposed_content: 'new', lint }))
+      .rejects.toThrow('Cannot revise a proposal with status: applied');
+    expect(inserts).toEqual([]);
+  });
+});
+
+describe('resolveCommentThread', () => {
+  it('should resolve the root of the thread a reply belongs to', async () => {
+    updates.length = 0;
+    stored.comments = [
+      comment({ id: 'root' }),
+      comment({ id: 'reply', parent_id: 'root', created_at: '2026-01-02T00:00:00Z' }),
+      comment({ id: 'nested', parent_id: 'reply', created_at: '2026-01-03T00:00:00Z' }),
+    ];
+
+    expect(await resolveCommentThread('p1', 'nested')).toBe('root');
+    expect(updates).toEqual([{
+      table: 'proposal_comments',
+      values: { resolved: true },
+      filters: [['id', 'root'], ['proposal_id', 'p1']],
+    }]);
+  });
+
+  it('should reject comments from another proposal', async () => {
+    stored.comments = [comment({ id: 'root' })];
+
+    await expect(resolveCommentThread('p1', 'elsewhere')).rejects.toThrow('Comment elsewhere not found');
+  });
+});
+
+describe('canReviseProposal', () => {
+  const proposal = { project_id: 'proj', file_path: 'a.md', proposed_by: 'author' };
+
+  it('should let the author and policy reviewers revise, but not other editors', async () => {
+    expect(await canReviseProposal(proposal, 'author', 'editor')).toBe(true);
+    expect(await canReviseProposal(proposal, 'someone', 'admin')).toBe(true);
+    expect(await canReviseProposal(proposal, 'someone', 'editor')).toBe(false);
+    expect(await canReviseProposal({ ...proposal, proposed_by: null }, 'someone', 'editor')).toBe(false);
+  });
+});
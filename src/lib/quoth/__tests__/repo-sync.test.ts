@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, readFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+// Stored documents and writes seen by the Supabase mock
+const state = vi.hoisted(() => ({
+  stored: [] as Array<{ id: string; file_path: string; checksum: string; repo_path: string | null; version: number }>,
+  updates: [] as Array<{ table: string; values: Record<string, unknown>; ids?: unknown }>,
+  upserts: [] as Array<{ table: string; rows: unknown }>,
+}));
+
+// Mock Supabase (chainable query builder)
+vi.mock('../../supabase', () => {
+  const query = (table: string) => {
+    let values: Record<string, unknown> | null = null;
+    let ids: unknown;
+    const builder: Record<string, unknown> = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        if (column === 'id') ids = value;
+        return builder;
+      },
+      in: (_column: string, value: unknown) => {
+        ids = value;
+        return builder;
+      },
+      update: (next: Record<string, unknown>) => {
+        values = next;
+        return builder;
+      },
+      upsert: (rows: unknown) => {
+        state.upserts.push({ table, rows });
+        return Promise.resolve({ error: null });
+      },
+      single: () => Promise.resolve({ data: { docs_path: 'docs' }, error: null }),
+      then: (resolve: (value: unknown) => void) => {
+        if (values) state.updates.push({ table, values, ids });
+        resolve(values ? { error: null } : { data: state.stored, error: null });
+      },
+    };
+    return builder;
+  };
+
+  return {
+    supabase: { from: vi.fn(query) },
+    isSupabaseConfigured: vi.fn(() => true),
+  };
+});
+
+vi.mock('../../sync', async () => {
+  const actual = await vi.importActual<typeof import('../../sync')>('../../sync');
+  return {
+    calculateChecksum: actual.calculateChecksum,
+    syncDocument: vi.fn(async (_projectId: string, filePath: string) => ({
+      document: { id: `doc:${filePath}`, version: 1 },
+      chunksIndexed: 2,
+      chunksReused: 0,
+      stats: {},
+    })),
+    deleteDocument: vi.fn(async () => true),
+  };
+});
+
+vi.mock('../activity', () => ({ logActivity: vi.fn() }));
+
+import { syncRepository, normalizeDocsPath, extractRepoDocTitle, withUploadedBundle } from '../repo-sync';
+import { syncDocument, deleteDocument } from '../../sync';
+
+const md5 = (text: string) => createHash('md5').update(text).digest('hex');
+
+const AUTH = '---\nid: auth-patterns\ntype: testing-pattern\n---\n# Auth\n\nUse guards.\n';
+const OVERVIEW = '# Overview\n\nMonorepo layout.\n';
+
+let root: string;
+let repo: string;
+let commit: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args], {
+    cwd: repo,
+    encoding: 'utf8',
+  }).trim();
+}
+
+function write(file: string, content: string) {
+  mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+  writeFileSync(path.join(repo, file), content);
+}
+
+describe('repository sync', () => {
+  beforeAll(() => {
+    root = mkdtempSync(path.join(tmpdir(), 'quoth-repo-test-'));
+    repo = path.join(root, 'repo');
+    mkdirSync(repo);
+    git('init', '-q');
+    write('docs/patterns/auth.md', AUTH);
+    write('docs/architecture/overview.md', OVERVIEW);
+    write('docs/diagram.png', 'not markdown');
+    write('README.md', '# Not in docs\n');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'docs');
+    commit = git('rev-parse', 'HEAD');
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    state.updates = [];
+    state.upserts = [];
+    state.stored = [
+      // Unchanged, already repository-managed
+      { id: 'doc-overview', file_path: 'architecture/overview.md', checksum: md5(OVERVIEW), repo_path: 'docs/architecture/overview.md', version: 4 },
+      // Removed from the repository
+      { id: 'doc-old', file_path: 'patterns/old.md', checksum: 'x', repo_path: 'docs/patterns/old.md', version: 1 },
+      // Created through quoth_propose_update, never deleted by sync
+      { id: 'doc-proposed', file_path: 'meta/notes.md', checksum: 'y', repo_path: null, version: 2 },
+    ];
+  });
+
+  it('should sync changed files, delete removed ones and stamp the commit', async () => {
+    const result = await syncRepository('project-1', { type: 'worktree', path: repo });
+
+    expect(result.commit).toBe(commit);
+    expect(result.added).toEqual(['patterns/auth.md']);
+    expect(result.updated).toEqual([]);
+    expect(result.unchanged).toBe(1);
+    expect(result.deleted).toEqual(['patterns/old.md']);
+    expect(result.chunksIndexed).toBe(2);
+
+    expect(syncDocument).toHaveBeenCalledWith(
+      'project-1', 'patterns/auth.md', 'auth-patterns', AUTH,
+      undefined, undefined, undefined, { userId: undefined, source: 'repo_sync' }
+    );
+    expect(deleteDocument).toHaveBeenCalledTimes(1);
+    expect(deleteDocument).toHaveBeenCalledWith('project-1', 'patterns/old.md');
+
+    expect(state.updates).toContainEqual({
+      table: 'documents',
+      values: { repo_path: 'docs/patterns/auth.md', last_verified_commit: commit },
+      ids: 'doc:patterns/auth.md',
+    });
+    expect(state.updates).toContainEqual({
+      table: 'documents',
+      values: { last_verified_commit: commit },
+      ids: ['doc-overview'],
+    });
+    expect(state.updates.find((u) => u.table === 'projects')?.values.repo_synced_commit).toBe(commit);
+
+    // Every verified version is recorded at the commit, changed or not
+    expect(state.upserts).toEqual([{
+      table: 'document_verifications',
+      rows: [
+        expect.objectContaining({ document_id: 'doc-overview', version: 4, commit_sha: commit }),
+        expect.objectContaining({ document_id: 'doc:patterns/auth.md', version: 1, commit_sha: commit }),
+      ],
+    }]);
+  });
+
+  it('should index committed content, not uncommitted edits', async () => {
+    write('docs/architecture/overview.md', '# Overview\n\nWork in progress.\n');
+
+    try {
+      const result = await syncRepository('project-1', { type: 'worktree', path: repo });
+      expect(result.updated).toEqual([]);
+      expect(result.unchanged).toBe(1);
+    } finally {
+      write('docs/architecture/overview.md', OVERVIEW);
+    }
+  });
+
+  it('should read a git bundle and write nothing on a dry run', async () => {
+    const bundle = path.join(root, 'docs.bundle');
+    git('bundle', 'create', bundle, 'HEAD');
+
+    const result = await syncRepository('project-1', { type: 'bundle', path: bundle }, { dryRun: true });
+
+    expect(result.commit).toBe(commit);
+    expect(result.added).toEqual(['patterns/auth.md']);
+    expect(result.deleted).toEqual(['patterns/old.md']);
+    expect(syncDocument).not.toHaveBeenCalled();
+    expect(deleteDocument).not.toHaveBeenCalled();
+    expect(state.updates).toEqual([]);
+    expect(state.upserts).toEqual([]);
+  });
+
+  it('should only delete documents synced from inside the docs directory', async () => {
+    const result = await syncRepository('project-1', { type: 'worktree', path: repo }, { docsPath: 'docs/patterns' });
+
+    expect(result.added).toEqual(['auth.md']);
+    expect(result.deleted).toEqual(['patterns/old.md']);
+    expect(deleteDocument).toHaveBeenCalledTimes(1);
+    expect(deleteDocument).not.toHaveBeenCalledWith('project-1', 'architecture/overview.md');
+  });
+
+  it('should refuse to sync a docs path without markdown files', async () => {
+    await expect(
+      syncRepository('project-1', { type: 'worktree', path: repo }, { docsPath: 'documentation' })
+    ).rejects.toThrow('No markdown files');
+    expect(deleteDocument).not.toHaveBeenCalled();
+  });
+
+  it('should sync an uploaded bundle from a temporary file that is removed afterwards', async () => {
+    const bundle = path.join(root, 'upload.bundle');
+    git('bundle', 'create', bundle, 'HEAD');
+    let bundlePath = '';
+
+    const response = await withUploadedBundle(
+      new Request('http://localhost/repo-sync', { method: 'POST', body: readFileSync(bundle) }),
+      async (source) => {
+        bundlePath = source.path;
+        const result = await syncRepository('project-1', source, { dryRun: true });
+        return Response.json({ commit: result.commit });
+      }
+    );
+
+    expect(await response.json()).toEqual({ commit });
+    expect(existsSync(bundlePath)).toBe(false);
+
+    const empty = await withUploadedBundle(new Request('http://localhost/repo-sync', { method: 'POST' }), async () => {
+      throw new Error('not called');
+    });
+    expect(empty.status).toBe(400);
+  });
+
+  it('should keep docs paths inside the repository', () => {
+    expect(normalizeDocsPath('./docs/')).toBe('docs');
+    expect(normalizeDocsPath('.')).toBe('');
+    expect(() => normalizeDocsPath('../other')).toThrow('inside the repository');
+  });
+
+  it('should title documents from frontmatter or the file name', () => {
+    expect(extractRepoDocTitle('docs/patterns/auth.md', AUTH)).toBe('auth-patterns');
+    expect(extractRepoDocTitle('docs/architecture/overview.md', OVERVIEW)).toBe('overview');
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { MatchResult } from '../../supabase';
+
+// Mock Supabase
+vi.mock('../../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+  isSupabaseConfigured: vi.fn(() => true),
+}));
+
+// Daily semantic limit reached: searches take the keyword fallback path
+vi.mock('../tier', () => ({
+  checkUsageLimit: vi.fn(() => Promise.resolve({ allowed: false, limit: 50, current: 50 })),
+  incrementUsage: vi.fn(),
+  getTierForProject: vi.fn(),
+  shouldRerank: vi.fn(() => Promise.resolve(false)),
+  formatUsageFooter: vi.fn(() => ''),
+}));
+
+// Single-space provider for the semantic path
+vi.mock('../../embeddings', () => ({
+  getEmbeddingProviderForProject: vi.fn(() => Promise.resolve({
+    id: 'jina',
+    modelFor: () => 'jina-embeddings-v3',
+    embedQuery: vi.fn(() => Promise.resolve([0.1])),
+  })),
+}));
+
+import { supabase } from '../../supabase';
+import { checkUsageLimit } from '../tier';
+import {
+  reciprocalRankFusion,
+  globToPathRegex,
+  toSearchFilters,
+  searchDocuments,
+  mergeEmbeddingSpaces,
+  embedQuerySpaces,
+  trustLevel,
+} from '../search';
+import type { EmbeddingProvider } from '../../embeddings';
+
+function match(id: string, similarity: number): MatchResult {
+  return {
+    id,
+    document_id: `doc-${id}`,
+    content_chunk: `chunk ${id}`,
+    similarity,
+    file_path: `patterns/${id}.md`,
+    title: id,
+  };
+}
+
+describe('reciprocal rank fusion', () => {
+  it('should rank chunks found by both retrievers above single-list hits', () => {
+    const vector = [match('a', 0.9), match('b', 0.8), match('c', 0.7)];
+    const keyword = [match('c', 0.4), match('d', 0.3)];
+
+    const fused = reciprocalRankFusion([vector, keyword]);
+
+    expect(fused[0].id).toBe('c');
+    expect(fused.map((m) => m.id)).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  it('should deduplicate chunks by id', () => {
+    const fused = reciprocalRankFusion([
+      [match('a', 0.9), match('b', 0.8)],
+      [match('b', 0.5), match('a', 0.4)],
+    ]);
+
+    expect(fused).toHaveLength(2);
+  });
+
+  it('should keep the vector similarity instead of the fused score', () => {
+    const fused = reciprocalRankFusion([
+      [match('a', 0.9), match('b', 0.8)],
+      [match('c', 0.02), match('a', 0.01)],
+    ]);
+
+    expect(fused.map((m) => [m.id, m.similarity])).toEqual([['a', 0.9], ['c', 0.5], ['b', 0.8]]);
+  });
+
+  it('should not score keyword-only hits above the weakest vector hit', () => {
+    const fused = reciprocalRankFusion([
+      [match('a', 0.45)],
+      [match('b', 0.9)],
+    ]);
+
+    expect(fused.find((m) => m.id === 'b')?.similarity).toBe(0.45);
+  });
+
+  it('should keep keyword-only hits when vector search misses an identifier', () => {
+    const fused = reciprocalRankFusion([
+      [],
+      [match('useAuthGuard', 0.6)],
+    ]);
+
+    expect(fused).toHaveLength(1);
+    expect(fused[0].id).toBe('useAuthGuard');
+  });
+
+  it('should return an empty list when there are no candidates', () => {
+    expect(reciprocalRankFusion([[], []])).toEqual([]);
+  });
+});
+
+describe('trust levels without reranking', () => {
+  it('should keep strong vector hits HIGH after hybrid fusion', async () => {
+    // Checked before and after the usage increment
+    vi.mocked(checkUsageLimit)
+      .mockResolvedValueOnce({ allowed: true, limit: 50, current: 0 } as never)
+      .mockResolvedValueOnce({ allowed: true, limit: 50, current: 1 } as never);
+    vi.mocked(supabase.rpc).mockImplementation(((fn: string) => Promise.resolve({
+      data: fn === 'match_documents'
+        ? [match('a', 0.85), match('b', 0.7)]
+        : [match('c', 0.04), match('b', 0.02)],
+      error: null,
+    })) as never);
+
+    const results = await searchDocuments('auth guard', 'project-1');
+
+    expect(results.map((r) => [r.chunk_id, trustLevel(r.relevance)])).toEqual([
+      ['b', 'MEDIUM'],
+      ['a', 'HIGH'],
+      ['c', 'LOW'],
+    ]);
+  });
+
+  it('should give keyword fallback results the fixed keyword relevance', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValue({ data: [match('a', 0.03)], error: null } as never);
+
+    const results = await searchDocuments('auth guard', 'project-1');
+
+    expect(results[0].relevance).toBe(0.5);
+    expect(trustLevel(results[0].relevance)).toBe('LOW');
+  });
+});
+
+describe('search filters', () => {
+  it('should treat a path without wildcards as a prefix', () => {
+    const regex = new RegExp(globToPathRegex('contracts/'));
+
+    expect(regex.test('contracts/api-schemas.md')).toBe(true);
+    expect(regex.test('patterns/contracts/x.md')).toBe(false);
+    expect(globToPathRegex('./meta/v1.0')).toBe('^meta/v1\\.0');
+  });
+
+  it('should compile globs to anchored segment-aware regexes', () => {
+    const single = new RegExp(globToPathRegex('patterns/*.md'));
+    expect(single.test('patterns/testing.md')).toBe(true);
+    expect(single.test('patterns/nested/testing.md')).toBe(false);
+
+    const deep = new RegExp(globToPathRegex('patterns/**/*.md'));
+    expect(deep.test('patterns/testing.md')).toBe(true);
+    expect(deep.test('patterns/nested/testing.md')).toBe(true);
+    expect(deep.test('patterns/testing.mdx')).toBe(false);
+  });
+
+  it('should normalize single values and dates from tool input', () => {
+    const filters = toSearchFilters({
+      doc_type: 'testing-pattern',
+      exclude_status: ['deprecated', 'draft'],
+      updated_since: '2026-01-01',
+    });
+
+    expect(filters.docTypes).toEqual(['testing-pattern']);
+    expect(filters.excludeStatus).toEqual(['deprecated', 'draft']);
+    expect(filters.status).toBeUndefined();
+    expect(filters.updatedSince).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('should push filters down into the retrieval RPC', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValue({ data: [], error: null } as never);
+
+    await searchDocuments('mock dependencies', 'project-1', {
+      filters: { docTypes: ['testing-pattern'], path: 'patterns/', excludeStatus: ['deprecated'], tags: [] },
+    });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('keyword_match_documents', {
+      query_text: 'mock dependencies',
+      match_count: 10,
+      filter_project_id: 'project-1',
+      filter_doc_types: ['testing-pattern'],
+      filter_path_regex: '^patterns/',
+      exclude_statuses: ['deprecated'],
+    });
+  });
+});
+
+describe('dual-space retrieval', () => {
+  function provider(models: { text: string; code: string }, failing?: 'text' | 'code'): EmbeddingProvider {
+    return {
+      id: 'jina',
+      dimensions: 512,
+      maxBatchSize: 32,
+      requestsPerMinute: 60,
+      modelFor: (contentType: 'text' | 'code') => models[contentType],
+      embedDocuments: vi.fn(),
+      embedQuery: vi.fn(async (_query: string, contentType: 'text' | 'code') => {
+        if (contentType === failing) throw new Error(`${contentType} model unavailable`);
+        return [contentType === 'code' ? 1 : 0];
+      }),
+    } as unknown as EmbeddingProvider;
+  }
+
+  it('should embed the query once per distinct model', async () => {
+    const dual = await embedQuerySpaces(provider({ text: 'text-v3', code: 'code-v2' }), 'mock the db');
+    expect(dual.map((q) => [q.space, q.model])).toEqual([['text', 'text-v3'], ['code', 'code-v2']]);
+
+    const single = await embedQuerySpaces(provider({ text: 'gecko', code: 'gecko' }), 'mock the db');
+    expect(single.map((q) => q.space)).toEqual(['text']);
+  });
+
+  it('should keep searching the remaining space when one query embedding fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const spaces = await embedQuerySpaces(provider({ text: 'text-v3', code: 'code-v2' }, 'code'), 'query');
+
+    expect(spaces.map((q) => q.space)).toEqual(['text']);
+  });
+
+  it('should interleave spaces by rank and tag hits with their space', () => {
+    const merged = mergeEmbeddingSpaces([
+      { space: 'text', matches: [match('a', 0.8), match('b', 0.4)] },
+      { space: 'code', matches: [match('c', 0.6), match('d', 0.2)] },
+    ]);
+
+    expect(merged.map((m) => [m.id, m.embedding_space, m.similarity])).toEqual([
+      ['a', 'text', 0.8], ['c', 'code', 0.6], ['b', 'text', 0.4], ['d', 'code', 0.2],
+    ]);
+  });
+
+  it('should not inflate a clearly weaker space to the best space', () => {
+    const merged = mergeEmbeddingSpaces([
+      { space: 'text', matches: [match('a', 0.9), match('b', 0.85)] },
+      { space: 'code', matches: [match('c', 0.3), match('d', 0.25)] },
+    ]);
+
+    expect(merged[0].id).toBe('a');
+    expect(merged.find((m) => m.id === 'c')?.similarity).toBe(0.3);
+    expect(merged.filter((m) => m.embedding_space === 'code').map((m) => trustLevel(m.similarity)))
+      .toEqual(['LOW', 'LOW']);
+  });
+
+  it('should deduplicate hits found in both spaces, ranking them first with the higher score', () => {
+    const merged = mergeEmbeddingSpaces([
+      { space: 'text', matches: [match('a', 0.9), match('b', 0.3)] },
+      { space: 'code', matches: [match('b', 0.6)] },
+    ]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ id: 'b', embedding_space: 'code', similarity: 0.6 });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+// Mock Supabase
+vi.mock('../../supabase', () => ({
+  supabase: {
+    from: vi.fn(() => ({
+      insert: vi.fn(() => Promise.resolve({ error: null })),
+    })),
+    rpc: vi.fn(() => Promise.resolve({ data: false, error: null })),
+  },
+  isSupabaseConfigured: vi.fn(() => true),
+}));
+
+import { registerQuothTools } from '../tools';
+import { GuidelinesOutputSchema, GenesisOutputSchema } from '../tool-output';
+import type { AuthContext } from '../../auth/mcp-auth';
+
+const PROJECT_ID = '00000000-0000-4000-8000-000000000001';
+
+async function connect(authContext: AuthContext): Promise<Client> {
+  const server = new McpServer({ name: 'quoth-test', version: '1.0.0' });
+  registerQuothTools(server, authContext);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'quoth-test-client', version: '1.0.0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('structured tool output', () => {
+  let client: Client;
+  let viewer: Client;
+
+  beforeAll(async () => {
+    client = await connect({ project_id: PROJECT_ID, user_id: 'user-1', role: 'admin' });
+    viewer = await connect({ project_id: PROJECT_ID, user_id: 'user-2', role: 'viewer' });
+  });
+
+  it('should declare an output schema on every tool', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.length).toBeGreaterThan(20);
+    for (const tool of tools) {
+      expect(tool.outputSchema, tool.name).toBeDefined();
+      expect(tool.outputSchema!.type).toBe('object');
+    }
+  });
+
+  it('should return markdown text alongside matching structured content', async () => {
+    const result = await client.callTool({ name: 'quoth_guidelines', arguments: { mode: 'code' } });
+
+    expect(result.isError).toBeFalsy();
+    const structured = GuidelinesOutputSchema.parse(result.structuredContent);
+    expect(structured.mode).toBe('code');
+    expect(structured.full).toBe(false);
+    expect((result.content as Array<{ text: string }>)[0].text).toBe(structured.guidelines);
+  });
+
+  it('should expose genesis configuration as structured fields', async () => {
+    const result = await client.callTool({
+      name: 'quoth_genesis',
+      arguments: { depth_level: 'minimal', focus: 'update_only' },
+    });
+
+    const structured = GenesisOutputSchema.parse(result.structuredContent);
+    expect(structured.document_count).toBe(3);
+    expect(structured.prompt).toContain('UPDATE ONLY');
+  });
+
+  it('should flag failures as errors without structured content', async () => {
+    const result = await viewer.callTool({
+      name: 'quoth_propose_update',
+      arguments: {
+        doc_id: 'patterns/auth.md',
+        new_content: '# Auth',
+        evidence_snippet: 'src/auth.ts',
+        reasoning: 'New pattern',
+      },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('Permission Denied');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const rpc = vi.fn();
+
+// Mock the supabase module before importing the usage store
+vi.mock('../../supabase', () => ({
+  supabase: { rpc: (...args: unknown[]) => rpc(...args), from: vi.fn() },
+  // Tier lookups default to 'free' without Supabase
+  isSupabaseConfigured: () => false,
+}));
+
+import {
+  createMemoryUsageStore,
+  postgresUsageStore,
+  setUsageStore,
+} from '../usage-store';
+import { checkUsageLimit, incrementUsage } from '../tier';
+
+describe('createMemoryUsageStore', () => {
+  it('should keep separate daily counters within a shared monthly counter', async () => {
+    const store = createMemoryUsageStore();
+    const jan30 = new Date('2026-01-30T23:00:00Z');
+    const jan31 = new Date('2026-01-31T01:00:00Z');
+    const feb1 = new Date('2026-02-01T00:00:00Z');
+
+    await store.increment('p1', 'semantic_search', 1, jan30);
+    await store.increment('p1', 'semantic_search', 2, jan31);
+    await store.increment('p1', 'rag_answer', 1, jan31);
+
+    expect(await store.get('p1', 'semantic_search', jan31)).toEqual({ daily: 2, monthly: 3 });
+    expect(await store.get('p1', 'semantic_search', feb1)).toEqual({ daily: 0, monthly: 0 });
+    expect(await store.get('p2', 'semantic_search', jan31)).toEqual({ daily: 0, monthly: 0 });
+    expect(await store.daily('p1', jan31)).toEqual([
+      { day: '2026-01-31', metric: 'semantic_search', count: 2 },
+      { day: '2026-01-31', metric: 'rag_answer', count: 1 },
+    ]);
+  });
+});
+
+describe('postgresUsageStore', () => {
+  it('should increment through the atomic increment_usage function', async () => {
+    rpc.mockResolvedValueOnce({ data: [{ daily_count: 4, monthly_count: 40 }], error: null });
+
+    const counts = await postgresUsageStore.increment('p1', 'rag_answer', 1, new Date('2026-03-05T10:00:00Z'));
+
+    expect(counts).toEqual({ daily: 4, monthly: 40 });
+    expect(rpc).toHaveBeenCalledWith('increment_usage', {
+      target_project_id: 'p1',
+      usage_metric: 'rag_answer',
+      usage_day: '2026-03-05',
+      amount: 1,
+    });
+  });
+});
+
+describe('tier usage limits', () => {
+  beforeEach(() => {
+    setUsageStore(createMemoryUsageStore());
+  });
+
+  it('should enforce the free daily limit from the usage store', async () => {
+    for (let i = 0; i < 4; i++) await incrementUsage('p1', 'semantic_search');
+    expect(await checkUsageLimit('p1', 'semantic_search')).toEqual({ allowed: true, remaining: 1, limit: 5 });
+
+    await incrementUsage('p1', 'semantic_search');
+    expect(await checkUsageLimit('p1', 'semantic_search')).toEqual({ allowed: false, remaining: 0, limit: 5 });
+  });
+
+  it('should allow usage when the store is unavailable', async () => {
+    const failing = createMemoryUsageStore();
+    failing.get = () => Promise.reject(new Error('connection refused'));
+    failing.increment = () => Promise.reject(new Error('connection refused'));
+    setUsageStore(failing);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await incrementUsage('p1', 'rag_answer')).toBeNull();
+    expect(await checkUsageLimit('p1', 'rag_answer')).toEqual({ allowed: true, remaining: 3, limit: 3 });
+  });
+});
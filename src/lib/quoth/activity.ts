@@ -30,6 +30,7 @@ export type ActivityEventType =
   | 'agent_inbox_read'
   // Maintenance events
   | 'reindex'
+  | 'repo_sync'
   | 'agent_task_created'
   | 'agent_task_updated';
 
@@ -13,6 +13,29 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { AuthContext } from '../auth/mcp-auth';
 import { supabase } from '../supabase';
 import { logActivity } from './activity';
+import {
+  toolResult,
+  AgentRegisterOutputSchema,
+  AgentUpdateOutputSchema,
+  AgentRemoveOutputSchema,
+  AgentListOutputSchema,
+  AgentAssignmentOutputSchema,
+  AgentMessageOutputSchema,
+  AgentInboxOutputSchema,
+  TaskCreateOutputSchema,
+  TaskUpdateOutputSchema,
+  type AgentOutput,
+  type TaskOutput,
+  type AgentRegisterOutput,
+  type AgentUpdateOutput,
+  type AgentRemoveOutput,
+  type AgentListOutput,
+  type AgentAssignmentOutput,
+  type AgentMessageOutput,
+  type AgentInboxOutput,
+  type TaskCreateOutput,
+  type TaskUpdateOutput,
+} from './tool-output';
 
 /**
  * Generate HMAC-SHA256 signature for agent messages.
@@ -64,6 +87,60 @@ export async function getOrganizationId(projectId: string): Promise<string> {
   return data.organization_id;
 }
 
+interface AgentRow {
+  id: string;
+  agent_name: string;
+  display_name?: string | null;
+  instance?: string | null;
+  role?: string | null;
+  model?: string | null;
+  status: string;
+  last_seen_at?: string | null;
+}
+
+interface TaskRow {
+  id: string;
+  assigned_to: string;
+  created_by?: string | null;
+  title: string;
+  priority: number;
+  deadline?: string | null;
+  status: string;
+  completed_at?: string | null;
+}
+
+/**
+ * Agent row for structured output
+ */
+function toAgentOutput(agent: AgentRow): AgentOutput {
+  return {
+    id: agent.id,
+    agent_name: agent.agent_name,
+    display_name: agent.display_name ?? null,
+    instance: agent.instance ?? null,
+    role: agent.role ?? null,
+    model: agent.model ?? null,
+    status: agent.status,
+    last_seen_at: agent.last_seen_at ?? null,
+  };
+}
+
+/**
+ * Task row for structured output
+ */
+function toTaskOutput(task: TaskRow): TaskOutput {
+  return {
+    id: task.id,
+    assigned_to: task.assigned_to,
+    created_by: task.created_by ?? null,
+    title: task.title,
+    priority: task.priority,
+    deadline: task.deadline ?? null,
+    status: task.status,
+    completed_at: task.completed_at ?? null,
+  };
+}
+
 /**
  * Register all agent management tools on the MCP server
  */
@@ -116,6 +193,7 @@ export function registerAgentTools(
           .optional()
           .describe('Optional project slug. If provided and does not exist, will auto-create the project and assign agent as owner.'),
       },
+      outputSchema: AgentRegisterOutputSchema,
     },
     async (args) => {
       const organizationId = await getOrganizationId(authContext.project_id);
@@ -151,6 +229,7 @@ export function registerAgentTools(
       }
 
       let projectInfo = '';
+      let assignedProject: AgentRegisterOutput['project'] = null;
 
       // Auto-create and assign project if project_slug provided
       if (project_slug) {
@@ -168,6 +247,7 @@ export function registerAgentTools(
           // Project exists, just assign
           projectId = existingProject.id;
           projectInfo = `\n**Project:** Assigned to existing project \`${project_slug}\``;
+          assignedProject = { id: projectId, slug: project_slug, created: false };
         } else {
           // Project doesn't exist, create it
           const { data: newProject, error: projectError } = await supabase
@@ -189,6 +269,7 @@ export function registerAgentTools(
 
           projectId = newProject.id;
           projectInfo = `\n**Project:** Auto-created and assigned to new project \`${project_slug}\` ✨`;
+          assignedProject = { id: projectId, slug: project_slug, created: true };
         }
 
         // Assign agent to project as owner
@@ -214,11 +295,8 @@ export function registerAgentTools(
         toolName: 'quoth_agent_register',
       });
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `✅ Agent registered!
+      return toolResult<AgentRegisterOutput>(
+        `✅ Agent registered!
 
 **Agent ID:** ${data.id}
 **Name:** ${agent_name}
@@ -227,9 +305,8 @@ export function registerAgentTools(
 **Role:** ${role || 'unspecified'}${projectInfo}
 
 This agent can now send/receive messages and create shared knowledge.`,
-          },
-        ],
-      };
+        { agent: toAgentOutput(data), project: assignedProject }
+      );
     }
   );
 
@@ -258,6 +335,7 @@ This agent can now send/receive messages and create shared knowledge.`,
         capabilities: z.record(z.any()).optional(),
         metadata: z.record(z.any()).optional(),
       },
+      outputSchema: AgentUpdateOutputSchema,
     },
     async (args) => {
       const organizationId = await getOrganizationId(authContext.project_id);
@@ -301,17 +379,13 @@ This agent can now send/receive messages and create shared knowledge.`,
         toolName: 'quoth_agent_update',
       });
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `✅ Agent updated!
+      return toolResult<AgentUpdateOutput>(
+        `✅ Agent updated!
 
 **Agent:** ${data.agent_name}
 **Updated fields:** ${Object.keys(cleanUpdates).join(', ')}`,
-          },
-        ],
-      };
+        { agent: toAgentOutput(data), updated_fields: Object.keys(cleanUpdates) }
+      );
     }
   );
 
@@ -330,6 +404,7 @@ This agent can now send/receive messages and create shared knowledge.`,
           .default(false)
           .describe('If true, permanently delete; if false, set status=archived'),
       },
+      outputSchema: AgentRemoveOutputSchema,
     },
     async (args) => {
       const organizationId = await getOrganizationId(authContext.project_id);
@@ -368,16 +443,16 @@ This agent can now send/receive messages and create shared knowledge.`,
         toolName: 'quoth_agent_remove',
       });
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: hard_delete
-              ? `✅ Agent permanently deleted: ${data.agent_name}`
-              : `✅ Agent archived: ${data.agent_name}`,
-          },
-        ],
-      };
+      return toolResult<AgentRemoveOutput>(
+        hard_delete
+          ? `✅ Agent permanently deleted: ${data.agent_name}`
+          : `✅ Agent archived: ${data.agent_name}`,
+        {
+          agent_id: data.id,
+          agent_name: data.agent_name,
+          action: hard_delete ? 'deleted' : 'archived',
+        }
+      );
     }
   );
 
@@ -403,6 +478,7 @@ This agent can now send/receive messages and create shared knowledge.`,
           .optional()
           .describe('Filter by project assignment'),
       },
+      outputSchema: AgentListOutputSchema,
     },
     async (args) => {
       const organizationId = await getOrganizationId(authContext.project_id);
@@ -435,14 +511,7 @@ This agent can now send/receive messages and create shared knowledge.`,
         if (agentIds.length > 0) {
           query = query.in('id', agentIds);
         } else {
-          return {
-            content: [
-              {
-                type: 'text' as const,
-                text: 'No agents assigned to this project.',
-              },
-            ],
-          };
+          return toolResult<AgentListOutput>('No agents assigned to this project.', { agents: [] });
         }
       }
 
@@ -453,14 +522,7 @@ This agent can now send/receive messages and create shared knowledge.`,
       }
 
       if (!data || data.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: 'No agents found matching your criteria.',
-            },
-          ],
-        };
+        return toolResult<AgentListOutput>('No agents found matching your criteria.', { agents: [] });
       }
 
       const formatted = data
@@ -475,18 +537,14 @@ This agent can now send/receive messages and create shared knowledge.`,
         )
         .join('\n');
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `# Agents in Organization
+      return toolResult<AgentListOutput>(
+        `# Agents in Organization
 
 ${formatted}
 
 **Total:** ${data.length}`,
-          },
-        ],
-      };
+        { agents: data.map(toAgentOutput) }
+      );
     }
   );
 
@@ -516,6 +574,7 @@ ${formatted}
           .optional()
           .describe('Who is making this assignment'),
       },
+      outputSchema: AgentAssignmentOutputSchema,
     },
     async (args) => {
       const organizationId = await getOrganizationId(authContext.project_id);
@@ -562,20 +621,16 @@ ${formatted}
         toolName: 'quoth_agent_assign_project',
       });
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `✅ Agent assigned to project!
+      return toolResult<AgentAssignmentOutput>(
+        `✅ Agent assigned to project!
 
 **Agent:** ${agent_name || targetAgentId}
 **Project:** ${project_id}
 **Role:** ${role || 'contributor'}
 
 The agent can now work on this project while retaining org-wide access.`,
-          },
-        ],
-      };
+        { agent_id: targetAgentId!, project_id, role: role || 'contributor', assigned: true }
+      );
     }
   );
 
@@ -594,6 +649,7 @@ The agent can now work on this project while retaining org-wide access.`,
           .uuid()
           .describe('Project to unassign from'),
       },
+      outputSchema: AgentAssignmentOutputSchema,
     },
     async (args) => {
       const organizationId = await getOrganizationId(authContext.project_id);
@@ -639,19 +695,15 @@ The agent can now work on this project while retaining org-wide access.`,
         toolName: 'quoth_agent_unassign_project',
       });
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `✅ Agent unassigned from project!
+      return toolResult<AgentAssignmentOutput>(
+        `✅ Agent unassigned from project!
 
 **Agent:** ${agent_name || targetAgentId}
 **Project:** ${project_id}
 
 The agent still has access to org-wide knowledge and messaging.`,
-          },
-        ],
-      };
+        { agent_id: targetAgentId!, project_id, role: null, assigned: false }
+      );
     }
   );
 
@@ -687,6 +739,7 @@ The agent still has access to org-wide knowledge and messaging.`,
           .optional()
           .describe('Message ID to reply to'),
       },
+      outputSchema: AgentMessageOutputSchema,
     },
     async (args) => {
       const organizationId = await getOrganizationId(authContext.project_id);
@@ -788,11 +841,8 @@ The agent still has access to org-wide knowledge and messaging.`,
         toolName: 'quoth_agent_message',
       });
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `✅ Message sent to ${to}!
+      return toolResult<AgentMessageOutput>(
+        `✅ Message sent to ${to}!
 
 **Message ID:** ${data.id}
 **Type:** ${type || 'message'}
@@ -800,9 +850,16 @@ The agent still has access to org-wide knowledge and messaging.`,
 ${channel ? `**Channel:** ${channel}\n` : ''}**Status:** Pending delivery
 
 The recipient agent will receive this via Realtime push.`,
-          },
-        ],
-      };
+        {
+          message_id: data.id,
+          from_agent_id: fromAgentId,
+          to_agent_id: toAgentId,
+          type: type || 'message',
+          priority: priority || 'normal',
+          channel: channel ?? null,
+          status: data.status,
+        }
+      );
     }
   );
 
@@ -836,6 +893,7 @@ The recipient agent will receive this via Realtime push.`,
           .default(false)
           .describe('Mark retrieved messages as read'),
       },
+      outputSchema: AgentInboxOutputSchema,
     },
     async (args) => {
       const organizationId = await getOrganizationId(authContext.project_id);
@@ -885,14 +943,11 @@ The recipient agent will receive this via Realtime push.`,
       }
 
       if (!messages || messages.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: `📭 Inbox is empty (status: ${status || 'all'})`,
-            },
-          ],
-        };
+        return toolResult<AgentInboxOutput>(`📭 Inbox is empty (status: ${status || 'all'})`, {
+          agent_id: targetAgentId!,
+          marked_read: false,
+          messages: [],
+        });
       }
 
       // Optionally mark as read
@@ -938,18 +993,30 @@ ${msg}
         })
         .join('\n\n');
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `📬 Inbox for ${agent_name || targetAgentId}
+      return toolResult<AgentInboxOutput>(
+        `📬 Inbox for ${agent_name || targetAgentId}
 
 **Total:** ${messages.length} message${messages.length !== 1 ? 's' : ''}
 ${mark_read ? '✅ Marked as read\n' : ''}
 ${formatted}`,
-          },
-        ],
-      };
+        {
+          agent_id: targetAgentId!,
+          marked_read: Boolean(mark_read),
+          messages: messages.map((m) => ({
+            id: m.id,
+            from_agent_id: m.from_agent_id ?? null,
+            from_agent_name: m.from_agent?.agent_name ?? null,
+            type: m.type,
+            priority: m.priority,
+            status: mark_read ? 'read' : m.status,
+            channel: m.channel ?? null,
+            reply_to: m.reply_to ?? null,
+            message: m.payload?.message || JSON.stringify(m.payload),
+            payload: m.payload || {},
+            created_at: m.created_at,
+          })),
+        }
+      );
     }
   );
 
@@ -984,6 +1051,7 @@ ${formatted}`,
           .optional()
           .describe('Additional task data as JSON'),
       },
+      outputSchema: TaskCreateOutputSchema,
     },
     async (args) => {
       const organizationId = await getOrganizationId(authContext.project_id);
@@ -1075,11 +1143,8 @@ ${formatted}`,
         toolName: 'quoth_task_create',
       });
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `✅ Task created!
+      return toolResult<TaskCreateOutput>(
+        `✅ Task created!
 
 **Task ID:** ${data.id}
 **Assigned to:** ${assigned_to}
@@ -1088,9 +1153,8 @@ ${formatted}`,
 ${deadline ? `**Deadline:** ${deadline}\n` : ''}**Status:** pending
 
 The assigned agent can view this task in their task queue.`,
-          },
-        ],
-      };
+        { task: toTaskOutput(data) }
+      );
     }
   );
 
@@ -1123,6 +1187,7 @@ The assigned agent can view this task in their task queue.`,
           .optional()
           .describe('Update deadline'),
       },
+      outputSchema: TaskUpdateOutputSchema,
     },
     async (args) => {
       const organizationId = await getOrganizationId(authContext.project_id);
@@ -1173,20 +1238,16 @@ The assigned agent can view this task in their task queue.`,
         toolName: 'quoth_task_update',
       });
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `✅ Task updated!
+      return toolResult<TaskUpdateOutput>(
+        `✅ Task updated!
 
 **Task ID:** ${task_id}
 **New Status:** ${data.status}
 **Updated fields:** ${Object.keys(updates).join(', ')}
 
 ${data.completed_at ? `✅ Completed at: ${data.completed_at}` : ''}`,
-          },
-        ],
-      };
+        { task: toTaskOutput(data), updated_fields: Object.keys(updates) }
+      );
     }
   );
 }
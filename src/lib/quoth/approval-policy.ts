@@ -0,0 +1,229 @@
+/**
+ * Approval Policies
+ * Decides, per document path, whether an update is applied directly or how
+ * many approvals (and from whom) its proposal needs.
+ *
+ * Rules are matched CODEOWNERS-style: patterns are relative to the docs root
+ * and the LAST matching rule (by position) wins, so broad rules go first and
+ * exceptions after them. Paths without a matching rule fall back to the
+ * project's require_approval flag with a single admin approval.
+ */
+
+import { z } from 'zod';
+import { supabase, replaceProjectRows } from '../supabase';
+
+export type ProjectRole = 'admin' | 'editor' | 'viewer';
+
+export const ApprovalPolicyRuleInputSchema = z.object({
+  path_pattern: z.string().trim().min(1).max(300),
+  auto_apply: z.boolean().default(false),
+  required_approvals: z.number().int().min(1).max(10).default(1),
+  reviewer_roles: z.array(z.enum(['admin', 'editor', 'viewer'])).default(['admin']),
+  reviewer_user_ids: z.array(z.string().uuid()).default([]),
+  allow_self_approval: z.boolean().default(false),
+});
+
+export type ApprovalPolicyRuleInput = z.infer<typeof ApprovalPolicyRuleInputSchema>;
+
+/** approval_policies row */
+export interface ApprovalPolicyRule extends ApprovalPolicyRuleInput {
+  id: string;
+  position: number;
+}
+
+/** The policy in effect for one document path */
+export interface ApprovalPolicy {
+  /** Matching rule, or null for the project default */
+  policy_id: string | null;
+  path_pattern: string | null;
+  auto_apply: boolean;
+  required_approvals: number;
+  reviewer_roles: ProjectRole[];
+  reviewer_user_ids: string[];
+  allow_self_approval: boolean;
+}
+
+export interface ApprovalVote {
+  user_id: string | null;
+  reviewer_email: string;
+  reviewer_role: string;
+  decision: 'approve' | 'reject';
+  created_at?: string;
+}
+
+export interface ApprovalTally {
+  approvals: number;
+  required: number;
+  satisfied: boolean;
+  approvers: string[];
+}
+
+/**
+ * Compile a CODEOWNERS-style pattern:
+ * - `*` matches within one path segment, `**` across segments, `?` one character
+ * - a leading `/` or a `/` in the middle anchors the pattern at the docs root;
+ *   otherwise it matches at any depth (`*.md`, `api.md`)
+ * - a pattern that matches a directory matches everything below it (`contracts/`)
+ */
+export function compilePathPattern(pattern: string): RegExp {
+  const trimmed = pattern.trim();
+  const anchored = trimmed.startsWith('/') || trimmed.replace(/\/+$/, '').includes('/');
+  const body = trimmed.replace(/^\/+/, '').replace(/\/+$/, '');
+
+  let source = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '*' && body[i + 1] === '*') {
+      if (body[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}(?:/.*)?$`);
+}
+
+export function matchesPathPattern(pattern: string, filePath: string): boolean {
+  return compilePathPattern(pattern).test(filePath.replace(/^\/+/, ''));
+}
+
+/**
+ * Effective policy for `filePath`: the last matching rule, or the project default.
+ */
+export function resolveApprovalPolicy(
+  rules: ApprovalPolicyRule[],
+  filePath: string,
+  requireApproval: boolean
+): ApprovalPolicy {
+  const ordered = [...rules].sort((a, b) => a.position - b.position);
+  const rule = ordered.reverse().find((r) => matchesPathPattern(r.path_pattern, filePath));
+
+  if (!rule) {
+    return {
+      policy_id: null,
+      path_pattern: null,
+      auto_apply: !requireApproval,
+      required_approvals: 1,
+      reviewer_roles: ['admin'],
+      reviewer_user_ids: [],
+      allow_self_approval: true,
+    };
+  }
+
+  return {
+    policy_id: rule.id,
+    path_pattern: rule.path_pattern,
+    auto_apply: rule.auto_apply,
+    required_approvals: rule.required_approvals,
+    reviewer_roles: rule.reviewer_roles,
+    reviewer_user_ids: rule.reviewer_user_ids,
+    allow_self_approval: rule.allow_self_approval,
+  };
+}
+
+/**
+ * Whether a project member may vote on proposals under `policy`.
+ */
+export function canReview(policy: ApprovalPolicy, userId: string, role: string): boolean {
+  return policy.reviewer_user_ids.includes(userId) || (policy.reviewer_roles as string[]).includes(role);
+}
+
+/**
+ * Count distinct approving reviewers that still qualify under `policy`.
+ * Votes from reviewers removed from the policy, or from the proposal's
+ * author when self-approval is not allowed, do not count.
+ */
+export function tallyApprovals(
+  votes: ApprovalVote[],
+  policy: ApprovalPolicy,
+  proposedBy: string | null,
+  roles: Map<string, string>
+): ApprovalTally {
+  const approvers = new Map<string, string>();
+
+  for (const vote of votes) {
+    if (vote.decision !== 'approve' || !vote.user_id) continue;
+    if (!policy.allow_self_approval && vote.user_id === proposedBy) continue;
+    if (!canReview(policy, vote.user_id, roles.get(vote.user_id) ?? vote.reviewer_role)) continue;
+    approvers.set(vote.user_id, vote.reviewer_email);
+  }
+
+  return {
+    approvals: approvers.size,
+    required: policy.required_approvals,
+    satisfied: approvers.size >= policy.required_approvals,
+    approvers: [...approvers.values()],
+  };
+}
+
+/**
+ * One-line description of who must approve, for tool output and API errors.
+ */
+export function describeApprovalPolicy(policy: ApprovalPolicy): string {
+  if (policy.auto_apply) return 'applied directly';
+
+  const reviewers = [
+    ...policy.reviewer_roles.map((role) => `${role}s`),
+    ...(policy.reviewer_user_ids.length > 0 ? [`${policy.reviewer_user_ids.length} named reviewer(s)`] : []),
+  ].join(' or ');
+  const scope = policy.path_pattern ? ` (policy \`${policy.path_pattern}\`)` : '';
+
+  return `${policy.required_approvals} approval(s) from ${reviewers || 'nobody'}${scope}`;
+}
+
+export async function getApprovalRules(projectId: string): Promise<ApprovalPolicyRule[]> {
+  const { data, error } = await supabase
+    .from('approval_policies')
+    .select('id, path_pattern, position, auto_apply, required_approvals, reviewer_roles, reviewer_user_ids, allow_self_approval')
+    .eq('project_id', projectId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load approval policies: ${error.message}`);
+  }
+
+  return (data || []) as ApprovalPolicyRule[];
+}
+
+/**
+ * Load the project's rules and resolve the policy for `filePath`.
+ */
+export async function getApprovalPolicy(projectId: string, filePath: string): Promise<ApprovalPolicy> {
+  const { data: project } = await supabase
+    .from('projects')
+    .select('require_approval')
+    .eq('id', projectId)
+    .single();
+
+  const rules = await getApprovalRules(projectId);
+
+  // Unknown project: never apply without review
+  return resolveApprovalPolicy(rules, filePath, project ? Boolean(project.require_approval) : true);
+}
+
+/**
+ * Replace a project's rules with `rules`, in order, in one transaction.
+ */
+export async function replaceApprovalRules(
+  projectId: string,
+  rules: ApprovalPolicyRuleInput[],
+  userId: string
+): Promise<ApprovalPolicyRule[]> {
+  await replaceProjectRows(
+    'approval_policies',
+    projectId,
+    rules.map((rule, position) => ({ ...rule, position, created_by: userId }))
+  );
+
+  return getApprovalRules(projectId);
+}
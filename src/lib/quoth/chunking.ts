@@ -1,5 +1,6 @@
 import fs from "fs";
 import path from "path";
+import { chunkMarkdown } from "./markdown-chunking";
 
 /**
  * Supported languages for AST analysis
@@ -8,9 +9,19 @@ export type SupportedLanguage =
   | "typescript"
   | "javascript"
   | "python"
+  | "go"
+  | "rust"
+  | "java"
+  | "csharp"
+  | "ruby"
   | "markdown"
   | "text";
 
+/**
+ * Languages parsed with a tree-sitter grammar
+ */
+type ASTLanguage = Exclude<SupportedLanguage, "markdown" | "text">;
+
 /**
  * Interface for a semantic chunk of code
  */
@@ -23,6 +34,11 @@ export interface CodeChunk {
     language: SupportedLanguage;
     filePath: string;
     parentContext?: string;
+    /** Heading breadcrumb for markdown chunks, e.g. "Title > Section > Subsection" */
+    breadcrumb?: string;
+    /** Line range duplicated into metadata so it is persisted with the embedding */
+    startLine?: number;
+    endLine?: number;
   };
 }
 
@@ -89,8 +105,83 @@ const EXTRACTABLE_TYPES: Record<string, string[]> = {
     "class_definition",
     "decorated_definition",
   ],
+  go: [
+    "function_declaration",
+    "method_declaration",
+    "type_declaration",
+  ],
+  rust: [
+    "function_item",
+    "struct_item",
+    "enum_item",
+    "trait_item",
+    "impl_item",
+    "macro_definition",
+  ],
+  java: [
+    "class_declaration",
+    "interface_declaration",
+    "enum_declaration",
+    "record_declaration",
+    "method_declaration",
+    "constructor_declaration",
+  ],
+  csharp: [
+    "class_declaration",
+    "interface_declaration",
+    "struct_declaration",
+    "enum_declaration",
+    "record_declaration",
+    "method_declaration",
+    "constructor_declaration",
+  ],
+  ruby: [
+    "class",
+    "module",
+    "method",
+    "singleton_method",
+  ],
+};
+
+/**
+ * Grammar WASM file per language (tree-sitter-c-sharp ships tree-sitter-c_sharp.wasm)
+ */
+const WASM_FILES: Record<ASTLanguage, string> = {
+  typescript: "tree-sitter-typescript.wasm",
+  javascript: "tree-sitter-javascript.wasm",
+  python: "tree-sitter-python.wasm",
+  go: "tree-sitter-go.wasm",
+  rust: "tree-sitter-rust.wasm",
+  java: "tree-sitter-java.wasm",
+  csharp: "tree-sitter-c_sharp.wasm",
+  ruby: "tree-sitter-ruby.wasm",
 };
 
+/**
+ * Comment node types attached to the declaration that follows them
+ */
+const COMMENT_TYPES = new Set(["comment", "line_comment", "block_comment"]);
+
+/**
+ * Enclosing declarations used as parentContext, with the field holding their name
+ */
+const CONTAINER_NAME_FIELDS: Record<string, string> = {
+  class_declaration: "name",
+  interface_declaration: "name",
+  struct_declaration: "name",
+  record_declaration: "name",
+  enum_declaration: "name",
+  class_definition: "name",
+  trait_item: "name",
+  impl_item: "type",
+  class: "name",
+  module: "name",
+};
+
+function isASTLanguage(lang: SupportedLanguage): lang is ASTLanguage {
+  return lang in WASM_FILES;
+}
+
 /**
  * Map file extensions to language names
  */
@@ -107,6 +198,17 @@ function getLanguageFromPath(filePath: string): SupportedLanguage {
       return "javascript";
     case ".py":
       return "python";
+    case ".go":
+      return "go";
+    case ".rs":
+      return "rust";
+    case ".java":
+      return "java";
+    case ".cs":
+      return "csharp";
+    case ".rb":
+    case ".rake":
+      return "ruby";
     case ".md":
     case ".mdx":
       return "markdown";
@@ -186,9 +288,7 @@ export class ASTChunker {
   /**
    * Load a language grammar for parsing
    */
-  private async loadLanguage(
-    lang: "typescript" | "javascript" | "python"
-  ): Promise<any | null> {
+  private async loadLanguage(lang: ASTLanguage): Promise<any | null> {
     if (!this.LanguageClass || !this.astEnabled) return null;
 
     // Check cache first
@@ -197,8 +297,7 @@ export class ASTChunker {
     }
 
     // Map language to WASM file name
-    const wasmFileName = `tree-sitter-${lang}.wasm`;
-    const wasmPath = resolveWasmPath(wasmFileName);
+    const wasmPath = resolveWasmPath(WASM_FILES[lang]);
 
     if (!wasmPath) {
       console.warn(`ASTChunker: Language WASM not found for ${lang}`);
@@ -255,23 +354,31 @@ export class ASTChunker {
         let content = sourceCode.slice(node.startIndex, node.endIndex);
         let startLine = node.startPosition.row + 1;
 
-        // Check for preceding comment
-        const prevSibling = node.previousSibling;
-        if (prevSibling && prevSibling.type === "comment") {
+        // Attach preceding comments (Go and Rust doc comments are one node per line)
+        let prevSibling = node.previousSibling;
+        let firstLine = node.startPosition.row;
+        while (
+          prevSibling &&
+          COMMENT_TYPES.has(prevSibling.type) &&
+          prevSibling.endPosition.row >= firstLine - 1
+        ) {
           content =
             sourceCode.slice(prevSibling.startIndex, prevSibling.endIndex) +
             "\n" +
             content;
-          startLine = prevSibling.startPosition.row + 1;
+          firstLine = prevSibling.startPosition.row;
+          startLine = firstLine + 1;
+          prevSibling = prevSibling.previousSibling;
         }
 
-        // Determine parent context
+        // Determine parent context (nearest enclosing class/struct/impl/module)
         let parentContext: string | undefined;
-        const parent = node.parent;
-        if (parent && parent.type === "class_declaration") {
-          const nameNode = parent.childForFieldName("name");
+        for (let parent = node.parent; parent; parent = parent.parent) {
+          const nameField = CONTAINER_NAME_FIELDS[parent.type];
+          const nameNode = nameField ? parent.childForFieldName(nameField) : null;
           if (nameNode) {
             parentContext = nameNode.text;
+            break;
           }
         }
 
@@ -342,13 +449,6 @@ export class ASTChunker {
     return parts.length > 0 ? `[${parts.join(' | ')}] ` : '';
   }
 
-  /**
-   * Estimate token count for chunk size validation
-   */
-  private estimateTokens(text: string): number {
-    return Math.ceil(text.split(/\s+/).length * 1.3);
-  }
-
   /**
    * Fallback chunking for markdown and unsupported files
    */
@@ -359,40 +459,22 @@ export class ASTChunker {
       // Extract context from frontmatter for injection into chunks
       const contextPrefix = this.extractFrontmatterContext(content);
 
-      const sections = content.split(/^## /gm);
-      const chunks: CodeChunk[] = [];
-      let currentLine = 1;
-
-      for (let i = 0; i < sections.length; i++) {
-        const section = sections[i].trim();
-        if (!section) continue;
-
-        const sectionContent = i === 0 ? section : `## ${section}`;
-        const lineCount = sectionContent.split("\n").length;
-
+      const chunks: CodeChunk[] = chunkMarkdown(content).map((section) => ({
         // Inject context prefix into non-frontmatter chunks for better retrieval
-        const chunkContent = (i > 0 && contextPrefix)
-          ? `${contextPrefix}\n${sectionContent}`
-          : sectionContent;
-
-        // Log chunk size warnings (non-blocking)
-        const tokens = this.estimateTokens(chunkContent);
-        if (tokens < 75) {
-          console.warn(`ASTChunker: Chunk too short (${tokens} tokens): ${filePath} section ${i}`);
-        } else if (tokens > 300) {
-          console.warn(`ASTChunker: Chunk too long (${tokens} tokens): ${filePath} section ${i}`);
-        }
-
-        chunks.push({
-          content: chunkContent,
-          type: "markdown_section",
-          startLine: currentLine,
-          endLine: currentLine + lineCount - 1,
-          metadata: { language: "markdown", filePath },
-        });
-
-        currentLine += lineCount;
-      }
+        content: (!section.hasFrontmatter && contextPrefix)
+          ? `${contextPrefix}\n${section.content}`
+          : section.content,
+        type: "markdown_section",
+        startLine: section.startLine,
+        endLine: section.endLine,
+        metadata: {
+          language: "markdown",
+          filePath,
+          breadcrumb: section.headings.join(" > ") || undefined,
+          startLine: section.startLine,
+          endLine: section.endLine,
+        },
+      }));
 
       return chunks.length > 0
         ? chunks
@@ -455,13 +537,8 @@ export class ASTChunker {
 
     // Try AST parsing for code files
     if (this.astEnabled && this.parser) {
-      const treeSitterLang =
-        lang === "typescript" || lang === "javascript" || lang === "python"
-          ? lang
-          : null;
-
-      if (treeSitterLang) {
-        const language = await this.loadLanguage(treeSitterLang);
+      if (isASTLanguage(lang)) {
+        const language = await this.loadLanguage(lang);
 
         if (language) {
           try {
@@ -0,0 +1,255 @@
+/**
+ * Code Staleness
+ * Counts how much the code a document describes changed since the document
+ * was last verified against it.
+ *
+ * A document's verified commit is its frontmatter `last_verified_commit`, or
+ * the commit repository sync last stamped it with. Its code is every file it
+ * references (`src/lib/auth.ts:45-60`, see drift-scanner.ts) plus the
+ * `related_stack` entries that are paths in the repository. A scan reads the
+ * git history (local working tree or uploaded git bundle), counts the commits
+ * touching that code between the verified commit and the scanned one, and
+ * stores the counts on the document for the health service.
+ *
+ * Verifying or rewriting a document in Quoth does not move its verified
+ * commit, so only commits made after the later of verified_at and
+ * last_updated are counted.
+ */
+
+import * as path from 'path';
+import matter from 'gray-matter';
+import { supabase } from '../supabase';
+import { runGit as git } from './git';
+import { withGitDir, type RepoSource } from './repo-sync';
+import { extractCodeReferences } from './drift-scanner';
+import { codeStalenessLevel, type StalenessLevel } from './health';
+
+// ============ Types ============
+
+export type CodeCheckStatus =
+  /** Counted */
+  | 'checked'
+  /** The document references no code in the repository */
+  | 'no_references'
+  /** Neither frontmatter nor repository sync recorded a verified commit */
+  | 'no_verified_commit'
+  /** The verified commit is not in the repository's history */
+  | 'unknown_commit';
+
+export interface DocumentCodeChanges {
+  documentId: string;
+  filePath: string;
+  status: CodeCheckStatus;
+  verifiedCommit: string | null;
+  /** Referenced repo paths (files, or directories from related_stack) */
+  referencedPaths: string[];
+  /** Counted from this time (later of verified_at and last_updated), if set */
+  countedSince: string | null;
+  /** Commits touching the referenced paths since the verified commit */
+  commits: number;
+  /** Referenced paths with changes */
+  changedPaths: string[];
+  /** Level from the code changes alone ('fresh' unless checked) */
+  level: StalenessLevel;
+}
+
+export interface CodeStalenessOptions {
+  /** Commit-ish to count up to (default: HEAD) */
+  ref?: string;
+  /** Report counts without storing them */
+  dryRun?: boolean;
+}
+
+export interface CodeStalenessResult {
+  commit: string;
+  dryRun: boolean;
+  documents: DocumentCodeChanges[];
+  /** Documents whose counts were stored */
+  updated: number;
+  durationMs: number;
+}
+
+interface CheckedDocument {
+  id: string;
+  file_path: string;
+  content: string;
+  last_verified_commit: string | null;
+  verified_at: string | null;
+  last_updated: string | null;
+}
+
+// ============ Paths ============
+
+/**
+ * Repo paths a document describes: its code references, plus related_stack
+ * entries naming a file or directory in the repository
+ */
+export function referencedCodePaths(content: string, files: Set<string>): string[] {
+  const paths = new Set(extractCodeReferences(content).map((ref) => ref.path).filter((file) => files.has(file)));
+
+  let stack: unknown = null;
+  try {
+    stack = matter(content).data.related_stack;
+  } catch {
+    // Malformed frontmatter: code references only
+  }
+
+  for (const entry of Array.isArray(stack) ? stack : []) {
+    if (typeof entry !== 'string') continue;
+    const candidate = path.posix.normalize(entry.trim()).replace(/^\.\//, '').replace(/\/+$/, '');
+    if (!candidate || candidate === '.' || candidate.startsWith('../')) continue;
+
+    if (files.has(candidate) || [...files].some((file) => file.startsWith(`${candidate}/`))) {
+      paths.add(candidate);
+    }
+  }
+
+  return [...paths].sort();
+}
+
+/**
+ * Time a document was last checked by hand: the later of its verification
+ * and its last content update
+ */
+export function documentCheckedSince(doc: { verified_at: string | null; last_updated: string | null }): string | null {
+  const times = [doc.verified_at, doc.last_updated].filter((time): time is string => Boolean(time));
+  if (times.length === 0) return null;
+  return times.reduce((latest, time) => (new Date(time) > new Date(latest) ? time : latest));
+}
+
+/**
+ * Verified commit of a document: frontmatter last_verified_commit, else the
+ * commit repository sync stamped it with
+ */
+export function documentVerifiedCommit(content: string, stamped: string | null): string | null {
+  try {
+    const { data } = matter(content);
+    if (typeof data.last_verified_commit === 'string' && data.last_verified_commit.trim()) {
+      return data.last_verified_commit.trim();
+    }
+  } catch {
+    // Malformed frontmatter, fall back to the stamped commit
+  }
+  return stamped || null;
+}
+
+// ============ Scan ============
+
+/**
+ * Count, per document, the commits to its code since its verified commit,
+ * leaving out commits made before the document was last verified or updated
+ *
+ * @param projectId - Project whose documents are checked
+ * @param source - Local working tree or git bundle with the code's history
+ * @param options - Ref, dry run
+ */
+export async function scanCodeStaleness(
+  projectId: string,
+  source: RepoSource,
+  options: CodeStalenessOptions = {}
+): Promise<CodeStalenessResult> {
+  const startedAt = Date.now();
+
+  const { data: rows, error } = await supabase
+    .from('documents')
+    .select('id, file_path, content, last_verified_commit, verified_at, last_updated')
+    .eq('project_id', projectId);
+  if (error) throw new Error(`Failed to load documents: ${error.message}`);
+
+  const { commit, documents } = await withGitDir(source, async (gitDir) => {
+    const commit = (await git(gitDir, ['rev-parse', '--verify', '--end-of-options', `${options.ref || 'HEAD'}^{commit}`])).trim();
+    const listing = await git(gitDir, ['ls-tree', '-r', '-z', '--name-only', commit]);
+    const files = new Set(listing.split('\0').filter(Boolean));
+
+    const documents: DocumentCodeChanges[] = [];
+    for (const doc of (rows || []) as CheckedDocument[]) {
+      const referencedPaths = referencedCodePaths(doc.content || '', files);
+      const verifiedCommit = documentVerifiedCommit(doc.content || '', doc.last_verified_commit);
+      const changes: DocumentCodeChanges = {
+        documentId: doc.id,
+        filePath: doc.file_path,
+        status: 'checked',
+        verifiedCommit,
+        referencedPaths,
+        countedSince: documentCheckedSince(doc),
+        commits: 0,
+        changedPaths: [],
+        level: 'fresh',
+      };
+      documents.push(changes);
+
+      if (referencedPaths.length === 0) {
+        changes.status = 'no_references';
+        continue;
+      }
+      if (!verifiedCommit) {
+        changes.status = 'no_verified_commit';
+        continue;
+      }
+
+      try {
+        changes.verifiedCommit = (await git(gitDir, ['rev-parse', '--verify', '--end-of-options', `${verifiedCommit}^{commit}`])).trim();
+      } catch {
+        changes.status = 'unknown_commit';
+        continue;
+      }
+
+      const range = [
+        ...(changes.countedSince ? [`--since=${changes.countedSince}`] : []),
+        `${changes.verifiedCommit}..${commit}`,
+        '--',
+        ...referencedPaths,
+      ];
+      changes.commits = parseInt(await git(gitDir, ['rev-list', '--count', ...range]), 10) || 0;
+
+      const changedFiles = (await git(gitDir, ['log', '--format=', '--name-only', '-z', ...range]))
+        .split('\0')
+        .filter(Boolean);
+      changes.changedPaths = referencedPaths.filter((ref) =>
+        changedFiles.some((file) => file === ref || file.startsWith(`${ref}/`))
+      );
+      changes.level = codeStalenessLevel({
+        commits: changes.commits,
+        filesChanged: changes.changedPaths.length,
+        filesReferenced: referencedPaths.length,
+      });
+    }
+
+    return { commit, documents };
+  });
+
+  const result: CodeStalenessResult = {
+    commit,
+    dryRun: Boolean(options.dryRun),
+    documents,
+    updated: 0,
+    durationMs: 0,
+  };
+
+  if (options.dryRun) {
+    result.durationMs = Date.now() - startedAt;
+    return result;
+  }
+
+  // Unchecked documents are cleared so an old count cannot outlive its reference
+  const checkedAt = new Date().toISOString();
+  for (const doc of documents) {
+    const checked = doc.status === 'checked';
+    const { error: updateError } = await supabase
+      .from('documents')
+      .update({
+        code_verified_commit: checked ? doc.verifiedCommit : null,
+        code_commits_since_verified: checked ? doc.commits : null,
+        code_files_changed: checked ? doc.changedPaths.length : null,
+        code_files_referenced: checked ? doc.referencedPaths.length : null,
+        code_checked_commit: commit,
+        code_checked_at: checkedAt,
+      })
+      .eq('id', doc.documentId);
+    if (updateError) throw new Error(`Failed to record code changes for ${doc.filePath}: ${updateError.message}`);
+    result.updated++;
+  }
+
+  result.durationMs = Date.now() - startedAt;
+  return result;
+}
@@ -94,6 +94,14 @@ export async function calculateCoverage(projectId: string): Promise<CoverageResu
   const totalDocuments = docs?.length || 0;
 
   // Step 3: Count distinct document_ids in document_embeddings (docs with embeddings)
+  // Only the active generation counts; a reindex in progress writes a shadow generation
+  const { data: project } = await supabase
+    .from('projects')
+    .select('active_embedding_generation')
+    .eq('id', projectId)
+    .single();
+  const generation = project?.active_embedding_generation ?? 0;
+
   // Batch the query to avoid timeout with large document sets (Vercel 10s limit)
   const BATCH_SIZE = 20;
   const docIds = (docs || []).map(d => d.id);
@@ -107,7 +115,8 @@ export async function calculateCoverage(projectId: string): Promise<CoverageResu
     const { data: embeddingData, error: embError } = await supabase
       .from('document_embeddings')
       .select('document_id')
-      .in('document_id', batch);
+      .in('document_id', batch)
+      .eq('generation', generation);
 
     if (embError) {
       throw new Error(`Failed to fetch embeddings: ${embError.message}`);
@@ -0,0 +1,154 @@
+/**
+ * Line Diff
+ * Myers line matching shared by the three-way merge, patch proposals and the
+ * focused diff shown to reviewers.
+ */
+
+export interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+}
+
+export interface DiffHunk {
+  /** 1-based first line in the old text */
+  oldStart: number;
+  oldLines: number;
+  /** 1-based first line in the new text */
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Longest common subsequence of two line arrays (Myers' O(ND) algorithm),
+ * returned as matched [aIndex, bIndex] pairs in order.
+ */
+export function matchLines(a: string[], b: string[]): Array<[number, number]> {
+  // Common prefix/suffix are matched up front; edits are usually local
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+  const max = n + m;
+
+  // v[k + max] = furthest x on diagonal k; trace[d] keeps v[-d..d] before step d
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(max - d, max + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[max + k - 1] < v[max + k + 1]) ? v[max + k + 1] : v[max + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && midA[x] === midB[y]) {
+        x++;
+        y++;
+      }
+      v[max + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  const middle: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[d + k - 1] < vd[d + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : vd[d + prevK];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      middle.push([prefix + x, prefix + y]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+  middle.reverse();
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < prefix; i++) pairs.push([i, i]);
+  pairs.push(...middle);
+  for (let i = suffix; i > 0; i--) pairs.push([a.length - i, b.length - i]);
+  return pairs;
+}
+
+/** Lines of a document, ignoring the final newline */
+function toLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Changed regions between two texts with `context` unchanged lines around each.
+ */
+export function diffLines(before: string, after: string, context = 3): DiffHunk[] {
+  const a = toLines(before);
+  const b = toLines(after);
+
+  const ops: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [ai, bj] of [...matchLines(a, b), [a.length, b.length]]) {
+    while (i < ai) ops.push({ type: 'remove', text: a[i++] });
+    while (j < bj) ops.push({ type: 'add', text: b[j++] });
+    if (ai < a.length) ops.push({ type: 'context', text: a[ai] });
+    i = ai + 1;
+    j = bj + 1;
+  }
+
+  const changes = ops.flatMap((op, index) => (op.type === 'context' ? [] : [index]));
+  const hunks: DiffHunk[] = [];
+  let c = 0;
+
+  while (c < changes.length) {
+    const start = Math.max(0, changes[c] - context);
+    let last = changes[c];
+    while (c + 1 < changes.length && changes[c + 1] - last <= 2 * context) last = changes[++c];
+    c++;
+    const end = Math.min(ops.length, last + context + 1);
+
+    const preceding = ops.slice(0, start);
+    const lines = ops.slice(start, end);
+    hunks.push({
+      oldStart: preceding.filter((op) => op.type !== 'add').length + 1,
+      oldLines: lines.filter((op) => op.type !== 'add').length,
+      newStart: preceding.filter((op) => op.type !== 'remove').length + 1,
+      newLines: lines.filter((op) => op.type !== 'remove').length,
+      lines,
+    });
+  }
+
+  return hunks;
+}
+
+/**
+ * Render hunks in unified diff format (without file headers).
+ */
+export function formatUnifiedDiff(hunks: DiffHunk[]): string {
+  const prefix = { context: ' ', add: '+', remove: '-' } as const;
+  return hunks
+    .map((hunk) => {
+      // Empty ranges point at the line before the change
+      const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+      const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+      const header = `@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`;
+      return [header, ...hunk.lines.map((line) => `${prefix[line.type]}${line.text}`)].join('\n');
+    })
+    .join('\n');
+}
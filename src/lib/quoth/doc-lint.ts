@@ -0,0 +1,306 @@
+/**
+ * Document Linter
+ * Checks knowledge base documents before they are written.
+ *
+ * Errors (can block direct apply when the project enables lint blocking):
+ *   - frontmatter missing, unparsable or not matching DocumentFrontmatterSchema
+ *   - relative links to documents that do not exist, or to missing #anchors
+ * Warnings (genesis embedding rules, see EMBEDDING_RULES in genesis.ts):
+ *   - H2 sections too short or too long to embed well
+ *   - H2 sections without a `**Summary:**` line
+ *   - no FAQ section
+ *   - oversized code blocks
+ */
+
+import matter from 'gray-matter';
+import * as path from 'path';
+import { DocumentFrontmatterSchema } from './types';
+import { findHeadings } from './markdown-chunking';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintRule =
+  | 'frontmatter'
+  | 'section-length'
+  | 'section-summary'
+  | 'faq'
+  | 'code-block-size'
+  | 'broken-link';
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  /** 1-based line, when the finding points at one */
+  line: number | null;
+}
+
+export interface LintResult {
+  errors: number;
+  warnings: number;
+  findings: LintFinding[];
+}
+
+export interface LintOptions {
+  /** Paths of the project's documents; enables the broken-link check */
+  knownPaths?: Iterable<string>;
+}
+
+export const DOC_LINT_CONFIG = {
+  sectionMinWords: 30,   // Below this a section embeds as noise
+  sectionMaxWords: 250,  // Above this the chunker splits the section
+  maxCodeBlockLines: 15, // Genesis asks for 3-5 line snippets
+};
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const LINK_PATTERN = /(?<!!)\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+const FAQ_PATTERN = /\bFAQ\b|common questions/i;
+const SUMMARY_PATTERN = /\*\*Summary:\*\*/;
+const EXTERNAL_LINK = /^([a-z][a-z0-9+.-]*:|\/\/)/i;
+
+/**
+ * GitHub-style heading anchor: lowercase, punctuation dropped, spaces to dashes.
+ */
+export function headingSlug(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[`*_~]/g, '')
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s/g, '-');
+}
+
+function countWords(lines: string[]): number {
+  return lines.join(' ').split(/\s+/).filter(Boolean).length;
+}
+
+export interface FencedBlock {
+  start: number; // 0-based opening fence line
+  end: number;   // 0-based closing fence line (last line when unclosed)
+}
+
+/**
+ * Fenced code blocks of a document (``` or ~~~), in order.
+ */
+export function fencedBlocks(lines: string[]): FencedBlock[] {
+  const blocks: FencedBlock[] = [];
+  let open: { start: number; marker: string } | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const fence = lines[index].match(FENCE_PATTERN);
+    if (!fence) continue;
+
+    if (!open) {
+      open = { start: index, marker: fence[1] };
+    } else if (
+      fence[1][0] === open.marker[0] &&
+      fence[1].length >= open.marker.length &&
+      !lines[index].trim().slice(fence[1].length)
+    ) {
+      blocks.push({ start: open.start, end: index });
+      open = null;
+    }
+  }
+
+  if (open) blocks.push({ start: open.start, end: lines.length - 1 });
+  return blocks;
+}
+
+function lintFrontmatter(content: string, findings: LintFinding[]): void {
+  if (!content.startsWith('---')) {
+    findings.push({ rule: 'frontmatter', severity: 'error', message: 'Missing YAML frontmatter', line: 1 });
+    return;
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = matter(content).data;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message.split('\n')[0] : 'invalid YAML';
+    findings.push({ rule: 'frontmatter', severity: 'error', message: `Frontmatter is not valid YAML: ${reason}`, line: 1 });
+    return;
+  }
+
+  // YAML turns unquoted dates into Date objects; the schema expects strings
+  const normalized = Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, value instanceof Date ? value.toISOString().slice(0, 10) : value])
+  );
+
+  const parsed = DocumentFrontmatterSchema.safeParse(normalized);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const field = issue.path.join('.') || 'frontmatter';
+      const message = issue.code === 'invalid_type' && issue.received === 'undefined'
+        ? `Frontmatter is missing required field \`${field}\``
+        : `Frontmatter field \`${field}\`: ${issue.message}`;
+      findings.push({ rule: 'frontmatter', severity: 'error', message, line: 1 });
+    }
+    return;
+  }
+
+  for (const field of ['last_updated_date', 'review_by'] as const) {
+    const value = parsed.data[field];
+    if (value !== undefined && Number.isNaN(Date.parse(value))) {
+      findings.push({
+        rule: 'frontmatter',
+        severity: 'error',
+        message: `Frontmatter field \`${field}\` is not a date: "${value}"`,
+        line: 1,
+      });
+    }
+  }
+}
+
+function lintSections(lines: string[], fenced: Set<number>, findings: LintFinding[], docType: unknown): void {
+  const headings = findHeadings(lines);
+  const sections = headings.filter((h) => h.level === 2);
+
+  for (const section of sections) {
+    if (FAQ_PATTERN.test(section.text)) continue;
+
+    const next = headings.find((h) => h.line > section.line && h.level <= 2);
+    const body = lines.slice(section.line + 1, next ? next.line : lines.length);
+    const prose = body.filter((_, i) => !fenced.has(section.line + 1 + i));
+    const words = countWords(prose);
+
+    if (words < DOC_LINT_CONFIG.sectionMinWords) {
+      findings.push({
+        rule: 'section-length',
+        severity: 'warning',
+        message: `Section "${section.text}" has ${words} words; aim for 100-150 so it embeds as a self-contained chunk`,
+        line: section.line + 1,
+      });
+    } else if (words > DOC_LINT_CONFIG.sectionMaxWords) {
+      findings.push({
+        rule: 'section-length',
+        severity: 'warning',
+        message: `Section "${section.text}" has ${words} words and will be split across chunks; aim for 100-150`,
+        line: section.line + 1,
+      });
+    }
+
+    if (!prose.some((line) => SUMMARY_PATTERN.test(line))) {
+      findings.push({
+        rule: 'section-summary',
+        severity: 'warning',
+        message: `Section "${section.text}" has no \`**Summary:**\` line`,
+        line: section.line + 1,
+      });
+    }
+  }
+
+  // Templates and meta documents are not queried like the rest of the KB
+  const needsFaq = docType !== 'template' && docType !== 'meta';
+  if (needsFaq && sections.length > 0 && !sections.some((h) => FAQ_PATTERN.test(h.text))) {
+    findings.push({
+      rule: 'faq',
+      severity: 'warning',
+      message: 'No FAQ section; add "## Common Questions (FAQ)" with 4-6 answered questions',
+      line: null,
+    });
+  }
+}
+
+function lintCodeBlocks(blocks: FencedBlock[], findings: LintFinding[]): void {
+  for (const block of blocks) {
+    // Fence markers are not code
+    const size = block.end - block.start - 1;
+    if (size > DOC_LINT_CONFIG.maxCodeBlockLines) {
+      findings.push({
+        rule: 'code-block-size',
+        severity: 'warning',
+        message: `Code block has ${size} lines; prefer 3-5 line snippets and reference files (\`src/file.ts:45-60\`)`,
+        line: block.start + 1,
+      });
+    }
+  }
+}
+
+function lintLinks(
+  filePath: string,
+  lines: string[],
+  fenced: Set<number>,
+  knownPaths: Set<string>,
+  findings: LintFinding[]
+): void {
+  const anchors = new Set(findHeadings(lines).map((h) => headingSlug(h.text)));
+  const directory = path.posix.dirname(filePath);
+
+  lines.forEach((line, index) => {
+    if (fenced.has(index)) return;
+
+    // Links inside inline code are examples, not links
+    const text = line.replace(/`[^`]*`/g, '');
+    for (const match of text.matchAll(LINK_PATTERN)) {
+      const target = match[1];
+      if (EXTERNAL_LINK.test(target) || target.startsWith('/')) continue;
+
+      const [linkPath, anchor] = target.split('#');
+
+      if (!linkPath) {
+        if (anchor && !anchors.has(anchor.toLowerCase())) {
+          findings.push({ rule: 'broken-link', severity: 'error', message: `Link to missing section "#${anchor}"`, line: index + 1 });
+        }
+        continue;
+      }
+
+      // Only links to other knowledge base documents can be checked
+      if (!linkPath.endsWith('.md')) continue;
+
+      const resolved = path.posix.normalize(path.posix.join(directory, linkPath.replace(/%20/g, ' ')));
+      if (!knownPaths.has(resolved)) {
+        findings.push({ rule: 'broken-link', severity: 'error', message: `Link to missing document "${linkPath}"`, line: index + 1 });
+      }
+    }
+  });
+}
+
+/**
+ * Lint a document. Pass `knownPaths` (the project's document paths, including
+ * this one) to check links to other documents.
+ */
+export function lintDocument(filePath: string, content: string, options: LintOptions = {}): LintResult {
+  const findings: LintFinding[] = [];
+  const lines = content.split('\n');
+  const blocks = fencedBlocks(lines);
+  const fenced = new Set(blocks.flatMap((block) => Array.from({ length: block.end - block.start + 1 }, (_, i) => block.start + i)));
+
+  lintFrontmatter(content, findings);
+
+  let docType: unknown;
+  try {
+    docType = matter(content).data.type;
+  } catch {
+    // Reported by lintFrontmatter
+  }
+
+  lintSections(lines, fenced, findings, docType);
+  lintCodeBlocks(blocks, findings);
+
+  if (options.knownPaths) {
+    lintLinks(filePath, lines, fenced, new Set([...options.knownPaths, filePath]), findings);
+  }
+
+  // Errors first, then by line; document-wide findings last
+  const lineOf = (f: LintFinding) => f.line ?? Number.MAX_SAFE_INTEGER;
+  findings.sort((a, b) => (a.severity === b.severity ? lineOf(a) - lineOf(b) : a.severity === 'error' ? -1 : 1));
+
+  return {
+    errors: findings.filter((f) => f.severity === 'error').length,
+    warnings: findings.filter((f) => f.severity === 'warning').length,
+    findings,
+  };
+}
+
+/**
+ * Markdown list of findings for tool output.
+ */
+export function formatLintFindings(result: LintResult): string {
+  if (result.findings.length === 0) {
+    return 'No lint findings.';
+  }
+
+  return result.findings
+    .map((f) => `- ${f.severity === 'error' ? '❌' : '⚠️'} **${f.rule}**${f.line ? ` (line ${f.line})` : ''}: ${f.message}`)
+    .join('\n');
+}
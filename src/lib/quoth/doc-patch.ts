@@ -0,0 +1,228 @@
+/**
+ * Document Patches
+ * Applies quoth_propose_patch operations to a markdown document.
+ *
+ * Operations are applied in order, each against the result of the previous
+ * one. Any operation that does not fit the document (unknown or ambiguous
+ * heading, diff context that does not match) fails the whole patch, so a
+ * stored patch always describes exactly how proposed_content was produced.
+ */
+
+import { findHeadings, type MarkdownHeading } from './markdown-chunking';
+import type { PatchOperation } from './types';
+
+interface ParsedHunk {
+  oldStart: number;
+  before: string[];
+  after: string[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+function normalizeHeading(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/** Lines of `content` to insert, without surrounding blank lines */
+function contentLines(content: string): string[] {
+  return content.replace(/^\s*\n/, '').trimEnd().split('\n');
+}
+
+/**
+ * Find the heading `query` refers to: "Guards", "## Guards" or "Auth > Guards".
+ */
+function resolveHeading(lines: string[], query: string): { heading: MarkdownHeading; headings: MarkdownHeading[] } {
+  const headings = findHeadings(lines);
+
+  const levelMatch = query.trim().match(/^(#{1,6})\s+/);
+  const level = levelMatch ? levelMatch[1].length : null;
+  const path = query
+    .trim()
+    .slice(levelMatch ? levelMatch[0].length : 0)
+    .split('>')
+    .map(normalizeHeading)
+    .filter(Boolean);
+
+  const matches = headings.filter((heading, index) => {
+    if (normalizeHeading(heading.text) !== path[path.length - 1]) return false;
+    if (level !== null && heading.level !== level) return false;
+
+    // Remaining path entries must be ancestors, nearest last
+    let ancestorLevel = heading.level;
+    let p = path.length - 2;
+    for (let i = index - 1; i >= 0 && p >= 0; i--) {
+      if (headings[i].level >= ancestorLevel) continue;
+      ancestorLevel = headings[i].level;
+      if (normalizeHeading(headings[i].text) === path[p]) p--;
+    }
+    return p < 0;
+  });
+
+  if (matches.length === 0) {
+    const available = headings.slice(0, 20).map((h) => `${'#'.repeat(h.level)} ${h.text}`).join(', ');
+    throw new Error(`heading "${query}" not found${available ? `. Headings: ${available}` : ' (document has no headings)'}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`heading "${query}" is ambiguous (${matches.length} matches); add its parent, e.g. "Parent > ${matches[0].text}"`);
+  }
+
+  return { heading: matches[0], headings };
+}
+
+/** End (exclusive) of the document body, leaving the final newline in place */
+function bodyEnd(lines: string[]): number {
+  return lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+}
+
+function replaceSection(lines: string[], query: string, content: string): string[] {
+  const { heading, headings } = resolveHeading(lines, query);
+  const next = headings.find((h) => h.line > heading.line && h.level <= heading.level);
+  const end = next ? next.line : bodyEnd(lines);
+
+  const body = ['', ...contentLines(content), ...(next ? [''] : [])];
+  return [...lines.slice(0, heading.line + 1), ...body, ...lines.slice(end)];
+}
+
+function appendToSection(lines: string[], query: string, content: string): string[] {
+  const { heading, headings } = resolveHeading(lines, query);
+  const next = headings.find((h) => h.line > heading.line);
+  let position = next ? next.line : bodyEnd(lines);
+
+  // Append after the last non-blank line of the section's own body
+  while (position > heading.line + 1 && lines[position - 1].trim() === '') position--;
+
+  const inserted = ['', ...contentLines(content)];
+  if (next && position === next.line) inserted.push('');
+  return [...lines.slice(0, position), ...inserted, ...lines.slice(position)];
+}
+
+function insertAfterHeading(lines: string[], query: string, content: string): string[] {
+  const { heading } = resolveHeading(lines, query);
+  const position = heading.line + 1;
+
+  const inserted = ['', ...contentLines(content)];
+  if (position < bodyEnd(lines) && lines[position].trim() !== '') inserted.push('');
+  return [...lines.slice(0, position), ...inserted, ...lines.slice(position)];
+}
+
+function parseUnifiedDiff(diff: string): ParsedHunk[] {
+  const hunks: ParsedHunk[] = [];
+  const diffLines = diff.replace(/\n+$/, '').split('\n');
+  let current: ParsedHunk | null = null;
+
+  for (const line of diffLines) {
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      current = { oldStart: Number(header[1]), before: [], after: [] };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) continue; // diff/---/+++ file headers
+
+    if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+    const marker = line[0];
+    const text = line.slice(1);
+    if (marker === '-') {
+      current.before.push(text);
+    } else if (marker === '+') {
+      current.after.push(text);
+    } else if (marker === ' ' || line === '') {
+      // Editors often strip the leading space of blank context lines
+      current.before.push(text);
+      current.after.push(text);
+    } else {
+      throw new Error(`unexpected diff line: "${line.slice(0, 80)}"`);
+    }
+  }
+
+  if (hunks.length === 0) {
+    throw new Error('no @@ hunks found in diff');
+  }
+  return hunks;
+}
+
+function matchesAt(lines: string[], expected: string[], position: number): boolean {
+  return expected.every((line, i) => lines[position + i] === line);
+}
+
+function applyUnifiedDiff(lines: string[], diff: string): string[] {
+  const result = [...lines];
+  let offset = 0;
+  let floor = 0;
+
+  for (const [index, hunk] of parseUnifiedDiff(diff).entries()) {
+    // Index in the original document; pure insertions ("-n,0") go after line n
+    const originalIndex = hunk.before.length === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const expected = Math.max(0, originalIndex + offset);
+    const last = result.length - hunk.before.length;
+
+    // Try the stated line first, then search outwards for the context
+    let position = -1;
+    for (let distance = 0; position < 0 && distance <= result.length; distance++) {
+      for (const candidate of [expected - distance, expected + distance]) {
+        if (candidate >= floor && candidate <= last && matchesAt(result, hunk.before, candidate)) {
+          position = candidate;
+          break;
+        }
+      }
+    }
+
+    if (position < 0) {
+      throw new Error(`hunk ${index + 1} (@@ -${hunk.oldStart}) does not match the current document`);
+    }
+
+    result.splice(position, hunk.before.length, ...hunk.after);
+    offset = position - originalIndex + hunk.after.length - hunk.before.length;
+    floor = position + hunk.after.length;
+  }
+
+  return result;
+}
+
+/**
+ * Apply `operations` to `content` and return the patched document.
+ * Throws an Error naming the failing operation when one does not apply.
+ */
+export function applyDocumentPatch(content: string, operations: PatchOperation[]): string {
+  let lines = content.split('\n');
+
+  operations.forEach((operation, index) => {
+    try {
+      switch (operation.op) {
+        case 'replace_section':
+          lines = replaceSection(lines, operation.heading, operation.content);
+          break;
+        case 'append_to_section':
+          lines = appendToSection(lines, operation.heading, operation.content);
+          break;
+        case 'insert_after_heading':
+          lines = insertAfterHeading(lines, operation.heading, operation.content);
+          break;
+        case 'unified_diff':
+          lines = applyUnifiedDiff(lines, operation.diff);
+          break;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Operation ${index + 1} (${operation.op}): ${message}`);
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * One-line description of an operation for proposal listings.
+ */
+export function describePatchOperation(operation: PatchOperation): string {
+  switch (operation.op) {
+    case 'replace_section':
+      return `Replace section "${operation.heading}"`;
+    case 'append_to_section':
+      return `Append to section "${operation.heading}"`;
+    case 'insert_after_heading':
+      return `Insert after heading "${operation.heading}"`;
+    case 'unified_diff':
+      return `Apply diff (${parseUnifiedDiff(operation.diff).length} hunk(s))`;
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Drift Proposals
+ * Drafts a documentation proposal that fixes an unresolved drift event.
+ *
+ * A drift event's expected_pattern is what the document says and its
+ * actual_code is what the code says now (a snippet, or a moved line
+ * reference). The draft replaces the expected text in the document with the
+ * actual code, is stored as a pending document_proposals row and is linked
+ * from the event (drift_events.proposal_id). Applying the proposal resolves
+ * every drift event linked to it.
+ */
+
+import { supabase } from '../supabase';
+import { calculateChecksum } from '../sync';
+import { findHeadings } from './markdown-chunking';
+import { diffLines, formatUnifiedDiff } from './diff';
+import { lintDocument, type LintResult } from './doc-lint';
+import type { DriftSeverity, DriftType } from './drift';
+
+export interface DriftFix {
+  content: string;
+  /** Heading of the first changed section, null before the first heading */
+  section: string | null;
+  replacements: number;
+}
+
+export interface DriftProposal {
+  proposalId: string;
+  driftId: string;
+  filePath: string;
+  section: string | null;
+  replacements: number;
+  diff: string;
+  lint: LintResult;
+}
+
+export interface DriftProposalOptions {
+  userId: string;
+  agentId?: string;
+}
+
+interface DriftEventRow {
+  id: string;
+  document_id: string | null;
+  doc_path: string | null;
+  file_path: string;
+  drift_type: DriftType;
+  severity: DriftSeverity;
+  description: string;
+  expected_pattern: string | null;
+  actual_code: string | null;
+  resolved: boolean;
+  proposal_id: string | null;
+}
+
+/** Proposal statuses that still may be applied */
+const OPEN_PROPOSAL_STATUSES = ['pending', 'conflict', 'changes_requested'];
+
+function leadingWhitespace(line: string): string {
+  return line.match(/^\s*/)![0];
+}
+
+/**
+ * Offsets of `text` in `content`, skipping matches inside a longer word or
+ * number (so `auth.ts:1-2` does not match inside `auth.ts:1-20`)
+ */
+function findOccurrences(content: string, text: string): number[] {
+  const offsets: number[] = [];
+  const isWord = (char: string | undefined) => char !== undefined && /\w/.test(char);
+
+  for (let at = content.indexOf(text); at !== -1; at = content.indexOf(text, at + text.length)) {
+    if (isWord(text[0]) && isWord(content[at - 1])) continue;
+    if (isWord(text[text.length - 1]) && isWord(content[at + text.length])) continue;
+    offsets.push(at);
+  }
+  return offsets;
+}
+
+/**
+ * Rewrite `content` so the text the drift event expected reads as the actual
+ * code. Exact occurrences are replaced; otherwise a run of lines that matches
+ * ignoring indentation is replaced and re-indented to the document's level.
+ */
+export function draftDriftFix(content: string, expected: string, actual: string): DriftFix {
+  const sectionAt = (offset: number): string | null => {
+    const line = content.slice(0, offset).split('\n').length - 1;
+    const headings = findHeadings(content.split('\n')).filter((heading) => heading.line <= line);
+    return headings.length > 0 ? headings[headings.length - 1].text : null;
+  };
+
+  const occurrences = findOccurrences(content, expected);
+  if (occurrences.length > 0) {
+    let fixed = content;
+    for (const offset of [...occurrences].reverse()) {
+      fixed = fixed.slice(0, offset) + actual + fixed.slice(offset + expected.length);
+    }
+    return { content: fixed, section: sectionAt(occurrences[0]), replacements: occurrences.length };
+  }
+
+  const lines = content.split('\n');
+  const wanted = expected.trim().split('\n').map((line) => line.trim());
+  const actualLines = actual.replace(/^\s*\n/, '').trimEnd().split('\n');
+  const baseIndent = Math.min(
+    ...actualLines.filter((line) => line.trim()).map((line) => leadingWhitespace(line).length)
+  );
+
+  for (let start = 0; start + wanted.length <= lines.length; start++) {
+    if (!wanted.every((line, i) => lines[start + i].trim() === line)) continue;
+
+    const indent = leadingWhitespace(lines[start]);
+    const replacement = actualLines.map((line) => (line.trim() ? indent + line.slice(baseIndent) : ''));
+    const fixed = [...lines.slice(0, start), ...replacement, ...lines.slice(start + wanted.length)];
+    const offset = lines.slice(0, start).join('\n').length;
+    return { content: fixed.join('\n'), section: sectionAt(offset), replacements: 1 };
+  }
+
+  throw new Error('The expected pattern no longer appears in the document; edit it manually');
+}
+
+/**
+ * Draft a pending proposal that fixes a drift event and link it to the event
+ *
+ * @param projectId - Project the event belongs to
+ * @param driftId - Unresolved drift event with expected_pattern and actual_code
+ * @param options - Proposing user and optional agent
+ */
+export async function createDriftProposal(
+  projectId: string,
+  driftId: string,
+  options: DriftProposalOptions
+): Promise<DriftProposal> {
+  const { data: event, error: eventError } = await supabase
+    .from('drift_events')
+    .select('id, document_id, doc_path, file_path, drift_type, severity, description, expected_pattern, actual_code, resolved, proposal_id')
+    .eq('id', driftId)
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (eventError) throw new Error(`Failed to load drift event: ${eventError.message}`);
+  if (!event) throw new Error(`Drift event ${driftId} not found in this project`);
+
+  const drift = event as DriftEventRow;
+  if (drift.resolved) throw new Error('Drift event is already resolved');
+  if (!drift.expected_pattern || !drift.actual_code) {
+    throw new Error('Drift event has no expected pattern and actual code to draft a fix from');
+  }
+
+  if (drift.proposal_id) {
+    const { data: linked } = await supabase
+      .from('document_proposals')
+      .select('status')
+      .eq('id', drift.proposal_id)
+      .maybeSingle();
+    if (linked && OPEN_PROPOSAL_STATUSES.includes(linked.status)) {
+      throw new Error(`Drift event already has an open proposal: ${drift.proposal_id}`);
+    }
+  }
+
+  // The affected document: by id, else by the recorded doc path
+  const documentQuery = supabase
+    .from('documents')
+    .select('id, file_path, content')
+    .eq('project_id', projectId);
+  const { data: document } = drift.document_id
+    ? await documentQuery.eq('id', drift.document_id).maybeSingle()
+    : drift.doc_path
+      ? await documentQuery.eq('file_path', drift.doc_path).maybeSingle()
+      : { data: null };
+
+  if (!document) throw new Error('Drift event is not linked to a document in this project');
+
+  const fix = draftDriftFix(document.content, drift.expected_pattern, drift.actual_code);
+  if (fix.content === document.content) throw new Error('The drafted fix does not change the document');
+
+  const { data: paths } = await supabase
+    .from('documents')
+    .select('file_path')
+    .eq('project_id', projectId);
+  const lint = lintDocument(document.file_path, fix.content, {
+    knownPaths: (paths || []).map((row: { file_path: string }) => row.file_path),
+  });
+
+  const where = fix.section ? `the "${fix.section}" section` : 'the document';
+  const reasoning = `Fixes drift (${drift.drift_type}, ${drift.severity}): ${drift.description}\n\n` +
+    `Updates ${where} to match ${drift.file_path}.`;
+  const evidence = `Drift event ${drift.id} · ${drift.file_path}\n\n${drift.actual_code}`.slice(0, 10000);
+
+  const { data: proposal, error: proposalError } = await supabase
+    .from('document_proposals')
+    .insert({
+      document_id: document.id,
+      project_id: projectId,
+      file_path: document.file_path,
+      original_content: document.content,
+      base_checksum: calculateChecksum(document.content),
+      proposed_content: fix.content,
+      reasoning,
+      evidence_snippet: evidence,
+      lint_findings: lint,
+      proposed_by: options.userId,
+      status: 'pending',
+      ...(options.agentId && { agent_id: options.agentId }),
+    })
+    .select('id')
+    .single();
+
+  if (proposalError || !proposal) {
+    throw new Error(`Failed to create proposal: ${proposalError?.message ?? 'no row returned'}`);
+  }
+
+  const { error: linkError } = await supabase
+    .from('drift_events')
+    .update({ proposal_id: proposal.id })
+    .eq('id', drift.id);
+  if (linkError) throw new Error(`Failed to link proposal to drift event: ${linkError.message}`);
+
+  return {
+    proposalId: proposal.id,
+    driftId: drift.id,
+    filePath: document.file_path,
+    section: fix.section,
+    replacements: fix.replacements,
+    diff: formatUnifiedDiff(diffLines(document.content, fix.content)),
+    lint,
+  };
+}
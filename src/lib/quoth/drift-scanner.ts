@@ -0,0 +1,517 @@
+/**
+ * Drift Scanner
+ * Checks the code references in a project's documents against a source tree.
+ *
+ * Documents point at code with references like `src/lib/auth.ts:45-60` and
+ * usually quote it in a fenced block next to the reference. A scan reads the
+ * source tree at one commit (local working tree or uploaded git bundle) and
+ * records a drift event for every reference that no longer holds:
+ *
+ * - stale_doc: the file is gone, the line range is past its end, or the
+ *   quoted snippet now lives at other lines
+ * - code_diverged: the quoted snippet is no longer in the file
+ * - missing_doc: a source file next to documented files that no document
+ *   references
+ *
+ * Findings that match an unresolved drift event are not recorded twice.
+ */
+
+import * as path from 'path';
+import { supabase } from '../supabase';
+import { detectDrift, type DriftSeverity, type DriftType } from './drift';
+import { fencedBlocks } from './doc-lint';
+import { runGit as git } from './git';
+import { logActivity } from './activity';
+import { withGitDir, type RepoSource } from './repo-sync';
+
+// ============ Types ============
+
+/** A reference from a document to source code */
+export interface CodeReference {
+  /** Repo-relative path */
+  path: string;
+  /** 1-based line range, when the reference has one */
+  startLine: number | null;
+  endLine: number | null;
+  /** 1-based document line the reference is on */
+  docLine: number;
+  /** Fenced snippet quoted for the reference */
+  snippet: string | null;
+}
+
+export type ReferenceCheck =
+  | { status: 'ok' }
+  | { status: 'missing_file' }
+  | { status: 'out_of_range'; lineCount: number }
+  | { status: 'moved'; startLine: number; endLine: number }
+  | { status: 'diverged'; startLine: number | null; endLine: number | null; actualCode: string | null };
+
+export interface DriftFinding {
+  driftType: DriftType;
+  severity: DriftSeverity;
+  documentId?: string;
+  docPath?: string;
+  filePath: string;
+  description: string;
+  expectedPattern?: string;
+  actualCode?: string;
+}
+
+export interface DriftScanOptions {
+  /** Commit-ish to read (default: HEAD) */
+  ref?: string;
+  /** Report findings without recording drift events */
+  dryRun?: boolean;
+  userId?: string;
+}
+
+export interface DriftScanResult {
+  commit: string;
+  dryRun: boolean;
+  documentsScanned: number;
+  referencesChecked: number;
+  findings: DriftFinding[];
+  /** Findings recorded as new drift events */
+  recorded: number;
+  /** Findings that match an unresolved drift event */
+  alreadyOpen: number;
+  durationMs: number;
+}
+
+interface ScannedDocument {
+  id: string;
+  file_path: string;
+  content: string;
+}
+
+// ============ Configuration ============
+
+export const DRIFT_SCAN_CONFIG = {
+  /** Files that count as source code */
+  extensions: [
+    'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'py', 'rb', 'go', 'rs', 'java', 'kt',
+    'swift', 'cs', 'php', 'c', 'h', 'cpp', 'hpp', 'sql', 'sh', 'vue', 'svelte',
+  ],
+  /** Undocumented files reported per scan */
+  maxMissingDocs: 50,
+  /** Lines of actual code stored with a code_diverged event */
+  maxActualLines: 60,
+};
+
+// Longest extensions first so `tsx` is not cut short at `ts`
+const EXTENSION_PATTERN = [...DRIFT_SCAN_CONFIG.extensions]
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+// path/to/file.ext with an optional :start or :start-end
+const REFERENCE_PATTERN = new RegExp(
+  `(?<![\\w/.:@-])((?:\\.{1,2}/)?(?:[\\w@.+-]+/)*[\\w@+-][\\w@.+-]*\\.(?:${EXTENSION_PATTERN}))(?::(\\d+)(?:-(\\d+))?)?(?![\\w/])`,
+  'g'
+);
+
+const COMMENT_LINE = /^\s*(?:\/\/|#|--|\/\*|<!--|;)/;
+// `...`, `// ...` and similar elision markers in quoted snippets
+const ELISION_LINE = /^(?:\/\/|#|--|\/\*|\*)?\s*(?:\.\.\.|…)\s*(?:\*\/)?$/;
+const TEST_FILE = /(?:^|\/)__tests__\/|\.(?:test|spec)\.[^/]+$/;
+
+// ============ Extraction ============
+
+/**
+ * References on one line. Bare file names (no directory, no lines) are too
+ * ambiguous to check and are skipped.
+ */
+function referencesOnLine(line: string, docLine: number): CodeReference[] {
+  const references: CodeReference[] = [];
+
+  for (const match of line.matchAll(REFERENCE_PATTERN)) {
+    const [, rawPath, start, end] = match;
+    if (rawPath.startsWith('../')) continue;
+
+    const filePath = path.posix.normalize(rawPath).replace(/^\.\//, '');
+    if (!filePath.includes('/') && !start) continue;
+
+    const startLine = start ? parseInt(start, 10) : null;
+    const endLine = end ? parseInt(end, 10) : startLine;
+    if (startLine !== null && (startLine < 1 || endLine! < startLine)) continue;
+
+    references.push({ path: filePath, startLine, endLine, docLine, snippet: null });
+  }
+
+  return references;
+}
+
+/**
+ * Code references of a document, with the fenced snippet quoted for each.
+ *
+ * A fenced block belongs to the reference in its info string
+ * (```ts src/auth.ts:10-20), in a comment on its first line, or on the last
+ * non-blank line before it.
+ */
+export function extractCodeReferences(content: string): CodeReference[] {
+  const lines = content.split('\n');
+  const blocks = fencedBlocks(lines);
+
+  const insideFence = new Set<number>();
+  for (const block of blocks) {
+    for (let i = block.start + 1; i <= block.end; i++) insideFence.add(i);
+  }
+
+  const references: CodeReference[] = [];
+  const byLine = new Map<number, CodeReference[]>();
+  lines.forEach((line, index) => {
+    if (insideFence.has(index)) return;
+    const found = referencesOnLine(line, index + 1);
+    if (found.length === 0) return;
+    references.push(...found);
+    byLine.set(index, found);
+  });
+
+  for (const block of blocks) {
+    const closed = block.end > block.start && /^\s*(`{3,}|~{3,})\s*$/.test(lines[block.end]);
+    let body = lines.slice(block.start + 1, closed ? block.end : block.end + 1);
+
+    let owner = byLine.get(block.start)?.[0];
+
+    if (!owner && body.length > 0 && COMMENT_LINE.test(body[0])) {
+      const [inComment] = referencesOnLine(body[0], block.start + 2);
+      if (inComment) {
+        owner = inComment;
+        references.push(inComment);
+        body = body.slice(1);
+      }
+    }
+
+    if (!owner) {
+      let previous = block.start - 1;
+      while (previous >= 0 && !lines[previous].trim()) previous--;
+      const candidates = previous >= 0 ? byLine.get(previous) : undefined;
+      if (candidates?.length === 1) owner = candidates[0];
+    }
+
+    if (owner && owner.snippet === null && body.some((line) => line.trim())) {
+      owner.snippet = body.join('\n');
+    }
+  }
+
+  return references.sort((a, b) => a.docLine - b.docLine);
+}
+
+// ============ Comparison ============
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Lines of a snippet that must appear in the code, in order
+ */
+function significantLines(snippet: string): string[] {
+  return snippet
+    .split('\n')
+    .map(normalizeLine)
+    .filter((line) => line && !ELISION_LINE.test(line));
+}
+
+/**
+ * Find `wanted` as an in-order subsequence of `lines[from..to)`, starting on
+ * a line equal to its first entry. Returns the 0-based first and last lines.
+ */
+function findSnippet(
+  lines: string[],
+  wanted: string[],
+  from: number,
+  to: number
+): { start: number; end: number } | null {
+  for (let start = from; start < to; start++) {
+    if (lines[start] !== wanted[0]) continue;
+
+    let next = 1;
+    let end = start;
+    // Elided code may sit between quoted lines, but not the rest of the file
+    const limit = Math.min(to, start + wanted.length * 4 + 20);
+    for (let i = start + 1; i < limit && next < wanted.length; i++) {
+      if (lines[i] === wanted[next]) {
+        next++;
+        end = i;
+      }
+    }
+    if (next === wanted.length) return { start, end };
+  }
+  return null;
+}
+
+/**
+ * The lines of `lines` that look most like the snippet, for reporting
+ */
+function closestWindow(lines: string[], wanted: string[], size: number): { start: number; end: number } | null {
+  const wantedSet = new Set(wanted);
+  let best: { start: number; end: number } | null = null;
+  let bestScore = 0;
+
+  for (let start = 0; start < lines.length; start++) {
+    let score = 0;
+    for (let i = start; i < Math.min(lines.length, start + size); i++) {
+      if (wantedSet.has(lines[i])) score++;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      best = { start, end: Math.min(lines.length, start + size) - 1 };
+    }
+  }
+  return best;
+}
+
+/**
+ * Check one reference against the referenced file's content (null when the
+ * file does not exist at the scanned commit)
+ */
+export function checkReference(reference: CodeReference, fileContent: string | null): ReferenceCheck {
+  if (fileContent === null) return { status: 'missing_file' };
+
+  const raw = fileContent.replace(/\n$/, '').split('\n');
+  const lines = raw.map(normalizeLine);
+  const inRange = reference.startLine === null || reference.endLine! <= lines.length;
+  const wanted = reference.snippet ? significantLines(reference.snippet) : [];
+
+  if (wanted.length === 0) {
+    return inRange ? { status: 'ok' } : { status: 'out_of_range', lineCount: lines.length };
+  }
+
+  if (reference.startLine !== null && inRange) {
+    if (findSnippet(lines, wanted, reference.startLine - 1, reference.endLine!)) {
+      return { status: 'ok' };
+    }
+  }
+
+  const found = findSnippet(lines, wanted, 0, lines.length);
+  if (found) {
+    return reference.startLine === null
+      ? { status: 'ok' }
+      : { status: 'moved', startLine: found.start + 1, endLine: found.end + 1 };
+  }
+
+  // The snippet is gone: report what the referenced lines (or the closest match) say now
+  const region = reference.startLine !== null && inRange
+    ? { start: reference.startLine - 1, end: reference.endLine! - 1 }
+    : closestWindow(lines, wanted, wanted.length);
+
+  if (!region) {
+    return { status: 'diverged', startLine: null, endLine: null, actualCode: null };
+  }
+
+  const end = Math.min(region.end, region.start + DRIFT_SCAN_CONFIG.maxActualLines - 1);
+  return {
+    status: 'diverged',
+    startLine: region.start + 1,
+    endLine: end + 1,
+    actualCode: raw.slice(region.start, end + 1).join('\n'),
+  };
+}
+
+function formatReference(reference: { path: string; startLine: number | null; endLine: number | null }): string {
+  if (reference.startLine === null) return reference.path;
+  return reference.endLine === reference.startLine
+    ? `${reference.path}:${reference.startLine}`
+    : `${reference.path}:${reference.startLine}-${reference.endLine}`;
+}
+
+/**
+ * Drift finding for a failed check (null when the reference holds)
+ */
+export function toFinding(
+  doc: { id?: string; file_path: string },
+  reference: CodeReference,
+  check: ReferenceCheck
+): DriftFinding | null {
+  const base = { documentId: doc.id, docPath: doc.file_path, filePath: reference.path };
+  const location = formatReference(reference);
+
+  switch (check.status) {
+    case 'ok':
+      return null;
+    case 'missing_file':
+      return {
+        ...base,
+        driftType: 'stale_doc',
+        severity: 'critical',
+        description: `References ${location}, which no longer exists`,
+        expectedPattern: reference.snippet ?? location,
+      };
+    case 'out_of_range':
+      return {
+        ...base,
+        driftType: 'stale_doc',
+        severity: 'warning',
+        description: `References ${location}, but the file has ${check.lineCount} lines`,
+        expectedPattern: location,
+      };
+    case 'moved': {
+      const now = formatReference({ path: reference.path, startLine: check.startLine, endLine: check.endLine });
+      return {
+        ...base,
+        driftType: 'stale_doc',
+        severity: 'info',
+        description: `Quoted code from ${location} is now at ${now}`,
+        expectedPattern: location,
+        actualCode: now,
+      };
+    }
+    case 'diverged':
+      return {
+        ...base,
+        driftType: 'code_diverged',
+        severity: 'warning',
+        description: check.actualCode === null
+          ? `Quoted code from ${location} is no longer in the file`
+          : `Quoted code from ${location} differs from ${formatReference({ path: reference.path, startLine: check.startLine, endLine: check.endLine })}`,
+        expectedPattern: reference.snippet ?? undefined,
+        actualCode: check.actualCode ?? undefined,
+      };
+  }
+}
+
+/**
+ * Source files in directories the documents cover that no document references
+ */
+export function findUndocumentedFiles(sourceFiles: string[], referencedPaths: Set<string>): string[] {
+  const documentedDirs = new Set([...referencedPaths].map((file) => path.posix.dirname(file)));
+
+  return sourceFiles
+    .filter((file) =>
+      documentedDirs.has(path.posix.dirname(file)) &&
+      !referencedPaths.has(file) &&
+      !TEST_FILE.test(file)
+    )
+    .sort()
+    .slice(0, DRIFT_SCAN_CONFIG.maxMissingDocs);
+}
+
+function isSourceFile(file: string): boolean {
+  const ext = path.posix.extname(file).slice(1).toLowerCase();
+  return DRIFT_SCAN_CONFIG.extensions.includes(ext);
+}
+
+// ============ Scan ============
+
+/**
+ * Scan a project's documents for code references that drifted from the source
+ *
+ * @param projectId - Project whose documents are scanned
+ * @param source - Local working tree or git bundle of the code
+ * @param options - Ref, dry run
+ */
+export async function scanDrift(
+  projectId: string,
+  source: RepoSource,
+  options: DriftScanOptions = {}
+): Promise<DriftScanResult> {
+  const startedAt = Date.now();
+
+  const { data: documents, error: documentsError } = await supabase
+    .from('documents')
+    .select('id, file_path, content')
+    .eq('project_id', projectId);
+  if (documentsError) throw new Error(`Failed to load documents: ${documentsError.message}`);
+
+  const scanned = ((documents || []) as ScannedDocument[]).map((doc) => ({
+    doc,
+    references: extractCodeReferences(doc.content || ''),
+  }));
+  const referencedPaths = new Set(scanned.flatMap(({ references }) => references.map((ref) => ref.path)));
+
+  // Read the referenced files (and the file list) at the commit
+  const { commit, files, contents } = await withGitDir(source, async (gitDir) => {
+    const commit = (await git(gitDir, ['rev-parse', '--verify', '--end-of-options', `${options.ref || 'HEAD'}^{commit}`])).trim();
+    const listing = await git(gitDir, ['ls-tree', '-r', '-z', '--name-only', commit]);
+    const files = new Set(listing.split('\0').filter(Boolean));
+
+    const contents = new Map<string, string>();
+    for (const file of referencedPaths) {
+      if (files.has(file)) contents.set(file, await git(gitDir, ['show', `${commit}:${file}`]));
+    }
+    return { commit, files, contents };
+  });
+
+  const findings: DriftFinding[] = [];
+  let referencesChecked = 0;
+
+  for (const { doc, references } of scanned) {
+    for (const reference of references) {
+      referencesChecked++;
+      const finding = toFinding(doc, reference, checkReference(reference, contents.get(reference.path) ?? null));
+      if (finding) findings.push(finding);
+    }
+  }
+
+  const existingPaths = new Set([...referencedPaths].filter((file) => files.has(file)));
+  for (const file of findUndocumentedFiles([...files].filter(isSourceFile), existingPaths)) {
+    findings.push({
+      driftType: 'missing_doc',
+      severity: 'warning',
+      filePath: file,
+      description: `${file} is next to documented code in ${path.posix.dirname(file)}/ but no document references it`,
+    });
+  }
+
+  const result: DriftScanResult = {
+    commit,
+    dryRun: Boolean(options.dryRun),
+    documentsScanned: scanned.length,
+    referencesChecked,
+    findings,
+    recorded: 0,
+    alreadyOpen: 0,
+    durationMs: 0,
+  };
+
+  if (options.dryRun) {
+    result.durationMs = Date.now() - startedAt;
+    return result;
+  }
+
+  // Skip findings that are already open
+  const { data: open, error: openError } = await supabase
+    .from('drift_events')
+    .select('drift_type, file_path, doc_path, expected_pattern')
+    .eq('project_id', projectId)
+    .eq('resolved', false);
+  if (openError) throw new Error(`Failed to load open drift events: ${openError.message}`);
+
+  const findingKey = (type: string, filePath: string, docPath?: string | null, expected?: string | null) =>
+    [type, filePath, docPath || '', expected || ''].join('\0');
+  const openKeys = new Set(
+    (open || []).map((row) => findingKey(row.drift_type, row.file_path, row.doc_path, row.expected_pattern))
+  );
+
+  for (const finding of findings) {
+    const key = findingKey(finding.driftType, finding.filePath, finding.docPath, finding.expectedPattern);
+    if (openKeys.has(key)) {
+      result.alreadyOpen++;
+      continue;
+    }
+    openKeys.add(key);
+    await detectDrift({ projectId, ...finding });
+    result.recorded++;
+  }
+
+  result.durationMs = Date.now() - startedAt;
+
+  logActivity({
+    projectId,
+    userId: options.userId,
+    eventType: 'drift_detected',
+    query: `drift-scan:${commit.slice(0, 12)}`,
+    resultCount: result.recorded,
+    responseTimeMs: result.durationMs,
+    toolName: 'drift_scan',
+    context: {
+      commit,
+      documents: result.documentsScanned,
+      references: result.referencesChecked,
+      findings: findings.length,
+      already_open: result.alreadyOpen,
+    },
+  });
+
+  return result;
+}
@@ -4,6 +4,7 @@
  */
 
 import { supabase } from '../supabase';
+import { getDocumentStaleness, type StalenessLevel } from './health';
 
 export type DriftSeverity = 'info' | 'warning' | 'critical';
 export type DriftType = 'code_diverged' | 'missing_doc' | 'stale_doc' | 'pattern_violation';
@@ -21,6 +22,9 @@ export interface DriftEvent {
   actualCode?: string;
   resolved?: boolean;
   detectedAt?: string;
+  /** Proposal drafted to fix the drift, and its status */
+  proposalId?: string;
+  proposalStatus?: string;
 }
 
 export interface DetectDriftParams {
@@ -32,8 +36,18 @@ export interface DetectDriftParams {
   description: string;
   expectedPattern?: string;
   actualCode?: string;
+  /** Overrides the severity derived from the drift type */
+  severity?: DriftSeverity;
 }
 
+// Severity of a stale_doc event from its document's staleness
+const STALENESS_SEVERITY: Record<StalenessLevel, DriftSeverity> = {
+  fresh: 'info',
+  aging: 'info',
+  stale: 'warning',
+  critical: 'critical',
+};
+
 /**
  * Determine severity based on drift type and context
  */
@@ -63,7 +77,15 @@ function calculateSeverity(driftType: DriftType, description: string): DriftSeve
  * Detect and record a drift event
  */
 export async function detectDrift(params: DetectDriftParams): Promise<DriftEvent> {
-  const severity = calculateSeverity(params.driftType, params.description);
+  let severity = params.severity;
+
+  // Stale documents are rated by the project's staleness policy when the document is known
+  if (!severity && params.driftType === 'stale_doc' && params.documentId) {
+    const staleness = await getDocumentStaleness(params.documentId, params.projectId);
+    if (staleness) severity = STALENESS_SEVERITY[staleness.level];
+  }
+
+  severity ??= calculateSeverity(params.driftType, params.description);
 
   const driftEvent: DriftEvent = {
     projectId: params.projectId,
@@ -113,7 +135,7 @@ export async function getDriftTimeline(
 
   let query = supabase
     .from('drift_events')
-    .select('*')
+    .select('*, proposal:document_proposals(status)')
     .eq('project_id', projectId)
     .gte('detected_at', since.toISOString())
     .order('detected_at', { ascending: false });
@@ -142,6 +164,8 @@ export async function getDriftTimeline(
     actualCode: row.actual_code,
     resolved: row.resolved,
     detectedAt: row.detected_at,
+    proposalId: row.proposal_id ?? undefined,
+    proposalStatus: row.proposal?.status ?? undefined,
   }));
 }
 
@@ -198,3 +222,27 @@ export async function resolveDrift(
 
   return true;
 }
+
+/**
+ * Resolve the drift events a proposal was drafted for, once it is applied
+ */
+export async function resolveDriftForProposal(proposalId: string, userId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('drift_events')
+    .update({
+      resolved: true,
+      resolved_at: new Date().toISOString(),
+      resolved_by: userId,
+      resolution_note: `Fixed by proposal ${proposalId}`,
+    })
+    .eq('proposal_id', proposalId)
+    .eq('resolved', false)
+    .select('id');
+
+  if (error) {
+    console.error('[Drift] Failed to resolve drift for proposal:', error.message);
+    return 0;
+  }
+
+  return data?.length ?? 0;
+}
@@ -0,0 +1,493 @@
+/**
+ * Documentation Gap Analysis
+ * Turns missed searches into suggested documents to write.
+ *
+ * An analysis collects the project's recent zero-result and low-relevance
+ * searches, embeds each distinct query with the project's embedding provider
+ * and clusters queries that ask about the same thing. Every cluster with
+ * enough misses becomes a doc_gaps row: a label (the query closest to the
+ * cluster centre), representative queries and the template that fits best.
+ *
+ * Starting a suggestion drafts a new-document proposal from its template,
+ * listing the missed queries the document should answer.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import matter from 'gray-matter';
+import { supabase } from '../supabase';
+import { getEmbeddingProviderForProject, embedBatched } from '../embeddings';
+import { lintDocument } from './doc-lint';
+import { SEARCH_CONFIG } from './search';
+
+// ============ Types ============
+
+export type DocGapStatus = 'open' | 'started' | 'dismissed';
+
+/** A distinct missed query over the analysis window */
+export interface MissedQuery {
+  query: string;
+  missCount: number;
+  /** Misses with no results at all (the rest had only low-relevance results) */
+  zeroResultCount: number;
+  lastMissed: string;
+}
+
+export interface QueryCluster {
+  /** Query closest to the cluster centre */
+  label: string;
+  queries: MissedQuery[];
+  missCount: number;
+}
+
+export interface GapTemplate {
+  /** e.g. "templates/patterns/error-handling.md" */
+  path: string;
+  category: string;
+  keywords: string[];
+}
+
+/** doc_gaps row */
+export interface DocGap {
+  id: string;
+  label: string;
+  representative_queries: string[];
+  query_count: number;
+  miss_count: number;
+  zero_result_count: number;
+  last_missed_at: string | null;
+  suggested_template: string | null;
+  suggested_path: string | null;
+  status: DocGapStatus;
+  proposal_id: string | null;
+  analyzed_at: string;
+}
+
+export interface GapAnalysisResult {
+  queriesAnalyzed: number;
+  clusters: number;
+  /** Open suggestions stored */
+  suggestions: number;
+  /** Clusters matching a started or dismissed suggestion */
+  skipped: number;
+  durationMs: number;
+}
+
+// ============ Configuration ============
+
+export const GAP_ANALYSIS_CONFIG = {
+  /** Searches considered, in days */
+  windowDays: 30,
+  /**
+   * Searches whose average relevance is at or below this count as missed:
+   * results the search tools label LOW trust (relevance is vector similarity
+   * or rerank score, see search.ts)
+   */
+  lowRelevanceScore: SEARCH_CONFIG.mediumTrustRelevance,
+  /** Distinct queries embedded per analysis (most missed first) */
+  maxQueries: 300,
+  /** Cosine similarity to a cluster centre needed to join it */
+  similarityThreshold: 0.75,
+  /** Misses a cluster needs to become a suggestion */
+  minMisses: 2,
+  /** Suggestions stored per analysis */
+  maxSuggestions: 10,
+  /** Representative queries stored per suggestion */
+  representativeQueries: 3,
+};
+
+const TEMPLATES_DIR = path.join(process.cwd(), 'quoth-knowledge-template', 'templates');
+const TEMPLATE_CATEGORIES = ['architecture', 'patterns', 'contracts'];
+/** Used when no template keyword matches */
+const FALLBACK_TEMPLATE = 'templates/how-to.md';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i',
+  'in', 'is', 'it', 'of', 'on', 'or', 'should', 'the', 'to', 'we', 'what', 'when', 'where', 'which',
+  'who', 'why', 'with', 'template',
+]);
+
+// ============ Collection ============
+
+/**
+ * Distinct missed and low-relevance queries of the window, most missed first
+ */
+export async function getMissedQueries(projectId: string): Promise<MissedQuery[]> {
+  const since = new Date();
+  since.setDate(since.getDate() - GAP_ANALYSIS_CONFIG.windowDays);
+
+  const { data: activities, error } = await supabase
+    .from('quoth_activity')
+    .select('query, result_count, created_at')
+    .eq('project_id', projectId)
+    .eq('event_type', 'search')
+    .or(`result_count.eq.0,relevance_score.lte.${GAP_ANALYSIS_CONFIG.lowRelevanceScore}`)
+    .gte('created_at', since.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load missed searches: ${error.message}`);
+  }
+
+  const byQuery = new Map<string, MissedQuery>();
+  for (const activity of activities || []) {
+    const query = activity.query?.toLowerCase().trim();
+    if (!query) continue;
+
+    const missed = byQuery.get(query) ?? { query, missCount: 0, zeroResultCount: 0, lastMissed: activity.created_at };
+    missed.missCount++;
+    if (activity.result_count === 0) missed.zeroResultCount++;
+    if (new Date(activity.created_at) > new Date(missed.lastMissed)) missed.lastMissed = activity.created_at;
+    byQuery.set(query, missed);
+  }
+
+  return [...byQuery.values()].sort((a, b) => b.missCount - a.missCount);
+}
+
+// ============ Clustering ============
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(dot(vector, vector));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+/**
+ * Group queries by embedding similarity. Queries are taken most missed first;
+ * each joins the closest cluster whose centre is similar enough, or starts one.
+ * Clusters come back most missed first.
+ */
+export function clusterQueries(
+  queries: MissedQuery[],
+  embeddings: number[][],
+  threshold: number = GAP_ANALYSIS_CONFIG.similarityThreshold
+): QueryCluster[] {
+  const clusters: Array<{ members: Array<{ query: MissedQuery; vector: number[] }>; sum: number[]; centre: number[] }> = [];
+
+  const order = queries.map((_, i) => i).sort((a, b) => queries[b].missCount - queries[a].missCount);
+  for (const i of order) {
+    const vector = normalize(embeddings[i]);
+
+    let best: (typeof clusters)[number] | null = null;
+    let bestScore = threshold;
+    for (const cluster of clusters) {
+      const score = dot(vector, cluster.centre);
+      if (score >= bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+
+    if (!best) {
+      clusters.push({ members: [{ query: queries[i], vector }], sum: [...vector], centre: vector });
+      continue;
+    }
+
+    best.members.push({ query: queries[i], vector });
+    best.sum = best.sum.map((v, d) => v + vector[d]);
+    best.centre = normalize(best.sum);
+  }
+
+  return clusters
+    .map(({ members, centre }) => {
+      const closest = [...members].sort((a, b) =>
+        dot(b.vector, centre) - dot(a.vector, centre) || b.query.missCount - a.query.missCount
+      )[0];
+      return {
+        label: closest.query.query,
+        queries: members.map((member) => member.query).sort((a, b) => b.missCount - a.missCount),
+        missCount: members.reduce((sum, member) => sum + member.query.missCount, 0),
+      };
+    })
+    .sort((a, b) => b.missCount - a.missCount);
+}
+
+// ============ Templates ============
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Category templates with their keywords (from frontmatter)
+ */
+export function loadGapTemplates(templatesDir: string = TEMPLATES_DIR): GapTemplate[] {
+  const templates: GapTemplate[] = [];
+
+  for (const category of TEMPLATE_CATEGORIES) {
+    const dir = path.join(templatesDir, category);
+    if (!fs.existsSync(dir)) continue;
+
+    for (const file of fs.readdirSync(dir).filter((f) => f.endsWith('.md')).sort()) {
+      const { data } = matter(fs.readFileSync(path.join(dir, file), 'utf-8'));
+      const keywords = [
+        ...(Array.isArray(data.keywords) ? data.keywords : []),
+        ...(Array.isArray(data.common_queries) ? data.common_queries : []),
+        file.replace(/\.md$/, ''),
+      ].flatMap((keyword) => (typeof keyword === 'string' ? tokenize(keyword) : []));
+
+      templates.push({ path: `templates/${category}/${file}`, category, keywords: [...new Set(keywords)] });
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * Template whose keywords share the most words with the cluster's queries
+ */
+export function suggestTemplate(cluster: QueryCluster, templates: GapTemplate[]): GapTemplate | null {
+  const words = cluster.queries.flatMap((query) => tokenize(query.query).map((word) => ({ word, weight: query.missCount })));
+
+  let best: GapTemplate | null = null;
+  let bestScore = 0;
+  for (const template of templates) {
+    const keywords = new Set(template.keywords);
+    const score = words.reduce((sum, { word, weight }) => sum + (keywords.has(word) ? weight : 0), 0);
+    if (score > bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function slugify(text: string): string {
+  return tokenize(text).join('-').slice(0, 60).replace(/-+$/, '') || 'untitled';
+}
+
+/**
+ * Document title for a cluster label, e.g. "how do we retry webhooks?" -> "How do we retry webhooks"
+ */
+export function gapTitle(label: string): string {
+  const text = label.trim().replace(/[?.!\s]+$/, '');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// ============ Analysis ============
+
+/**
+ * Cluster the project's missed searches and replace its open suggestions
+ *
+ * @param projectId - Project to analyze
+ */
+export async function runGapAnalysis(projectId: string): Promise<GapAnalysisResult> {
+  const startedAt = Date.now();
+  const missed = (await getMissedQueries(projectId)).slice(0, GAP_ANALYSIS_CONFIG.maxQueries);
+
+  let clusters: QueryCluster[] = [];
+  if (missed.length > 0) {
+    const provider = await getEmbeddingProviderForProject(projectId);
+    const { embeddings } = await embedBatched(
+      provider,
+      missed.map((query) => ({ text: query.query, contentType: 'text' as const }))
+    );
+
+    const embedded = missed.flatMap((query, i) => (embeddings[i] ? [{ query, vector: embeddings[i]! }] : []));
+    clusters = clusterQueries(embedded.map((e) => e.query), embedded.map((e) => e.vector))
+      .filter((cluster) => cluster.missCount >= GAP_ANALYSIS_CONFIG.minMisses);
+  }
+
+  // Started and dismissed suggestions stay; clusters about the same queries are not suggested again
+  const { data: kept, error: keptError } = await supabase
+    .from('doc_gaps')
+    .select('label, representative_queries')
+    .eq('project_id', projectId)
+    .neq('status', 'open');
+  if (keptError) throw new Error(`Failed to load suggestions: ${keptError.message}`);
+
+  const handled = new Set(
+    (kept || []).flatMap((row: { label: string; representative_queries: string[] | null }) =>
+      [row.label, ...(row.representative_queries || [])])
+  );
+
+  const templates = loadGapTemplates();
+  const suggestions = [];
+  let skipped = 0;
+
+  for (const cluster of clusters) {
+    if (cluster.queries.some((query) => handled.has(query.query))) {
+      skipped++;
+      continue;
+    }
+    if (suggestions.length >= GAP_ANALYSIS_CONFIG.maxSuggestions) break;
+
+    const template = suggestTemplate(cluster, templates);
+    suggestions.push({
+      project_id: projectId,
+      label: cluster.label,
+      representative_queries: cluster.queries
+        .slice(0, GAP_ANALYSIS_CONFIG.representativeQueries)
+        .map((query) => query.query),
+      query_count: cluster.queries.length,
+      miss_count: cluster.missCount,
+      zero_result_count: cluster.queries.reduce((sum, query) => sum + query.zeroResultCount, 0),
+      last_missed_at: cluster.queries.map((query) => query.lastMissed).sort().pop() ?? null,
+      suggested_template: template?.path ?? FALLBACK_TEMPLATE,
+      suggested_path: `${template?.category ?? 'patterns'}/${slugify(cluster.label)}.md`,
+    });
+  }
+
+  const { error: deleteError } = await supabase
+    .from('doc_gaps')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('status', 'open');
+  if (deleteError) throw new Error(`Failed to replace suggestions: ${deleteError.message}`);
+
+  if (suggestions.length > 0) {
+    const { error: insertError } = await supabase.from('doc_gaps').insert(suggestions);
+    if (insertError) throw new Error(`Failed to save suggestions: ${insertError.message}`);
+  }
+
+  return {
+    queriesAnalyzed: missed.length,
+    clusters: clusters.length,
+    suggestions: suggestions.length,
+    skipped,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Suggestions of a project, most missed first
+ */
+export async function getDocGaps(projectId: string, status: DocGapStatus = 'open'): Promise<DocGap[]> {
+  const { data, error } = await supabase
+    .from('doc_gaps')
+    .select('id, label, representative_queries, query_count, miss_count, zero_result_count, last_missed_at, suggested_template, suggested_path, status, proposal_id, analyzed_at')
+    .eq('project_id', projectId)
+    .eq('status', status)
+    .order('miss_count', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load suggestions: ${error.message}`);
+  }
+
+  return (data || []) as DocGap[];
+}
+
+async function getDocGap(projectId: string, gapId: string): Promise<DocGap> {
+  const { data, error } = await supabase
+    .from('doc_gaps')
+    .select('id, label, representative_queries, query_count, miss_count, zero_result_count, last_missed_at, suggested_template, suggested_path, status, proposal_id, analyzed_at')
+    .eq('id', gapId)
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load suggestion: ${error.message}`);
+  if (!data) throw new Error(`Suggestion ${gapId} not found in this project`);
+  return data as DocGap;
+}
+
+/**
+ * Hide a suggestion; later analyses do not suggest its queries again
+ */
+export async function dismissDocGap(projectId: string, gapId: string): Promise<void> {
+  await getDocGap(projectId, gapId);
+
+  const { error } = await supabase
+    .from('doc_gaps')
+    .update({ status: 'dismissed', updated_at: new Date().toISOString() })
+    .eq('id', gapId);
+
+  if (error) throw new Error(`Failed to dismiss suggestion: ${error.message}`);
+}
+
+/**
+ * New document content for a suggestion: the template's body under the
+ * suggested title, with the missed queries it should answer
+ */
+export function draftGapDocument(gap: Pick<DocGap, 'label' | 'representative_queries' | 'suggested_path'>, template: string): string {
+  const { data: templateData, content: body } = matter(template);
+  const title = gapTitle(gap.label);
+  const today = new Date().toISOString().slice(0, 10);
+
+  const questions = [
+    '> **Drafted from missed searches.** This document should answer:',
+    ...gap.representative_queries.map((query) => `> - "${query}"`),
+  ].join('\n');
+
+  const lines = body.replace(/^\s+/, '').split('\n');
+  const h1 = lines.findIndex((line) => /^#\s/.test(line));
+  const rest = h1 === -1 ? lines : lines.slice(h1 + 1);
+
+  return matter.stringify(`# ${title}\n\n${questions}\n${rest.join('\n')}`, {
+    id: path.posix.basename(gap.suggested_path || slugify(gap.label), '.md'),
+    type: typeof templateData.target_type === 'string' ? templateData.target_type : 'testing-pattern',
+    status: 'draft',
+    last_updated_date: today,
+    keywords: [...new Set(gap.representative_queries.flatMap(tokenize))].slice(0, 12),
+    related_stack: [],
+    common_queries: gap.representative_queries,
+  });
+}
+
+/**
+ * Start writing a suggested document: draft a pending new-document proposal
+ * from its template and mark the suggestion started
+ *
+ * @returns The proposal id and the path of the new document
+ */
+export async function startDocGap(
+  projectId: string,
+  gapId: string,
+  userId: string
+): Promise<{ proposalId: string; filePath: string }> {
+  const gap = await getDocGap(projectId, gapId);
+  if (gap.status !== 'open') throw new Error(`Suggestion is already ${gap.status}`);
+
+  const templatePath = gap.suggested_template || FALLBACK_TEMPLATE;
+  const templateFile = path.join(TEMPLATES_DIR, templatePath.replace(/^templates\//, ''));
+  if (!path.resolve(templateFile).startsWith(path.resolve(TEMPLATES_DIR)) || !fs.existsSync(templateFile)) {
+    throw new Error(`Template not found: ${templatePath}`);
+  }
+
+  // Pick a path no document uses yet
+  const { data: paths } = await supabase
+    .from('documents')
+    .select('file_path')
+    .eq('project_id', projectId);
+  const knownPaths = (paths || []).map((row: { file_path: string }) => row.file_path);
+
+  const basePath = gap.suggested_path || `patterns/${slugify(gap.label)}.md`;
+  let filePath = basePath;
+  for (let n = 2; knownPaths.includes(filePath); n++) filePath = basePath.replace(/\.md$/, `-${n}.md`);
+
+  const content = draftGapDocument({ ...gap, suggested_path: filePath }, fs.readFileSync(templateFile, 'utf-8'));
+  const lint = lintDocument(filePath, content, { knownPaths });
+
+  const { data: proposal, error: proposalError } = await supabase
+    .from('document_proposals')
+    .insert({
+      document_id: null, // New document, no existing ID
+      project_id: projectId,
+      file_path: filePath,
+      original_content: null, // Indicates new document
+      proposed_content: content,
+      reasoning: `[NEW DOCUMENT] Suggested by gap analysis: ${gap.miss_count} missed search(es) ` +
+        `such as "${gap.label}". Started from ${templatePath}.`,
+      evidence_snippet: gap.representative_queries.map((query) => `- ${query}`).join('\n'),
+      lint_findings: lint,
+      proposed_by: userId,
+      status: 'pending',
+    })
+    .select('id')
+    .single();
+
+  if (proposalError || !proposal) {
+    throw new Error(`Failed to create proposal: ${proposalError?.message ?? 'no row returned'}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from('doc_gaps')
+    .update({ status: 'started', proposal_id: proposal.id, updated_at: new Date().toISOString() })
+    .eq('id', gap.id);
+  if (updateError) throw new Error(`Failed to mark suggestion started: ${updateError.message}`);
+
+  return { proposalId: proposal.id, filePath };
+}
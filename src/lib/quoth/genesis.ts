@@ -13,6 +13,7 @@ import { z } from 'zod';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { AuthContext } from '../auth/mcp-auth';
 import { FRONTMATTER_TEMPLATE } from './prompt-constants';
+import { toolResult, GenesisOutputSchema, type GenesisOutput } from './tool-output';
 
 /**
  * Shared embedding optimization rules (compact version)
@@ -595,6 +596,7 @@ export function registerGenesisTools(
         language_hint: z.string().optional()
           .describe('Optional hint about primary language (e.g., "typescript", "python")'),
       },
+      outputSchema: GenesisOutputSchema,
     },
     async ({ depth_level, focus, language_hint }) => {
       // Select the appropriate prompt based on depth
@@ -634,10 +636,8 @@ export function registerGenesisTools(
         prompt = `<language_hint>Primary: ${language_hint}. Prioritize ${language_hint}-specific patterns.</language_hint>\n\n${prompt}`;
       }
 
-      return {
-        content: [{
-          type: 'text' as const,
-          text: `## Quoth Genesis v3.0 - ${depth_level.charAt(0).toUpperCase() + depth_level.slice(1)} Depth
+      return toolResult<GenesisOutput>(
+        `## Quoth Genesis v3.0 - ${depth_level.charAt(0).toUpperCase() + depth_level.slice(1)} Depth
 
 **Configuration:**
 - Depth: \`${depth_level}\`
@@ -658,8 +658,14 @@ ${prompt}
 
 **Ready to start.** Analyze the codebase and create ${docCount} documents.
 Upload each document immediately after creation using \`quoth_propose_update\`.`,
-        }],
-      };
+        {
+          depth_level,
+          focus,
+          document_count: docCount,
+          estimated_time: estimatedTime,
+          prompt,
+        }
+      );
     }
   );
 }
@@ -0,0 +1,49 @@
+/**
+ * Git CLI
+ * Thin wrapper around the `git` binary for repository sync and proposal export.
+ */
+
+import { spawn } from 'child_process';
+
+export interface GitOptions {
+  /** Written to stdin */
+  input?: string;
+  /** Extra environment (author identity, etc.) */
+  env?: Record<string, string>;
+  /** Exit codes treated as success besides 0 (e.g. 1 for `git diff` with changes) */
+  allowExitCodes?: number[];
+}
+
+/**
+ * Run git in `cwd` and return stdout. Throws with git's stderr on failure.
+ */
+export function runGit(cwd: string, args: string[], options: GitOptions = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, {
+      cwd,
+      env: { ...process.env, ...options.env },
+      stdio: [options.input === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe'],
+    });
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout!.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr!.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+    child.on('error', (error) => reject(new Error(`git ${args[0]} failed: ${error.message}`)));
+    child.on('close', (code) => {
+      if (code === 0 || (code !== null && options.allowExitCodes?.includes(code))) {
+        resolve(Buffer.concat(stdout).toString('utf8'));
+      } else {
+        const message = Buffer.concat(stderr).toString('utf8').trim();
+        reject(new Error(`git ${args[0]} failed: ${message || `exit code ${code}`}`));
+      }
+    });
+
+    if (child.stdin) {
+      // git may exit before reading all input; the exit code reports the failure
+      child.stdin.on('error', () => {});
+      child.stdin.end(options.input);
+    }
+  });
+}
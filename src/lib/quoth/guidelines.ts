@@ -100,7 +100,7 @@ const FULL_WORKFLOW: Record<GuidelinesMode, string[]> = {
     '3. Search existing docs - avoid duplicates',
     '4. Follow template H2 sections exactly',
     '5. Ensure 75-300 tokens per section',
-    '6. Submit via `quoth_propose_update` with evidence',
+    '6. Submit via `quoth_propose_update` (new docs) or `quoth_propose_patch` (section edits) with evidence',
   ],
 };
 
@@ -1,17 +1,70 @@
 /**
  * Document Health Service
  * Calculates staleness indicators and health metrics
+ *
+ * Staleness counts from the later of the last update and the last
+ * verification, against the project's staleness policy for the document
+ * (see staleness-policy.ts) or its frontmatter `review_by` date.
+ *
+ * When the code a document references has been checked against git (see
+ * code-staleness.ts), commits to that code since the document's verified
+ * commit drive the level instead: calendar time alone only makes a document
+ * aging, while a rewritten module makes it stale or critical at any age.
  */
 
 import { supabase } from '../supabase';
+import {
+  getStalenessRules,
+  resolveStalenessPolicy,
+  describeStalenessPolicy,
+  type StalenessPolicyRule,
+} from './staleness-policy';
 
 export type StalenessLevel = 'fresh' | 'aging' | 'stale' | 'critical';
 
+/** What set the level: the defaults, a project policy, review_by or code changes */
+export type StalenessSource = 'default' | 'policy' | 'review_by' | 'code';
+
+/** Changes to the code a document references since its verified commit */
+export interface CodeChanges {
+  verifiedCommit: string;
+  /** Commits touching the referenced files */
+  commits: number;
+  /** Referenced files (or directories) with changes */
+  filesChanged: number;
+  filesReferenced: number;
+  /** When the changes were counted; ignored once the document is updated or verified after it */
+  checkedAt: Date | string;
+}
+
 export interface StalenessResult {
   level: StalenessLevel;
   daysStale: number;
   lastUpdated: Date;
   suggestedAction?: string;
+  source: StalenessSource;
+  /** When the document is (or was) due for review */
+  staleAt: Date;
+  lastVerified: Date | null;
+  /** Code changes that were taken into account */
+  codeChanges?: CodeChanges;
+}
+
+export interface StalenessThresholds {
+  aging: number;
+  stale: number;
+  critical: number;
+}
+
+export interface StalenessOptions {
+  /** Policy max age; the default thresholds apply when null */
+  maxAgeDays?: number | null;
+  /** Frontmatter review_by date */
+  reviewBy?: Date | string | null;
+  verifiedAt?: Date | string | null;
+  /** Changes to the referenced code, from the last code staleness scan */
+  codeChanges?: CodeChanges | null;
+  now?: Date;
 }
 
 export interface DocumentHealth {
@@ -19,6 +72,8 @@ export interface DocumentHealth {
   title: string;
   filePath: string;
   staleness: StalenessResult;
+  /** Staleness policy in effect, e.g. "stale after 14 day(s) (type contract)" */
+  policy: string;
   lastReadCount: number;
   searchHitRate: number;
 }
@@ -33,47 +88,247 @@ export interface ProjectHealthSummary {
   documents: DocumentHealth[];
 }
 
-// Staleness thresholds (in days)
-const THRESHOLDS = {
-  fresh: 14,    // < 14 days = fresh
-  aging: 30,    // 14-30 days = aging
-  stale: 60,    // 30-59 days = stale
+// Default staleness thresholds (in days)
+export const DEFAULT_THRESHOLDS: StalenessThresholds = {
+  aging: 14,    // < 14 days = fresh, 14-29 = aging
+  stale: 30,    // 30-59 days = stale
   critical: 60, // >= 60 days = critical
 };
 
+// Commits to a document's referenced code since its verified commit
+export const CODE_THRESHOLDS: StalenessThresholds = {
+  aging: 1,     // any change = aging
+  stale: 5,     // 5-14 commits = stale
+  critical: 15, // >= 15 commits = critical
+};
+
+/** Share of referenced files changed that makes a document at least stale */
+const CODE_CHANGED_SHARE_STALE = 0.5;
+
+const LEVEL_RANK: Record<StalenessLevel, number> = { fresh: 0, aging: 1, stale: 2, critical: 3 };
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+interface HealthDocumentRow {
+  id: string;
+  title: string;
+  file_path: string;
+  last_updated: string;
+  doc_type: string | null;
+  review_by: string | null;
+  verified_at: string | null;
+  code_verified_commit: string | null;
+  code_commits_since_verified: number | null;
+  code_files_changed: number | null;
+  code_files_referenced: number | null;
+  code_checked_at: string | null;
+}
+
+const HEALTH_COLUMNS = 'id, title, file_path, last_updated, doc_type, review_by, verified_at, code_verified_commit, code_commits_since_verified, code_files_changed, code_files_referenced, code_checked_at';
+
+/**
+ * Thresholds for a policy max age: aging at half of it, critical at twice it
+ */
+export function thresholdsForMaxAge(maxAgeDays: number): StalenessThresholds {
+  return {
+    aging: Math.floor(maxAgeDays / 2),
+    stale: maxAgeDays,
+    critical: maxAgeDays * 2,
+  };
+}
+
+function toDate(value: Date | string): Date {
+  return typeof value === 'string' ? new Date(value) : value;
+}
+
+/**
+ * Staleness level from changes to the referenced code alone
+ */
+export function codeStalenessLevel(changes: Pick<CodeChanges, 'commits' | 'filesChanged' | 'filesReferenced'>): StalenessLevel {
+  let level: StalenessLevel = 'fresh';
+  if (changes.commits >= CODE_THRESHOLDS.critical) level = 'critical';
+  else if (changes.commits >= CODE_THRESHOLDS.stale) level = 'stale';
+  else if (changes.commits >= CODE_THRESHOLDS.aging) level = 'aging';
+
+  // Most of the referenced files changed: a rewrite, however few commits it took
+  const share = changes.filesReferenced > 0 ? changes.filesChanged / changes.filesReferenced : 0;
+  if (share >= CODE_CHANGED_SHARE_STALE && LEVEL_RANK[level] < LEVEL_RANK.stale) level = 'stale';
+
+  return level;
+}
+
+function calendarAction(level: StalenessLevel, source: StalenessSource, due: string): string | undefined {
+  switch (level) {
+    case 'fresh':
+      return undefined;
+    case 'aging':
+      return source === 'review_by' ? `Review due by ${due}` : 'Review for accuracy';
+    case 'stale':
+      return source === 'review_by' ? `Review was due ${due}` : 'Update recommended';
+    case 'critical':
+      return source === 'review_by' ? `Review was due ${due}` : 'Urgent update required';
+  }
+}
+
 /**
  * Calculate staleness level from last update date
  */
-export function calculateStaleness(lastUpdated: Date | string): StalenessResult {
-  const lastDate = typeof lastUpdated === 'string' ? new Date(lastUpdated) : lastUpdated;
-  const now = new Date();
-  const diffMs = now.getTime() - lastDate.getTime();
-  const daysStale = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+export function calculateStaleness(
+  lastUpdated: Date | string,
+  options: StalenessOptions = {}
+): StalenessResult {
+  const lastDate = toDate(lastUpdated);
+  const lastVerified = options.verifiedAt ? toDate(options.verifiedAt) : null;
+  const since = lastVerified && lastVerified > lastDate ? lastVerified : lastDate;
+  const now = options.now ?? new Date();
+  const daysStale = Math.floor((now.getTime() - since.getTime()) / DAY_MS);
+
+  // review_by applies until the document is updated or verified after it
+  const reviewBy = options.reviewBy ? toDate(options.reviewBy) : null;
+  let source: StalenessSource = 'default';
+  let thresholds = DEFAULT_THRESHOLDS;
+
+  if (reviewBy && !Number.isNaN(reviewBy.getTime()) && reviewBy > since) {
+    source = 'review_by';
+    thresholds = thresholdsForMaxAge(Math.max(1, Math.ceil((reviewBy.getTime() - since.getTime()) / DAY_MS)));
+  } else if (options.maxAgeDays) {
+    source = 'policy';
+    thresholds = thresholdsForMaxAge(options.maxAgeDays);
+  }
+
+  const staleAt = source === 'review_by' ? reviewBy! : new Date(since.getTime() + thresholds.stale * DAY_MS);
+  const due = staleAt.toISOString().slice(0, 10);
 
   let level: StalenessLevel;
-  let suggestedAction: string | undefined;
 
-  if (daysStale < THRESHOLDS.fresh) {
+  if (daysStale < thresholds.aging) {
     level = 'fresh';
-  } else if (daysStale < THRESHOLDS.aging) {
+  } else if (daysStale < thresholds.stale) {
     level = 'aging';
-    suggestedAction = 'Review for accuracy';
-  } else if (daysStale < THRESHOLDS.stale) {
+  } else if (daysStale < thresholds.critical) {
     level = 'stale';
-    suggestedAction = 'Update recommended';
   } else {
     level = 'critical';
-    suggestedAction = 'Urgent update required';
   }
 
+  // Code counted after the last update or verification outranks the calendar
+  const codeChanges = options.codeChanges && toDate(options.codeChanges.checkedAt) >= since
+    ? options.codeChanges
+    : undefined;
+
+  if (codeChanges) {
+    const codeLevel = codeStalenessLevel(codeChanges);
+    // An explicit review_by still escalates; policy and default age only reach aging
+    if (source !== 'review_by' && LEVEL_RANK[level] > LEVEL_RANK.aging) level = 'aging';
+
+    if (LEVEL_RANK[codeLevel] >= LEVEL_RANK[level] && codeLevel !== 'fresh') {
+      level = codeLevel;
+      source = 'code';
+    }
+  }
+
+  const suggestedAction = source === 'code' && codeChanges
+    ? `${codeChanges.commits} commit(s) changed ${codeChanges.filesChanged} of ${codeChanges.filesReferenced} ` +
+      `referenced file(s) since ${codeChanges.verifiedCommit.slice(0, 12)}`
+    : calendarAction(level, source, due);
+
   return {
     level,
     daysStale,
     lastUpdated: lastDate,
     suggestedAction,
+    source,
+    staleAt,
+    lastVerified,
+    ...(codeChanges && { codeChanges }),
+  };
+}
+
+/**
+ * Staleness of a document row under the project's rules
+ */
+function documentStaleness(
+  doc: HealthDocumentRow,
+  rules: StalenessPolicyRule[]
+): { staleness: StalenessResult; policy: string } {
+  const policy = resolveStalenessPolicy(rules, doc);
+  return {
+    staleness: calculateStaleness(doc.last_updated, {
+      maxAgeDays: policy.max_age_days,
+      reviewBy: doc.review_by,
+      verifiedAt: doc.verified_at,
+      codeChanges: doc.code_checked_at && doc.code_verified_commit && doc.code_commits_since_verified !== null
+        ? {
+          verifiedCommit: doc.code_verified_commit,
+          commits: doc.code_commits_since_verified,
+          filesChanged: doc.code_files_changed ?? 0,
+          filesReferenced: doc.code_files_referenced ?? 0,
+          checkedAt: doc.code_checked_at,
+        }
+        : null,
+    }),
+    policy: describeStalenessPolicy(policy),
   };
 }
 
+/**
+ * Project rules, or none (default thresholds) when they cannot be loaded
+ */
+async function loadStalenessRules(projectId: string): Promise<StalenessPolicyRule[]> {
+  try {
+    return await getStalenessRules(projectId);
+  } catch (error) {
+    console.error('[Health] Could not load staleness policies:', error);
+    return [];
+  }
+}
+
+/**
+ * Staleness of one document under its project's policy
+ */
+export async function getDocumentStaleness(
+  documentId: string,
+  projectId: string
+): Promise<StalenessResult | null> {
+  const { data: doc, error } = await supabase
+    .from('documents')
+    .select(HEALTH_COLUMNS)
+    .eq('id', documentId)
+    .eq('project_id', projectId)
+    .single();
+
+  if (error || !doc) {
+    return null;
+  }
+
+  return documentStaleness(doc as HealthDocumentRow, await loadStalenessRules(projectId)).staleness;
+}
+
+/**
+ * Mark a document as verified: its content is still accurate, so staleness
+ * restarts from now without editing (or versioning) the document
+ */
+export async function verifyDocument(
+  documentId: string,
+  projectId: string,
+  userId: string
+): Promise<string | null> {
+  const verifiedAt = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('documents')
+    .update({ verified_at: verifiedAt, verified_by: userId })
+    .eq('id', documentId)
+    .eq('project_id', projectId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to verify document: ${error.message}`);
+  }
+
+  return data && data.length > 0 ? verifiedAt : null;
+}
+
 /**
  * Get health metrics for a single document
  */
@@ -84,7 +339,7 @@ export async function getDocumentHealth(
   // Fetch document
   const { data: doc, error: docError } = await supabase
     .from('documents')
-    .select('id, title, file_path, last_updated')
+    .select(HEALTH_COLUMNS)
     .eq('id', documentId)
     .eq('project_id', projectId)
     .single();
@@ -114,7 +369,7 @@ export async function getDocumentHealth(
     documentId: doc.id,
     title: doc.title,
     filePath: doc.file_path,
-    staleness: calculateStaleness(doc.last_updated),
+    ...documentStaleness(doc as HealthDocumentRow, await loadStalenessRules(projectId)),
     lastReadCount: readCount,
     searchHitRate: Math.round((searchHits / totalSearches) * 100),
   };
@@ -127,7 +382,7 @@ export async function getProjectHealth(projectId: string): Promise<ProjectHealth
   // Fetch all documents
   const { data: docs, error } = await supabase
     .from('documents')
-    .select('id, title, file_path, last_updated')
+    .select(HEALTH_COLUMNS)
     .eq('project_id', projectId)
     .order('last_updated', { ascending: true });
 
@@ -143,13 +398,13 @@ export async function getProjectHealth(projectId: string): Promise<ProjectHealth
     };
   }
 
-  const documents: DocumentHealth[] = docs.map((doc) => {
-    const staleness = calculateStaleness(doc.last_updated);
+  const rules = await loadStalenessRules(projectId);
+  const documents: DocumentHealth[] = (docs as HealthDocumentRow[]).map((doc) => {
     return {
       documentId: doc.id,
       title: doc.title,
       filePath: doc.file_path,
-      staleness,
+      ...documentStaleness(doc, rules),
       lastReadCount: 0, // Would need batch query for performance
       searchHitRate: 0,
     };
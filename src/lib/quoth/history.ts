@@ -0,0 +1,207 @@
+/**
+ * Document History
+ * Version timeline of a document and point-in-time lookups.
+ *
+ * document_history holds every archived version (written by the
+ * on_document_update trigger); the documents row is the current one. A
+ * version is valid from the moment its predecessor was archived until it was
+ * archived itself, which lets quoth_read_doc answer "what did this say on
+ * date D" or "at commit X" for repository-synced documents. Commits are
+ * matched against every commit repository sync verified a version at
+ * (document_verifications), not only the last one.
+ */
+
+import { supabase } from '../supabase';
+import { diffLines, formatUnifiedDiff } from './diff';
+
+export type UpdateSource = 'mcp' | 'proposal' | 'repo_sync' | 'rollback';
+
+export interface DocumentVersion {
+  version: number;
+  /** document_history row, null for the current version */
+  history_id: string | null;
+  title: string;
+  content: string;
+  author_id: string | null;
+  source: UpdateSource | null;
+  /** Repository commit this version was verified against */
+  commit: string | null;
+  /** Every commit repository sync verified this version at, oldest first */
+  verified_commits: string[];
+  /** Null when the document predates creation timestamps */
+  valid_from: string | null;
+  /** Null for the current version */
+  valid_to: string | null;
+}
+
+/** Current documents row, as selected by getDocumentVersions */
+export interface CurrentDocumentRow {
+  title: string;
+  content: string;
+  version: number;
+  created_at: string | null;
+  last_updated: string;
+  updated_by: string | null;
+  update_source: string | null;
+  last_verified_commit: string | null;
+}
+
+export interface HistoryRow {
+  id: string;
+  title: string;
+  content: string;
+  version: number;
+  archived_at: string;
+  updated_by: string | null;
+  update_source: string | null;
+  last_verified_commit: string | null;
+}
+
+export interface VerificationRow {
+  commit_sha: string;
+  version: number;
+}
+
+export interface VersionSelector {
+  version?: number;
+  /** ISO date/time or a commit SHA (7-40 hex characters) */
+  as_of?: string;
+}
+
+const COMMIT_PATTERN = /^[0-9a-f]{7,40}$/i;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Versions of a document, newest first, with the interval each was current.
+ */
+export function buildVersionTimeline(
+  doc: CurrentDocumentRow,
+  history: HistoryRow[],
+  verifications: VerificationRow[] = []
+): DocumentVersion[] {
+  const archived = [...history].sort((a, b) => a.version - b.version);
+  const versions: DocumentVersion[] = [];
+  const commitsOf = (version: number) =>
+    verifications.filter((row) => row.version === version).map((row) => row.commit_sha);
+
+  let validFrom = doc.created_at;
+  for (const row of archived) {
+    versions.push({
+      version: row.version,
+      history_id: row.id,
+      title: row.title,
+      content: row.content,
+      author_id: row.updated_by,
+      source: row.update_source as UpdateSource | null,
+      commit: row.last_verified_commit,
+      verified_commits: commitsOf(row.version),
+      valid_from: validFrom,
+      valid_to: row.archived_at,
+    });
+    validFrom = row.archived_at;
+  }
+
+  versions.push({
+    version: doc.version,
+    history_id: null,
+    title: doc.title,
+    content: doc.content,
+    author_id: doc.updated_by,
+    source: doc.update_source as UpdateSource | null,
+    commit: doc.last_verified_commit,
+    verified_commits: commitsOf(doc.version),
+    valid_from: archived.length > 0 ? validFrom : doc.created_at ?? doc.last_updated,
+    valid_to: null,
+  });
+
+  return versions.reverse();
+}
+
+/**
+ * Pick the version matching a number, date or commit from a timeline.
+ * Returns null when nothing matches; throws on an unparseable `as_of`.
+ */
+export function selectVersion(versions: DocumentVersion[], selector: VersionSelector): DocumentVersion | null {
+  if (selector.version !== undefined) {
+    return versions.find((v) => v.version === selector.version) ?? null;
+  }
+  if (!selector.as_of) {
+    return versions[0] ?? null;
+  }
+
+  const asOf = selector.as_of.trim();
+  if (COMMIT_PATTERN.test(asOf)) {
+    const sha = asOf.toLowerCase();
+    return versions.find((v) =>
+      [v.commit, ...v.verified_commits].some((commit) => commit?.toLowerCase().startsWith(sha))
+    ) ?? null;
+  }
+
+  // A bare date means the end of that day (UTC)
+  const time = Date.parse(DATE_ONLY_PATTERN.test(asOf) ? `${asOf}T23:59:59.999Z` : asOf);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid as_of "${selector.as_of}": expected an ISO date or a commit SHA`);
+  }
+
+  return versions.find((v) =>
+    (v.valid_from === null || Date.parse(v.valid_from) <= time) &&
+    (v.valid_to === null || time < Date.parse(v.valid_to))
+  ) ?? null;
+}
+
+/**
+ * Unified diff and line counts from the previous version to this one.
+ */
+export function versionDiff(previous: DocumentVersion | undefined, version: DocumentVersion) {
+  const hunks = diffLines(previous?.content ?? '', version.content);
+  let linesAdded = 0;
+  let linesRemoved = 0;
+  for (const hunk of hunks) {
+    for (const line of hunk.lines) {
+      if (line.type === 'add') linesAdded++;
+      if (line.type === 'remove') linesRemoved++;
+    }
+  }
+  return { diff: formatUnifiedDiff(hunks), lines_added: linesAdded, lines_removed: linesRemoved };
+}
+
+/**
+ * Load the full timeline of a document, newest first.
+ */
+export async function getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+  const { data: doc, error: docError } = await supabase
+    .from('documents')
+    .select('title, content, version, created_at, last_updated, updated_by, update_source, last_verified_commit')
+    .eq('id', documentId)
+    .single();
+
+  if (docError || !doc) {
+    throw new Error(`Document not found: ${documentId}`);
+  }
+
+  const { data: history, error: historyError } = await supabase
+    .from('document_history')
+    .select('id, title, content, version, archived_at, updated_by, update_source, last_verified_commit')
+    .eq('document_id', documentId)
+    .order('version', { ascending: true });
+
+  if (historyError) {
+    throw new Error(`Failed to load document history: ${historyError.message}`);
+  }
+
+  const { data: verifications, error: verificationsError } = await supabase
+    .from('document_verifications')
+    .select('commit_sha, version')
+    .eq('document_id', documentId)
+    .order('verified_at', { ascending: true });
+
+  if (verificationsError) {
+    throw new Error(`Failed to load verified commits: ${verificationsError.message}`);
+  }
+
+  return buildVersionTimeline(
+    doc as CurrentDocumentRow,
+    (history ?? []) as HistoryRow[],
+    (verifications ?? []) as VerificationRow[]
+  );
+}
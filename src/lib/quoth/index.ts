@@ -46,6 +46,7 @@ export {
   getDriftTimeline,
   getDriftSummary,
   resolveDrift,
+  resolveDriftForProposal,
   type DriftSeverity,
   type DriftType,
   type DriftEvent,
@@ -55,11 +56,16 @@ export {
 // Document Health
 export {
   calculateStaleness,
+  codeStalenessLevel,
   getDocumentHealth,
+  getDocumentStaleness,
   getProjectHealth,
   getDocumentsNeedingAttention,
+  verifyDocument,
   type StalenessLevel,
+  type StalenessSource,
   type StalenessResult,
+  type CodeChanges,
   type DocumentHealth,
   type ProjectHealthSummary,
 } from './health';
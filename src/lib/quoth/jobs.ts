@@ -0,0 +1,552 @@
+/**
+ * Background Jobs Service
+ * Persisted job queue for long-running work (full reindex).
+ *
+ * A job has one job_items row per document; items are checkpoints, so a job
+ * interrupted by a crash or serverless timeout resumes where it stopped once
+ * its worker lease expires. Workers run via /api/cron/jobs or scripts/run-jobs.ts.
+ *
+ * Reindex writes a shadow embedding generation (active + 1). Search keeps
+ * serving the active generation until the job finishes and flips the pointer.
+ */
+
+import { randomUUID } from 'crypto';
+import { supabase } from '../supabase';
+import { chunkContent, calculateChecksum, getActiveEmbeddingGeneration } from '../sync';
+import { detectContentType } from '../ai';
+import {
+  getEmbeddingProviderForProject,
+  embedBatched,
+  type EmbeddingProvider,
+} from '../embeddings';
+import { logActivity } from './activity';
+
+// ============ Types ============
+
+export type JobType = 'reindex';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  project_id: string;
+  type: JobType;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  total_items: number;
+  completed_items: number;
+  failed_items: number;
+  result: Record<string, unknown> | null;
+  error_message: string | null;
+  locked_by: string | null;
+  locked_until: string | null;
+  attempts: number;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface JobProgress {
+  processed: number;
+  remaining: number;
+  percent: number;
+  /** Estimated seconds left, from the average pace so far (null until known) */
+  etaSeconds: number | null;
+}
+
+export interface WorkerResult {
+  jobsProcessed: number;
+  itemsProcessed: number;
+}
+
+interface ReindexDocument {
+  id: string;
+  file_path: string;
+  title: string;
+  content: string;
+}
+
+// ============ Configuration ============
+
+export const JOB_CONFIG = {
+  /** Lease length; renewed after every item */
+  leaseSeconds: 120,
+  /** Pending items fetched per round trip */
+  itemBatchSize: 10,
+};
+
+// ============ Queue ============
+
+/**
+ * Queue a full reindex of a project.
+ * Returns the already active reindex job instead of queueing a second one.
+ */
+export async function enqueueReindexJob(
+  projectId: string,
+  userId?: string
+): Promise<{ job: Job; created: boolean }> {
+  const active = await getActiveJob(projectId, 'reindex');
+  if (active) {
+    return { job: active, created: false };
+  }
+
+  const { data: documents, error: docsError } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('project_id', projectId);
+
+  if (docsError) {
+    throw new Error(`Failed to fetch documents: ${docsError.message}`);
+  }
+
+  if (!documents || documents.length === 0) {
+    throw new Error('No documents found in project');
+  }
+
+  // Drop rows left behind by an abandoned shadow generation before building a new one
+  await supabase.rpc('gc_embedding_generations', { p_project_id: projectId });
+  const generation = (await getActiveEmbeddingGeneration(projectId)) + 1;
+
+  const { data: job, error: jobError } = await supabase
+    .from('jobs')
+    .insert({
+      project_id: projectId,
+      type: 'reindex',
+      payload: { generation },
+      total_items: documents.length,
+      ...(userId && { created_by: userId }),
+    })
+    .select()
+    .single();
+
+  if (jobError) {
+    // Lost a race with a concurrent enqueue (idx_jobs_one_active)
+    if (jobError.code === '23505') {
+      const existing = await getActiveJob(projectId, 'reindex');
+      if (existing) return { job: existing, created: false };
+    }
+    throw new Error(`Failed to create job: ${jobError.message}`);
+  }
+
+  const { error: itemsError } = await supabase
+    .from('job_items')
+    .insert(documents.map((doc) => ({ job_id: job.id, document_id: doc.id })));
+
+  if (itemsError) {
+    await supabase.from('jobs').delete().eq('id', job.id);
+    throw new Error(`Failed to create job items: ${itemsError.message}`);
+  }
+
+  return { job: job as Job, created: true };
+}
+
+/**
+ * Get a job by id
+ */
+export async function getJob(jobId: string): Promise<Job | null> {
+  const { data } = await supabase
+    .from('jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  return (data as Job) || null;
+}
+
+/**
+ * Get the queued/running job of a type for a project, if any
+ */
+export async function getActiveJob(projectId: string, type: JobType): Promise<Job | null> {
+  const { data } = await supabase
+    .from('jobs')
+    .select('*')
+    .eq('project_id', projectId)
+    .eq('type', type)
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data as Job) || null;
+}
+
+/**
+ * Get the most recent jobs for a project (newest first)
+ */
+export async function getRecentJobs(projectId: string, limit: number = 5): Promise<Job[]> {
+  const { data } = await supabase
+    .from('jobs')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  return (data as Job[]) || [];
+}
+
+/**
+ * Get failed items of a job with their document paths
+ */
+export async function getFailedJobItems(
+  jobId: string,
+  limit: number = 20
+): Promise<Array<{ file_path: string; error_message: string | null }>> {
+  const { data } = await supabase
+    .from('job_items')
+    .select('error_message, documents(file_path)')
+    .eq('job_id', jobId)
+    .eq('status', 'failed')
+    .limit(limit);
+
+  return (data || []).map((item) => {
+    const doc = item.documents as { file_path: string } | { file_path: string }[] | null;
+    return {
+      file_path: (Array.isArray(doc) ? doc[0]?.file_path : doc?.file_path) || 'unknown',
+      error_message: item.error_message,
+    };
+  });
+}
+
+/**
+ * Compute progress and ETA for a job
+ */
+export function getJobProgress(job: Job, now: number = Date.now()): JobProgress {
+  const processed = job.completed_items + job.failed_items;
+  const remaining = Math.max(0, job.total_items - processed);
+  // Documents edited mid-reindex are re-queued, so processed can briefly exceed total
+  const percent = job.total_items > 0 ? Math.min(100, Math.round((processed / job.total_items) * 100)) : 100;
+
+  let etaSeconds: number | null = null;
+  if (job.status === 'running' && job.started_at && processed > 0 && remaining > 0) {
+    const elapsedMs = now - new Date(job.started_at).getTime();
+    etaSeconds = Math.round(((elapsedMs / processed) * remaining) / 1000);
+  } else if (job.status === 'completed' || job.status === 'failed') {
+    etaSeconds = 0;
+  }
+
+  return { processed, remaining, percent, etaSeconds };
+}
+
+// ============ Reindex ============
+
+/**
+ * Re-chunk and re-embed one document into a shadow generation.
+ * Rows of the active generation are never touched, so search is unaffected
+ * and a failure leaves the document with its previous embeddings.
+ *
+ * @returns Number of chunks embedded
+ */
+export async function reindexDocument(
+  doc: ReindexDocument,
+  provider: EmbeddingProvider,
+  generation: number
+): Promise<number> {
+  const chunks = await chunkContent(doc.file_path, doc.content);
+
+  if (chunks.length === 0) {
+    throw new Error('No chunks generated (empty content?)');
+  }
+
+  const inputs = chunks.map((chunk) => ({
+    text: chunk.content,
+    contentType: detectContentType(chunk.content),
+  }));
+  const { embeddings, stats } = await embedBatched(provider, inputs);
+
+  if (stats.failed > 0) {
+    throw new Error(`Only ${chunks.length - stats.failed}/${chunks.length} chunks embedded successfully`);
+  }
+
+  const rows = chunks.map((chunk, i) => ({
+    document_id: doc.id,
+    content_chunk: chunk.content,
+    chunk_hash: calculateChecksum(chunk.content),
+    embedding: embeddings[i],
+    embedding_model: provider.modelFor(inputs[i].contentType),
+    embedding_dimensions: provider.dimensions,
+    generation,
+    metadata: {
+      chunk_index: i,
+      source: 'full-reindex',
+      content_type: inputs[i].contentType,
+      ...chunk.metadata,
+    },
+  }));
+
+  // Replace this document's rows in the shadow generation (re-queued documents run twice)
+  const { error: deleteError } = await supabase
+    .from('document_embeddings')
+    .delete()
+    .eq('document_id', doc.id)
+    .eq('generation', generation);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear shadow embeddings: ${deleteError.message}`);
+  }
+
+  const { error: insertError } = await supabase.from('document_embeddings').insert(rows);
+
+  if (insertError) {
+    throw new Error(`Failed to insert embeddings: ${insertError.message}`);
+  }
+
+  return rows.length;
+}
+
+// ============ Worker ============
+
+/**
+ * Extend the lease. Returns false if another worker has taken the job over.
+ */
+async function renewLease(job: Job, workerId: string, counters: Partial<Job> = {}): Promise<boolean> {
+  const { data } = await supabase
+    .from('jobs')
+    .update({
+      ...counters,
+      locked_until: new Date(Date.now() + JOB_CONFIG.leaseSeconds * 1000).toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId)
+    .select('id');
+
+  return !!data && data.length > 0;
+}
+
+/**
+ * Mark a job finished once no pending items remain.
+ * Flips the project to the new generation unless every document failed,
+ * then garbage-collects the superseded rows.
+ */
+async function finalizeJob(job: Job, workerId: string): Promise<void> {
+  const { data: items } = await supabase
+    .from('job_items')
+    .select('status, chunks')
+    .eq('job_id', job.id);
+
+  const completed = (items || []).filter((i) => i.status === 'completed');
+  const failed = (items || []).filter((i) => i.status === 'failed');
+  const totalChunks = completed.reduce((sum, i) => sum + (i.chunks || 0), 0);
+  const status: JobStatus = completed.length === 0 && failed.length > 0 ? 'failed' : 'completed';
+  const provider = job.payload?.provider;
+  const generation = job.payload?.generation as number;
+
+  if (status === 'completed') {
+    const { error: activateError } = await supabase.rpc('activate_embedding_generation', {
+      p_project_id: job.project_id,
+      p_generation: generation,
+    });
+
+    if (activateError) {
+      throw new Error(`Failed to activate generation ${generation}: ${activateError.message}`);
+    }
+  }
+
+  await supabase.rpc('gc_embedding_generations', { p_project_id: job.project_id });
+
+  await supabase
+    .from('jobs')
+    .update({
+      status,
+      completed_items: completed.length,
+      failed_items: failed.length,
+      result: { total_chunks: totalChunks, generation, ...(provider ? { provider } : {}) },
+      ...(status === 'failed' && { error_message: 'All documents failed to reindex' }),
+      locked_by: null,
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId);
+
+  logActivity({
+    projectId: job.project_id,
+    userId: job.created_by || undefined,
+    eventType: 'reindex',
+    query: 'reindex:full-reembed',
+    resultCount: totalChunks,
+    toolName: 'quoth_reindex',
+    context: {
+      jobId: job.id,
+      totalDocuments: job.total_items,
+      successCount: completed.length,
+      failCount: failed.length,
+      totalChunks,
+    },
+  });
+}
+
+/**
+ * Provider and generation a reindex job embeds with. A job that started with
+ * another provider (the project switched mid-job) restarts in a fresh
+ * generation: rows from both providers in one generation would mix vector
+ * spaces. The abandoned generation is garbage-collected when the job ends.
+ *
+ * @param payload - Job payload (provider and generation of earlier runs)
+ * @param providerId - Project's current embedding provider
+ * @param activeGeneration - Project's active embedding generation
+ */
+export function planReindexGeneration(
+  payload: Record<string, unknown>,
+  providerId: string,
+  activeGeneration: number
+): { payload: Record<string, unknown>; restart: boolean } {
+  const previous = typeof payload.generation === 'number' ? payload.generation : null;
+  const restart = previous !== null && typeof payload.provider === 'string' && payload.provider !== providerId;
+
+  const generation = previous === null
+    ? activeGeneration + 1
+    : restart
+      ? Math.max(previous, activeGeneration) + 1
+      : previous;
+
+  return {
+    payload: {
+      ...payload,
+      provider: providerId,
+      generation,
+      ...(restart && { restarted_from: { provider: payload.provider, generation: previous } }),
+    },
+    restart,
+  };
+}
+
+/**
+ * Process a claimed reindex job until it finishes or the deadline passes.
+ * On deadline the lease is released so the next worker resumes immediately.
+ *
+ * @returns Number of items processed in this run
+ */
+export async function processJob(job: Job, workerId: string, deadline: number): Promise<number> {
+  const provider = await getEmbeddingProviderForProject(job.project_id);
+  let completedItems = job.completed_items;
+  let failedItems = job.failed_items;
+  let processed = 0;
+
+  if (job.payload?.provider !== provider.id || typeof job.payload?.generation !== 'number') {
+    const plan = planReindexGeneration(
+      job.payload || {},
+      provider.id,
+      await getActiveEmbeddingGeneration(job.project_id)
+    );
+
+    if (plan.restart) {
+      const { error: resetError } = await supabase
+        .from('job_items')
+        .update({ status: 'pending', chunks: null, error_message: null, processed_at: null })
+        .eq('job_id', job.id);
+
+      if (resetError) {
+        throw new Error(`Failed to restart job items: ${resetError.message}`);
+      }
+      completedItems = 0;
+      failedItems = 0;
+    }
+
+    job.payload = plan.payload;
+    await renewLease(job, workerId, {
+      payload: job.payload,
+      ...(plan.restart && { completed_items: 0, failed_items: 0 }),
+    });
+  }
+  const generation = job.payload.generation as number;
+
+  for (;;) {
+    const { data: items, error } = await supabase
+      .from('job_items')
+      .select('id, documents(id, file_path, title, content)')
+      .eq('job_id', job.id)
+      .eq('status', 'pending')
+      .limit(JOB_CONFIG.itemBatchSize);
+
+    if (error) {
+      throw new Error(`Failed to fetch job items: ${error.message}`);
+    }
+
+    if (!items || items.length === 0) {
+      await finalizeJob(job, workerId);
+      return processed;
+    }
+
+    for (const item of items) {
+      if (Date.now() >= deadline) {
+        await supabase
+          .from('jobs')
+          .update({ locked_by: null, locked_until: null, updated_at: new Date().toISOString() })
+          .eq('id', job.id)
+          .eq('locked_by', workerId);
+        return processed;
+      }
+
+      const relation = item.documents as ReindexDocument | ReindexDocument[] | null;
+      const doc = Array.isArray(relation) ? relation[0] : relation;
+
+      try {
+        if (!doc) throw new Error('Document no longer exists');
+        const chunks = await reindexDocument(doc, provider, generation);
+        await supabase
+          .from('job_items')
+          .update({ status: 'completed', chunks, processed_at: new Date().toISOString() })
+          .eq('id', item.id);
+        completedItems++;
+      } catch (itemError) {
+        await supabase
+          .from('job_items')
+          .update({
+            status: 'failed',
+            error_message: itemError instanceof Error ? itemError.message : 'Unknown error',
+            processed_at: new Date().toISOString(),
+          })
+          .eq('id', item.id);
+        failedItems++;
+      }
+
+      processed++;
+
+      // Checkpoint counters and extend the lease
+      const stillOwned = await renewLease(job, workerId, {
+        completed_items: completedItems,
+        failed_items: failedItems,
+      });
+      if (!stillOwned) return processed;
+    }
+  }
+}
+
+/**
+ * Claim and process jobs until none are left or the time budget runs out.
+ *
+ * @param options.maxDurationMs - Time budget for this run
+ * @param options.jobId - Only work on this job (e.g. right after enqueueing it)
+ */
+export async function runJobWorker(options: {
+  maxDurationMs: number;
+  jobId?: string;
+}): Promise<WorkerResult> {
+  const workerId = `worker-${randomUUID()}`;
+  const deadline = Date.now() + options.maxDurationMs;
+  const result: WorkerResult = { jobsProcessed: 0, itemsProcessed: 0 };
+
+  while (Date.now() < deadline) {
+    const { data: claimed, error } = await supabase.rpc('claim_next_job', {
+      worker_id: workerId,
+      lease_seconds: JOB_CONFIG.leaseSeconds,
+      target_job_id: options.jobId || null,
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim job: ${error.message}`);
+    }
+
+    const job = (claimed as Job[] | null)?.[0];
+    if (!job) break;
+
+    result.itemsProcessed += await processJob(job, workerId, deadline);
+    result.jobsProcessed++;
+  }
+
+  return result;
+}
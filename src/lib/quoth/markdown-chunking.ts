@@ -0,0 +1,273 @@
+/**
+ * Markdown Chunking
+ * Structure-aware chunker for knowledge base documents.
+ *
+ * The document is parsed into atomic blocks (frontmatter, headings, fenced code,
+ * paragraphs/lists/tables) so a `## ` line inside a code fence never starts a
+ * section and fences or tables are never cut in half. Sections are then fitted
+ * to the token budget:
+ *   - H2 sections over the budget are split at H3 boundaries, then at block boundaries
+ *   - undersized pieces are merged into an adjacent piece when the result fits
+ *
+ * Each chunk records its heading breadcrumb (title > H2 > H3) and 1-based line range.
+ */
+
+export const MARKDOWN_CHUNK_CONFIG = {
+  minTokens: 75,   // Pieces below this are merged into a neighbour
+  maxTokens: 300,  // Sections above this are sub-split
+};
+
+export interface MarkdownChunk {
+  content: string;
+  startLine: number;
+  endLine: number;
+  /** Heading path, e.g. ["Auth Patterns", "Guards", "Redirects"] */
+  headings: string[];
+  /** Chunk contains the document frontmatter */
+  hasFrontmatter: boolean;
+}
+
+type BlockKind = 'frontmatter' | 'heading' | 'fence' | 'text';
+
+interface Block {
+  kind: BlockKind;
+  startLine: number; // 0-based, inclusive
+  endLine: number;   // 0-based, inclusive
+  level?: number;    // heading level
+  text?: string;     // heading text
+}
+
+interface Piece {
+  startLine: number;
+  endLine: number;
+  headings: string[];
+  tokens: number;
+  hasFrontmatter: boolean;
+  headingsOnly: boolean; // No body blocks, e.g. a title-only preamble
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+
+/**
+ * Rough token estimate (whitespace-delimited words * 1.3)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.split(/\s+/).length * 1.3);
+}
+
+/**
+ * Split markdown into atomic blocks. Blank lines separate text blocks;
+ * fences run until their closing marker (or end of file when unclosed).
+ */
+function parseBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  // Frontmatter is only recognised on the first line
+  if (lines[0]?.trim() === '---') {
+    const close = lines.findIndex((line, idx) => idx > 0 && line.trim() === '---');
+    if (close > 0) {
+      blocks.push({ kind: 'frontmatter', startLine: 0, endLine: close });
+      i = close + 1;
+    }
+  }
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const marker = fence[1];
+      let end = i + 1;
+      while (end < lines.length) {
+        const closing = lines[end].match(/^\s*(`{3,}|~{3,})\s*$/);
+        if (closing && closing[1][0] === marker[0] && closing[1].length >= marker.length) break;
+        end++;
+      }
+      end = Math.min(end, lines.length - 1);
+      blocks.push({ kind: 'fence', startLine: i, endLine: end });
+      i = end + 1;
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({
+        kind: 'heading',
+        startLine: i,
+        endLine: i,
+        level: heading[1].length,
+        text: heading[2],
+      });
+      i++;
+      continue;
+    }
+
+    // Paragraph, list or table: consecutive non-blank lines up to a fence or heading
+    let end = i;
+    while (
+      end + 1 < lines.length &&
+      lines[end + 1].trim() &&
+      !FENCE_PATTERN.test(lines[end + 1]) &&
+      !HEADING_PATTERN.test(lines[end + 1])
+    ) {
+      end++;
+    }
+    blocks.push({ kind: 'text', startLine: i, endLine: end });
+    i = end + 1;
+  }
+
+  return blocks;
+}
+
+export interface MarkdownHeading {
+  line: number; // 0-based
+  level: number;
+  text: string;
+}
+
+/**
+ * Headings in document order. `#` lines inside fences or frontmatter are not headings.
+ */
+export function findHeadings(lines: string[]): MarkdownHeading[] {
+  return parseBlocks(lines)
+    .filter((block) => block.kind === 'heading')
+    .map((block) => ({ line: block.startLine, level: block.level!, text: block.text! }));
+}
+
+/**
+ * Group blocks into runs that start at a heading of level <= `level`
+ * (the first run holds whatever precedes the first such heading).
+ */
+function groupByHeading(blocks: Block[], level: number): Block[][] {
+  const groups: Block[][] = [];
+  let current: Block[] = [];
+
+  for (const block of blocks) {
+    if (block.kind === 'heading' && block.level! <= level && current.length > 0) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(block);
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+}
+
+/**
+ * Chunk a markdown document into size-bounded sections with heading breadcrumbs
+ */
+export function chunkMarkdown(
+  content: string,
+  config: typeof MARKDOWN_CHUNK_CONFIG = MARKDOWN_CHUNK_CONFIG
+): MarkdownChunk[] {
+  const lines = content.split('\n');
+  const blocks = parseBlocks(lines);
+  if (blocks.length === 0) return [];
+
+  const textOf = (start: number, end: number) => lines.slice(start, end + 1).join('\n');
+  const toPiece = (group: Block[], headings: string[]): Piece => {
+    const startLine = group[0].startLine;
+    const endLine = group[group.length - 1].endLine;
+    return {
+      startLine,
+      endLine,
+      headings,
+      tokens: estimateTokens(textOf(startLine, endLine)),
+      hasFrontmatter: group.some((b) => b.kind === 'frontmatter'),
+      headingsOnly: group.every((b) => b.kind === 'heading' || b.kind === 'frontmatter'),
+    };
+  };
+
+  const title = blocks.find((b) => b.kind === 'heading' && b.level === 1)?.text;
+  const root = title ? [title] : [];
+  const pieces: Piece[] = [];
+
+  for (const section of groupByHeading(blocks, 2)) {
+    const h2 = section[0].kind === 'heading' && section[0].level === 2 ? section[0].text! : null;
+    const sectionPath = h2 ? [...root, h2] : root;
+    const sectionPiece = toPiece(section, sectionPath);
+
+    if (sectionPiece.tokens <= config.maxTokens) {
+      pieces.push(sectionPiece);
+      continue;
+    }
+
+    // Oversized: split at H3 boundaries, then pack blocks up to the budget
+    for (const sub of groupByHeading(section, 3)) {
+      const h3 = sub[0].kind === 'heading' && sub[0].level === 3 ? sub[0].text! : null;
+      const subPath = h3 ? [...sectionPath, h3] : sectionPath;
+      const subPiece = toPiece(sub, subPath);
+
+      if (subPiece.tokens <= config.maxTokens) {
+        pieces.push(subPiece);
+        continue;
+      }
+
+      let run: Block[] = [];
+      for (const block of sub) {
+        if (run.length > 0) {
+          const candidate = toPiece([...run, block], subPath);
+          // Keep a heading together with the block that follows it
+          const onlyHeading = run.length === 1 && run[0].kind === 'heading';
+          if (candidate.tokens > config.maxTokens && !onlyHeading) {
+            pieces.push(toPiece(run, subPath));
+            run = [];
+          }
+        }
+        run.push(block);
+      }
+      if (run.length > 0) pieces.push(toPiece(run, subPath));
+    }
+  }
+
+  // Merge undersized pieces into their predecessor when the result fits the budget
+  const merged: Piece[] = [];
+  for (const piece of pieces) {
+    const previous = merged[merged.length - 1];
+    if (
+      previous &&
+      (previous.tokens < config.minTokens || piece.tokens < config.minTokens)
+    ) {
+      const tokens = estimateTokens(textOf(previous.startLine, piece.endLine));
+      if (tokens <= config.maxTokens) {
+        merged[merged.length - 1] = {
+          startLine: previous.startLine,
+          endLine: piece.endLine,
+          // A bare heading run is context for what follows; otherwise keep the shared ancestry
+          headings: previous.headingsOnly
+            ? piece.headings
+            : commonPrefix(previous.headings, piece.headings),
+          tokens,
+          hasFrontmatter: previous.hasFrontmatter || piece.hasFrontmatter,
+          headingsOnly: previous.headingsOnly && piece.headingsOnly,
+        };
+        continue;
+      }
+    }
+    merged.push(piece);
+  }
+
+  return merged.map((piece) => ({
+    content: textOf(piece.startLine, piece.endLine),
+    startLine: piece.startLine + 1,
+    endLine: piece.endLine + 1,
+    headings: piece.headings,
+    hasFrontmatter: piece.hasFrontmatter,
+  }));
+}
+
+function commonPrefix(a: string[], b: string[]): string[] {
+  const prefix: string[] = [];
+  for (let i = 0; i < Math.min(a.length, b.length) && a[i] === b[i]; i++) {
+    prefix.push(a[i]);
+  }
+  return prefix;
+}
@@ -0,0 +1,147 @@
+/**
+ * Three-Way Merge
+ * Line-based diff3 used when a proposal is approved after its document changed.
+ *
+ * The proposal's original_content is the common base, the document as it is
+ * now is one side and the proposed content is the other. Changes that touch
+ * different parts of the base merge cleanly; changes that overlap (or touch
+ * adjacent lines) differently on both sides are reported as conflicts.
+ */
+
+import { matchLines } from './diff';
+
+export interface MergeConflict {
+  /** 1-based line in the base where the conflicting region starts */
+  baseLine: number;
+  base: string;
+  current: string;
+  proposed: string;
+}
+
+export interface MergeResult {
+  clean: boolean;
+  /** Merged content; contains git-style conflict markers when not clean */
+  content: string;
+  conflicts: MergeConflict[];
+}
+
+type Side = 'current' | 'proposed';
+
+/** A changed base range [baseStart, baseEnd) replaced by side range [sideStart, sideEnd) */
+interface Hunk {
+  side: Side;
+  baseStart: number;
+  baseEnd: number;
+  sideStart: number;
+  sideEnd: number;
+}
+
+function changeHunks(base: string[], lines: string[], side: Side): Hunk[] {
+  const hunks: Hunk[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [bi, sj] of [...matchLines(base, lines), [base.length, lines.length]]) {
+    if (bi > i || sj > j) {
+      hunks.push({ side, baseStart: i, baseEnd: bi, sideStart: j, sideEnd: sj });
+    }
+    i = bi + 1;
+    j = sj + 1;
+  }
+  return hunks;
+}
+
+/** Lines a side has in place of base[lo, hi), given that side's hunks in the region */
+function sideRegion(hunks: Hunk[], lines: string[], base: string[], lo: number, hi: number): string[] {
+  if (hunks.length === 0) return base.slice(lo, hi);
+  const first = hunks[0];
+  const last = hunks[hunks.length - 1];
+  return lines.slice(first.sideStart - (first.baseStart - lo), last.sideEnd + (hi - last.baseEnd));
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+/**
+ * Merge `current` and `proposed`, both derived from `base`.
+ */
+export function threeWayMerge(base: string, current: string, proposed: string): MergeResult {
+  const baseLines = splitLines(base);
+  const currentLines = splitLines(current);
+  const proposedLines = splitLines(proposed);
+
+  const hunks = [
+    ...changeHunks(baseLines, currentLines, 'current'),
+    ...changeHunks(baseLines, proposedLines, 'proposed'),
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const output: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let cursor = 0;
+  let index = 0;
+
+  while (index < hunks.length) {
+    const lo = hunks[index].baseStart;
+    let hi = hunks[index].baseEnd;
+    const group = [hunks[index++]];
+    while (index < hunks.length && hunks[index].baseStart <= hi) {
+      hi = Math.max(hi, hunks[index].baseEnd);
+      group.push(hunks[index++]);
+    }
+
+    output.push(...baseLines.slice(cursor, lo));
+    cursor = hi;
+
+    const currentHunks = group.filter((h) => h.side === 'current');
+    const proposedHunks = group.filter((h) => h.side === 'proposed');
+    const ours = sideRegion(currentHunks, currentLines, baseLines, lo, hi);
+    const theirs = sideRegion(proposedHunks, proposedLines, baseLines, lo, hi);
+
+    if (proposedHunks.length === 0 || sameLines(ours, theirs)) {
+      output.push(...ours);
+    } else if (currentHunks.length === 0) {
+      output.push(...theirs);
+    } else {
+      const original = baseLines.slice(lo, hi);
+      conflicts.push({
+        baseLine: lo + 1,
+        base: original.join('\n'),
+        current: ours.join('\n'),
+        proposed: theirs.join('\n'),
+      });
+      output.push('<<<<<<< current', ...ours, '||||||| base', ...original, '=======', ...theirs, '>>>>>>> proposed');
+    }
+  }
+
+  output.push(...baseLines.slice(cursor));
+
+  return { clean: conflicts.length === 0, content: output.join('\n'), conflicts };
+}
+
+/**
+ * Content to apply when a proposal is approved: the proposed content as is
+ * while the document still matches the proposal's base, otherwise the
+ * three-way merge with the current document.
+ */
+export function mergeProposal(
+  base: string | null,
+  current: string | null,
+  proposed: string
+): MergeResult & { merged: boolean } {
+  if (current === null || current === base) {
+    return { clean: true, content: proposed, conflicts: [], merged: false };
+  }
+
+  return { ...threeWayMerge(base ?? '', current, proposed), merged: true };
+}
+
+/**
+ * Whether content still has the conflict markers threeWayMerge writes
+ */
+export function hasConflictMarkers(content: string): boolean {
+  return /^(<<<<<<< current|>>>>>>> proposed)$/m.test(content);
+}
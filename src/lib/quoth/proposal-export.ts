@@ -0,0 +1,400 @@
+/**
+ * Proposal Export
+ * Turns applied proposals back into repository changes so the knowledge base
+ * and the repo's docs folder stop diverging.
+ *
+ * Each proposal becomes one commit whose message carries the proposal's
+ * reasoning and evidence. Two formats:
+ *   - branch: commits on a new branch of a local clone. The commits are made in
+ *     a temporary `git worktree`, so the clone's checkout is never touched.
+ *   - patch:  one `git am`-ready patch per proposal. With a clone the patches
+ *     are based on the repo's current files; without one they are based on
+ *     each proposal's original content (scratch repository).
+ *
+ * Batches are exported in the order the proposals were applied.
+ */
+
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { supabase } from '../supabase';
+import type { CommitResult } from '../email';
+import { runGit } from './git';
+import { normalizeDocsPath } from './repo-sync';
+
+// ============ Types ============
+
+export type ProposalExportFormat = 'patch' | 'branch';
+
+export interface ExportableProposal {
+  id: string;
+  project_id: string;
+  file_path: string;
+  original_content: string | null;
+  proposed_content: string;
+  reasoning: string;
+  evidence_snippet: string | null;
+  reviewed_by: string | null;
+  applied_at: string | null;
+}
+
+export interface ProposalExportOptions {
+  format: ProposalExportFormat;
+  /** Local clone; required for branch exports */
+  worktree?: string;
+  /** Branch to create (branch format). Default: quoth/proposal-<id> or quoth/proposals-<date> */
+  branch?: string;
+  /** Commit the export starts from (default: HEAD) */
+  baseRef?: string;
+  /** Docs directory in the repo (default: projects.docs_path) */
+  docsPath?: string;
+  author?: { name: string; email: string };
+  /**
+   * Produce the commits/patches without creating the branch or recording the
+   * export on the proposals (branch commits are made on a detached worktree)
+   */
+  dryRun?: boolean;
+}
+
+export interface ExportedProposal {
+  proposalId: string;
+  repoPath: string;
+  commit: CommitResult;
+  /** format-patch output (patch format) */
+  patch?: string;
+}
+
+export interface ProposalExportResult {
+  format: ProposalExportFormat;
+  branch: string | null;
+  baseCommit: string | null;
+  exported: ExportedProposal[];
+  /** Proposals whose content already matches the repository */
+  skipped: Array<{ proposalId: string; repoPath: string; reason: string }>;
+}
+
+// ============ Configuration ============
+
+export const PROPOSAL_EXPORT_CONFIG = {
+  /** Commit identity when none is given */
+  defaultAuthor: { name: 'Quoth', email: 'quoth@triqual.dev' },
+  /** Evidence longer than this is truncated in commit messages */
+  maxEvidenceChars: 2000,
+};
+
+const PROPOSAL_COLUMNS =
+  'id, project_id, file_path, original_content, proposed_content, reasoning, evidence_snippet, reviewed_by, applied_at';
+
+// ============ Queries ============
+
+/**
+ * Applied proposals ready for export, oldest first.
+ * Without ids, returns every applied proposal not exported yet.
+ */
+export async function getExportableProposals(
+  projectId: string,
+  proposalIds?: string[]
+): Promise<ExportableProposal[]> {
+  let query = supabase
+    .from('document_proposals')
+    .select(PROPOSAL_COLUMNS)
+    .eq('project_id', projectId)
+    .eq('status', 'applied');
+
+  query = proposalIds?.length ? query.in('id', proposalIds) : query.is('exported_at', null);
+
+  const { data, error } = await query.order('applied_at', { ascending: true });
+  if (error) throw new Error(`Failed to load proposals: ${error.message}`);
+
+  const proposals = (data || []) as ExportableProposal[];
+  if (proposalIds?.length) {
+    const missing = proposalIds.filter((id) => !proposals.some((p) => p.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Not applied or not in this project: ${missing.join(', ')}`);
+    }
+  }
+  return proposals;
+}
+
+// ============ Formatting ============
+
+/**
+ * Commit message for a proposal: subject, reasoning, evidence and trailers
+ */
+export function buildCommitMessage(proposal: ExportableProposal, repoPath: string): string {
+  const verb = proposal.original_content === null ? 'add' : 'update';
+  const lines = [`docs: ${verb} ${repoPath}`, '', proposal.reasoning.trim()];
+
+  const evidence = proposal.evidence_snippet?.trim();
+  if (evidence) {
+    const truncated = evidence.length > PROPOSAL_EXPORT_CONFIG.maxEvidenceChars
+      ? `${evidence.slice(0, PROPOSAL_EXPORT_CONFIG.maxEvidenceChars)}\n[...]`
+      : evidence;
+    lines.push('', 'Evidence:', ...truncated.split('\n').map((line) => `    ${line}`.trimEnd()));
+  }
+
+  lines.push('', `Quoth-Proposal: ${proposal.id}`);
+  if (proposal.reviewed_by) lines.push(`Reviewed-by: ${proposal.reviewed_by}`);
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * GitHub commit URL for a project's github_repo ("owner/repo" or a github.com URL)
+ */
+export function githubCommitUrl(githubRepo: string | null | undefined, sha: string): string | undefined {
+  const match = githubRepo?.trim().match(/^(?:https?:\/\/github\.com\/)?([\w.-]+\/[\w.-]+?)(?:\.git)?\/?$/);
+  return match ? `https://github.com/${match[1]}/commit/${sha}` : undefined;
+}
+
+// ============ Export ============
+
+/**
+ * Whether `name` is a valid new branch name (git check-ref-format --branch),
+ * taken literally: no leading "-" and no @{-N} shorthand
+ */
+async function isValidBranchName(worktree: string, name: string): Promise<boolean> {
+  if (name.startsWith('-')) return false;
+  try {
+    return (await runGit(worktree, ['check-ref-format', '--branch', name])).trim() === name;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Export applied proposals as commits on a branch or as patch files
+ *
+ * @param projectId - Project the proposals belong to
+ * @param proposals - Proposals to export (see getExportableProposals)
+ * @param options - Format, clone, branch, docs directory
+ */
+export async function exportProposals(
+  projectId: string,
+  proposals: ExportableProposal[],
+  options: ProposalExportOptions
+): Promise<ProposalExportResult> {
+  if (proposals.length === 0) {
+    throw new Error('No applied proposals to export');
+  }
+  if (options.format === 'branch' && !options.worktree) {
+    throw new Error('Branch export needs a local clone of the repository');
+  }
+
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('docs_path, github_repo')
+    .eq('id', projectId)
+    .single();
+  if (error || !project) throw new Error(`Project not found: ${projectId}`);
+
+  const repoPaths = await resolveRepoPaths(
+    projectId,
+    proposals,
+    normalizeDocsPath(options.docsPath ?? project.docs_path ?? 'docs')
+  );
+
+  const author = options.author ?? PROPOSAL_EXPORT_CONFIG.defaultAuthor;
+  const env = {
+    GIT_AUTHOR_NAME: author.name,
+    GIT_AUTHOR_EMAIL: author.email,
+    GIT_COMMITTER_NAME: author.name,
+    GIT_COMMITTER_EMAIL: author.email,
+  };
+
+  const branch = options.format === 'branch'
+    ? options.branch || defaultBranchName(proposals)
+    : null;
+
+  // Checked before it reaches `git worktree add -b`, where "-..." would be an option
+  if (branch && !(await isValidBranchName(options.worktree!, branch))) {
+    throw new Error(`Invalid branch name: ${branch}`);
+  }
+  // A dry run creates no refs, so report the branch clash `-b` would have hit
+  if (branch && options.dryRun && (await branchExists(options.worktree!, branch))) {
+    throw new Error(`Branch already exists: ${branch}`);
+  }
+  const createBranch = branch !== null && !options.dryRun;
+
+  const tempDir = await mkdtemp(path.join(tmpdir(), 'quoth-export-'));
+  const workDir = path.join(tempDir, 'work');
+  let baseCommit: string | null = null;
+  let worktreeAdded = false;
+
+  const result: ProposalExportResult = {
+    format: options.format,
+    branch,
+    baseCommit: null,
+    exported: [],
+    skipped: [],
+  };
+
+  try {
+    if (options.worktree) {
+      baseCommit = (await runGit(options.worktree, [
+        'rev-parse', '--verify', '--end-of-options', `${options.baseRef || 'HEAD'}^{commit}`,
+      ])).trim();
+      await runGit(options.worktree, [
+        'worktree', 'add', '--quiet',
+        ...(createBranch ? ['-b', branch!] : ['--detach']),
+        workDir, baseCommit,
+      ]);
+      worktreeAdded = true;
+    } else {
+      await runGit(tempDir, ['init', '--quiet', workDir]);
+    }
+    result.baseCommit = baseCommit;
+
+    const seeded = new Set<string>();
+
+    for (const proposal of proposals) {
+      const repoPath = repoPaths.get(proposal.id)!;
+      const absolutePath = path.join(workDir, ...repoPath.split('/'));
+      await mkdir(path.dirname(absolutePath), { recursive: true });
+
+      // Scratch repository: commit the proposal's original content as the base
+      if (!options.worktree && !seeded.has(repoPath)) {
+        seeded.add(repoPath);
+        if (proposal.original_content !== null) {
+          await writeFile(absolutePath, proposal.original_content);
+          await runGit(workDir, ['add', '--', repoPath]);
+          await runGit(workDir, ['commit', '--quiet', '--no-verify', '-m', `base: ${repoPath}`], { env });
+        }
+      }
+
+      await writeFile(absolutePath, proposal.proposed_content);
+      await runGit(workDir, ['add', '--', repoPath]);
+
+      const staged = await runGit(workDir, ['diff', '--cached', '--name-only']);
+      if (!staged.trim()) {
+        result.skipped.push({ proposalId: proposal.id, repoPath, reason: 'Repository already has this content' });
+        continue;
+      }
+
+      await runGit(workDir, ['commit', '--quiet', '--no-verify', '-F', '-'], {
+        env,
+        input: buildCommitMessage(proposal, repoPath),
+      });
+      const sha = (await runGit(workDir, ['rev-parse', 'HEAD'])).trim();
+
+      result.exported.push({
+        proposalId: proposal.id,
+        repoPath,
+        commit: branch ? { sha, url: githubCommitUrl(project.github_repo, sha) } : {},
+        ...(options.format === 'patch' && {
+          patch: await runGit(workDir, ['format-patch', '-1', '--stdout', sha]),
+        }),
+      });
+    }
+  } catch (error) {
+    // Don't leave a half-written branch behind
+    if (createBranch && worktreeAdded) {
+      await removeWorktree(options.worktree!, workDir);
+      worktreeAdded = false;
+      await runGit(options.worktree!, ['branch', '-D', branch]).catch(() => {});
+    }
+    throw error;
+  } finally {
+    if (worktreeAdded) await removeWorktree(options.worktree!, workDir);
+    await rm(tempDir, { recursive: true, force: true });
+  }
+
+  // Nothing to commit: drop the empty branch
+  if (branch && result.exported.length === 0) {
+    if (createBranch) await runGit(options.worktree!, ['branch', '-D', branch]).catch(() => {});
+    result.branch = null;
+  }
+
+  if (!options.dryRun) {
+    await recordExport(result);
+  }
+
+  return result;
+}
+
+/**
+ * Repository path of each proposal's document: the path recorded by repository
+ * sync, else the knowledge base path under the docs directory
+ */
+async function resolveRepoPaths(
+  projectId: string,
+  proposals: ExportableProposal[],
+  docsPath: string
+): Promise<Map<string, string>> {
+  const filePaths = Array.from(new Set(proposals.map((p) => p.file_path)));
+  const { data } = await supabase
+    .from('documents')
+    .select('file_path, repo_path')
+    .eq('project_id', projectId)
+    .in('file_path', filePaths);
+
+  const synced = new Map(
+    ((data || []) as Array<{ file_path: string; repo_path: string | null }>)
+      .filter((doc) => doc.repo_path)
+      .map((doc) => [doc.file_path, doc.repo_path!])
+  );
+
+  const repoPaths = new Map<string, string>();
+  for (const proposal of proposals) {
+    const candidate = synced.get(proposal.file_path) ?? path.posix.join(docsPath, proposal.file_path);
+    let repoPath = '';
+    try {
+      if (!path.posix.isAbsolute(candidate)) repoPath = normalizeDocsPath(candidate);
+    } catch {
+      // Outside the repository, refused below
+    }
+    // '' is the repository root itself, not a file
+    if (!repoPath) {
+      throw new Error(`Proposal ${proposal.id} targets a path outside the repository: ${proposal.file_path}`);
+    }
+    repoPaths.set(proposal.id, repoPath);
+  }
+  return repoPaths;
+}
+
+function defaultBranchName(proposals: ExportableProposal[]): string {
+  return proposals.length === 1
+    ? `quoth/proposal-${proposals[0].id.slice(0, 8)}`
+    : `quoth/proposals-${new Date().toISOString().slice(0, 19).replace(/[-:T]/g, '')}`;
+}
+
+async function branchExists(repo: string, name: string): Promise<boolean> {
+  try {
+    await runGit(repo, ['rev-parse', '--verify', '--quiet', `refs/heads/${name}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function removeWorktree(repo: string, workDir: string): Promise<void> {
+  await runGit(repo, ['worktree', 'remove', '--force', workDir]).catch(() => {});
+  await runGit(repo, ['worktree', 'prune']).catch(() => {});
+}
+
+/**
+ * Mark exported (and already up-to-date) proposals so batches skip them next time
+ */
+async function recordExport(result: ProposalExportResult): Promise<void> {
+  const exportedAt = new Date().toISOString();
+  const items = [
+    ...result.exported,
+    ...result.skipped.map((item) => ({ proposalId: item.proposalId, commit: {} as CommitResult })),
+  ];
+
+  for (const item of items) {
+    const { error } = await supabase
+      .from('document_proposals')
+      .update({
+        exported_at: exportedAt,
+        export_format: result.format,
+        export_ref: result.branch,
+        ...(item.commit.sha && { commit_sha: item.commit.sha, commit_url: item.commit.url ?? null }),
+      })
+      .eq('id', item.proposalId);
+
+    if (error) {
+      console.error(`[Export] Failed to record export of proposal ${item.proposalId}:`, error.message);
+    }
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Proposal Review
+ * Threaded, line-anchored review comments and agent revisions of proposals.
+ *
+ * A reviewer comments on lines of proposed_content and may request changes.
+ * The authoring agent reads the threads (quoth_proposal_feedback), replies,
+ * and submits a new revision of the same proposal. Comments keep the
+ * revision and line text they were made against, so threads on lines that
+ * a later revision changed are shown as outdated rather than re-anchored.
+ */
+
+import { supabase } from '../supabase';
+import { getApprovalPolicy, canReview } from './approval-policy';
+import type { LintResult } from './doc-lint';
+import type { PatchOperation } from './types';
+
+export type CommentAuthorType = 'user' | 'agent';
+
+export interface ProposalComment {
+  id: string;
+  proposal_id: string;
+  parent_id: string | null;
+  revision: number;
+  /** 1-based line of proposed_content at `revision`, null for general comments */
+  line: number | null;
+  line_text: string | null;
+  body: string;
+  author_type: CommentAuthorType;
+  author_id: string | null;
+  author_name: string;
+  resolved: boolean;
+  created_at: string;
+}
+
+export interface CommentThread extends ProposalComment {
+  replies: ProposalComment[];
+  /** Anchored to an earlier revision */
+  outdated: boolean;
+}
+
+/** Proposal fields needed to comment on or revise it */
+export interface ReviewableProposal {
+  id: string;
+  project_id: string;
+  status: string;
+  revision: number;
+  proposed_content: string;
+  reasoning: string;
+  patch: PatchOperation[] | null;
+  lint_findings: LintResult | null;
+}
+
+export interface NewComment {
+  body: string;
+  line?: number | null;
+  parent_id?: string | null;
+  author_type: CommentAuthorType;
+  author_id: string | null;
+  author_name: string;
+}
+
+export interface ProposalRevision {
+  proposed_content: string;
+  reasoning?: string;
+  /** Patch operations for this revision, relative to the previous one */
+  operations?: PatchOperation[];
+  lint: LintResult;
+  /**
+   * Document the revision was written against. Becomes the proposal's merge
+   * base, so a revision that resolves a conflict applies on approval.
+   */
+  base?: { content: string; checksum: string };
+}
+
+const COMMENT_COLUMNS =
+  'id, proposal_id, parent_id, revision, line, line_text, body, author_type, author_id, author_name, resolved, created_at';
+
+/** Statuses in which the authoring agent may submit a revision */
+export const REVISABLE_STATUSES = ['pending', 'changes_requested', 'rejected', 'conflict'];
+
+/**
+ * Group comments into top-level threads (oldest first) with their replies.
+ * Replies to replies are flattened into the thread of their root comment.
+ */
+export function buildCommentThreads(comments: ProposalComment[], currentRevision: number): CommentThread[] {
+  const byId = new Map(comments.map((comment) => [comment.id, comment]));
+  const ordered = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  const rootOf = (comment: ProposalComment): ProposalComment => {
+    let current = comment;
+    const seen = new Set<string>();
+    while (current.parent_id && byId.has(current.parent_id) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.parent_id)!;
+    }
+    return current;
+  };
+
+  const threads = new Map<string, CommentThread>();
+  for (const comment of ordered) {
+    const root = rootOf(comment);
+    if (root.id === comment.id) {
+      threads.set(comment.id, { ...comment, replies: [], outdated: comment.revision < currentRevision });
+    }
+  }
+  for (const comment of ordered) {
+    const root = rootOf(comment);
+    if (root.id !== comment.id) threads.get(root.id)?.replies.push(comment);
+  }
+
+  return [...threads.values()];
+}
+
+/**
+ * Anchor for a comment on `line` of `content`. Throws when the line does not exist.
+ */
+export function anchorComment(content: string, line: number): { line: number; line_text: string } {
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+
+  if (!Number.isInteger(line) || line < 1 || line > lines.length) {
+    throw new Error(`Line ${line} is outside the proposal (${lines.length} lines)`);
+  }
+
+  return { line, line_text: lines[line - 1] };
+}
+
+/**
+ * Markdown listing of threads for tool output. Open threads come first.
+ */
+export function formatCommentThreads(threads: CommentThread[]): string {
+  if (threads.length === 0) {
+    return 'No review comments.';
+  }
+
+  const ordered = [...threads].sort((a, b) => Number(a.resolved) - Number(b.resolved));
+
+  return ordered
+    .map((thread) => {
+      const anchor = thread.line !== null
+        ? `Line ${thread.line}${thread.line_text ? `: \`${thread.line_text.trim().slice(0, 80)}\`` : ''}`
+        : 'General';
+      const flags = [
+        thread.resolved ? 'resolved' : 'open',
+        ...(thread.outdated ? [`outdated, revision ${thread.revision}`] : []),
+      ].join(', ');
+
+      const entries = [thread, ...thread.replies].map((comment, index) => {
+        const author = comment.author_type === 'agent' ? `🤖 ${comment.author_name}` : comment.author_name;
+        return `${index === 0 ? '' : '  '}- **${author}**: ${comment.body.replace(/\n/g, ' ')}`;
+      });
+
+      return `#### ${anchor} (${flags})\n*id: \`${thread.id}\`*\n${entries.join('\n')}`;
+    })
+    .join('\n\n');
+}
+
+export async function getProposalComments(proposalId: string): Promise<ProposalComment[]> {
+  const { data, error } = await supabase
+    .from('proposal_comments')
+    .select(COMMENT_COLUMNS)
+    .eq('proposal_id', proposalId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load comments: ${error.message}`);
+  }
+
+  return (data || []) as ProposalComment[];
+}
+
+/**
+ * Add a comment or reply. Replies take their thread's anchor; top-level
+ * comments may anchor to a line of the current revision.
+ */
+export async function addProposalComment(
+  proposal: Pick<ReviewableProposal, 'id' | 'revision' | 'proposed_content'>,
+  comment: NewComment
+): Promise<ProposalComment> {
+  let anchor: { line: number | null; line_text: string | null } = { line: null, line_text: null };
+
+  if (comment.parent_id) {
+    const { data: parent } = await supabase
+      .from('proposal_comments')
+      .select('id')
+      .eq('id', comment.parent_id)
+      .eq('proposal_id', proposal.id)
+      .maybeSingle();
+
+    if (!parent) {
+      throw new Error(`Comment ${comment.parent_id} not found on this proposal`);
+    }
+  } else if (comment.line != null) {
+    anchor = anchorComment(proposal.proposed_content, comment.line);
+  }
+
+  const { data, error } = await supabase
+    .from('proposal_comments')
+    .insert({
+      proposal_id: proposal.id,
+      parent_id: comment.parent_id ?? null,
+      revision: proposal.revision,
+      ...anchor,
+      body: comment.body,
+      author_type: comment.author_type,
+      author_id: comment.author_id,
+      author_name: comment.author_name,
+    })
+    .select(COMMENT_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to add comment: ${error?.message ?? 'no row returned'}`);
+  }
+
+  return data as ProposalComment;
+}
+
+/**
+ * Mark the thread containing `commentId` (the comment or one of its replies)
+ * resolved. Returns the id of the thread's root comment.
+ */
+export async function resolveCommentThread(proposalId: string, commentId: string): Promise<string> {
+  const threads = buildCommentThreads(await getProposalComments(proposalId), 0);
+  const thread = threads.find((t) => t.id === commentId || t.replies.some((reply) => reply.id === commentId));
+
+  if (!thread) {
+    throw new Error(`Comment ${commentId} not found on this proposal`);
+  }
+
+  const { error } = await supabase
+    .from('proposal_comments')
+    .update({ resolved: true })
+    .eq('id', thread.id)
+    .eq('proposal_id', proposalId);
+
+  if (error) {
+    throw new Error(`Failed to resolve thread: ${error.message}`);
+  }
+
+  return thread.id;
+}
+
+/**
+ * Whether a project member may revise a proposal: its author, or a reviewer
+ * of its path under the project's approval policy.
+ */
+export async function canReviseProposal(
+  proposal: { project_id: string; file_path: string; proposed_by: string | null },
+  userId: string,
+  role: string
+): Promise<boolean> {
+  if (proposal.proposed_by && proposal.proposed_by === userId) return true;
+
+  const policy = await getApprovalPolicy(proposal.project_id, proposal.file_path);
+  return canReview(policy, userId, role);
+}
+
+/**
+ * Replace the proposal's content with a new revision and reopen it for review.
+ * The superseded revision is kept in proposal_revisions. Returns the new
+ * revision number.
+ */
+export async function reviseProposal(proposal: ReviewableProposal, revision: ProposalRevision): Promise<number> {
+  if (!REVISABLE_STATUSES.includes(proposal.status)) {
+    throw new Error(`Cannot revise a proposal with status: ${proposal.status}`);
+  }
+
+  const { error: archiveError } = await supabase
+    .from('proposal_revisions')
+    .insert({
+      proposal_id: proposal.id,
+      revision: proposal.revision,
+      proposed_content: proposal.proposed_content,
+      reasoning: proposal.reasoning,
+      patch: proposal.patch,
+      lint_findings: proposal.lint_findings,
+    });
+
+  if (archiveError) {
+    // Unique (proposal_id, revision): another revision was submitted concurrently
+    throw new Error(`Failed to save revision ${proposal.revision}: ${archiveError.message}`);
+  }
+
+  // Operations on top of a patch proposal still describe the whole change
+  const patch = revision.operations && proposal.patch
+    ? [...proposal.patch, ...revision.operations]
+    : null;
+
+  const next = proposal.revision + 1;
+  const { error } = await supabase
+    .from('document_proposals')
+    .update({
+      proposed_content: revision.proposed_content,
+      ...(revision.reasoning && { reasoning: revision.reasoning }),
+      patch,
+      lint_findings: revision.lint,
+      ...(revision.base && {
+        original_content: revision.base.content,
+        base_checksum: revision.base.checksum,
+      }),
+      revision: next,
+      status: 'pending',
+      conflicts: null,
+      rejection_reason: null,
+      reviewed_at: null,
+      reviewed_by: null,
+    })
+    .eq('id', proposal.id)
+    .eq('revision', proposal.revision);
+
+  if (error) {
+    throw new Error(`Failed to revise proposal: ${error.message}`);
+  }
+
+  return next;
+}
@@ -0,0 +1,205 @@
+/**
+ * MCP Rate Limit Quotas
+ * Per-project request quotas for each API key and each agent.
+ *
+ * Every MCP request is charged to the caller's API key (OAuth sessions are
+ * keyed by user) and, when the request names an agent, to that agent too.
+ * A quota naming the key or agent wins over the project's default for the
+ * scope; keys without any rule get RateLimits.MCP_API_KEY and agents without
+ * a rule are not limited separately.
+ *
+ * The agent is named by the client (X-Quoth-Agent header or agent_id
+ * argument), so agent quotas are advisory: they pace well-behaved agents
+ * sharing a key, while the key quota is the enforced limit. Agent buckets
+ * are kept per key, so one key cannot use up another key's agent quota, and
+ * agents without a rule of their own share one default bucket per key, so
+ * inventing agent names neither escapes the default nor creates buckets.
+ */
+
+import { z } from 'zod';
+import { supabase, replaceProjectRows } from '../supabase';
+import {
+  checkRateLimit,
+  refundRateLimit,
+  RateLimits,
+  type RateLimitOptions,
+  type RateLimitResult,
+} from '../rate-limit';
+
+export type QuotaScope = 'api_key' | 'agent';
+
+export const RateLimitQuotaInputSchema = z.object({
+  scope: z.enum(['api_key', 'agent']),
+  subject: z.string().trim().min(1).max(200).nullable().default(null),
+  algorithm: z.enum(['sliding_window', 'token_bucket']).default('sliding_window'),
+  max_requests: z.number().int().min(1).max(100000),
+  window_seconds: z.number().int().min(1).max(86400),
+});
+
+export type RateLimitQuotaInput = z.infer<typeof RateLimitQuotaInputSchema>;
+
+/** rate_limit_quotas row */
+export interface RateLimitQuota extends RateLimitQuotaInput {
+  id: string;
+}
+
+/** Caller identity an MCP request is charged to */
+export interface QuotaSubject {
+  projectId: string;
+  /** project_api_keys.id, or `user:<id>` for OAuth sessions */
+  keyId: string;
+  agentId?: string | null;
+}
+
+export interface QuotaDecision {
+  allowed: boolean;
+  /** The most restrictive limit applied, for response headers */
+  result: RateLimitResult;
+  options: RateLimitOptions;
+  scope: QuotaScope;
+}
+
+// Cache quota lookups for 1 minute so each MCP request doesn't re-read them
+const quotaCache = new Map<string, { quotas: RateLimitQuota[]; expiresAt: number }>();
+const QUOTA_CACHE_TTL_MS = 60 * 1000;
+
+function toOptions(quota: RateLimitQuota): RateLimitOptions {
+  return {
+    windowMs: quota.window_seconds * 1000,
+    maxRequests: quota.max_requests,
+    algorithm: quota.algorithm,
+  };
+}
+
+/**
+ * Quota for one subject of a scope: its own rule, else the scope default.
+ */
+export function resolveQuota(
+  quotas: RateLimitQuota[],
+  scope: QuotaScope,
+  subject: string
+): RateLimitOptions | null {
+  const rule =
+    quotas.find((q) => q.scope === scope && q.subject === subject) ??
+    quotas.find((q) => q.scope === scope && q.subject === null);
+
+  if (rule) return toOptions(rule);
+  return scope === 'api_key' ? RateLimits.MCP_API_KEY : null;
+}
+
+export async function getRateLimitQuotas(projectId: string): Promise<RateLimitQuota[]> {
+  const { data, error } = await supabase
+    .from('rate_limit_quotas')
+    .select('id, scope, subject, algorithm, max_requests, window_seconds')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load rate limit quotas: ${error.message}`);
+  }
+
+  return (data || []) as RateLimitQuota[];
+}
+
+async function getCachedQuotas(projectId: string): Promise<RateLimitQuota[]> {
+  const cached = quotaCache.get(projectId);
+  if (cached && Date.now() < cached.expiresAt) {
+    return cached.quotas;
+  }
+
+  let quotas: RateLimitQuota[] = [];
+  try {
+    quotas = await getRateLimitQuotas(projectId);
+  } catch (error) {
+    // Fall back to the defaults rather than refusing requests
+    console.error('[RateLimit] Could not load project quotas:', error);
+  }
+
+  quotaCache.set(projectId, { quotas, expiresAt: Date.now() + QUOTA_CACHE_TTL_MS });
+  return quotas;
+}
+
+/**
+ * Replace a project's quotas with `quotas`, in one transaction.
+ */
+export async function replaceRateLimitQuotas(
+  projectId: string,
+  quotas: RateLimitQuotaInput[],
+  userId: string
+): Promise<RateLimitQuota[]> {
+  await replaceProjectRows(
+    'rate_limit_quotas',
+    projectId,
+    quotas.map((quota) => ({ ...quota, created_by: userId }))
+  );
+
+  quotaCache.delete(projectId);
+  return getRateLimitQuotas(projectId);
+}
+
+/**
+ * Charge one MCP request to the caller's key and agent quotas.
+ * Refused as soon as one quota is exhausted, in which case the quotas already
+ * charged are refunded (a refused request costs nothing); otherwise reports
+ * the quota with the fewest requests remaining.
+ */
+export async function enforceMcpQuotas(subject: QuotaSubject): Promise<QuotaDecision> {
+  const quotas = await getCachedQuotas(subject.projectId);
+
+  const checks: Array<{ scope: QuotaScope; key: string; options: RateLimitOptions }> = [{
+    scope: 'api_key',
+    key: `mcp:${subject.projectId}:key:${subject.keyId}`,
+    options: resolveQuota(quotas, 'api_key', subject.keyId) ?? RateLimits.MCP_API_KEY,
+  }];
+  if (subject.agentId) {
+    const agentOptions = resolveQuota(quotas, 'agent', subject.agentId);
+    if (agentOptions) {
+      const named = quotas.some((q) => q.scope === 'agent' && q.subject === subject.agentId);
+      checks.push({
+        scope: 'agent',
+        key: `mcp:${subject.projectId}:key:${subject.keyId}:agent:${named ? subject.agentId : '*'}`,
+        options: agentOptions,
+      });
+    }
+  }
+
+  let tightest: QuotaDecision | undefined;
+  for (const [index, check] of checks.entries()) {
+    const result = await checkRateLimit(check.key, check.options);
+    const decision = { allowed: result.allowed, result, options: check.options, scope: check.scope };
+    if (!result.allowed) {
+      await Promise.all(checks.slice(0, index).map((charged) => refundRateLimit(charged.key, charged.options)));
+      return decision;
+    }
+    if (!tightest || result.remaining < tightest.result.remaining) tightest = decision;
+  }
+
+  return tightest!;
+}
+
+interface JsonRpcMessage {
+  method?: string;
+  params?: { arguments?: { agent_id?: unknown } };
+}
+
+/**
+ * Agent an MCP request is made for: the X-Quoth-Agent header, else the
+ * agent_id argument of a tools/call request. Client-supplied, not verified.
+ */
+export async function getRequestAgentId(req: Request): Promise<string | null> {
+  const header = req.headers.get('x-quoth-agent');
+  if (header) return header.trim().slice(0, 200) || null;
+  if (req.method !== 'POST') return null;
+
+  try {
+    const body: unknown = await req.clone().json();
+    const messages = (Array.isArray(body) ? body : [body]) as Array<JsonRpcMessage | null>;
+    for (const message of messages) {
+      const agentId = message?.method === 'tools/call' ? message.params?.arguments?.agent_id : undefined;
+      if (typeof agentId === 'string' && agentId) return agentId.slice(0, 200);
+    }
+  } catch {
+    // Not JSON (or empty); nothing to attribute
+  }
+  return null;
+}
@@ -0,0 +1,372 @@
+/**
+ * Repository Sync
+ * Indexes a project's docs directory straight from git.
+ *
+ * A sync reads every markdown file under the docs directory at one commit
+ * (from a local working tree or an uploaded git bundle), compares it with the
+ * stored checksum, re-syncs changed files through syncDocument, deletes
+ * repository-managed documents whose file is gone from the docs directory,
+ * and stamps every synced document with the commit SHA
+ * (documents.last_verified_commit).
+ *
+ * Content is read from the commit, not the working tree, so uncommitted edits
+ * are never indexed under a commit they are not part of.
+ */
+
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import matter from 'gray-matter';
+import { supabase } from '../supabase';
+import { syncDocument, deleteDocument, calculateChecksum } from '../sync';
+import { logActivity } from './activity';
+import { runGit as git } from './git';
+
+// ============ Types ============
+
+/**
+ * Where the repository comes from
+ * - worktree: a local clone (any directory inside it)
+ * - bundle: a file created with `git bundle create docs.bundle HEAD`
+ */
+export type RepoSource =
+  | { type: 'worktree'; path: string }
+  | { type: 'bundle'; path: string };
+
+export interface RepoSyncOptions {
+  /** Docs directory relative to the repo root (defaults to projects.docs_path) */
+  docsPath?: string;
+  /** Commit-ish to read (default: HEAD) */
+  ref?: string;
+  /** Report what would change without writing anything */
+  dryRun?: boolean;
+  userId?: string;
+}
+
+export interface RepoSyncResult {
+  commit: string;
+  docsPath: string;
+  dryRun: boolean;
+  /** Knowledge base paths (relative to the docs directory) */
+  added: string[];
+  updated: string[];
+  deleted: string[];
+  unchanged: number;
+  failed: Array<{ path: string; error: string }>;
+  chunksIndexed: number;
+  durationMs: number;
+}
+
+interface StoredDocument {
+  id: string;
+  file_path: string;
+  checksum: string;
+  repo_path: string | null;
+  embeddings_incomplete: boolean;
+  version: number;
+}
+
+// ============ Configuration ============
+
+export const REPO_SYNC_CONFIG = {
+  /** Only these files are indexed */
+  extensions: ['.md'],
+  /** Uploaded bundles above this size are rejected */
+  maxBundleBytes: 50 * 1024 * 1024,
+};
+
+// ============ Paths ============
+
+/**
+ * Normalize a docs directory to a repo-relative POSIX path ('' = repo root)
+ */
+export function normalizeDocsPath(docsPath: string): string {
+  const normalized = path.posix.normalize(docsPath.trim().replace(/\\/g, '/')).replace(/^\/+|\/+$/g, '');
+  if (normalized === '.' || normalized === '') return '';
+  if (normalized === '..' || normalized.startsWith('../')) {
+    throw new Error(`Docs path must stay inside the repository: ${docsPath}`);
+  }
+  return normalized;
+}
+
+/**
+ * Knowledge base path for a repository file: its path relative to the docs directory
+ */
+export function toKnowledgeBasePath(repoPath: string, docsPath: string): string {
+  return docsPath ? path.posix.relative(docsPath, repoPath) : repoPath;
+}
+
+/**
+ * Whether a repository file is inside the docs directory
+ */
+function isInDocsPath(repoPath: string, docsPath: string): boolean {
+  return !docsPath || repoPath.startsWith(`${docsPath}/`);
+}
+
+/**
+ * Document title: frontmatter title or id, else the file name
+ */
+export function extractRepoDocTitle(repoPath: string, content: string): string {
+  try {
+    const { data } = matter(content);
+    if (typeof data.title === 'string' && data.title.trim()) return data.title.trim();
+    if (typeof data.id === 'string' && data.id.trim()) return data.id.trim();
+  } catch {
+    // Malformed frontmatter, fall back to the file name
+  }
+  return path.posix.basename(repoPath).replace(/\.md$/i, '');
+}
+
+/**
+ * Resolve the commit and list markdown files under the docs directory at it
+ */
+async function readTree(
+  gitDir: string,
+  ref: string,
+  docsPath: string
+): Promise<{ commit: string; files: string[] }> {
+  const commit = (await git(gitDir, ['rev-parse', '--verify', '--end-of-options', `${ref}^{commit}`])).trim();
+  const listing = await git(gitDir, [
+    'ls-tree', '-r', '-z', '--name-only', commit,
+    ...(docsPath ? ['--', docsPath] : []),
+  ]);
+
+  const files = listing
+    .split('\0')
+    .filter((file) => file && REPO_SYNC_CONFIG.extensions.some((ext) => file.toLowerCase().endsWith(ext)))
+    .sort();
+
+  return { commit, files };
+}
+
+/**
+ * Run `fn` against a git directory for the source. Bundles are cloned into a
+ * temporary bare repository that is removed afterwards.
+ */
+export async function withGitDir<T>(source: RepoSource, fn: (gitDir: string) => Promise<T>): Promise<T> {
+  if (source.type === 'worktree') {
+    return fn(source.path);
+  }
+
+  const tempDir = await mkdtemp(path.join(tmpdir(), 'quoth-bundle-'));
+  try {
+    await git(tempDir, ['clone', '--bare', '--quiet', path.resolve(source.path), 'repo.git']);
+    return await fn(path.join(tempDir, 'repo.git'));
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Run `fn` against a git bundle uploaded as the request body (repo sync, drift
+ * and staleness scan routes). The bundle is written to a temporary file that
+ * is removed afterwards; an empty or oversized body is answered with 400/413
+ * without calling `fn`.
+ */
+export async function withUploadedBundle(
+  request: Request,
+  fn: (source: RepoSource) => Promise<Response>
+): Promise<Response> {
+  const bundle = Buffer.from(await request.arrayBuffer());
+
+  if (bundle.length === 0) {
+    return Response.json({ error: 'Request body must be a git bundle' }, { status: 400 });
+  }
+  if (bundle.length > REPO_SYNC_CONFIG.maxBundleBytes) {
+    const maxMb = REPO_SYNC_CONFIG.maxBundleBytes / (1024 * 1024);
+    return Response.json({ error: `Bundle too large (max ${maxMb}MB)` }, { status: 413 });
+  }
+
+  const tempDir = await mkdtemp(path.join(tmpdir(), 'quoth-upload-'));
+  try {
+    const bundlePath = path.join(tempDir, 'upload.bundle');
+    await writeFile(bundlePath, bundle);
+    return await fn({ type: 'bundle', path: bundlePath });
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+// ============ Sync ============
+
+/**
+ * Sync a project's knowledge base with the docs directory of a git repository
+ *
+ * @param projectId - Project to sync into
+ * @param source - Local working tree or git bundle
+ * @param options - Docs directory, ref, dry run
+ */
+export async function syncRepository(
+  projectId: string,
+  source: RepoSource,
+  options: RepoSyncOptions = {}
+): Promise<RepoSyncResult> {
+  const startedAt = Date.now();
+
+  let configuredDocsPath = options.docsPath;
+  if (configuredDocsPath === undefined) {
+    const { data: project, error } = await supabase
+      .from('projects')
+      .select('docs_path')
+      .eq('id', projectId)
+      .single();
+    if (error || !project) throw new Error(`Project not found: ${projectId}`);
+    configuredDocsPath = project.docs_path || 'docs';
+  }
+  const docsPath = normalizeDocsPath(configuredDocsPath!);
+
+  const { commit, contents } = await withGitDir(source, async (gitDir) => {
+    const tree = await readTree(gitDir, options.ref || 'HEAD', docsPath);
+    const contents = new Map<string, string>();
+    for (const file of tree.files) {
+      contents.set(file, await git(gitDir, ['show', `${tree.commit}:${file}`]));
+    }
+    return { commit: tree.commit, contents };
+  });
+
+  // An empty tree almost always means a wrong docs path; never treat it as "delete everything"
+  if (contents.size === 0) {
+    throw new Error(`No markdown files under "${docsPath || '.'}" at ${commit.slice(0, 12)}. Check the project's docs_path.`);
+  }
+
+  const { data: stored, error: storedError } = await supabase
+    .from('documents')
+    .select('id, file_path, checksum, repo_path, embeddings_incomplete, version')
+    .eq('project_id', projectId);
+  if (storedError) throw new Error(`Failed to load documents: ${storedError.message}`);
+
+  const storedByPath = new Map(((stored || []) as StoredDocument[]).map((doc) => [doc.file_path, doc]));
+  const result: RepoSyncResult = {
+    commit,
+    docsPath: docsPath || '.',
+    dryRun: Boolean(options.dryRun),
+    added: [],
+    updated: [],
+    deleted: [],
+    unchanged: 0,
+    failed: [],
+    chunksIndexed: 0,
+    durationMs: 0,
+  };
+
+  // 1. Add / update changed files
+  const seen = new Set<string>();
+  const verifiedIds: string[] = [];
+  const verifications: Array<{ document_id: string; version: number }> = [];
+
+  for (const [repoPath, content] of contents) {
+    const filePath = toKnowledgeBasePath(repoPath, docsPath);
+    const existing = storedByPath.get(filePath);
+    seen.add(filePath);
+
+    if (existing && existing.checksum === calculateChecksum(content) && !existing.embeddings_incomplete) {
+      result.unchanged++;
+      if (options.dryRun) continue;
+      verifications.push({ document_id: existing.id, version: existing.version });
+      if (existing.repo_path === repoPath) {
+        verifiedIds.push(existing.id);
+      } else {
+        await stampDocument(existing.id, repoPath, commit);
+      }
+      continue;
+    }
+
+    (existing ? result.updated : result.added).push(filePath);
+    if (options.dryRun) continue;
+
+    try {
+      const { document, chunksIndexed } = await syncDocument(
+        projectId,
+        filePath,
+        extractRepoDocTitle(repoPath, content),
+        content,
+        undefined,
+        undefined,
+        undefined,
+        { userId: options.userId, source: 'repo_sync' }
+      );
+      result.chunksIndexed += chunksIndexed;
+      await stampDocument(document.id, repoPath, commit);
+      if (document.version !== undefined) {
+        verifications.push({ document_id: document.id, version: document.version });
+      }
+    } catch (error) {
+      result.failed.push({ path: filePath, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  // 2. Unchanged documents are verified at this commit too
+  if (verifiedIds.length > 0) {
+    const { error } = await supabase
+      .from('documents')
+      .update({ last_verified_commit: commit })
+      .in('id', verifiedIds);
+    if (error) throw new Error(`Failed to record verified commit: ${error.message}`);
+  }
+
+  // Kept per commit, so as_of=<commit> finds the version for any synced commit
+  if (verifications.length > 0) {
+    const verifiedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('document_verifications')
+      .upsert(
+        verifications.map((row) => ({ ...row, commit_sha: commit, verified_at: verifiedAt })),
+        { onConflict: 'document_id,commit_sha' }
+      );
+    if (error) throw new Error(`Failed to record verified commits: ${error.message}`);
+  }
+
+  // 3. Delete repository-managed documents whose file is gone. Documents
+  // synced from outside this docs directory (an earlier docs_path, or a sync
+  // of another subdirectory) are not this sync's to delete.
+  for (const doc of storedByPath.values()) {
+    if (!doc.repo_path || seen.has(doc.file_path)) continue;
+    if (!isInDocsPath(doc.repo_path, docsPath)) continue;
+    result.deleted.push(doc.file_path);
+    if (options.dryRun) continue;
+
+    if (!(await deleteDocument(projectId, doc.file_path))) {
+      result.failed.push({ path: doc.file_path, error: 'Failed to delete document' });
+    }
+  }
+
+  result.durationMs = Date.now() - startedAt;
+  if (options.dryRun) return result;
+
+  await supabase
+    .from('projects')
+    .update({ repo_synced_commit: commit, repo_synced_at: new Date().toISOString() })
+    .eq('id', projectId);
+
+  logActivity({
+    projectId,
+    userId: options.userId,
+    eventType: 'repo_sync',
+    query: `repo:${commit.slice(0, 12)}`,
+    resultCount: result.added.length + result.updated.length + result.deleted.length,
+    responseTimeMs: result.durationMs,
+    toolName: source.type === 'bundle' ? 'repo_sync_bundle' : 'repo_sync_worktree',
+    context: {
+      commit,
+      docs_path: result.docsPath,
+      added: result.added.length,
+      updated: result.updated.length,
+      deleted: result.deleted.length,
+      unchanged: result.unchanged,
+      failed: result.failed.length,
+    },
+  });
+
+  return result;
+}
+
+/**
+ * Mark a document as managed by repository sync and verified at `commit`
+ */
+async function stampDocument(documentId: string, repoPath: string, commit: string): Promise<void> {
+  const { error } = await supabase
+    .from('documents')
+    .update({ repo_path: repoPath, last_verified_commit: commit })
+    .eq('id', documentId);
+  if (error) throw new Error(`Failed to record repository path: ${error.message}`);
+}
@@ -1,12 +1,20 @@
 /**
  * Quoth Search Module
- * Advanced RAG pipeline: Jina Embeddings (512d) -> Supabase Vector Search -> Cohere Rerank
+ * Advanced RAG pipeline: Provider Embeddings (512d, text + code spaces) + Postgres Full-Text -> Reciprocal Rank Fusion -> Cohere Rerank
  * Enforces multi-tenant isolation via projectId parameter
  */
 
 import { supabase, isSupabaseConfigured, type MatchResult, type ChunkByIdResult } from '../supabase';
-// AI module imported dynamically in search functions
-import type { DocumentReference, QuothDocument, ChunkReference, ChunkData, ChunkMetadata } from './types';
+import type {
+  DocumentReference,
+  QuothDocument,
+  ChunkReference,
+  ChunkData,
+  ChunkMetadata,
+  DocumentFrontmatter,
+  SearchFiltersInput,
+} from './types';
+import { getEmbeddingProviderForProject, type ContentType, type EmbeddingProvider } from '../embeddings';
 import {
   checkUsageLimit,
   incrementUsage,
@@ -32,11 +40,38 @@ const cohere = process.env.COHERE_API_KEY
   ? new CohereClient({ token: process.env.COHERE_API_KEY }) 
   : null;
 
+/**
+ * Candidate retrieval strategy.
+ * - hybrid: vector + full-text candidates fused with reciprocal rank fusion (default)
+ * - vector: vector similarity only
+ */
+export type SearchMode = 'hybrid' | 'vector';
+
 /**
  * Optional context for search operations (tier gating, genesis mode, etc.)
  */
 export interface SearchContext {
   isGenesis?: boolean;
+  mode?: SearchMode;
+  filters?: SearchFilters;
+}
+
+/**
+ * Document metadata filters, applied inside the retrieval RPCs
+ * (before ranking, so filtered-out documents never take candidate slots)
+ */
+export interface SearchFilters {
+  docTypes?: DocumentFrontmatter['type'][];
+  /** Path prefix ("contracts/") or glob ("patterns/*.md") */
+  path?: string;
+  status?: DocumentFrontmatter['status'][];
+  excludeStatus?: DocumentFrontmatter['status'][];
+  /** Matches documents whose related_stack contains any of these */
+  relatedStack?: string[];
+  /** Matches documents tagged with any of these */
+  tags?: string[];
+  /** ISO timestamp; only documents updated at or after it */
+  updatedSince?: string;
 }
 
 /**
@@ -49,18 +84,146 @@ export interface SearchResultWithMeta {
   usedFallback?: boolean;     // True if keyword fallback was used
 }
 
+/**
+ * Convert validated tool/API filter input (snake_case, single or list values)
+ * into SearchFilters
+ */
+export function toSearchFilters(input: SearchFiltersInput): SearchFilters {
+  const list = <T>(value: T | T[] | undefined): T[] | undefined =>
+    value === undefined ? undefined : Array.isArray(value) ? value : [value];
+
+  return {
+    docTypes: list(input.doc_type),
+    path: input.path,
+    status: list(input.status),
+    excludeStatus: list(input.exclude_status),
+    relatedStack: list(input.related_stack),
+    tags: list(input.tags),
+    updatedSince: input.updated_since ? new Date(input.updated_since).toISOString() : undefined,
+  };
+}
+
+/**
+ * True when at least one filter would narrow the search
+ */
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return Object.keys(toFilterParams(filters)).length > 0;
+}
+
 // Default search configuration
-const SEARCH_CONFIG = {
+export const SEARCH_CONFIG = {
   initialFetchCount: 50,    // Fetch more for reranking
   minMatchCount: 15,        // Return at least 15
   maxMatchCount: 30,        // But no more than 30
   highRelevanceThreshold: 0.65, // Keep returning if above 65% (MEDIUM+)
   minRerankScore: 0.5,      // Minimum threshold for any result
   matchThreshold: 0.5,      // Fallback vector threshold
+  rrfK: 60,                 // Reciprocal rank fusion damping constant
+  keywordRelevance: 0.5,    // Relevance of keyword-only hits (no comparable score)
+  highTrustRelevance: 0.8,  // Above: HIGH trust
+  mediumTrustRelevance: 0.6, // Above: MEDIUM trust, else LOW
 };
 
+export type TrustLevel = 'HIGH' | 'MEDIUM' | 'LOW';
+
+/**
+ * Trust level of a result from its relevance (vector similarity or rerank score)
+ */
+export function trustLevel(relevance: number): TrustLevel {
+  return relevance > SEARCH_CONFIG.highTrustRelevance ? 'HIGH'
+    : relevance > SEARCH_CONFIG.mediumTrustRelevance ? 'MEDIUM'
+    : 'LOW';
+}
+
 /**
- * Search documents using vector similarity + Cohere Rerank
+ * A search query embedded in one of the provider's embedding spaces
+ */
+export interface QueryEmbedding {
+  space: ContentType;
+  model: string;
+  embedding: number[];
+}
+
+/**
+ * Embed a query in every embedding space chunks are stored in.
+ * Sync embeds each chunk with the provider's text or code model depending on
+ * its content, so the query is embedded with both models in parallel (once when
+ * the provider uses the same model for both). A space whose query embedding
+ * fails is skipped; the search only fails when no space could be embedded.
+ */
+export async function embedQuerySpaces(
+  provider: EmbeddingProvider,
+  query: string
+): Promise<QueryEmbedding[]> {
+  const spaces: ContentType[] = provider.modelFor('text') === provider.modelFor('code')
+    ? ['text']
+    : ['text', 'code'];
+
+  const settled = await Promise.allSettled(
+    spaces.map(async (space) => ({
+      space,
+      model: provider.modelFor(space),
+      embedding: await provider.embedQuery(query, space),
+    }))
+  );
+
+  const embedded = settled.flatMap((outcome) => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+  if (embedded.length === 0) {
+    const reason = (settled[0] as PromiseRejectedResult).reason;
+    throw reason instanceof Error ? reason : new Error('Query embedding failed');
+  }
+
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'rejected') {
+      console.error(`[SEARCH] ${spaces[i]} query embedding failed, searching remaining spaces:`, outcome.reason);
+    }
+  });
+
+  return embedded;
+}
+
+/**
+ * Merge candidate lists retrieved from different embedding spaces.
+ * Cosine similarities are not comparable across models, so the lists are
+ * ordered with reciprocal rank fusion (hits found in both spaces first), while
+ * each hit keeps its raw similarity: a space with only weak matches is not
+ * scaled up to the best space's level. Hits are deduplicated by key, keeping
+ * the space with the higher similarity, and tagged with that space.
+ *
+ * @param lists - Candidate lists per embedding space, each ordered best-first
+ * @param keyOf - Identity used for deduplication (chunk id by default)
+ * @param k - RRF damping constant
+ */
+export function mergeEmbeddingSpaces<T extends { similarity: number }>(
+  lists: Array<{ space: ContentType; matches: T[] }>,
+  keyOf: (match: T) => string = (match) => (match as unknown as MatchResult).id,
+  k: number = SEARCH_CONFIG.rrfK
+): Array<T & { embedding_space: ContentType }> {
+  const merged = new Map<string, { match: T & { embedding_space: ContentType }; score: number }>();
+
+  for (const { space, matches } of lists) {
+    matches.forEach((match, index) => {
+      const contribution = 1 / (k + index + 1);
+      const key = keyOf(match);
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { match: { ...match, embedding_space: space }, score: contribution });
+        return;
+      }
+      existing.score += contribution;
+      if (match.similarity > existing.match.similarity) {
+        existing.match = { ...match, embedding_space: space };
+      }
+    });
+  }
+
+  return Array.from(merged.values())
+    .sort((a, b) => b.score - a.score || b.match.similarity - a.match.similarity)
+    .map(({ match }) => match);
+}
+
+/**
+ * Search documents using hybrid (full-text + vector) retrieval + Cohere Rerank
  * Respects tier limits: free tier falls back to keyword search when limit reached,
  * and skips reranking unless in genesis mode.
  */
@@ -94,7 +257,7 @@ export async function searchDocumentsWithMeta(
 
   if (!usageCheck.allowed) {
     debugLog('Semantic search limit reached, falling back to keyword search');
-    const fallbackResults = await keywordFallbackSearch(query, projectId);
+    const fallbackResults = await keywordFallbackSearch(query, projectId, context.filters);
     return {
       results: fallbackResults,
       tierMessage: `🔒 Daily semantic search limit reached (${usageCheck.limit}/${usageCheck.limit}). Upgrade to Pro for unlimited searches. Using keyword fallback...`,
@@ -104,41 +267,29 @@ export async function searchDocumentsWithMeta(
   }
 
   // Increment usage counter (semantic search is about to be used)
-  incrementUsage(projectId, 'semantic_search');
+  await incrementUsage(projectId, 'semantic_search');
 
   // Re-check for accurate remaining count after increment
   const updatedUsage = await checkUsageLimit(projectId, 'semantic_search');
 
-  // Import AI functions
-  const aiModule = await import('../ai');
-  
-  // Auto-detect if this is a code query
-  const isCodeQuery = /\b(function|class|method|import|export|const|let|var|def|async|await|return|interface|type|enum|implement|extends|package|module|snippet|code|api|endpoint|route|controller|service|util|helper)\b/i.test(query);
-  const embeddingModel = isCodeQuery ? 'jina-code-embeddings-1.5b' : 'jina-embeddings-v3';
-  
-  debugLog(`Detected query type: ${isCodeQuery ? 'CODE' : 'TEXT'}, using model: ${embeddingModel}`);
-  
-  // Generate embedding with appropriate content type
-  const contentType = isCodeQuery ? 'code' : 'text';
-  const queryEmbedding = await (aiModule.generateQueryEmbedding 
-    ? aiModule.generateQueryEmbedding(query, contentType as 'text' | 'code') 
-    : aiModule.generateEmbedding(query, contentType as 'text' | 'code'));
-  
-  debugLog('Embedding generated:', queryEmbedding ? `${queryEmbedding.length} dimensions` : 'FAILED');
-
-  // 1. Initial Retrieval (Vector Search)
-  const { data: candidates, error } = await supabase.rpc('match_documents', {
-    query_embedding: queryEmbedding,
-    match_threshold: 0.1,
-    match_count: SEARCH_CONFIG.initialFetchCount,
-    filter_project_id: projectId,
-    filter_embedding_model: embeddingModel,
-  });
+  // Resolve the project's embedding provider
+  const provider = await getEmbeddingProviderForProject(projectId);
+
+  // Embed the query in both the text and code embedding spaces
+  const queryEmbeddings = await embedQuerySpaces(provider, query);
+
+  debugLog('Query embedded with', provider.id, 'models:', queryEmbeddings.map((q) => `${q.space}=${q.model}`).join(', '));
 
-  debugLog('RPC match_documents returned:', candidates?.length || 0, 'candidates', error ? `Error: ${error.message}` : '');
+  // 1. Initial Retrieval (Vector Search per space, fused with Full-Text in hybrid mode)
+  const candidates = await retrieveCandidates(
+    query,
+    queryEmbeddings,
+    projectId,
+    context.mode,
+    context.filters
+  );
 
-  if (error) throw new Error(`Search failed: ${error.message}`);
-  if (!candidates || candidates.length === 0) {
+  if (candidates.length === 0) {
     debugLog('No candidates found - returning empty results');
     return { results: [], usageInfo: updatedUsage };
   }
@@ -154,7 +305,7 @@ export async function searchDocumentsWithMeta(
         : 'Reranking disabled for this tier. Returning vector results.'
     );
     return {
-      results: (candidates as MatchResult[])
+      results: candidates
         .slice(0, 10)
         .map(match => transformMatchToDocRef(match)),
       usageInfo: updatedUsage,
@@ -162,7 +313,7 @@ export async function searchDocumentsWithMeta(
   }
 
   // 2. Reranking using Cohere
-  const docsForRerank = (candidates as MatchResult[]).map(doc => ({
+  const docsForRerank = candidates.map(doc => ({
     id: doc.id.toString(),
     text: doc.content_chunk || "",
   }));
@@ -207,7 +358,7 @@ export async function searchDocumentsWithMeta(
   } catch (err) {
     console.error("[SEARCH] Reranking failed, falling back to vector results:", err);
     return {
-      results: (candidates as MatchResult[])
+      results: candidates
         .slice(0, 10)
         .map(match => transformMatchToDocRef(match)),
       usageInfo: updatedUsage,
@@ -215,7 +366,110 @@ export async function searchDocumentsWithMeta(
   }
 }
 
+/**
+ * Retrieve rerank candidates for a query.
+ * Vector candidates are fetched from every embedding space in parallel and
+ * merged with mergeEmbeddingSpaces. In hybrid mode, full-text candidates are
+ * fetched alongside and fused with reciprocal rank fusion. If full-text
+ * retrieval fails, the vector candidates are used as-is.
+ */
+async function retrieveCandidates(
+  query: string,
+  queryEmbeddings: QueryEmbedding[],
+  projectId: string,
+  mode: SearchMode = 'hybrid',
+  filters: SearchFilters = {}
+): Promise<MatchResult[]> {
+  const filterParams = toFilterParams(filters);
+  const vectorSearch = Promise.all(queryEmbeddings.map(async ({ space, model, embedding }) => {
+    const { data, error } = await supabase.rpc('match_documents', {
+      query_embedding: embedding,
+      match_threshold: 0.1,
+      match_count: SEARCH_CONFIG.initialFetchCount,
+      filter_project_id: projectId,
+      filter_embedding_model: model,
+      ...filterParams,
+    });
+    debugLog(`RPC match_documents (${space}) returned:`, data?.length || 0, 'candidates', error ? `Error: ${error.message}` : '');
+    if (error) throw new Error(`Search failed: ${error.message}`);
+    return { space, matches: (data || []) as MatchResult[] };
+  }));
+
+  if (mode === 'vector') {
+    return mergeEmbeddingSpaces(await vectorSearch).slice(0, SEARCH_CONFIG.initialFetchCount);
+  }
+
+  const [vector, keyword] = await Promise.all([
+    vectorSearch,
+    supabase.rpc('keyword_match_documents', {
+      query_text: query,
+      match_count: SEARCH_CONFIG.initialFetchCount,
+      filter_project_id: projectId,
+      ...filterParams,
+    }),
+  ]);
+
+  debugLog(
+    'Hybrid retrieval - vector:', vector.map((list) => `${list.space}=${list.matches.length}`).join(' '),
+    'full-text:', keyword.data?.length || 0,
+    keyword.error ? `Full-text error: ${keyword.error.message}` : ''
+  );
+
+  const vectorCandidates = mergeEmbeddingSpaces(vector).slice(0, SEARCH_CONFIG.initialFetchCount);
+  if (keyword.error) {
+    return vectorCandidates;
+  }
+
+  return reciprocalRankFusion([vectorCandidates, (keyword.data || []) as MatchResult[]])
+    .slice(0, SEARCH_CONFIG.initialFetchCount);
+}
+
+/**
+ * Fuse ranked candidate lists with reciprocal rank fusion (RRF).
+ * Each chunk scores sum(1 / (k + rank)) across the lists it appears in, and
+ * the fused score only decides the order. `similarity` keeps the chunk's score
+ * from the first (vector) list so trust levels stay on the cosine scale; hits
+ * missing from it fell below every vector hit, so they get the lowest vector
+ * similarity, capped at the fixed keyword relevance.
+ *
+ * @param lists - Candidate lists, each ordered best-first; the first one sets `similarity`
+ * @param k - Damping constant (higher = flatter weighting of top ranks)
+ */
+export function reciprocalRankFusion(
+  lists: MatchResult[][],
+  k: number = SEARCH_CONFIG.rrfK
+): MatchResult[] {
+  const fused = new Map<string, { match: MatchResult; score: number }>();
+
+  for (const list of lists) {
+    list.forEach((match, index) => {
+      const contribution = 1 / (k + index + 1);
+      const existing = fused.get(match.id);
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(match.id, { match, score: contribution });
+      }
+    });
+  }
+
+  const [primary = []] = lists;
+  const primaryScores = new Map(primary.map((match) => [match.id, match.similarity]));
+  const unranked = primary.length > 0
+    ? Math.min(SEARCH_CONFIG.keywordRelevance, ...primary.map((match) => match.similarity))
+    : SEARCH_CONFIG.keywordRelevance;
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .map(({ match }) => ({
+      ...match,
+      similarity: primaryScores.get(match.id) ?? unranked,
+    }));
+}
+
 function transformMatchToDocRef(match: MatchResult, score?: number): DocumentReference {
+  const metadata = (match.metadata || {}) as ChunkMetadata;
+
   return {
     id: match.document_id,
     title: match.title,
@@ -224,7 +478,12 @@ function transformMatchToDocRef(match: MatchResult, score?: number): DocumentRef
     relevance: score ?? match.similarity,
     snippet: truncateSnippet(match.content_chunk, 400),
     chunk_id: match.id, // UUID for quoth_read_chunks
-    chunk_index: (match.metadata as ChunkMetadata)?.chunk_index ?? 0,
+    chunk_index: metadata.chunk_index ?? 0,
+    breadcrumb: metadata.breadcrumb,
+    lines: metadata.startLine && metadata.endLine
+      ? { start: metadata.startLine, end: metadata.endLine }
+      : undefined,
+    embedding_space: embeddingSpaceOf(match),
   };
 }
 
@@ -392,44 +651,36 @@ export async function searchChunks(
   }
 
   // Increment usage
-  incrementUsage(projectId, 'semantic_search');
-
-  // Import AI functions
-  const aiModule = await import('../ai');
-  
-  // Auto-detect if this is a code query
-  const isCodeQuery = /\b(function|class|method|import|export|const|let|var|def|async|await|return|interface|type|enum|implement|extends|package|module|snippet|code|api|endpoint|route|controller|service|util|helper)\b/i.test(query);
-  const embeddingModel = isCodeQuery ? 'jina-code-embeddings-1.5b' : 'jina-embeddings-v3';
-  const contentType = isCodeQuery ? 'code' : 'text';
-  
-  // Generate embedding with appropriate content type
-  const queryEmbedding = await (aiModule.generateQueryEmbedding 
-    ? aiModule.generateQueryEmbedding(query, contentType as 'text' | 'code') 
-    : aiModule.generateEmbedding(query, contentType as 'text' | 'code'));
-
-  // Vector search
-  const { data: candidates, error } = await supabase.rpc('match_documents', {
-    query_embedding: queryEmbedding,
-    match_threshold: 0.1,
-    match_count: SEARCH_CONFIG.initialFetchCount,
-    filter_project_id: projectId,
-    filter_embedding_model: embeddingModel,
-  });
+  await incrementUsage(projectId, 'semantic_search');
+
+  // Resolve the project's embedding provider
+  const provider = await getEmbeddingProviderForProject(projectId);
+
+  // Embed the query in both the text and code embedding spaces
+  const queryEmbeddings = await embedQuerySpaces(provider, query);
 
-  if (error) throw new Error(`Search failed: ${error.message}`);
-  if (!candidates || candidates.length === 0) return [];
+  // Vector search per space (fused with full-text in hybrid mode)
+  const candidates = await retrieveCandidates(
+    query,
+    queryEmbeddings,
+    projectId,
+    context.mode,
+    context.filters
+  );
+
+  if (candidates.length === 0) return [];
 
   // Check if reranking should be used
   const useRerank = await shouldRerank(projectId, context.isGenesis);
 
   if (!cohere || !useRerank) {
-    return (candidates as MatchResult[])
+    return candidates
       .slice(0, 15)
       .map(match => transformMatchToChunkRef(match));
   }
 
   // Rerank using Cohere
-  const docsForRerank = (candidates as MatchResult[]).map(doc => ({
+  const docsForRerank = candidates.map(doc => ({
     id: doc.id.toString(),
     text: doc.content_chunk || "",
   }));
@@ -459,7 +710,7 @@ export async function searchChunks(
     return rerankedResults;
   } catch (err) {
     console.error("[SEARCH] Chunk reranking failed, falling back to vector results:", err);
-    return (candidates as MatchResult[])
+    return candidates
       .slice(0, 15)
       .map(match => transformMatchToChunkRef(match));
   }
@@ -480,11 +731,13 @@ function transformMatchToChunkRef(match: MatchResult, score?: number): ChunkRefe
     chunk_index: metadata.chunk_index ?? 0,
     preview: truncateSnippet(match.content_chunk, 200), // Shorter for chunk view
     relevance: score ?? match.similarity,
+    embedding_space: embeddingSpaceOf(match),
     metadata: {
       chunk_index: metadata.chunk_index,
       language: metadata.language,
       filePath: metadata.filePath,
       parentContext: metadata.parentContext,
+      breadcrumb: metadata.breadcrumb,
       startLine: metadata.startLine,
       endLine: metadata.endLine,
       source: metadata.source,
@@ -544,84 +797,103 @@ export async function readChunks(
 // ============================================
 
 /**
- * Simple keyword-based search without embeddings or reranking.
+ * Full-text keyword search without embeddings or reranking.
  * Used as fallback when semantic search limit is reached on free tier.
  */
 async function keywordFallbackSearch(
   query: string,
-  projectId: string
+  projectId: string,
+  filters: SearchFilters = {}
 ): Promise<DocumentReference[]> {
   debugLog('Keyword fallback search for:', query);
 
-  const terms = query
-    .split(/\s+/)
-    .filter(t => t.length > 2)
-    .map(t => t.replace(/[^a-zA-Z0-9]/g, '')); // strip special chars for tsquery
-
-  if (terms.length === 0) return [];
-
   try {
-    // Use Postgres full-text search on content_chunk
-    const tsQuery = terms.join(' & ');
-    const { data, error } = await supabase
-      .from('document_chunks')
-      .select('id, document_id, title, file_path, content_chunk, metadata')
-      .eq('project_id', projectId)
-      .textSearch('content_chunk', tsQuery)
-      .limit(10);
+    const { data, error } = await supabase.rpc('keyword_match_documents', {
+      query_text: query,
+      match_count: 10,
+      filter_project_id: projectId,
+      ...toFilterParams(filters),
+    });
 
     if (error) {
-      debugLog('Full-text search failed, trying ilike fallback:', error.message);
-      // Fallback to ilike if textSearch isn't available
-      const { data: ilikeData } = await supabase
-        .from('document_chunks')
-        .select('id, document_id, title, file_path, content_chunk, metadata')
-        .eq('project_id', projectId)
-        .ilike('content_chunk', `%${terms[0]}%`)
-        .limit(10);
-
-      if (!ilikeData || ilikeData.length === 0) return [];
-
-      return ilikeData.map((row: Record<string, unknown>) =>
-        transformKeywordResultToDocRef(row)
-      );
+      debugLog('Full-text search failed:', error.message);
+      return [];
     }
 
     if (!data || data.length === 0) return [];
 
-    return data.map((row: Record<string, unknown>) =>
-      transformKeywordResultToDocRef(row)
-    );
+    // ts_rank_cd scores are not on the similarity scale trust levels use
+    return (data as MatchResult[]).map(match => transformMatchToDocRef(match, SEARCH_CONFIG.keywordRelevance));
   } catch (err) {
     console.error('[SEARCH] Keyword fallback search failed:', err);
     return [];
   }
 }
 
+// ============================================
+// Helper Functions
+// ============================================
+
 /**
- * Transform a keyword search result row to DocumentReference
+ * Map search filters to the optional filter_* parameters of
+ * match_documents / keyword_match_documents. Unset filters are omitted
+ * so the RPC defaults (NULL = no filter) apply.
  */
-function transformKeywordResultToDocRef(row: Record<string, unknown>): DocumentReference {
-  const filePath = (row.file_path as string) || '';
-  const title = (row.title as string) || '';
-  const content = (row.content_chunk as string) || '';
-  const metadata = (row.metadata || {}) as ChunkMetadata;
-
-  return {
-    id: (row.document_id as string) || (row.id as string),
-    title,
-    type: inferDocumentType(filePath),
-    path: filePath,
-    relevance: 0.5, // Fixed relevance for keyword results (no real score)
-    snippet: truncateSnippet(content, 400),
-    chunk_id: row.id as string,
-    chunk_index: metadata.chunk_index ?? 0,
-  };
+function toFilterParams(filters: SearchFilters): Record<string, string | string[]> {
+  const params: Record<string, string | string[]> = {};
+  const nonEmpty = (list?: string[]) => (list && list.length > 0 ? list : undefined);
+
+  const docTypes = nonEmpty(filters.docTypes);
+  if (docTypes) params.filter_doc_types = docTypes;
+  if (filters.path?.trim()) params.filter_path_regex = globToPathRegex(filters.path.trim());
+  const status = nonEmpty(filters.status);
+  if (status) params.filter_statuses = status;
+  const excludeStatus = nonEmpty(filters.excludeStatus);
+  if (excludeStatus) params.exclude_statuses = excludeStatus;
+  const relatedStack = nonEmpty(filters.relatedStack);
+  if (relatedStack) params.filter_related_stack = relatedStack;
+  const tags = nonEmpty(filters.tags);
+  if (tags) params.filter_tags = tags;
+  if (filters.updatedSince) params.filter_updated_since = filters.updatedSince;
+
+  return params;
 }
 
-// ============================================
-// Helper Functions
-// ============================================
+/**
+ * Convert a path prefix or glob into an anchored Postgres regex.
+ * - No wildcards: prefix match ("contracts/" matches everything below it)
+ * - `**` matches across directories, `*` and `?` within one path segment
+ */
+export function globToPathRegex(glob: string): string {
+  const pattern = glob.replace(/^\.?\//, '');
+  const escape = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+  if (!/[*?]/.test(pattern)) {
+    return `^${escape(pattern)}`;
+  }
+
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches zero directories
+      if (pattern[i + 2] === '/') {
+        regex += '(.*/)?';
+        i += 2;
+      } else {
+        regex += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else {
+      regex += escape(char);
+    }
+  }
+  return `^${regex}$`;
+}
 
 /**
  * Infer document type from file path
@@ -635,6 +907,15 @@ function inferDocumentType(filePath: string): 'testing-pattern' | 'architecture'
   return 'architecture'; // default
 }
 
+/**
+ * Embedding space a hit was stored in: the chunk's content type recorded at
+ * sync, else the space whose query found it (undefined for legacy keyword hits)
+ */
+function embeddingSpaceOf(match: MatchResult): ContentType | undefined {
+  const contentType = (match.metadata as ChunkMetadata | undefined)?.content_type;
+  return contentType ?? match.embedding_space;
+}
+
 /**
  * Truncate content chunk to create a snippet
  */
@@ -671,5 +952,8 @@ declare module './types' {
     snippet?: string;
     chunk_id?: string;    // UUID for quoth_read_chunks
     chunk_index?: number; // Position within document
+    breadcrumb?: string;  // Markdown heading path of the chunk
+    lines?: { start: number; end: number }; // 1-based line range for citations
+    embedding_space?: 'text' | 'code';       // Embedding space the chunk was retrieved from
   }
 }
@@ -0,0 +1,113 @@
+/**
+ * Staleness Policies
+ * Decides, per document type and path, how long a document stays fresh.
+ *
+ * Rules match on doc_type, a CODEOWNERS-style path pattern, or both; like
+ * approval policies, the LAST matching rule (by position) wins. Documents
+ * without a matching rule use the default thresholds in health.ts. A
+ * `review_by` date in a document's frontmatter overrides the policy until
+ * the document is updated or verified after that date.
+ */
+
+import { z } from 'zod';
+import { supabase, replaceProjectRows } from '../supabase';
+import { matchesPathPattern } from './approval-policy';
+
+export const StalenessPolicyRuleInputSchema = z.object({
+  doc_type: z.enum(['testing-pattern', 'architecture', 'contract', 'meta', 'template']).nullable().default(null),
+  path_pattern: z.string().trim().min(1).max(300).nullable().default(null),
+  max_age_days: z.number().int().min(1).max(3650),
+});
+
+export type StalenessPolicyRuleInput = z.infer<typeof StalenessPolicyRuleInputSchema>;
+
+/** staleness_policies row */
+export interface StalenessPolicyRule extends StalenessPolicyRuleInput {
+  id: string;
+  position: number;
+}
+
+/** The policy in effect for one document */
+export interface StalenessPolicy {
+  /** Matching rule, or null for the default thresholds */
+  policy_id: string | null;
+  doc_type: string | null;
+  path_pattern: string | null;
+  /** Days until the document is stale, null for the default thresholds */
+  max_age_days: number | null;
+}
+
+export const DEFAULT_STALENESS_POLICY: StalenessPolicy = {
+  policy_id: null,
+  doc_type: null,
+  path_pattern: null,
+  max_age_days: null,
+};
+
+/**
+ * Effective policy for a document: the last matching rule, or the default.
+ */
+export function resolveStalenessPolicy(
+  rules: StalenessPolicyRule[],
+  doc: { doc_type: string | null; file_path: string }
+): StalenessPolicy {
+  const ordered = [...rules].sort((a, b) => a.position - b.position);
+  const rule = ordered.reverse().find((r) =>
+    (r.doc_type === null || r.doc_type === doc.doc_type) &&
+    (r.path_pattern === null || matchesPathPattern(r.path_pattern, doc.file_path))
+  );
+
+  if (!rule) return DEFAULT_STALENESS_POLICY;
+
+  return {
+    policy_id: rule.id,
+    doc_type: rule.doc_type,
+    path_pattern: rule.path_pattern,
+    max_age_days: rule.max_age_days,
+  };
+}
+
+/**
+ * One-line description of a policy, for reports and the dashboard.
+ */
+export function describeStalenessPolicy(policy: StalenessPolicy): string {
+  if (policy.max_age_days === null) return 'default thresholds';
+
+  const scope = [
+    policy.doc_type && `type ${policy.doc_type}`,
+    policy.path_pattern && `\`${policy.path_pattern}\``,
+  ].filter(Boolean).join(', ');
+
+  return `stale after ${policy.max_age_days} day(s)${scope ? ` (${scope})` : ''}`;
+}
+
+export async function getStalenessRules(projectId: string): Promise<StalenessPolicyRule[]> {
+  const { data, error } = await supabase
+    .from('staleness_policies')
+    .select('id, doc_type, path_pattern, position, max_age_days')
+    .eq('project_id', projectId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load staleness policies: ${error.message}`);
+  }
+
+  return (data || []) as StalenessPolicyRule[];
+}
+
+/**
+ * Replace a project's rules with `rules`, in order, in one transaction.
+ */
+export async function replaceStalenessRules(
+  projectId: string,
+  rules: StalenessPolicyRuleInput[],
+  userId: string
+): Promise<StalenessPolicyRule[]> {
+  await replaceProjectRows(
+    'staleness_policies',
+    projectId,
+    rules.map((rule, position) => ({ ...rule, position, created_by: userId }))
+  );
+
+  return getStalenessRules(projectId);
+}
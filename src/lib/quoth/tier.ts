@@ -2,9 +2,11 @@
  * Quoth Tier System
  * Manages free/pro/team tier limits for semantic search, reranking, and RAG answers.
  * Free tier gets keyword fallback; Pro/Team get full AI pipeline.
+ * Usage is metered in the shared usage store (see usage-store.ts).
  */
 
 import { supabase, isSupabaseConfigured } from '../supabase';
+import { getUsageStore, type UsageCounts, type UsageMetric } from './usage-store';
 
 // ============ Types ============
 
@@ -18,7 +20,7 @@ export interface TierLimits {
   ragAnswersPerDay: number;        // -1 = unlimited
 }
 
-export type UsageLimitType = 'semantic_search' | 'rag_answer';
+export type UsageLimitType = UsageMetric;
 
 export interface UsageCheckResult {
   allowed: boolean;
@@ -52,39 +54,6 @@ export const TIER_LIMITS: Record<QuothTier, TierLimits> = {
   },
 };
 
-// ============ In-Memory Usage Tracking ============
-
-interface UsageEntry {
-  count: number;
-  date: string; // YYYY-MM-DD
-}
-
-// Map<`${projectId}:${limitType}`, UsageEntry>
-const usageMap = new Map<string, UsageEntry>();
-
-function getTodayKey(): string {
-  return new Date().toISOString().slice(0, 10);
-}
-
-function getUsageKey(projectId: string, limitType: string): string {
-  return `${projectId}:${limitType}`;
-}
-
-function getUsageEntry(projectId: string, limitType: string): UsageEntry {
-  const key = getUsageKey(projectId, limitType);
-  const today = getTodayKey();
-  const entry = usageMap.get(key);
-
-  // Reset if it's a new day
-  if (!entry || entry.date !== today) {
-    const newEntry = { count: 0, date: today };
-    usageMap.set(key, newEntry);
-    return newEntry;
-  }
-
-  return entry;
-}
-
 // ============ Tier Cache ============
 
 // Cache tier lookups for 5 minutes to avoid repeated DB calls
@@ -166,8 +135,15 @@ export async function checkUsageLimit(
     return { allowed: true, remaining: -1, limit: -1 };
   }
 
-  const entry = getUsageEntry(projectId, limitType);
-  const remaining = Math.max(0, limit - entry.count);
+  let used: number;
+  try {
+    used = (await getUsageStore().get(projectId, limitType)).daily;
+  } catch (error) {
+    // Metering outages should not take search down; allow and log
+    console.error('[Tier] Usage check failed:', error);
+    return { allowed: true, remaining: limit, limit };
+  }
+  const remaining = Math.max(0, limit - used);
 
   return {
     allowed: remaining > 0,
@@ -178,16 +154,17 @@ export async function checkUsageLimit(
 
 /**
  * Increment the usage counter for a limit type.
+ * Returns the updated daily and monthly counts (null if metering failed).
  */
-export function incrementUsage(projectId: string, limitType: string): void {
-  const key = getUsageKey(projectId, limitType);
-  const today = getTodayKey();
-  const entry = usageMap.get(key);
-
-  if (!entry || entry.date !== today) {
-    usageMap.set(key, { count: 1, date: today });
-  } else {
-    entry.count++;
+export async function incrementUsage(
+  projectId: string,
+  limitType: UsageLimitType
+): Promise<UsageCounts | null> {
+  try {
+    return await getUsageStore().increment(projectId, limitType);
+  } catch (error) {
+    console.error('[Tier] Usage increment failed:', error);
+    return null;
   }
 }
 
@@ -0,0 +1,499 @@
+/**
+ * Quoth MCP Tool Output
+ * Structured output schemas for every Quoth tool, plus result helpers.
+ *
+ * Each tool returns its markdown report as `content` (for humans and chat agents)
+ * and the same data as `structuredContent` validated against the tool's
+ * `outputSchema` (for orchestration scripts that need ids, scores and statuses).
+ * Failures are returned with `isError: true` and no structured content.
+ */
+
+import { z } from 'zod';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Successful tool result: markdown text plus structured content
+ */
+export function toolResult<T extends Record<string, unknown>>(text: string, structured: T): CallToolResult {
+  return {
+    content: [{ type: 'text' as const, text }],
+    structuredContent: structured,
+  };
+}
+
+/**
+ * Failed tool result (permission denied, invalid input, unexpected errors)
+ */
+export function toolError(text: string): CallToolResult {
+  return {
+    content: [{ type: 'text' as const, text }],
+    isError: true,
+  };
+}
+
+/**
+ * Message of an unknown thrown value
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+// ============ Shared Shapes ============
+
+const LineRangeSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+});
+
+const JobSchema = z.object({
+  id: z.string(),
+  project_id: z.string(),
+  type: z.string(),
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']),
+  total_items: z.number(),
+  completed_items: z.number(),
+  failed_items: z.number(),
+  progress: z.object({
+    processed: z.number(),
+    remaining: z.number(),
+    percent: z.number(),
+    eta_seconds: z.number().nullable(),
+  }),
+  failures: z.array(z.object({
+    file_path: z.string(),
+    error_message: z.string().nullable(),
+  })),
+  created_at: z.string(),
+  completed_at: z.string().nullable(),
+});
+
+const AgentSchema = z.object({
+  id: z.string(),
+  agent_name: z.string(),
+  display_name: z.string().nullable(),
+  instance: z.string().nullable(),
+  role: z.string().nullable(),
+  model: z.string().nullable(),
+  status: z.string(),
+  last_seen_at: z.string().nullable(),
+});
+
+const TaskSchema = z.object({
+  id: z.string(),
+  assigned_to: z.string(),
+  created_by: z.string().nullable(),
+  title: z.string(),
+  priority: z.number(),
+  deadline: z.string().nullable(),
+  status: z.string(),
+  completed_at: z.string().nullable(),
+});
+
+export type JobOutput = z.infer<typeof JobSchema>;
+export type AgentOutput = z.infer<typeof AgentSchema>;
+export type TaskOutput = z.infer<typeof TaskSchema>;
+
+// ============ Knowledge Base Tools ============
+
+export const SearchIndexOutputSchema = z.object({
+  query: z.string(),
+  scope: z.enum(['project', 'shared', 'org']),
+  used_fallback: z.boolean(),
+  results: z.array(z.object({
+    chunk_id: z.string().nullable(),
+    document_id: z.string(),
+    title: z.string(),
+    path: z.string().nullable(),
+    project_slug: z.string().nullable(),
+    chunk_index: z.number(),
+    relevance: z.number(),
+    trust: z.enum(['HIGH', 'MEDIUM', 'LOW']),
+    snippet: z.string(),
+    breadcrumb: z.string().nullable(),
+    lines: LineRangeSchema.nullable(),
+    embedding_space: z.enum(['text', 'code']).nullable(),
+  })),
+});
+
+export const ReadDocOutputSchema = z.object({
+  found: z.boolean(),
+  document: z.object({
+    id: z.string(),
+    title: z.string(),
+    type: z.string(),
+    path: z.string(),
+    frontmatter: z.record(z.unknown()),
+    content: z.string(),
+  }).nullable(),
+  suggestions: z.array(z.object({ id: z.string(), path: z.string() })),
+  /** Set when a specific version was requested (version or as_of) */
+  version: z.object({
+    number: z.number(),
+    current: z.boolean(),
+    valid_from: z.string().nullable(),
+    valid_to: z.string().nullable(),
+    commit: z.string().nullable(),
+    source: z.string().nullable(),
+  }).nullable(),
+});
+
+export const LintResultSchema = z.object({
+  errors: z.number(),
+  warnings: z.number(),
+  findings: z.array(z.object({
+    rule: z.string(),
+    severity: z.enum(['error', 'warning']),
+    message: z.string(),
+    line: z.number().nullable(),
+  })),
+});
+
+export const ProposeUpdateOutputSchema = z.object({
+  action: z.enum(['created', 'updated', 'proposed', 'blocked']),
+  status: z.enum(['applied', 'pending', 'blocked']),
+  new_document: z.boolean(),
+  proposal_id: z.string().nullable(),
+  review_url: z.string().nullable(),
+  required_approvals: z.number().nullable(),
+  document: z.object({
+    id: z.string().nullable(),
+    title: z.string(),
+    path: z.string(),
+    version: z.number().nullable(),
+  }),
+  indexing: z.object({
+    chunks_indexed: z.number(),
+    chunks_reused: z.number(),
+    failed_chunks: z.number(),
+    duration_ms: z.number(),
+  }).nullable(),
+  lint: LintResultSchema,
+});
+
+export const ProposePatchOutputSchema = z.object({
+  action: z.enum(['updated', 'proposed', 'blocked']),
+  status: z.enum(['applied', 'pending', 'blocked']),
+  proposal_id: z.string().nullable(),
+  review_url: z.string().nullable(),
+  required_approvals: ProposeUpdateOutputSchema.shape.required_approvals,
+  document: ProposeUpdateOutputSchema.shape.document,
+  operations: z.array(z.string()),
+  lines_added: z.number(),
+  lines_removed: z.number(),
+  diff: z.string(),
+  indexing: ProposeUpdateOutputSchema.shape.indexing,
+  lint: LintResultSchema,
+});
+
+export const LintDocOutputSchema = z.object({
+  documents: z.array(LintResultSchema.extend({
+    path: z.string(),
+    title: z.string().nullable(),
+  })),
+  total_errors: z.number(),
+  total_warnings: z.number(),
+});
+
+const ProposalCommentSchema = z.object({
+  id: z.string(),
+  proposal_id: z.string(),
+  parent_id: z.string().nullable(),
+  revision: z.number(),
+  line: z.number().nullable(),
+  line_text: z.string().nullable(),
+  body: z.string(),
+  author_type: z.enum(['user', 'agent']),
+  author_id: z.string().nullable(),
+  author_name: z.string(),
+  resolved: z.boolean(),
+  created_at: z.string(),
+});
+
+export const ProposalFeedbackOutputSchema = z.object({
+  proposal_id: z.string(),
+  file_path: z.string(),
+  status: z.string(),
+  revision: z.number(),
+  review_url: z.string(),
+  revised: z.boolean(),
+  replies_posted: z.number(),
+  open_threads: z.number(),
+  threads: z.array(ProposalCommentSchema.extend({
+    outdated: z.boolean(),
+    replies: z.array(ProposalCommentSchema),
+  })),
+  lint: LintResultSchema.nullable(),
+});
+
+export const DriftFixOutputSchema = z.object({
+  drift_id: z.string().nullable(),
+  proposal_id: z.string().nullable(),
+  review_url: z.string().nullable(),
+  file_path: z.string().nullable(),
+  section: z.string().nullable(),
+  replacements: z.number(),
+  diff: z.string().nullable(),
+  lint: LintResultSchema.nullable(),
+  open_events: z.array(z.object({
+    id: z.string(),
+    severity: z.enum(['info', 'warning', 'critical']),
+    drift_type: z.enum(['code_diverged', 'missing_doc', 'stale_doc', 'pattern_violation']),
+    file_path: z.string(),
+    doc_path: z.string().nullable(),
+    description: z.string(),
+    fixable: z.boolean(),
+    proposal_id: z.string().nullable(),
+  })),
+});
+
+export const ListTemplatesOutputSchema = z.object({
+  category: z.string(),
+  templates: z.array(z.object({
+    id: z.string(),
+    path: z.string(),
+    category: z.string(),
+    target_type: z.string(),
+    purpose: z.string(),
+  })),
+});
+
+export const GetTemplateOutputSchema = z.object({
+  found: z.boolean(),
+  template: z.object({
+    id: z.string(),
+    path: z.string(),
+    category: z.string(),
+    target_type: z.string(),
+    content: z.string(),
+  }).nullable(),
+  available: z.array(z.string()),
+});
+
+export const ReadChunksOutputSchema = z.object({
+  chunks: z.array(z.object({
+    chunk_id: z.string(),
+    document_id: z.string(),
+    document_title: z.string(),
+    document_path: z.string(),
+    chunk_index: z.number(),
+    total_chunks: z.number(),
+    content: z.string(),
+    language: z.string().nullable(),
+    parent_context: z.string().nullable(),
+    breadcrumb: z.string().nullable(),
+    lines: LineRangeSchema.nullable(),
+  })),
+});
+
+export const GuidelinesOutputSchema = z.object({
+  mode: z.enum(['code', 'review', 'document']),
+  full: z.boolean(),
+  guidelines: z.string(),
+});
+
+export const GenesisOutputSchema = z.object({
+  depth_level: z.enum(['minimal', 'standard', 'comprehensive']),
+  focus: z.enum(['full_scan', 'update_only']),
+  document_count: z.number(),
+  estimated_time: z.string(),
+  prompt: z.string(),
+});
+
+// ============ Account & Project Tools ============
+
+const ProjectRoleSchema = z.enum(['admin', 'editor', 'viewer']);
+
+export const ListAccountsOutputSchema = z.object({
+  active_project_id: z.string(),
+  accounts: z.array(z.object({
+    project_id: z.string(),
+    project_name: z.string(),
+    project_slug: z.string(),
+    role: ProjectRoleSchema,
+    active: z.boolean(),
+  })),
+});
+
+export const SwitchAccountOutputSchema = z.object({
+  project_id: z.string(),
+  project_name: z.string(),
+  role: ProjectRoleSchema.nullable(),
+});
+
+export const ProjectListOutputSchema = z.object({
+  active_project_id: z.string(),
+  projects: z.array(z.object({
+    id: z.string(),
+    slug: z.string(),
+    role: z.string(),
+    is_public: z.boolean(),
+    github_repo: z.string().nullable(),
+    organization_id: z.string().nullable(),
+    created_at: z.string(),
+    active: z.boolean(),
+  })),
+});
+
+export const ProjectReadOutputSchema = z.object({
+  project: z.object({
+    id: z.string(),
+    slug: z.string(),
+    organization_name: z.string().nullable(),
+    is_public: z.boolean(),
+    github_repo: z.string().nullable(),
+    require_approval: z.boolean(),
+    block_on_lint_errors: z.boolean(),
+    embedding_provider: z.string().nullable(),
+    created_at: z.string(),
+  }),
+  stats: z.object({
+    documents: z.number(),
+    members: z.number(),
+  }),
+});
+
+export const ProjectCreateOutputSchema = z.object({
+  project: z.object({
+    id: z.string(),
+    slug: z.string(),
+    is_public: z.boolean(),
+    organization_id: z.string().nullable(),
+    created_at: z.string(),
+  }),
+  dashboard_url: z.string(),
+});
+
+export const ProjectUpdateOutputSchema = z.object({
+  project_id: z.string(),
+  updated_fields: z.array(z.string()),
+  project: z.object({
+    slug: z.string(),
+    is_public: z.boolean(),
+    github_repo: z.string().nullable(),
+    docs_path: z.string(),
+    require_approval: z.boolean(),
+    block_on_lint_errors: z.boolean(),
+    embedding_provider: z.string().nullable(),
+  }),
+  reindex_required: z.boolean(),
+});
+
+export const ProjectDeleteOutputSchema = z.object({
+  project_id: z.string(),
+  slug: z.string(),
+  deleted: z.boolean(),
+});
+
+// ============ Job Tools ============
+
+export const ReindexOutputSchema = z.object({
+  job: JobSchema,
+  already_running: z.boolean(),
+});
+
+export const JobStatusOutputSchema = z.object({
+  jobs: z.array(JobSchema),
+});
+
+// ============ Agent Tools ============
+
+export const AgentRegisterOutputSchema = z.object({
+  agent: AgentSchema,
+  project: z.object({
+    id: z.string(),
+    slug: z.string(),
+    created: z.boolean(),
+  }).nullable(),
+});
+
+export const AgentUpdateOutputSchema = z.object({
+  agent: AgentSchema,
+  updated_fields: z.array(z.string()),
+});
+
+export const AgentRemoveOutputSchema = z.object({
+  agent_id: z.string(),
+  agent_name: z.string(),
+  action: z.enum(['archived', 'deleted']),
+});
+
+export const AgentListOutputSchema = z.object({
+  agents: z.array(AgentSchema),
+});
+
+export const AgentAssignmentOutputSchema = z.object({
+  agent_id: z.string(),
+  project_id: z.string(),
+  role: z.enum(['owner', 'contributor', 'readonly']).nullable(),
+  assigned: z.boolean(),
+});
+
+export const AgentMessageOutputSchema = z.object({
+  message_id: z.string(),
+  from_agent_id: z.string(),
+  to_agent_id: z.string(),
+  type: z.string(),
+  priority: z.string(),
+  channel: z.string().nullable(),
+  status: z.string(),
+});
+
+export const AgentInboxOutputSchema = z.object({
+  agent_id: z.string(),
+  marked_read: z.boolean(),
+  messages: z.array(z.object({
+    id: z.string(),
+    from_agent_id: z.string().nullable(),
+    from_agent_name: z.string().nullable(),
+    type: z.string(),
+    priority: z.string(),
+    status: z.string(),
+    channel: z.string().nullable(),
+    reply_to: z.string().nullable(),
+    message: z.string(),
+    payload: z.record(z.unknown()),
+    created_at: z.string(),
+  })),
+});
+
+export const TaskCreateOutputSchema = z.object({
+  task: TaskSchema,
+});
+
+export const TaskUpdateOutputSchema = z.object({
+  task: TaskSchema,
+  updated_fields: z.array(z.string()),
+});
+
+// ============ Output Types ============
+
+export type SearchIndexOutput = z.infer<typeof SearchIndexOutputSchema>;
+export type ReadDocOutput = z.infer<typeof ReadDocOutputSchema>;
+export type ProposeUpdateOutput = z.infer<typeof ProposeUpdateOutputSchema>;
+export type ProposePatchOutput = z.infer<typeof ProposePatchOutputSchema>;
+export type LintDocOutput = z.infer<typeof LintDocOutputSchema>;
+export type ProposalFeedbackOutput = z.infer<typeof ProposalFeedbackOutputSchema>;
+export type DriftFixOutput = z.infer<typeof DriftFixOutputSchema>;
+export type ListTemplatesOutput = z.infer<typeof ListTemplatesOutputSchema>;
+export type GetTemplateOutput = z.infer<typeof GetTemplateOutputSchema>;
+export type ReadChunksOutput = z.infer<typeof ReadChunksOutputSchema>;
+export type GuidelinesOutput = z.infer<typeof GuidelinesOutputSchema>;
+export type GenesisOutput = z.infer<typeof GenesisOutputSchema>;
+export type ListAccountsOutput = z.infer<typeof ListAccountsOutputSchema>;
+export type SwitchAccountOutput = z.infer<typeof SwitchAccountOutputSchema>;
+export type ProjectListOutput = z.infer<typeof ProjectListOutputSchema>;
+export type ProjectReadOutput = z.infer<typeof ProjectReadOutputSchema>;
+export type ProjectCreateOutput = z.infer<typeof ProjectCreateOutputSchema>;
+export type ProjectUpdateOutput = z.infer<typeof ProjectUpdateOutputSchema>;
+export type ProjectDeleteOutput = z.infer<typeof ProjectDeleteOutputSchema>;
+export type ReindexOutput = z.infer<typeof ReindexOutputSchema>;
+export type JobStatusOutput = z.infer<typeof JobStatusOutputSchema>;
+export type AgentRegisterOutput = z.infer<typeof AgentRegisterOutputSchema>;
+export type AgentUpdateOutput = z.infer<typeof AgentUpdateOutputSchema>;
+export type AgentRemoveOutput = z.infer<typeof AgentRemoveOutputSchema>;
+export type AgentListOutput = z.infer<typeof AgentListOutputSchema>;
+export type AgentAssignmentOutput = z.infer<typeof AgentAssignmentOutputSchema>;
+export type AgentMessageOutput = z.infer<typeof AgentMessageOutputSchema>;
+export type AgentInboxOutput = z.infer<typeof AgentInboxOutputSchema>;
+export type TaskCreateOutput = z.infer<typeof TaskCreateOutputSchema>;
+export type TaskUpdateOutput = z.infer<typeof TaskUpdateOutputSchema>;
@@ -14,6 +14,11 @@ import {
   readDocument,
   buildSearchIndex,
   readChunks,
+  toSearchFilters,
+  hasSearchFilters,
+  embedQuerySpaces,
+  mergeEmbeddingSpaces,
+  trustLevel,
 } from './search';
 import {
   getTierForProject,
@@ -21,19 +26,216 @@ import {
   formatUsageFooter,
 } from './tier';
 import { supabase } from '../supabase';
+import { SearchFiltersInputSchema, PatchOperationSchema } from './types';
 import { registerGenesisTools } from './genesis';
-import { syncDocument } from '../sync';
+import { syncDocument, calculateChecksum, type SyncStats } from '../sync';
+import {
+  getEmbeddingProviderForProject,
+  getDefaultEmbeddingProviderId,
+  clearEmbeddingProviderCache,
+  EMBEDDING_PROVIDER_IDS,
+  type EmbeddingProviderId,
+} from '../embeddings';
 import { createActivityLogger } from './activity';
+import { normalizeDocsPath } from './repo-sync';
+import { applyDocumentPatch, describePatchOperation } from './doc-patch';
+import { diffLines, formatUnifiedDiff } from './diff';
+import { hasConflictMarkers } from './merge';
+import { lintDocument, formatLintFindings, type LintResult } from './doc-lint';
+import { getApprovalPolicy, describeApprovalPolicy } from './approval-policy';
+import { getDocumentVersions, selectVersion, type DocumentVersion } from './history';
+import {
+  getProposalComments,
+  addProposalComment,
+  buildCommentThreads,
+  formatCommentThreads,
+  reviseProposal,
+  resolveCommentThread,
+  canReviseProposal,
+  REVISABLE_STATUSES,
+  type ReviewableProposal,
+} from './proposal-review';
+import { createDriftProposal } from './drift-proposal';
+import {
+  enqueueReindexJob,
+  runJobWorker,
+  getJob,
+  getRecentJobs,
+  getFailedJobItems,
+  getJobProgress,
+  type Job,
+} from './jobs';
 import * as fs from 'fs';
 import * as path from 'path';
 import matter from 'gray-matter';
 import { logActivity } from './activity';
 import { formatCompactGuidelines, formatFullGuidelines, type GuidelinesMode } from './guidelines';
 import { registerAgentTools, getOrganizationId, generateSignature } from './agent-tools';
+import {
+  toolResult,
+  toolError,
+  errorMessage,
+  SearchIndexOutputSchema,
+  ReadDocOutputSchema,
+  ProposeUpdateOutputSchema,
+  ProposePatchOutputSchema,
+  LintDocOutputSchema,
+  ProposalFeedbackOutputSchema,
+  DriftFixOutputSchema,
+  ListTemplatesOutputSchema,
+  GetTemplateOutputSchema,
+  ReadChunksOutputSchema,
+  GuidelinesOutputSchema,
+  ListAccountsOutputSchema,
+  SwitchAccountOutputSchema,
+  ProjectListOutputSchema,
+  ProjectReadOutputSchema,
+  ProjectCreateOutputSchema,
+  ProjectUpdateOutputSchema,
+  ProjectDeleteOutputSchema,
+  ReindexOutputSchema,
+  JobStatusOutputSchema,
+  type JobOutput,
+  type SearchIndexOutput,
+  type ReadDocOutput,
+  type ProposeUpdateOutput,
+  type ProposePatchOutput,
+  type LintDocOutput,
+  type ProposalFeedbackOutput,
+  type DriftFixOutput,
+  type ListTemplatesOutput,
+  type GetTemplateOutput,
+  type ReadChunksOutput,
+  type GuidelinesOutput,
+  type ListAccountsOutput,
+  type SwitchAccountOutput,
+  type ProjectListOutput,
+  type ProjectReadOutput,
+  type ProjectCreateOutput,
+  type ProjectUpdateOutput,
+  type ProjectDeleteOutput,
+  type ReindexOutput,
+  type JobStatusOutput,
+} from './tool-output';
 
 // Templates directory path (relative to project root)
 const TEMPLATES_DIR = path.join(process.cwd(), 'quoth-knowledge-template', 'templates');
 
+// How long quoth_reindex works on its job before returning (the cron worker finishes the rest)
+const REINDEX_INLINE_BUDGET_MS = 20_000;
+
+/**
+ * Format embedding pipeline stats as Indexing Stats bullet lines
+ */
+function formatSyncStats(stats: SyncStats): string {
+  const lines = [
+    `- Total time: ${(stats.durationMs / 1000).toFixed(1)}s (embedding: ${(stats.embedMs / 1000).toFixed(1)}s)`,
+    `- Embedding batches: ${stats.batches}`,
+    `- Rate-limit retries: ${stats.retries}`,
+  ];
+  if (stats.failedChunks > 0) {
+    lines.push(`- ⚠️ Chunks failed to embed: ${stats.failedChunks} (re-run the update or quoth_reindex to retry)`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Indexing stats for structured output
+ */
+function toIndexingOutput(chunksIndexed: number, chunksReused: number, stats: SyncStats): ProposeUpdateOutput['indexing'] {
+  return {
+    chunks_indexed: chunksIndexed,
+    chunks_reused: chunksReused,
+    failed_chunks: stats.failedChunks,
+    duration_ms: stats.durationMs,
+  };
+}
+
+/**
+ * Lint a document with the project's other document paths (for link checks)
+ */
+async function lintProjectDocument(projectId: string, filePath: string, content: string): Promise<LintResult> {
+  const { data } = await supabase
+    .from('documents')
+    .select('file_path')
+    .eq('project_id', projectId);
+
+  return lintDocument(filePath, content, { knownPaths: (data || []).map((d: { file_path: string }) => d.file_path) });
+}
+
+/**
+ * Lint findings section for propose tool reports (empty when clean)
+ */
+function formatLintSection(lint: LintResult): string {
+  if (lint.findings.length === 0) return '';
+  return `\n\n### Lint (${lint.errors} error(s), ${lint.warnings} warning(s))\n${formatLintFindings(lint)}`;
+}
+
+/**
+ * Background job for structured output
+ */
+function toJobOutput(job: Job, failures: Array<{ file_path: string; error_message: string | null }> = []): JobOutput {
+  const progress = getJobProgress(job);
+  return {
+    id: job.id,
+    project_id: job.project_id,
+    type: job.type,
+    status: job.status,
+    total_items: job.total_items,
+    completed_items: job.completed_items,
+    failed_items: job.failed_items,
+    progress: {
+      processed: progress.processed,
+      remaining: progress.remaining,
+      percent: progress.percent,
+      eta_seconds: progress.etaSeconds,
+    },
+    failures: failures.map((f) => ({ file_path: f.file_path, error_message: f.error_message })),
+    created_at: job.created_at,
+    completed_at: job.completed_at,
+  };
+}
+
+/**
+ * Format a background job as a progress report
+ */
+function formatJobStatus(job: Job, failures: Array<{ file_path: string; error_message: string | null }>): string {
+  const progress = getJobProgress(job);
+  const statusIcon: Record<Job['status'], string> = {
+    queued: '⏳',
+    running: '🔄',
+    completed: '✅',
+    failed: '❌',
+    cancelled: '⛔',
+  };
+  const eta = progress.etaSeconds === null
+    ? 'calculating...'
+    : progress.etaSeconds === 0 ? 'done' : `~${Math.max(1, Math.round(progress.etaSeconds / 60))} min`;
+  const totalChunks = job.result?.total_chunks;
+
+  let text = `## ${statusIcon[job.status]} ${job.type === 'reindex' ? 'Reindex' : job.type} Job: ${job.status}
+
+**Job ID:** \`${job.id}\`
+**Project:** \`${job.project_id}\`
+
+### Progress
+- **Documents:** ${progress.processed}/${job.total_items} (${progress.percent}%)
+- **Successful:** ${job.completed_items}
+- **Failed:** ${job.failed_items}
+- **Remaining:** ${progress.remaining}
+- **ETA:** ${eta}${typeof totalChunks === 'number' ? `\n- **Total chunks embedded:** ${totalChunks}` : ''}`;
+
+  if (failures.length > 0) {
+    text += `\n\n### Failures\n${failures.map((f) => `❌ **${f.file_path}**: ${f.error_message || 'Unknown error'}`).join('\n')}`;
+  }
+
+  text += job.status === 'queued' || job.status === 'running'
+    ? `\n\n---\n*Processing continues in the background. Poll with \`quoth_job_status\` (job_id: \`${job.id}\`).*`
+    : `\n\n---\n*Documents that failed keep their previous embeddings.*`;
+
+  return text;
+}
+
 /**
  * Register all Quoth tools on an MCP server with authentication context
  * Tools are filtered by authContext.project_id for multi-tenant isolation
@@ -51,14 +253,26 @@ export function registerQuothTools(
     {
       title: 'Semantic Search Quoth Documentation',
       description:
-        'Performs semantic search across Quoth documentation using AI embeddings. Returns relevant document chunks ranked by similarity. Use scope="shared" to search cross-project shared knowledge across your organization.',
+        'Performs semantic search across Quoth documentation using AI embeddings. Returns relevant document chunks ranked by similarity. Use scope="shared" to search cross-project shared knowledge across your organization. Optional filters (doc_type, path, status, exclude_status, related_stack, tags, updated_since) narrow the search before ranking.',
       inputSchema: {
         query: z.string().max(1000).describe('Natural language search query, e.g. "how to mock dependencies in tests", "database connection patterns" (max 1000 chars)'),
         scope: z.enum(['project', 'shared', 'org']).optional().default('project')
           .describe('Search scope: "project" (default, current project only), "shared" (cross-project shared knowledge), "org" (all org documents)'),
+        ...SearchFiltersInputSchema.shape,
       },
+      outputSchema: SearchIndexOutputSchema,
     },
-    async ({ query, scope }) => {
+    async ({ query, scope, ...filterInput }) => {
+      const filters = toSearchFilters(filterInput);
+
+      // Shared search only supports tag filtering
+      if (scope !== 'project') {
+        if (hasSearchFilters({ ...filters, tags: undefined })) {
+          return toolError(`Only the \`tags\` filter is supported with scope="${scope}". Use scope="project" to filter by doc_type, path, status, related_stack or updated_since.`);
+        }
+      }
+
+
       // Start activity logging with timing
       const activityLogger = createActivityLogger({
         projectId: authContext.project_id,
@@ -76,30 +290,27 @@ export function registerQuothTools(
         if (scope === 'shared' || scope === 'org') {
           const organizationId = await getOrganizationId(authContext.project_id);
           
-          // Generate embedding
-          const { generateQueryEmbedding, generateEmbedding } = await import('../ai');
-          
-          // Auto-detect if this is a code query
-          const isCodeQuery = /\b(function|class|method|import|export|const|let|var|def|async|await|return|interface|type|enum|implement|extends|package|module|snippet|code|api|endpoint|route|controller|service|util|helper)\b/i.test(query);
-          const embeddingModel = isCodeQuery ? 'jina-code-embeddings-1.5b' : 'jina-embeddings-v3';
-          const contentType = isCodeQuery ? 'code' : 'text';
-          
-          const queryEmbedding = generateQueryEmbedding 
-            ? await generateQueryEmbedding(query, contentType as 'text' | 'code') 
-            : await generateEmbedding(query, contentType as 'text' | 'code');
+          // Embed the query in both the text and code spaces of the project's provider
+          const provider = await getEmbeddingProviderForProject(authContext.project_id);
+          const queryEmbeddings = await embedQuerySpaces(provider, query);
           
-          // Call shared search RPC
-          const { data: rpcResults, error } = await supabase.rpc('match_shared_documents', {
-            query_embedding: queryEmbedding,
-            p_organization_id: organizationId,
-            match_count: 20,
-            filter_embedding_model: embeddingModel,
-          });
-          
-          if (error) throw new Error(`Shared search failed: ${error.message}`);
+          // Call shared search RPC once per embedding space
+          const lists = await Promise.all(queryEmbeddings.map(async ({ space, model, embedding }) => {
+            const { data, error } = await supabase.rpc('match_shared_documents', {
+              query_embedding: embedding,
+              p_organization_id: organizationId,
+              match_count: 20,
+              filter_embedding_model: model,
+              ...(filters.tags && { filter_tags: filters.tags }),
+            });
+            if (error) throw new Error(`Shared search failed: ${error.message}`);
+            return { space, matches: (data || []) as any[] };
+          }));
           
-          // Format results from match_shared_documents RPC
-          results = (rpcResults || []).map((doc: any) => ({
+          // Format merged results from match_shared_documents RPC
+          results = mergeEmbeddingSpaces(lists, (doc) => `${doc.document_id}:${doc.content_chunk}`)
+            .slice(0, 20)
+            .map((doc) => ({
             document_id: doc.document_id,
             title: doc.title,
             project_slug: doc.project_slug,
@@ -108,6 +319,7 @@ export function registerQuothTools(
             tags: doc.tags,
             snippet: doc.content_chunk,
             relevance: doc.similarity,
+            embedding_space: doc.embedding_space,
           }));
           
           // Create mock searchMeta for compatibility
@@ -119,7 +331,7 @@ export function registerQuothTools(
           };
         } else {
           // Project scope (default) - existing behavior
-          searchMeta = await searchDocumentsWithMeta(query, authContext.project_id);
+          searchMeta = await searchDocumentsWithMeta(query, authContext.project_id, { filters });
           results = searchMeta.results;
         }
 
@@ -139,23 +351,18 @@ export function registerQuothTools(
             relevanceScore: 0,
           });
 
-          return {
-            content: [
-              {
-                type: 'text' as const,
-                text: `No documents found matching "${query}".\n\nTry:\n- Using different phrasing\n- More general terms\n- Checking if the knowledge base is indexed`,
-              },
-            ],
-          };
+          return toolResult<SearchIndexOutput>(
+            `No documents found matching "${query}".\n\nTry:\n- Using different phrasing\n- More general terms${hasSearchFilters(filters) ? '\n- Loosening or removing the filters' : ''}\n- Checking if the knowledge base is indexed`,
+            { query, scope, used_fallback: Boolean(searchMeta.usedFallback), results: [] }
+          );
         }
 
+        // Trust levels for Gemini 2.0 context weighting
+        const trustOf = trustLevel;
+
           const formattedResults = results.map((doc, index) => {
           const similarity = Math.round((doc.relevance || 0) * 100);
-          
-          // Trust levels for Gemini 2.0 context weighting
-          let trustLevel = 'LOW';
-          if (doc.relevance! > 0.8) trustLevel = 'HIGH';
-          else if (doc.relevance! > 0.6) trustLevel = 'MEDIUM';
+          const trustLevel = trustOf(doc.relevance || 0);
 
           return `
 <chunk index="${index + 1}" trust="${trustLevel}" relevance="${similarity}%">
@@ -165,7 +372,10 @@ export function registerQuothTools(
     <path>${doc.path}</path>
     <type>${doc.type}</type>
   </document>
-  <position>${(doc.chunk_index ?? 0) + 1} of document</position>
+  <position>${(doc.chunk_index ?? 0) + 1} of document</position>${doc.embedding_space ? `
+  <space>${doc.embedding_space}</space>` : ''}${doc.breadcrumb ? `
+  <section>${doc.breadcrumb}</section>` : ''}${doc.lines ? `
+  <lines>${doc.lines.start}-${doc.lines.end}</lines>` : ''}
   <content>
     ${doc.snippet || '(No content snippet)'}
   </content>
@@ -188,11 +398,23 @@ export function registerQuothTools(
           ? `\n\n⚠️ ${searchMeta.tierMessage}`
           : '';
 
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: `<search_results query="${query}" count="${results.length}"${searchMeta.usedFallback ? ' mode="keyword-fallback"' : ''}>
+        const structuredResults: SearchIndexOutput['results'] = results.map((doc) => ({
+          chunk_id: doc.chunk_id ?? null,
+          document_id: doc.id ?? doc.document_id,
+          title: doc.title,
+          path: doc.path ?? null,
+          project_slug: doc.project_slug ?? null,
+          chunk_index: doc.chunk_index ?? 0,
+          relevance: doc.relevance || 0,
+          trust: trustOf(doc.relevance || 0),
+          snippet: doc.snippet || '',
+          breadcrumb: doc.breadcrumb ?? null,
+          lines: doc.lines ?? null,
+          embedding_space: doc.embedding_space ?? null,
+        }));
+
+        return toolResult<SearchIndexOutput>(
+          `<search_results query="${query}" count="${results.length}"${searchMeta.usedFallback ? ' mode="keyword-fallback"' : ''}>
 ${formattedResults}
 </search_results>
 
@@ -204,24 +426,16 @@ Instructions:
 **Access Options:**
 - \`quoth_read_chunks\` with chunk_id(s) → fetch specific chunks (token-efficient)
 - \`quoth_read_doc\` with document path → fetch full document${fallbackNotice}${usageFooter}`,
-            },
-          ],
-        };
+          { query, scope, used_fallback: Boolean(searchMeta.usedFallback), results: structuredResults }
+        );
       } catch (error) {
         // Log error case
         activityLogger.complete({
           resultCount: 0,
-          context: { error: error instanceof Error ? error.message : 'Unknown error' },
+          context: { error: errorMessage(error) },
         });
 
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: `Error searching documents: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            },
-          ],
-        };
+        return toolError(`Error searching documents: ${errorMessage(error)}`);
       }
     }
   );
@@ -232,13 +446,16 @@ Instructions:
     {
       title: 'Read Quoth Document',
       description:
-        'Retrieves the full content of a specific documentation file by its title or path. Returns the complete Markdown content with metadata.',
+        'Retrieves the full content of a specific documentation file by its title or path. Returns the complete Markdown content with metadata. Pass version or as_of to read an earlier version, e.g. what a pattern said when a given commit was written.',
       inputSchema: {
         doc_id: z.string().max(500).describe('The document title or file path, e.g. "backend-unit-vitest" or "patterns/backend-unit-vitest.md"'),
         scope: z.enum(['project', 'org']).optional().describe('Search scope: "project" (default, project-local only) or "org" (includes shared docs from same organization)'),
+        version: z.number().int().positive().optional().describe('Read this version number instead of the current one'),
+        as_of: z.string().max(100).optional().describe('Read the version current at an ISO date/time (e.g. "2026-03-01" or "2026-03-01T12:00:00Z") or at a repository commit SHA (repository-synced docs only)'),
       },
+      outputSchema: ReadDocOutputSchema,
     },
-    async ({ doc_id, scope }) => {
+    async ({ doc_id, scope, version, as_of }) => {
       // Start activity logging with timing
       const activityLogger = createActivityLogger({
         projectId: authContext.project_id,
@@ -290,14 +507,37 @@ Instructions:
             context: { found: false, suggestions: suggestions.map(s => s.id) },
           });
 
-          return {
-            content: [
-              {
-                type: 'text' as const,
-                text: `Document "${doc_id}" not found.${suggestionText}\n\nUse \`quoth_search_index\` to find available documents.`,
-              },
-            ],
-          };
+          return toolResult<ReadDocOutput>(
+            `Document "${doc_id}" not found.${suggestionText}\n\nUse \`quoth_search_index\` to find available documents.`,
+            { found: false, document: null, suggestions: suggestions.map(s => ({ id: s.id, path: s.path })), version: null }
+          );
+        }
+
+        // Resolve a point-in-time read
+        let selected: DocumentVersion | null = null;
+        let versionNote = '';
+        if (version !== undefined || as_of) {
+          const versions = await getDocumentVersions(doc.id);
+          selected = selectVersion(versions, { version, as_of });
+
+          if (!selected) {
+            const wanted = version !== undefined ? `version ${version}` : `as_of "${as_of}"`;
+            const hint = version === undefined && /^[0-9a-f]{7,40}$/i.test(as_of!.trim())
+              ? `\n\nNo version of this document was verified at that commit. Pass the commit date instead: \`git show -s --format=%cI ${as_of!.trim()}\`.`
+              : '';
+            activityLogger.complete({
+              documentId: doc.id,
+              context: { found: true, documentPath: doc.path, versionFound: false },
+            });
+            return toolError(
+              `No ${wanted} of "${doc.path}" (versions 1-${versions[0]?.version ?? 1} exist).${hint}`
+            );
+          }
+
+          const current = selected.history_id === null;
+          const range = `${selected.valid_from ? new Date(selected.valid_from).toISOString() : 'creation'} → ${selected.valid_to ? new Date(selected.valid_to).toISOString() : 'now'}`;
+          versionNote = `**Version:** ${selected.version}${current ? ' (current)' : ` of ${versions[0].version}`} · ${range}${selected.commit ? ` · commit \`${selected.commit.slice(0, 12)}\`` : ''}\n\n`;
+          doc = { ...doc, title: selected.title, content: selected.content };
         }
 
         // Format frontmatter as YAML block
@@ -311,28 +551,36 @@ Instructions:
           context: { found: true, documentPath: doc.path, documentTitle: doc.title },
         });
 
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: `## Document: ${doc.title}\n\n**Path:** \`${doc.path}\`\n\n**Metadata:**\n\`\`\`yaml\n${frontmatterYaml}\n\`\`\`\n\n**Content:**\n\n${doc.content}`,
+        return toolResult<ReadDocOutput>(
+          `## Document: ${doc.title}\n\n**Path:** \`${doc.path}\`\n\n${versionNote}**Metadata:**\n\`\`\`yaml\n${frontmatterYaml}\n\`\`\`\n\n**Content:**\n\n${doc.content}`,
+          {
+            found: true,
+            document: {
+              id: doc.id,
+              title: doc.title,
+              type: doc.type,
+              path: doc.path,
+              frontmatter: doc.frontmatter as Record<string, unknown>,
+              content: doc.content,
             },
-          ],
-        };
+            suggestions: [],
+            version: selected && {
+              number: selected.version,
+              current: selected.history_id === null,
+              valid_from: selected.valid_from,
+              valid_to: selected.valid_to,
+              commit: selected.commit,
+              source: selected.source,
+            },
+          }
+        );
       } catch (error) {
         // Log error case
         activityLogger.complete({
-          context: { error: error instanceof Error ? error.message : 'Unknown error' },
+          context: { error: errorMessage(error) },
         });
 
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: `Error reading document: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            },
-          ],
-        };
+        return toolError(`Error reading document: ${errorMessage(error)}`);
       }
     }
   );
@@ -353,25 +601,19 @@ Instructions:
         source_instance: z.string().max(200).optional().describe('Optional source instance identifier'),
         visibility: z.enum(['project', 'shared']).optional().describe('Optional visibility scope (project-local or org-shared)'),
       },
+      outputSchema: ProposeUpdateOutputSchema,
     },
     async ({ doc_id, new_content, evidence_snippet, reasoning, agent_id, source_instance, visibility }) => {
       try {
         // 1. Check role-based access control
         if (authContext.role === 'viewer') {
-          return {
-            content: [
-              {
-                type: 'text' as const,
-                text: `❌ Permission Denied: Viewers cannot propose documentation updates.\n\nOnly users with 'editor' or 'admin' roles can submit proposals. Contact your project admin to upgrade your role.`,
-              },
-            ],
-          };
+          return toolError(`❌ Permission Denied: Viewers cannot propose documentation updates.\n\nOnly users with 'editor' or 'admin' roles can submit proposals. Contact your project admin to upgrade your role.`);
         }
 
-        // 2. Get project settings for approval mode FIRST
+        // 2. Get project settings (lint gate); approval is decided per path below
         const { data: project } = await supabase
           .from('projects')
-          .select('require_approval')
+          .select('block_on_lint_errors')
           .eq('id', authContext.project_id)
           .single();
 
@@ -384,27 +626,61 @@ Instructions:
           return filename.replace(/\.md$/, '').replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
         };
 
+        // 4b. Resolve the path's approval policy and lint the new content;
+        // lint errors block direct apply when the project opts in
+        const targetPath = existingDoc ? existingDoc.path : (doc_id.endsWith('.md') ? doc_id : `${doc_id}.md`);
+        const policy = await getApprovalPolicy(authContext.project_id, targetPath);
+        const lint = await lintProjectDocument(authContext.project_id, targetPath, new_content);
+
+        if (policy.auto_apply && project?.block_on_lint_errors && lint.errors > 0) {
+          return toolResult<ProposeUpdateOutput>(
+            `## ❌ Update Blocked by Lint Errors
+
+**Path**: \`${targetPath}\`
+
+This project does not apply documents with lint errors. Fix the errors below and resubmit.
+
+### Findings
+${formatLintFindings(lint)}`,
+            {
+              action: 'blocked',
+              status: 'blocked',
+              new_document: !existingDoc,
+              proposal_id: null,
+              review_url: null,
+              document: {
+                id: existingDoc?.id ?? null,
+                title: existingDoc?.title ?? extractTitle(targetPath),
+                path: targetPath,
+                version: null,
+              },
+              indexing: null,
+              lint,
+              required_approvals: null,
+            }
+          );
+        }
+
         // 5. DOCUMENT DOES NOT EXIST - Create new document
         if (!existingDoc) {
           const docPath = doc_id.endsWith('.md') ? doc_id : `${doc_id}.md`;
           const docTitle = extractTitle(docPath);
 
-          // 5a. Direct create mode (no approval required OR new documents always direct)
-          if (project && !project.require_approval) {
-            const { document, chunksIndexed, chunksReused } = await syncDocument(
+          // 5a. Direct create mode (the path's policy auto-applies)
+          if (policy.auto_apply) {
+            const { document, chunksIndexed, chunksReused, stats } = await syncDocument(
               authContext.project_id,
               docPath,
               docTitle,
               new_content,
               agent_id,
               visibility,
-              undefined // tags
+              undefined, // tags
+              { userId: authContext.user_id, source: 'mcp' }
             );
 
-            return {
-              content: [{
-                type: 'text' as const,
-                text: `## ✅ New Document Created
+            return toolResult<ProposeUpdateOutput>(
+              `## ✅ New Document Created
 
 **Document**: ${docTitle}
 **Path**: \`${docPath}\`
@@ -413,16 +689,27 @@ Instructions:
 ### Indexing Stats
 - Chunks indexed: ${chunksIndexed}
 - Chunks reused (cached): ${chunksReused}
+${formatSyncStats(stats)}
 
 ### Evidence
 \`\`\`
 ${evidence_snippet.slice(0, 200)}${evidence_snippet.length > 200 ? '...' : ''}
-\`\`\`
+\`\`\`${formatLintSection(lint)}
 
 ---
 *Document created and indexed successfully.*`,
-              }],
-            };
+              {
+                action: 'created',
+                status: 'applied',
+                new_document: true,
+                proposal_id: null,
+                review_url: null,
+                document: { id: document.id, title: docTitle, path: docPath, version: document.version || 1 },
+                indexing: toIndexingOutput(chunksIndexed, chunksReused, stats),
+                lint,
+                required_approvals: null,
+              }
+            );
           }
 
           // 5b. Approval required for new documents - create proposal with null original
@@ -442,6 +729,8 @@ ${evidence_snippet.slice(0, 200)}${evidence_snippet.length > 200 ? '...' : ''}
               proposed_content: new_content,
               reasoning: `[NEW DOCUMENT] ${reasoning}`,
               evidence_snippet,
+              lint_findings: lint,
+              proposed_by: authContext.user_id,
               status: 'pending',
               ...(agent_id && { agent_id }),
               ...(source_instance && { source_instance }),
@@ -456,44 +745,52 @@ ${evidence_snippet.slice(0, 200)}${evidence_snippet.length > 200 ? '...' : ''}
 
           const dashboardUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
 
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `## 📝 New Document Proposal Created
+          return toolResult<ProposeUpdateOutput>(
+            `## 📝 New Document Proposal Created
 
 **Proposal ID**: ${proposal.id}
 **New Document**: ${docTitle}
 **Path**: \`${docPath}\`
 **Status**: Pending Review
+**Approval**: ${describeApprovalPolicy(policy)}
 
 🔗 **Review in Dashboard**: ${dashboardUrl}/proposals/${proposal.id}
 
 ### Reasoning
-${reasoning}
+${reasoning}${formatLintSection(lint)}
 
 ---
-*New document requires admin approval before being added to the knowledge base.*`,
-            }],
-          };
+*New document requires approval before being added to the knowledge base.*`,
+            {
+              action: 'proposed',
+              status: 'pending',
+              new_document: true,
+              proposal_id: proposal.id,
+              review_url: `${dashboardUrl}/proposals/${proposal.id}`,
+              document: { id: null, title: docTitle, path: docPath, version: null },
+              indexing: null,
+              lint,
+              required_approvals: policy.required_approvals,
+            }
+          );
         }
 
         // 6. DOCUMENT EXISTS - Update existing document
-        // 6a. DIRECT APPLY MODE (no approval required)
-        if (project && !project.require_approval) {
-          const { document, chunksIndexed, chunksReused } = await syncDocument(
+        // 6a. DIRECT APPLY MODE (the path's policy auto-applies)
+        if (policy.auto_apply) {
+          const { document, chunksIndexed, chunksReused, stats } = await syncDocument(
             authContext.project_id,
             existingDoc.path,
             existingDoc.title,
             new_content,
             agent_id,
             visibility,
-            undefined // tags
+            undefined, // tags
+            { userId: authContext.user_id, source: 'mcp' }
           );
 
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `## ✅ Documentation Updated Directly
+          return toolResult<ProposeUpdateOutput>(
+            `## ✅ Documentation Updated Directly
 
 **Document**: ${existingDoc.title}
 **Path**: \`${existingDoc.path}\`
@@ -503,11 +800,22 @@ ${reasoning}
 - Chunks re-indexed: ${chunksIndexed}
 - Chunks reused (cached): ${chunksReused}
 - Token savings: ${chunksReused > 0 ? Math.round((chunksReused / (chunksIndexed + chunksReused)) * 100) : 0}%
+${formatSyncStats(stats)}${formatLintSection(lint)}
 
 ---
 *Changes applied immediately. Previous version preserved in history.*`,
-            }],
-          };
+            {
+              action: 'updated',
+              status: 'applied',
+              new_document: false,
+              proposal_id: null,
+              review_url: null,
+              document: { id: existingDoc.id, title: existingDoc.title, path: existingDoc.path, version: document.version ?? null },
+              indexing: toIndexingOutput(chunksIndexed, chunksReused, stats),
+              lint,
+              required_approvals: null,
+            }
+          );
         }
 
         // 6b. APPROVAL REQUIRED MODE - Insert proposal into Supabase
@@ -523,9 +831,12 @@ ${reasoning}
             project_id: authContext.project_id,
             file_path: existingDoc.path,
             original_content: existingDoc.content,
+            base_checksum: calculateChecksum(existingDoc.content),
             proposed_content: new_content,
             reasoning,
             evidence_snippet,
+            lint_findings: lint,
+            proposed_by: authContext.user_id,
             status: 'pending',
             ...(agent_id && { agent_id }),
             ...(source_instance && { source_instance }),
@@ -540,16 +851,14 @@ ${reasoning}
 
         const dashboardUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
 
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: `## Update Proposal Created
+        return toolResult<ProposeUpdateOutput>(
+          `## Update Proposal Created
 
 **Proposal ID**: ${proposal.id}
 **Target Document**: ${existingDoc.title}
 **Path**: \`${existingDoc.path}\`
 **Status**: Pending Review
+**Approval**: ${describeApprovalPolicy(policy)}
 
 🔗 **Review in Dashboard**: ${dashboardUrl}/proposals/${proposal.id}
 
@@ -559,7 +868,7 @@ ${evidence_snippet}
 \`\`\`
 
 ### Reasoning
-${reasoning}
+${reasoning}${formatLintSection(lint)}
 
 ---
 
@@ -572,18 +881,20 @@ The proposal has been logged for human review. A maintainer will review and appr
 4. Vector embeddings regenerated (incrementally)
 
 *All documentation changes require human approval before being applied.*`,
-            },
-          ],
-        };
+          {
+            action: 'proposed',
+            status: 'pending',
+            new_document: false,
+            proposal_id: proposal.id,
+            review_url: `${dashboardUrl}/proposals/${proposal.id}`,
+            document: { id: existingDoc.id, title: existingDoc.title, path: existingDoc.path, version: null },
+            indexing: null,
+            lint,
+            required_approvals: policy.required_approvals,
+          }
+        );
       } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: `Error creating/updating document: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            },
-          ],
-        };
+        return toolError(`Error creating/updating document: ${errorMessage(error)}`);
       }
     }
   );
@@ -600,6 +911,7 @@ The proposal has been logged for human review. A maintainer will review and appr
         category: z.enum(['all', 'architecture', 'patterns', 'contracts']).optional()
           .describe('Filter by category. Use "all" or omit to list all templates.'),
       },
+      outputSchema: ListTemplatesOutputSchema,
     },
     async ({ category }) => {
       try {
@@ -644,16 +956,25 @@ The proposal has been logged for human review. A maintainer will review and appr
           }
         }
 
+        const structured: ListTemplatesOutput = {
+          category: category || 'all',
+          templates: templates.map((t) => ({
+            id: t.title,
+            path: t.filePath,
+            category: t.category,
+            target_type: t.targetType,
+            purpose: t.purpose,
+          })),
+        };
+
         if (templates.length === 0) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `No templates found${category && category !== 'all' ? ` in category "${category}"` : ''}.
+          return toolResult(
+            `No templates found${category && category !== 'all' ? ` in category "${category}"` : ''}.
 
 Templates are stored in \`quoth-knowledge-template/templates/\`.
 Available categories: architecture, patterns, contracts`,
-            }],
-          };
+            structured
+          );
         }
 
         const formattedTemplates = templates.map((t, index) => `
@@ -665,10 +986,8 @@ Available categories: architecture, patterns, contracts`,
   <purpose>${t.purpose}</purpose>
 </template>`).join('\n');
 
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `<templates count="${templates.length}"${category && category !== 'all' ? ` category="${category}"` : ''}>
+        return toolResult(
+          `<templates count="${templates.length}"${category && category !== 'all' ? ` category="${category}"` : ''}>
 ${formattedTemplates}
 </templates>
 
@@ -677,15 +996,10 @@ ${formattedTemplates}
 - Templates are chunk-optimized for embedding (each H2 = one chunk)
 - Follow template structure exactly for best search results
 - Optimal section size: 75-300 tokens (~58-231 words)`,
-          }],
-        };
+          structured
+        );
       } catch (error) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Error listing templates: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          }],
-        };
+        return toolError(`Error listing templates: ${errorMessage(error)}`);
       }
     }
   );
@@ -702,6 +1016,7 @@ ${formattedTemplates}
         template_id: z.string().max(500)
           .describe('Template path or ID, e.g. "templates/architecture/project-overview.md" or "project-overview"'),
       },
+      outputSchema: GetTemplateOutputSchema,
     },
     async ({ template_id }) => {
       try {
@@ -745,17 +1060,15 @@ ${formattedTemplates}
         if (!foundTemplate) {
           const suggestions = allTemplates.slice(0, 5).map(t => `- ${t.filePath}`).join('\n');
 
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `Template "${template_id}" not found.
+          return toolResult<GetTemplateOutput>(
+            `Template "${template_id}" not found.
 
 **Available templates:**
 ${suggestions}
 
 Use \`quoth_list_templates\` to see all available templates.`,
-            }],
-          };
+            { found: false, template: null, available: allTemplates.map(t => t.filePath) }
+          );
         }
 
         // Read and parse the template
@@ -764,10 +1077,8 @@ Use \`quoth_list_templates\` to see all available templates.`,
 
         const title = frontmatter.id || path.basename(foundTemplate.filePath, '.md');
 
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `## Template: ${title}
+        return toolResult<GetTemplateOutput>(
+          `## Template: ${title}
 
 **Path:** \`${foundTemplate.filePath}\`
 **Category:** ${frontmatter.category || 'unknown'}
@@ -786,15 +1097,20 @@ ${content}
 - Use aliases in headers: \`## Topic (Alias1, Alias2)\`
 - End each section with \`**Summary:**\` for chunk closure
 - Include 4-6 FAQ items per document for searchability`,
-          }],
-        };
+          {
+            found: true,
+            template: {
+              id: title,
+              path: foundTemplate.filePath,
+              category: frontmatter.category || 'unknown',
+              target_type: frontmatter.target_type || 'unknown',
+              content,
+            },
+            available: allTemplates.map(t => t.filePath),
+          }
+        );
       } catch (error) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Error getting template: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          }],
-        };
+        return toolError(`Error getting template: ${errorMessage(error)}`);
       }
     }
   );
@@ -811,18 +1127,35 @@ ${content}
           .min(1).max(20)
           .describe('Array of chunk IDs from search results (1-20 chunks)'),
       },
+      outputSchema: ReadChunksOutputSchema,
     },
     async ({ chunk_ids }) => {
       try {
         const chunks = await readChunks(chunk_ids, authContext.project_id);
 
+        const structured: ReadChunksOutput = {
+          chunks: chunks.map((chunk) => ({
+            chunk_id: chunk.chunk_id,
+            document_id: chunk.document_id,
+            document_title: chunk.document_title,
+            document_path: chunk.document_path,
+            chunk_index: chunk.chunk_index,
+            total_chunks: chunk.total_chunks,
+            content: chunk.content,
+            language: chunk.metadata.language ?? null,
+            parent_context: chunk.metadata.parentContext ?? null,
+            breadcrumb: chunk.metadata.breadcrumb ?? null,
+            lines: chunk.metadata.startLine && chunk.metadata.endLine
+              ? { start: chunk.metadata.startLine, end: chunk.metadata.endLine }
+              : null,
+          })),
+        };
+
         if (chunks.length === 0) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `No chunks found with the provided IDs.\n\nVerify the IDs are from your project's search results.`,
-            }],
-          };
+          return toolResult(
+            `No chunks found with the provided IDs.\n\nVerify the IDs are from your project's search results.`,
+            structured
+          );
         }
 
         // Group chunks by document for readability
@@ -847,6 +1180,8 @@ ${content}
   <chunk id="${chunk.chunk_id}" position="${chunk.chunk_index + 1} of ${chunk.total_chunks}">
     ${chunk.metadata.language ? `<language>${chunk.metadata.language}</language>` : ''}
     ${chunk.metadata.parentContext ? `<context>${chunk.metadata.parentContext}</context>` : ''}
+    ${chunk.metadata.breadcrumb ? `<section>${chunk.metadata.breadcrumb}</section>` : ''}
+    ${chunk.metadata.startLine ? `<lines>${chunk.metadata.startLine}-${chunk.metadata.endLine}</lines>` : ''}
     <content>
 ${chunk.content}
     </content>
@@ -860,19 +1195,9 @@ ${chunk.content}
         output += `
 </chunks>`;
 
-        return {
-          content: [{
-            type: 'text' as const,
-            text: output,
-          }],
-        };
+        return toolResult(output, structured);
       } catch (error) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Error reading chunks: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          }],
-        };
+        return toolError(`Error reading chunks: ${errorMessage(error)}`);
       }
     }
   );
@@ -885,28 +1210,33 @@ ${chunk.content}
       description:
         'Lists all project accounts available to the authenticated user. Shows which account is currently active and allows viewing all accessible projects with their roles.',
       inputSchema: {},
+      outputSchema: ListAccountsOutputSchema,
     },
     async () => {
       try {
         const connectionId = authContext.connection_id;
         if (!connectionId) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: 'Error: Multi-account support not available. No connection ID found.',
-            }],
-          };
+          return toolError('Error: Multi-account support not available. No connection ID found.');
         }
 
         const availableProjects = authContext.available_projects || [];
         
+        const structured: ListAccountsOutput = {
+          active_project_id: authContext.project_id,
+          accounts: availableProjects.map((acc) => ({
+            project_id: acc.project_id,
+            project_name: acc.project_name,
+            project_slug: acc.project_slug,
+            role: acc.role,
+            active: acc.project_id === authContext.project_id,
+          })),
+        };
+
         if (availableProjects.length === 0) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `You are connected to project: ${authContext.project_id}\n\nNo additional projects found. This is your only accessible project.`,
-            }],
-          };
+          return toolResult(
+            `You are connected to project: ${authContext.project_id}\n\nNo additional projects found. This is your only accessible project.`,
+            structured
+          );
         }
 
         const accountList = availableProjects.map(acc => {
@@ -915,19 +1245,12 @@ ${chunk.content}
           return `${marker} ${acc.project_name} (\`${acc.project_slug}\`) - Role: ${acc.role}\n   Project ID: \`${acc.project_id}\``;
         }).join('\n\n');
 
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `# Available Project Accounts\n\n${accountList}\n\n---\n\n**Total Projects:** ${availableProjects.length}\n**Active Project:** ${authContext.project_id}\n\nUse \`quoth_switch_account\` with a project ID to switch your active context.`,
-          }],
-        };
+        return toolResult(
+          `# Available Project Accounts\n\n${accountList}\n\n---\n\n**Total Projects:** ${availableProjects.length}\n**Active Project:** ${authContext.project_id}\n\nUse \`quoth_switch_account\` with a project ID to switch your active context.`,
+          structured
+        );
       } catch (error) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Error listing accounts: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          }],
-        };
+        return toolError(`Error listing accounts: ${errorMessage(error)}`);
       }
     }
   );
@@ -942,17 +1265,13 @@ ${chunk.content}
       inputSchema: {
         project_id: z.string().max(100).describe('The project ID to switch to (from quoth_list_accounts)'),
       },
+      outputSchema: SwitchAccountOutputSchema,
     },
     async ({ project_id }) => {
       try {
         const connectionId = authContext.connection_id;
         if (!connectionId) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: 'Error: Multi-account support not available. No connection ID found.',
-            }],
-          };
+          return toolError('Error: Multi-account support not available. No connection ID found.');
         }
 
         // Import session manager
@@ -964,22 +1283,15 @@ ${chunk.content}
           const availableProjects = authContext.available_projects || [];
           const projectList = availableProjects.map(p => `- ${p.project_name} (\`${p.project_id}\`)`).join('\n');
           
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `Error: Could not switch to project \`${project_id}\`.\n\nThis project either doesn't exist or you don't have access to it.\n\n**Available projects:**\n${projectList || '(none)'}`,
-            }],
-          };
+          return toolError(`Error: Could not switch to project \`${project_id}\`.\n\nThis project either doesn't exist or you don't have access to it.\n\n**Available projects:**\n${projectList || '(none)'}`);
         }
 
         // Get updated context
         const newContext = sessionManager.getActiveContext(connectionId);
         const matchingProject = authContext.available_projects?.find(p => p.project_id === project_id);
 
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `✅ **Account Switched Successfully**\n\n` +
+        return toolResult<SwitchAccountOutput>(
+          `✅ **Account Switched Successfully**\n\n` +
                   `**Now Active:** ${matchingProject?.project_name || project_id}\n` +
                   `**Project ID:** \`${project_id}\`\n` +
                   `**Your Role:** ${newContext?.role}\n\n` +
@@ -989,15 +1301,14 @@ ${chunk.content}
                   `- \`quoth_read_doc\` will read from this project\n` +
                   `- \`quoth_propose_update\` will create proposals for this project\n\n` +
                   `Use \`quoth_list_accounts\` to view all available projects.`,
-          }],
-        };
+          {
+            project_id,
+            project_name: matchingProject?.project_name || project_id,
+            role: newContext?.role ?? null,
+          }
+        );
       } catch (error) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Error switching account: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          }],
-        };
+        return toolError(`Error switching account: ${errorMessage(error)}`);
       }
     }
   );
@@ -1025,6 +1336,7 @@ Modes:
         full: z.boolean().optional()
           .describe('If true, returns full guidelines (~500 tokens). Default: compact (~150 tokens)'),
       },
+      outputSchema: GuidelinesOutputSchema,
     },
     async ({ mode, full }) => {
       try {
@@ -1043,19 +1355,13 @@ Modes:
           toolName: 'quoth_guidelines',
         });
 
-        return {
-          content: [{
-            type: 'text' as const,
-            text: content,
-          }],
-        };
+        return toolResult<GuidelinesOutput>(content, {
+          mode: guidelinesMode,
+          full: Boolean(full),
+          guidelines: content,
+        });
       } catch (error) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Error getting guidelines: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          }],
-        };
+        return toolError(`Error getting guidelines: ${errorMessage(error)}`);
       }
     }
   );
@@ -1074,16 +1380,12 @@ Modes:
       inputSchema: {
         organization_id: z.string().uuid().optional().describe('Optional: filter by organization ID'),
       },
+      outputSchema: ProjectListOutputSchema,
     },
     async ({ organization_id }) => {
       try {
         if (!authContext.user_id) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: '❌ Authentication required.',
-            }],
-          };
+          return toolError('❌ Authentication required.');
         }
 
         // Get all projects where user is a member
@@ -1113,34 +1415,34 @@ Modes:
         }
 
         if (!memberships || memberships.length === 0) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `You don't have access to any projects yet.\n\nUse \`quoth_project_create\` to create your first project.`,
-            }],
-          };
+          return toolResult<ProjectListOutput>(
+            `You don't have access to any projects yet.\n\nUse \`quoth_project_create\` to create your first project.`,
+            { active_project_id: authContext.project_id, projects: [] }
+          );
         }
 
-        const projectsList = memberships.map((m: any) => {
-          const p = m.project;
-          const isActive = p.id === authContext.project_id;
-          const marker = isActive ? '✓ **ACTIVE**' : ' ';
-          return `${marker} **${p.slug}**\n   Project ID: \`${p.id}\`\n   Role: ${m.role}\n   Visibility: ${p.is_public ? 'Public' : 'Private'}\n   Created: ${new Date(p.created_at).toLocaleDateString()}`;
+        const projects: ProjectListOutput['projects'] = memberships.map((m: any) => ({
+          id: m.project.id,
+          slug: m.project.slug,
+          role: m.role,
+          is_public: Boolean(m.project.is_public),
+          github_repo: m.project.github_repo || null,
+          organization_id: m.project.organization_id ?? null,
+          created_at: m.project.created_at,
+          active: m.project.id === authContext.project_id,
+        }));
+
+        const projectsList = projects.map((p) => {
+          const marker = p.active ? '✓ **ACTIVE**' : ' ';
+          return `${marker} **${p.slug}**\n   Project ID: \`${p.id}\`\n   Role: ${p.role}\n   Visibility: ${p.is_public ? 'Public' : 'Private'}\n   Created: ${new Date(p.created_at).toLocaleDateString()}`;
         }).join('\n\n');
 
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `# Your Projects (${memberships.length})\n\n${projectsList}\n\n---\n\n**Active Project:** \`${authContext.project_id}\`\n\nUse \`quoth_switch_account\` to change active project.`,
-          }],
-        };
+        return toolResult<ProjectListOutput>(
+          `# Your Projects (${memberships.length})\n\n${projectsList}\n\n---\n\n**Active Project:** \`${authContext.project_id}\`\n\nUse \`quoth_switch_account\` to change active project.`,
+          { active_project_id: authContext.project_id, projects }
+        );
       } catch (error) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Error listing projects: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          }],
-        };
+        return toolError(`Error listing projects: ${errorMessage(error)}`);
       }
     }
   );
@@ -1155,6 +1457,7 @@ Modes:
       inputSchema: {
         project_id: z.string().uuid().optional().describe('Project ID (defaults to current active project)'),
       },
+      outputSchema: ProjectReadOutputSchema,
     },
     async ({ project_id }) => {
       try {
@@ -1165,12 +1468,7 @@ Modes:
         if (!isOwnProject) {
           const { data: hasAccess } = await supabase.rpc('has_project_access', { target_project_id: targetProjectId });
           if (!hasAccess) {
-            return {
-              content: [{
-                type: 'text' as const,
-                text: `❌ Access denied. You don't have permission to view this project.`,
-              }],
-            };
+            return toolError(`❌ Access denied. You don't have permission to view this project.`);
           }
         }
 
@@ -1197,16 +1495,15 @@ Modes:
           .select('*', { count: 'exact', head: true })
           .eq('project_id', targetProjectId);
 
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `## Project: ${project.slug}
+        return toolResult<ProjectReadOutput>(
+          `## Project: ${project.slug}
 
 **Project ID:** \`${project.id}\`
 **Organization:** ${project.organization?.name || 'N/A'}
 **Visibility:** ${project.is_public ? 'Public' : 'Private'}
 **GitHub Repo:** ${project.github_repo || 'None'}
 **Approval Mode:** ${project.require_approval ? 'Approval required' : 'Direct apply'}
+**Lint Errors:** ${project.block_on_lint_errors ? 'Block direct apply' : 'Reported only'}
 
 ### Stats
 - **Documents:** ${docCount || 0}
@@ -1216,15 +1513,23 @@ Modes:
 
 ---
 *Use \`quoth_project_update\` to modify settings.*`,
-          }],
-        };
+          {
+            project: {
+              id: project.id,
+              slug: project.slug,
+              organization_name: project.organization?.name ?? null,
+              is_public: Boolean(project.is_public),
+              github_repo: project.github_repo || null,
+              require_approval: Boolean(project.require_approval),
+              block_on_lint_errors: Boolean(project.block_on_lint_errors),
+              embedding_provider: project.embedding_provider ?? null,
+              created_at: project.created_at,
+            },
+            stats: { documents: docCount || 0, members: memberCount || 0 },
+          }
+        );
       } catch (error) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Error reading project: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          }],
-        };
+        return toolError(`Error reading project: ${errorMessage(error)}`);
       }
     }
   );
@@ -1241,17 +1546,13 @@ Modes:
         github_repo: z.string().max(200).optional().describe('Optional GitHub repository URL (e.g., "owner/repo")'),
         is_public: z.boolean().optional().default(false).describe('Whether the project is publicly accessible (default: false)'),
       },
+      outputSchema: ProjectCreateOutputSchema,
     },
     async ({ slug, github_repo, is_public }) => {
       try {
         // 1. Check if user has permission to create projects (must be authenticated)
         if (!authContext.user_id) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: '❌ Authentication required. You must be logged in to create projects.',
-            }],
-          };
+          return toolError('❌ Authentication required. You must be logged in to create projects.');
         }
 
         // 2. Check if slug is already taken
@@ -1262,12 +1563,7 @@ Modes:
           .maybeSingle();
 
         if (existingProject) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `❌ Project slug "${slug}" is already taken. Please choose a different slug.\n\nTry:\n- ${slug}-kb\n- ${slug}-${Date.now()}\n- ${slug}-v2`,
-            }],
-          };
+          return toolError(`❌ Project slug "${slug}" is already taken. Please choose a different slug.\n\nTry:\n- ${slug}-kb\n- ${slug}-${Date.now()}\n- ${slug}-v2`);
         }
 
         // 3. Get or create user's organization
@@ -1353,10 +1649,8 @@ Modes:
 
         const dashboardUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
 
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `## ✅ Project Created Successfully
+        return toolResult<ProjectCreateOutput>(
+          `## ✅ Project Created Successfully
 
 **Slug:** \`${slug}\`
 **Project ID:** \`${project.id}\`
@@ -1384,15 +1678,19 @@ Modes:
 
 ---
 *You are now the admin of this project with full access.*`,
-          }],
-        };
+          {
+            project: {
+              id: project.id,
+              slug,
+              is_public: Boolean(is_public),
+              organization_id: organizationId,
+              created_at: project.created_at,
+            },
+            dashboard_url: `${dashboardUrl}/projects/${slug}`,
+          }
+        );
       } catch (error) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Error creating project: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          }],
-        };
+        return toolError(`Error creating project: ${errorMessage(error)}`);
       }
     }
   );
@@ -1403,16 +1701,24 @@ Modes:
     {
       title: 'Update Project',
       description:
-        'Updates project settings. Requires admin role. Can update name, visibility, GitHub repo, and approval mode.',
+        'Updates project settings. Requires admin role. Can update name, visibility, GitHub repo, docs directory, approval mode, lint blocking, and embedding provider. ' +
+        'Changing the embedding provider requires quoth_reindex before search returns results again.',
       inputSchema: {
         project_id: z.string().uuid().optional().describe('Project ID (defaults to current active project)'),
         slug: z.string().min(1).max(100).regex(/^[a-z0-9-]+$/).optional().describe('New slug (URL-safe identifier)'),
         github_repo: z.string().max(200).optional().describe('GitHub repository URL'),
+        docs_path: z.string().min(1).max(200).optional()
+          .describe('Docs directory in the repository indexed by repository sync (e.g. "docs", "." for the whole repo)'),
         is_public: z.boolean().optional().describe('Public visibility'),
-        require_approval: z.boolean().optional().describe('Require approval for documentation updates'),
+        require_approval: z.boolean().optional().describe('Require approval for documentation updates (paths without a matching approval policy)'),
+        block_on_lint_errors: z.boolean().optional()
+          .describe('Refuse direct-apply updates whose document has lint errors (see quoth_lint_doc)'),
+        embedding_provider: z.enum(EMBEDDING_PROVIDER_IDS as [EmbeddingProviderId, ...EmbeddingProviderId[]]).nullable().optional()
+          .describe('Embedding provider for this project (null = deployment default)'),
       },
+      outputSchema: ProjectUpdateOutputSchema,
     },
-    async ({ project_id, slug, github_repo, is_public, require_approval }) => {
+    async ({ project_id, slug, github_repo, docs_path, is_public, require_approval, block_on_lint_errors, embedding_provider }) => {
       try {
         const targetProjectId = project_id || authContext.project_id;
 
@@ -1421,12 +1727,7 @@ Modes:
         if (!isOwnProject) {
           const { data: isAdmin } = await supabase.rpc('is_project_admin', { target_project_id: targetProjectId });
           if (!isAdmin) {
-            return {
-              content: [{
-                type: 'text' as const,
-                text: `❌ Permission denied. Only project admins can update settings.`,
-              }],
-            };
+            return toolError(`❌ Permission denied. Only project admins can update settings.`);
           }
         }
 
@@ -1434,16 +1735,20 @@ Modes:
         const updates: any = {};
         if (slug !== undefined) updates.slug = slug;
         if (github_repo !== undefined) updates.github_repo = github_repo;
+        if (docs_path !== undefined) {
+          try {
+            updates.docs_path = normalizeDocsPath(docs_path) || '.';
+          } catch (error) {
+            return toolError(`❌ ${errorMessage(error)}`);
+          }
+        }
         if (is_public !== undefined) updates.is_public = is_public;
         if (require_approval !== undefined) updates.require_approval = require_approval;
+        if (block_on_lint_errors !== undefined) updates.block_on_lint_errors = block_on_lint_errors;
+        if (embedding_provider !== undefined) updates.embedding_provider = embedding_provider;
 
         if (Object.keys(updates).length === 0) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `No updates provided. Specify at least one field to update.`,
-            }],
-          };
+          return toolError(`No updates provided. Specify at least one field to update.`);
         }
 
         // Check if new slug is taken (if changing slug)
@@ -1456,12 +1761,7 @@ Modes:
             .maybeSingle();
 
           if (existing) {
-            return {
-              content: [{
-                type: 'text' as const,
-                text: `❌ Slug "${slug}" is already taken. Choose a different slug.`,
-              }],
-            };
+            return toolError(`❌ Slug "${slug}" is already taken. Choose a different slug.`);
           }
         }
 
@@ -1470,13 +1770,17 @@ Modes:
           .from('projects')
           .update(updates)
           .eq('id', targetProjectId)
-          .select('slug, is_public, github_repo, require_approval')
+          .select('slug, is_public, github_repo, docs_path, require_approval, block_on_lint_errors, embedding_provider')
           .single();
 
         if (error) {
           throw new Error(`Failed to update project: ${error.message}`);
         }
 
+        if (embedding_provider !== undefined) {
+          clearEmbeddingProviderCache(targetProjectId);
+        }
+
         // Log activity
         logActivity({
           projectId: targetProjectId,
@@ -1489,10 +1793,8 @@ Modes:
 
         const changedFields = Object.keys(updates).join(', ');
 
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `## ✅ Project Updated
+        return toolResult<ProjectUpdateOutput>(
+          `## ✅ Project Updated
 
 **Updated fields:** ${changedFields}
 
@@ -1500,19 +1802,30 @@ Modes:
 - Slug: \`${project.slug}\`
 - Visibility: ${project.is_public ? 'Public' : 'Private'}
 - GitHub Repo: ${project.github_repo || 'None'}
+- Docs Path: \`${project.docs_path}\`
 - Approval Mode: ${project.require_approval ? 'Required' : 'Direct apply'}
+- Lint Errors: ${project.block_on_lint_errors ? 'Block direct apply' : 'Reported only'}
+- Embedding Provider: ${project.embedding_provider || `${getDefaultEmbeddingProviderId()} (default)`}
 
 ---
-*Changes applied successfully.*`,
-          }],
-        };
+*Changes applied successfully.${embedding_provider !== undefined ? ' Run `quoth_reindex` to re-embed existing documents with the new provider.' : ''}*`,
+          {
+            project_id: targetProjectId,
+            updated_fields: Object.keys(updates),
+            project: {
+              slug: project.slug,
+              is_public: Boolean(project.is_public),
+              github_repo: project.github_repo || null,
+              docs_path: project.docs_path,
+              require_approval: Boolean(project.require_approval),
+              block_on_lint_errors: Boolean(project.block_on_lint_errors),
+              embedding_provider: project.embedding_provider ?? null,
+            },
+            reindex_required: embedding_provider !== undefined,
+          }
+        );
       } catch (error) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Error updating project: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          }],
-        };
+        return toolError(`Error updating project: ${errorMessage(error)}`);
       }
     }
   );
@@ -1528,6 +1841,7 @@ Modes:
         project_id: z.string().uuid().describe('Project ID to delete (required for safety)'),
         confirm_slug: z.string().describe('Project slug to confirm deletion (must match exactly)'),
       },
+      outputSchema: ProjectDeleteOutputSchema,
     },
     async ({ project_id, confirm_slug }) => {
       try {
@@ -1536,12 +1850,7 @@ Modes:
         if (!isOwnProject) {
           const { data: isAdmin } = await supabase.rpc('is_project_admin', { target_project_id: project_id });
           if (!isAdmin) {
-            return {
-              content: [{
-                type: 'text' as const,
-                text: `❌ Permission denied. Only project admins can delete projects.`,
-              }],
-            };
+            return toolError(`❌ Permission denied. Only project admins can delete projects.`);
           }
         }
 
@@ -1558,12 +1867,7 @@ Modes:
 
         // Verify slug confirmation
         if (project.slug !== confirm_slug) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `❌ Confirmation failed. The provided slug "${confirm_slug}" does not match the project slug "${project.slug}".\n\nTo delete this project, you must provide the exact slug: \`${project.slug}\``,
-            }],
-          };
+          return toolError(`❌ Confirmation failed. The provided slug "${confirm_slug}" does not match the project slug "${project.slug}".\n\nTo delete this project, you must provide the exact slug: \`${project.slug}\``);
         }
 
         // Delete project (cascade will handle documents, embeddings, etc.)
@@ -1576,10 +1880,8 @@ Modes:
           throw new Error(`Failed to delete project: ${deleteError.message}`);
         }
 
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `## ✅ Project Deleted
+        return toolResult<ProjectDeleteOutput>(
+          `## ✅ Project Deleted
 
 **Project:** \`${project.slug}\`
 **Project ID:** \`${project_id}\`
@@ -1592,15 +1894,10 @@ All associated data has been permanently removed:
 
 ---
 *This action cannot be undone. The project is gone.*`,
-          }],
-        };
+          { project_id, slug: project.slug, deleted: true }
+        );
       } catch (error) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Error deleting project: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          }],
-        };
+        return toolError(`Error deleting project: ${errorMessage(error)}`);
       }
     }
   );
@@ -1612,12 +1909,14 @@ All associated data has been permanently removed:
       title: 'Reindex Documents (Full Re-embedding)',
       description:
         'Completely re-generates embeddings for all documents in a project. ' +
-        'Deletes old embeddings, re-chunks content, and generates fresh embeddings using current embedding models (Jina v3 for text, Jina Code for code). ' +
-        'Useful after embedding model updates or to fix corrupted embeddings. ' +
-        'WARNING: This is a HEAVY operation and may take several minutes for large projects.',
+        'Re-chunks content and replaces each document\'s embeddings using the project\'s embedding provider (text and code models). ' +
+        'Useful after embedding model or provider changes, or to fix corrupted embeddings. ' +
+        'Runs as a background job: small projects finish within the call, larger ones continue in the background. ' +
+        'Poll progress with quoth_job_status.',
       inputSchema: {
         project_id: z.string().uuid().optional().describe('Project ID (defaults to current active project)'),
       },
+      outputSchema: ReindexOutputSchema,
     },
     async ({ project_id }) => {
       try {
@@ -1625,12 +1924,7 @@ All associated data has been permanently removed:
 
         // Check permission (editor or admin required)
         if (authContext.role === 'viewer') {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `❌ Permission Denied: Viewers cannot reindex documents.\n\nOnly users with 'editor' or 'admin' roles can reindex. Contact your project admin.`,
-            }],
-          };
+          return toolError(`❌ Permission Denied: Viewers cannot reindex documents.\n\nOnly users with 'editor' or 'admin' roles can reindex. Contact your project admin.`);
         }
 
         // Check access — skip RPC when operating on own project (service role + auth.uid() mismatch)
@@ -1638,191 +1932,669 @@ All associated data has been permanently removed:
         if (!isOwnProject) {
           const { data: hasAccess } = await supabase.rpc('has_project_access', { target_project_id: targetProjectId });
           if (!hasAccess) {
-            return {
-              content: [{
-                type: 'text' as const,
-                text: `❌ Access denied. You don't have permission to reindex this project.`,
-              }],
-            };
+            return toolError(`❌ Access denied. You don't have permission to reindex this project.`);
           }
         }
 
-        // Fetch all documents for the project
-        const { data: documents, error: docsError } = await supabase
-          .from('documents')
-          .select('id, file_path, title, content')
-          .eq('project_id', targetProjectId);
+        // Queue the job (returns the active one if a reindex is already running)
+        const { job, created } = await enqueueReindexJob(targetProjectId, authContext.user_id);
+
+        // Work on it inline for a bounded time; the cron worker picks up the rest
+        await runJobWorker({ maxDurationMs: REINDEX_INLINE_BUDGET_MS, jobId: job.id });
+
+        const current = (await getJob(job.id)) || job;
+        const failures = await getFailedJobItems(current.id);
 
-        if (docsError) {
-          throw new Error(`Failed to fetch documents: ${docsError.message}`);
+        return toolResult<ReindexOutput>(
+          formatJobStatus(current, failures) +
+            (created ? '' : '\n\n*A reindex was already in progress for this project; showing its status.*'),
+          { job: toJobOutput(current, failures), already_running: !created }
+        );
+      } catch (error) {
+        return toolError(`Error reindexing documents: ${errorMessage(error)}`);
+      }
+    }
+  );
+
+  // Tool 16: quoth_job_status (Background job progress)
+  server.registerTool(
+    'quoth_job_status',
+    {
+      title: 'Background Job Status',
+      description:
+        'Shows progress of background jobs (e.g. quoth_reindex): documents processed, failures, and estimated time remaining. ' +
+        'Without job_id, shows the most recent jobs for the project.',
+      inputSchema: {
+        job_id: z.string().uuid().optional().describe('Job ID returned by quoth_reindex'),
+        project_id: z.string().uuid().optional().describe('Project ID (defaults to current active project)'),
+      },
+      outputSchema: JobStatusOutputSchema,
+    },
+    async ({ job_id, project_id }) => {
+      try {
+        const targetProjectId = project_id || authContext.project_id;
+
+        // Check access — skip RPC when operating on own project
+        if (targetProjectId !== authContext.project_id) {
+          const { data: hasAccess } = await supabase.rpc('has_project_access', { target_project_id: targetProjectId });
+          if (!hasAccess) {
+            return toolError(`❌ Access denied. You don't have permission to view jobs for this project.`);
+          }
         }
 
-        if (!documents || documents.length === 0) {
-          return {
-            content: [{
-              type: 'text' as const,
-              text: `No documents found in project.\n\nUse \`quoth_propose_update\` to add documents first.`,
-            }],
-          };
+        if (job_id) {
+          const job = await getJob(job_id);
+          if (!job || job.project_id !== targetProjectId) {
+            return toolError(`Job not found: \`${job_id}\``);
+          }
+
+          const failures = await getFailedJobItems(job.id);
+          return toolResult<JobStatusOutput>(formatJobStatus(job, failures), {
+            jobs: [toJobOutput(job, failures)],
+          });
         }
 
-        // Import required functions for re-embedding
-        const { chunkContent, calculateChecksum } = await import('../sync');
-        const { generateEmbedding, detectContentType } = await import('../ai');
+        const jobs = await getRecentJobs(targetProjectId);
+        if (jobs.length === 0) {
+          return toolResult<JobStatusOutput>(`No background jobs found for this project.`, { jobs: [] });
+        }
 
-        // Reindex each document
-        let totalChunks = 0;
-        const results: Array<{ title: string; chunks: number; error?: string }> = [];
+        const lines = jobs.map((job) => {
+          const progress = getJobProgress(job);
+          return `- \`${job.id}\` **${job.type}** — ${job.status} (${progress.processed}/${job.total_items}, ${progress.percent}%) · ${new Date(job.created_at).toISOString()}`;
+        });
 
-        for (const doc of documents) {
-          try {
-            // 1. Delete ALL old embeddings for this document
-            const { error: deleteError } = await supabase
-              .from('document_embeddings')
-              .delete()
-              .eq('document_id', doc.id);
-
-            if (deleteError) {
-              throw new Error(`Failed to delete old embeddings: ${deleteError.message}`);
-            }
+        return toolResult<JobStatusOutput>(
+          `## Background Jobs\n\n${lines.join('\n')}\n\n---\n*Use \`quoth_job_status\` with a job_id for details.*`,
+          { jobs: jobs.map((job) => toJobOutput(job)) }
+        );
+      } catch (error) {
+        return toolError(`Error fetching job status: ${errorMessage(error)}`);
+      }
+    }
+  );
+
+  // Tool 17: quoth_propose_patch (Section-level edits)
+  server.registerTool(
+    'quoth_propose_patch',
+    {
+      title: 'Propose Documentation Patch',
+      description:
+        'Edits part of an existing document without resending it: replace a section by heading, append to a section, insert after a heading, or apply unified diff hunks. ' +
+        'Operations are validated against the current document. Like quoth_propose_update, the change is applied directly or becomes a proposal depending on project settings.',
+      inputSchema: {
+        doc_id: z.string().max(500).describe('The document title or path (e.g., "patterns/auth.md")'),
+        operations: z.array(PatchOperationSchema).min(1).max(50)
+          .describe('Edits applied in order, each to the result of the previous one'),
+        evidence_snippet: z.string().max(10000).describe('Code snippet or commit reference as evidence for the change (max 10KB)'),
+        reasoning: z.string().max(5000).describe('Explanation of why this update is needed (max 5000 chars)'),
+        agent_id: z.string().max(200).optional().describe('Optional agent ID that created this update'),
+        source_instance: z.string().max(200).optional().describe('Optional source instance identifier'),
+      },
+      outputSchema: ProposePatchOutputSchema,
+    },
+    async ({ doc_id, operations, evidence_snippet, reasoning, agent_id, source_instance }) => {
+      try {
+        if (authContext.role === 'viewer') {
+          return toolError(`❌ Permission Denied: Viewers cannot propose documentation updates.\n\nOnly users with 'editor' or 'admin' roles can submit proposals. Contact your project admin to upgrade your role.`);
+        }
+
+        const existingDoc = await readDocument(doc_id, authContext.project_id);
+        if (!existingDoc) {
+          return toolError(`Document "${doc_id}" not found. Patches edit existing documents; use \`quoth_propose_update\` to create a new one.`);
+        }
 
-            // 2. Re-chunk the content
-            const chunks = await chunkContent(doc.file_path, doc.content);
+        // 1. Validate the operations against the current document
+        let patched: string;
+        try {
+          patched = applyDocumentPatch(existingDoc.content, operations);
+        } catch (error) {
+          return toolError(`❌ Patch does not apply to \`${existingDoc.path}\`: ${errorMessage(error)}\n\nRe-read the document with \`quoth_read_doc\` and retry.`);
+        }
 
-            if (chunks.length === 0) {
-              results.push({
-                title: doc.title,
-                chunks: 0,
-                error: 'No chunks generated (empty content?)',
-              });
-              continue;
+        if (patched === existingDoc.content) {
+          return toolError(`Patch does not change \`${existingDoc.path}\`.`);
+        }
+
+        const hunks = diffLines(existingDoc.content, patched);
+        const changedLines = hunks.flatMap((hunk) => hunk.lines);
+        const diff = formatUnifiedDiff(hunks);
+        const summary = {
+          operations: operations.map(describePatchOperation),
+          lines_added: changedLines.filter((line) => line.type === 'add').length,
+          lines_removed: changedLines.filter((line) => line.type === 'remove').length,
+          diff,
+        };
+        const changesSection = `### Changes (+${summary.lines_added} −${summary.lines_removed})
+${summary.operations.map((op) => `- ${op}`).join('\n')}
+
+\`\`\`diff
+${diff}
+\`\`\``;
+
+        const lint = await lintProjectDocument(authContext.project_id, existingDoc.path, patched);
+        const document = { id: existingDoc.id, title: existingDoc.title, path: existingDoc.path };
+
+        const policy = await getApprovalPolicy(authContext.project_id, existingDoc.path);
+        const { data: project } = await supabase
+          .from('projects')
+          .select('block_on_lint_errors')
+          .eq('id', authContext.project_id)
+          .single();
+
+        if (policy.auto_apply && project?.block_on_lint_errors && lint.errors > 0) {
+          return toolResult<ProposePatchOutput>(
+            `## ❌ Patch Blocked by Lint Errors
+
+**Path**: \`${existingDoc.path}\`
+
+This project does not apply documents with lint errors. Fix the errors below and resubmit.
+
+### Findings
+${formatLintFindings(lint)}`,
+            {
+              action: 'blocked',
+              status: 'blocked',
+              proposal_id: null,
+              review_url: null,
+              document: { ...document, version: null },
+              ...summary,
+              indexing: null,
+              lint,
+              required_approvals: null,
             }
+          );
+        }
 
-            // 3. Generate fresh embeddings for ALL chunks
-            let successCount = 0;
-            for (let i = 0; i < chunks.length; i++) {
-              const chunk = chunks[i];
-              
-              try {
-                // Detect content type (text vs code) for appropriate embedding model
-                const contentType = detectContentType(chunk.content);
-                const embeddingModel = contentType === 'code' ? 'jina-code-embeddings-1.5b' : 'jina-embeddings-v3';
-                
-                // Generate embedding with appropriate model
-                const embedding = await generateEmbedding(chunk.content, contentType);
-                
-                // Calculate chunk hash for future incremental updates
-                const chunkHash = calculateChecksum(chunk.content);
-                
-                // Insert new embedding
-                const { error: insertError } = await supabase
-                  .from('document_embeddings')
-                  .insert({
-                    document_id: doc.id,
-                    content_chunk: chunk.content,
-                    chunk_hash: chunkHash,
-                    embedding,
-                    embedding_model: embeddingModel,
-                    metadata: { 
-                      chunk_index: i,
-                      source: 'full-reindex',
-                      content_type: contentType,
-                      ...chunk.metadata
-                    },
-                  });
-
-                if (insertError) {
-                  console.error(`Failed to insert chunk ${i} for ${doc.title}:`, insertError);
-                } else {
-                  successCount++;
-                }
-
-                // Rate limit between chunks (avoid hitting Jina's rate limits)
-                // 4.2s = ~14 chunks/min (conservative for 20/min limit)
-                if (i < chunks.length - 1) {
-                  await new Promise(r => setTimeout(r, 4200));
-                }
-              } catch (chunkError) {
-                console.error(`Failed to embed chunk ${i} for ${doc.title}:`, chunkError);
-              }
+        // 2a. DIRECT APPLY MODE (the path's policy auto-applies)
+        if (policy.auto_apply) {
+          const { document: synced, chunksIndexed, chunksReused, stats } = await syncDocument(
+            authContext.project_id,
+            existingDoc.path,
+            existingDoc.title,
+            patched,
+            agent_id,
+            undefined,
+            undefined,
+            { userId: authContext.user_id, source: 'mcp' }
+          );
+
+          return toolResult<ProposePatchOutput>(
+            `## ✅ Documentation Patched Directly
+
+**Document**: ${existingDoc.title}
+**Path**: \`${existingDoc.path}\`
+**Version**: ${synced.version || 'N/A'}
+
+${changesSection}
+
+### Indexing Stats
+- Chunks re-indexed: ${chunksIndexed}
+- Chunks reused (cached): ${chunksReused}
+${formatSyncStats(stats)}${formatLintSection(lint)}`,
+            {
+              action: 'updated',
+              status: 'applied',
+              proposal_id: null,
+              review_url: null,
+              document: { ...document, version: synced.version ?? null },
+              ...summary,
+              indexing: toIndexingOutput(chunksIndexed, chunksReused, stats),
+              lint,
+              required_approvals: null,
             }
+          );
+        }
 
-            totalChunks += successCount;
+        // 2b. APPROVAL REQUIRED MODE - store the patch with the resulting content
+        let patchSignature: string | undefined;
+        if (agent_id) {
+          try { patchSignature = await generateSignature(agent_id, patched); } catch {}
+        }
 
-            results.push({
-              title: doc.title,
-              chunks: successCount,
-              ...(successCount < chunks.length && { 
-                error: `Only ${successCount}/${chunks.length} chunks embedded successfully` 
-              }),
-            });
+        const { data: proposal, error } = await supabase
+          .from('document_proposals')
+          .insert({
+            document_id: existingDoc.id,
+            project_id: authContext.project_id,
+            file_path: existingDoc.path,
+            original_content: existingDoc.content,
+            base_checksum: calculateChecksum(existingDoc.content),
+            proposed_content: patched,
+            patch: operations,
+            reasoning,
+            evidence_snippet,
+            lint_findings: lint,
+            proposed_by: authContext.user_id,
+            status: 'pending',
+            ...(agent_id && { agent_id }),
+            ...(source_instance && { source_instance }),
+            ...(patchSignature && { signature: patchSignature }),
+          })
+          .select()
+          .single();
 
-          } catch (error) {
-            results.push({
-              title: doc.title,
-              chunks: 0,
-              error: error instanceof Error ? error.message : 'Unknown error',
-            });
+        if (error) {
+          throw new Error(`Failed to create proposal: ${error.message}`);
+        }
+
+        const dashboardUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+        return toolResult<ProposePatchOutput>(
+          `## Patch Proposal Created
+
+**Proposal ID**: ${proposal.id}
+**Target Document**: ${existingDoc.title}
+**Path**: \`${existingDoc.path}\`
+**Status**: Pending Review
+**Approval**: ${describeApprovalPolicy(policy)}
+
+🔗 **Review in Dashboard**: ${dashboardUrl}/proposals/${proposal.id}
+
+${changesSection}
+
+### Reasoning
+${reasoning}${formatLintSection(lint)}
+
+---
+*Reviewers see only the changed sections. If the document changes before approval, the patch is merged with those changes.*`,
+          {
+            action: 'proposed',
+            status: 'pending',
+            proposal_id: proposal.id,
+            review_url: `${dashboardUrl}/proposals/${proposal.id}`,
+            document: { ...document, version: null },
+            ...summary,
+            indexing: null,
+            lint,
+            required_approvals: policy.required_approvals,
           }
+        );
+      } catch (error) {
+        return toolError(`Error patching document: ${errorMessage(error)}`);
+      }
+    }
+  );
+
+  // Tool 18: quoth_lint_doc (Frontmatter and embedding rule checks)
+  server.registerTool(
+    'quoth_lint_doc',
+    {
+      title: 'Lint Documentation',
+      description:
+        'Checks documents against the frontmatter schema (id, type, status, last_updated_date), genesis embedding rules ' +
+        '(H2 section length, **Summary:** lines, FAQ section, code block size) and broken internal links. ' +
+        'Lints one stored document, unsaved content (content + doc_id as its path), or every document in the project when doc_id is omitted.',
+      inputSchema: {
+        doc_id: z.string().max(500).optional().describe('Document title or path; omit to lint the whole project'),
+        content: z.string().max(500000).optional().describe('Unsaved markdown to lint instead of the stored document (requires doc_id)'),
+      },
+      outputSchema: LintDocOutputSchema,
+    },
+    async ({ doc_id, content }) => {
+      try {
+        if (content !== undefined && !doc_id) {
+          return toolError('Provide doc_id (the document path) together with content.');
         }
 
-        // Format results
-        const successCount = results.filter(r => !r.error).length;
-        const failCount = results.filter(r => r.error).length;
+        const { data: rows, error } = await supabase
+          .from('documents')
+          .select('file_path, title, content')
+          .eq('project_id', authContext.project_id);
 
-        const resultSummary = results
-          .map(r => {
-            if (r.error) {
-              return `❌ **${r.title}**: ${r.error}`;
-            }
-            return `✓ **${r.title}**: ${r.chunks} chunks embedded`;
-          })
-          .join('\n');
+        if (error) {
+          throw new Error(`Failed to load documents: ${error.message}`);
+        }
 
-        // Log activity
-        logActivity({
-          projectId: targetProjectId,
-          userId: authContext.user_id,
-          eventType: 'reindex',
-          query: 'reindex:full-reembed',
-          resultCount: totalChunks,
-          toolName: 'quoth_reindex',
-          context: {
-            totalDocuments: documents.length,
-            successCount,
-            failCount,
-            totalChunks,
-          },
+        const knownPaths = (rows || []).map((row: { file_path: string }) => row.file_path);
+        let targets: Array<{ path: string; title: string | null; content: string }>;
+
+        if (doc_id) {
+          const existingDoc = await readDocument(doc_id, authContext.project_id);
+          if (content !== undefined) {
+            const targetPath = existingDoc ? existingDoc.path : (doc_id.endsWith('.md') ? doc_id : `${doc_id}.md`);
+            targets = [{ path: targetPath, title: existingDoc?.title ?? null, content }];
+          } else if (existingDoc) {
+            targets = [{ path: existingDoc.path, title: existingDoc.title, content: existingDoc.content }];
+          } else {
+            return toolError(`Document "${doc_id}" not found. Use \`quoth_search_index\` to find available documents.`);
+          }
+        } else {
+          targets = (rows || []).map((row: { file_path: string; title: string; content: string }) => ({
+            path: row.file_path,
+            title: row.title,
+            content: row.content,
+          }));
+        }
+
+        const documents = targets
+          .map((target) => ({
+            path: target.path,
+            title: target.title,
+            ...lintDocument(target.path, target.content, { knownPaths }),
+          }))
+          .sort((a, b) => b.errors - a.errors || b.warnings - a.warnings || a.path.localeCompare(b.path));
+
+        const totalErrors = documents.reduce((sum, doc) => sum + doc.errors, 0);
+        const totalWarnings = documents.reduce((sum, doc) => sum + doc.warnings, 0);
+
+        let text: string;
+        if (documents.length === 1) {
+          const [doc] = documents;
+          text = `## Lint: \`${doc.path}\`\n\n**Errors:** ${doc.errors} · **Warnings:** ${doc.warnings}\n\n${formatLintFindings(doc)}`;
+        } else {
+          // Project overview: rule totals, then the worst documents
+          const ruleCounts = new Map<string, number>();
+          for (const finding of documents.flatMap((doc) => doc.findings)) {
+            const key = `${finding.severity === 'error' ? '❌' : '⚠️'} ${finding.rule}`;
+            ruleCounts.set(key, (ruleCounts.get(key) || 0) + 1);
+          }
+          const flagged = documents.filter((doc) => doc.findings.length > 0);
+
+          text = `## Lint: ${documents.length} documents
+
+**Errors:** ${totalErrors} · **Warnings:** ${totalWarnings} · **Clean documents:** ${documents.length - flagged.length}
+
+### By Rule
+${ruleCounts.size > 0 ? [...ruleCounts].map(([rule, count]) => `- ${rule}: ${count}`).join('\n') : '- none'}
+
+### Documents
+${flagged.slice(0, 25).map((doc) => `- \`${doc.path}\` — ${doc.errors} error(s), ${doc.warnings} warning(s)`).join('\n') || '- All documents pass'}${flagged.length > 25 ? `\n- ...and ${flagged.length - 25} more (see structuredContent)` : ''}
+
+---
+*Lint a single document with \`doc_id\` for line-level findings.*`;
+        }
+
+        return toolResult<LintDocOutput>(text, {
+          documents,
+          total_errors: totalErrors,
+          total_warnings: totalWarnings,
         });
+      } catch (error) {
+        return toolError(`Error linting documents: ${errorMessage(error)}`);
+      }
+    }
+  );
+
+  // Tool 19: quoth_proposal_feedback (Review round trips)
+  server.registerTool(
+    'quoth_proposal_feedback',
+    {
+      title: 'Proposal Feedback',
+      description:
+        'Reads the review comments on a proposal (threaded, anchored to lines of the proposed content) and lets the authoring agent respond: ' +
+        'reply to threads and submit a revised version of the same proposal with new_content or patch operations. ' +
+        'A revision reopens a proposal that was sent back with "changes requested" (or rejected) for review; only the proposal\'s author and its reviewers may revise it. ' +
+        'A proposal in conflict is resolved by revising it with new_content written against the current document. ' +
+        'Call with only proposal_id to read.',
+      inputSchema: {
+        proposal_id: z.string().uuid().describe('Proposal ID returned by quoth_propose_update or quoth_propose_patch'),
+        new_content: z.string().max(500000).optional().describe('Full revised content (replaces the proposed content)'),
+        operations: z.array(PatchOperationSchema).min(1).max(50).optional()
+          .describe('Patch operations applied to the current proposed content (not the live document)'),
+        reasoning: z.string().max(5000).optional().describe('What changed in this revision'),
+        replies: z.array(z.object({
+          comment_id: z.string().uuid().describe('Thread (or comment) to reply to'),
+          body: z.string().min(1).max(5000),
+          resolve: z.boolean().optional().describe('Mark the thread resolved'),
+        })).max(50).optional(),
+        agent_id: z.string().max(200).optional().describe('Optional agent ID shown as the reply author'),
+      },
+      outputSchema: ProposalFeedbackOutputSchema,
+    },
+    async ({ proposal_id, new_content, operations, reasoning, replies, agent_id }) => {
+      try {
+        const { data: proposal, error } = await supabase
+          .from('document_proposals')
+          .select('id, project_id, file_path, status, revision, proposed_content, reasoning, patch, lint_findings, proposed_by, conflicts')
+          .eq('id', proposal_id)
+          .eq('project_id', authContext.project_id)
+          .maybeSingle();
 
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `## ✅ Full Re-embedding Complete
+        if (error) {
+          throw new Error(`Failed to load proposal: ${error.message}`);
+        }
+        if (!proposal) {
+          return toolError(`Proposal ${proposal_id} not found in this project.`);
+        }
 
-**Project:** \`${targetProjectId}\`
-**Mode:** Full re-embedding (all embeddings regenerated from scratch)
+        const revising = new_content !== undefined || operations !== undefined;
+        const writes = revising || (replies?.length ?? 0) > 0;
+        if (writes && authContext.role === 'viewer') {
+          return toolError(`❌ Permission Denied: Viewers cannot reply to or revise proposals.`);
+        }
+        if (new_content !== undefined && operations !== undefined) {
+          return toolError('Provide either new_content or operations, not both.');
+        }
+        if (revising && !(await canReviseProposal(proposal, authContext.user_id, authContext.role))) {
+          return toolError(
+            `❌ Permission Denied: Only the proposal's author or its reviewers ` +
+            `(${describeApprovalPolicy(await getApprovalPolicy(authContext.project_id, proposal.file_path))}) can revise it.`
+          );
+        }
 
-### Summary
-- **Documents processed:** ${documents.length}
-- **Successful:** ${successCount}
-- **Failed:** ${failCount}
-- **Total chunks embedded:** ${totalChunks}
+        const reviewable = proposal as ReviewableProposal & { file_path: string };
+        const authorName = agent_id || authContext.label || 'agent';
+
+        // 1. Replies are anchored to the revision they answer
+        for (const reply of replies ?? []) {
+          await addProposalComment(reviewable, {
+            body: reply.body,
+            parent_id: reply.comment_id,
+            author_type: 'agent',
+            author_id: authContext.user_id,
+            author_name: authorName,
+          });
 
-### Results
-${resultSummary}
+          if (reply.resolve) {
+            await resolveCommentThread(proposal_id, reply.comment_id);
+          }
+        }
+
+        // 2. Revision
+        let revision = reviewable.revision;
+        let status = reviewable.status;
+        let lint: LintResult | null = null;
+
+        if (revising) {
+          if (!REVISABLE_STATUSES.includes(reviewable.status)) {
+            return toolError(`Cannot revise a proposal with status: ${reviewable.status}`);
+          }
+
+          // A conflicted proposal (also when sent back from conflict with
+          // "changes requested") is resolved against the document as it is now,
+          // which becomes the new merge base
+          let base: { content: string; checksum: string } | undefined;
+          if ((proposal.conflicts?.length ?? 0) > 0) {
+            if (operations) {
+              return toolError(
+                'This proposal conflicts with newer changes to the document. ' +
+                'Resolve it with new_content written against the current document (operations apply to the proposed content, which predates those changes).'
+              );
+            }
+
+            const { data: currentDoc } = await supabase
+              .from('documents')
+              .select('content, checksum')
+              .eq('project_id', authContext.project_id)
+              .eq('file_path', reviewable.file_path)
+              .maybeSingle();
+
+            base = currentDoc ?? undefined;
+          }
+
+          let content: string;
+          try {
+            content = operations ? applyDocumentPatch(reviewable.proposed_content, operations) : new_content!;
+          } catch (patchError) {
+            return toolError(`Revision not applied: ${errorMessage(patchError)}`);
+          }
+
+          if (content === reviewable.proposed_content) {
+            return toolError('The revision does not change the proposed content.');
+          }
+          if (hasConflictMarkers(content)) {
+            return toolError('The revision still has conflict markers. Resolve every conflict first.');
+          }
+
+          lint = await lintProjectDocument(authContext.project_id, reviewable.file_path, content);
+          revision = await reviseProposal(reviewable, { proposed_content: content, reasoning, operations, lint, base });
+          status = 'pending';
+        }
+
+        const threads = buildCommentThreads(await getProposalComments(proposal_id), revision);
+        const openThreads = threads.filter((thread) => !thread.resolved).length;
+        const dashboardUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+        const revised = revision !== reviewable.revision;
+
+        return toolResult<ProposalFeedbackOutput>(
+          `## 💬 Proposal Feedback: \`${reviewable.file_path}\`
+
+**Status**: ${status} · **Revision**: ${revision}${revised ? `\n\n✅ Revision ${revision} submitted; the proposal is pending review again.` : ''}${replies?.length ? `\n**Replies posted**: ${replies.length}` : ''}
+🔗 **Review in Dashboard**: ${dashboardUrl}/proposals/${proposal_id}
+
+### Review Comments (${openThreads} open)
+${formatCommentThreads(threads)}${lint ? formatLintSection(lint) : ''}
 
 ---
-*All embeddings have been regenerated using current embedding models (Jina v3 for text, Jina Code for code).*${failCount > 0 ? '\n\n⚠️ Some documents failed to reindex. Check the error messages above.' : ''}`,
-          }],
-        };
+*Reply with \`replies\`; revise with \`new_content\` or \`operations\` (applied to the proposed content, not the live document).*`,
+          {
+            proposal_id,
+            file_path: reviewable.file_path,
+            status,
+            revision,
+            review_url: `${dashboardUrl}/proposals/${proposal_id}`,
+            revised,
+            replies_posted: replies?.length ?? 0,
+            open_threads: openThreads,
+            threads,
+            lint,
+          }
+        );
       } catch (error) {
-        return {
-          content: [{
-            type: 'text' as const,
-            text: `Error reindexing documents: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          }],
+        return toolError(`Error handling proposal feedback: ${errorMessage(error)}`);
+      }
+    }
+  );
+
+  // Tool 20: quoth_drift_fix (Drift-to-proposal)
+  server.registerTool(
+    'quoth_drift_fix',
+    {
+      title: 'Draft Drift Fix',
+      description:
+        'Turns an unresolved drift event into a documentation proposal: the text the document expected (expected_pattern) is rewritten to the actual code, ' +
+        'and the proposal goes through normal review. Applying it resolves the drift event. Call without drift_id to list unresolved drift events.',
+      inputSchema: {
+        drift_id: z.string().uuid().optional().describe('Drift event to fix; omit to list unresolved events'),
+        agent_id: z.string().max(200).optional().describe('Optional agent ID that drafted the fix'),
+      },
+      outputSchema: DriftFixOutputSchema,
+    },
+    async ({ drift_id, agent_id }) => {
+      try {
+        const empty = {
+          drift_id: null,
+          proposal_id: null,
+          review_url: null,
+          file_path: null,
+          section: null,
+          replacements: 0,
+          diff: null,
+          lint: null,
+          open_events: [],
         };
+
+        // 1. List mode
+        if (!drift_id) {
+          const { data: rows, error } = await supabase
+            .from('drift_events')
+            .select('id, severity, drift_type, file_path, doc_path, document_id, description, expected_pattern, actual_code, proposal_id')
+            .eq('project_id', authContext.project_id)
+            .eq('resolved', false)
+            .order('detected_at', { ascending: false })
+            .limit(50);
+
+          if (error) {
+            throw new Error(`Failed to load drift events: ${error.message}`);
+          }
+
+          const events = (rows || []).map((row) => ({
+            id: row.id,
+            severity: row.severity,
+            drift_type: row.drift_type,
+            file_path: row.file_path,
+            doc_path: row.doc_path,
+            description: row.description,
+            fixable: Boolean(row.expected_pattern && row.actual_code && (row.document_id || row.doc_path)),
+            proposal_id: row.proposal_id,
+          }));
+
+          const list = events.map((event) =>
+            `- \`${event.id}\` [${event.severity}] ${event.drift_type}: ${event.description}` +
+            `${event.doc_path ? ` (\`${event.doc_path}\`)` : ''}` +
+            `${event.proposal_id ? ` · proposal ${event.proposal_id}` : event.fixable ? ' · fixable' : ''}`
+          ).join('\n');
+
+          return toolResult<DriftFixOutput>(
+            `## Unresolved Drift (${events.length})
+
+${list || '- No unresolved drift events'}
+
+---
+*Call again with \`drift_id\` to draft a fix proposal for a fixable event.*`,
+            { ...empty, open_events: events }
+          );
+        }
+
+        // 2. Draft a proposal
+        if (authContext.role === 'viewer') {
+          return toolError(`❌ Permission Denied: Viewers cannot propose documentation updates.`);
+        }
+
+        let draft;
+        try {
+          draft = await createDriftProposal(authContext.project_id, drift_id, {
+            userId: authContext.user_id,
+            agentId: agent_id,
+          });
+        } catch (draftError) {
+          return toolError(`❌ Could not draft a fix: ${errorMessage(draftError)}`);
+        }
+
+        const dashboardUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+        const policy = await getApprovalPolicy(authContext.project_id, draft.filePath);
+
+        return toolResult<DriftFixOutput>(
+          `## Drift Fix Proposal Created
+
+**Proposal ID**: ${draft.proposalId}
+**Path**: \`${draft.filePath}\`${draft.section ? `\n**Section**: ${draft.section}` : ''}
+**Status**: Pending Review
+**Approval**: ${describeApprovalPolicy(policy)}
+
+🔗 **Review in Dashboard**: ${dashboardUrl}/proposals/${draft.proposalId}
+
+\`\`\`diff
+${draft.diff}
+\`\`\`${formatLintSection(draft.lint)}
+
+---
+*The drift event is resolved when the proposal is applied.*`,
+          {
+            ...empty,
+            drift_id,
+            proposal_id: draft.proposalId,
+            review_url: `${dashboardUrl}/proposals/${draft.proposalId}`,
+            file_path: draft.filePath,
+            section: draft.section,
+            replacements: draft.replacements,
+            diff: draft.diff,
+            lint: draft.lint,
+          }
+        );
+      } catch (error) {
+        return toolError(`Error drafting drift fix: ${errorMessage(error)}`);
       }
     }
   );
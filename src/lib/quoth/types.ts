@@ -17,6 +17,7 @@ export const DocumentFrontmatterSchema = z.object({
   last_verified_commit: z.string().optional(),
   last_updated_date: z.string(),
   status: z.enum(['active', 'deprecated', 'draft']),
+  review_by: z.string().optional().describe('Date (YYYY-MM-DD) to review the document by; overrides the staleness policy'),
   // Embedding optimization fields
   keywords: z.array(z.string()).optional().describe('Search keywords for embedding optimization'),
   common_queries: z.array(z.string()).optional().describe('FAQ-style questions this doc answers'),
@@ -52,9 +53,35 @@ export interface DocumentReference {
 
 // ============ Tool Input Schemas ============
 
+const oneOrMany = <T extends z.ZodTypeAny>(schema: T) => z.union([schema, z.array(schema).min(1)]);
+
+/**
+ * Optional metadata filters shared by quoth_search_index and /api/knowledge-base/search
+ */
+export const SearchFiltersInputSchema = z.object({
+  doc_type: oneOrMany(DocumentFrontmatterSchema.shape.type).optional()
+    .describe('Only documents of this type (or any of these types), e.g. "testing-pattern"'),
+  path: z.string().max(500).optional()
+    .describe('Path prefix ("contracts/") or glob ("patterns/**/*.md", "*/auth-*.md")'),
+  status: oneOrMany(DocumentFrontmatterSchema.shape.status).optional()
+    .describe('Only documents whose frontmatter status is one of these'),
+  exclude_status: oneOrMany(DocumentFrontmatterSchema.shape.status).optional()
+    .describe('Skip documents with these statuses, e.g. "deprecated"'),
+  related_stack: oneOrMany(z.string()).optional()
+    .describe('Only documents whose frontmatter related_stack includes any of these, e.g. "vitest"'),
+  tags: oneOrMany(z.string()).optional()
+    .describe('Only documents tagged with any of these'),
+  updated_since: z.string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), 'Expected an ISO date or timestamp')
+    .optional()
+    .describe('Only documents updated on or after this ISO date/timestamp, e.g. "2026-01-01"'),
+});
+
+export type SearchFiltersInput = z.infer<typeof SearchFiltersInputSchema>;
+
 export const SearchIndexInputSchema = z.object({
   query: z.string().describe('Search query, e.g. "auth flow", "vitest mocks"'),
-});
+}).merge(SearchFiltersInputSchema);
 
 export const ReadDocInputSchema = z.object({
   doc_id: z.string().describe('The document ID, e.g. "pattern-backend-unit"'),
@@ -67,6 +94,41 @@ export const ProposeUpdateInputSchema = z.object({
   reasoning: z.string().describe('Explanation of why this update is needed'),
 });
 
+const SectionHeadingSchema = z.string().min(1).max(500)
+  .describe('Heading text, e.g. "Guards". Prefix with #s to pin the level ("## Guards") or add parents to disambiguate ("Auth > Guards")');
+
+const SectionContentSchema = z.string().min(1).max(100000)
+  .describe('Markdown to write (max 100KB)');
+
+/**
+ * One edit of quoth_propose_patch. Sections run from their heading to the next
+ * heading of the same or higher level.
+ */
+export const PatchOperationSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('replace_section'),
+    heading: SectionHeadingSchema,
+    content: SectionContentSchema.describe('New section body (everything under the heading, subsections included)'),
+  }),
+  z.object({
+    op: z.literal('append_to_section'),
+    heading: SectionHeadingSchema,
+    content: SectionContentSchema.describe('Markdown added at the end of the section body, before any subsections'),
+  }),
+  z.object({
+    op: z.literal('insert_after_heading'),
+    heading: SectionHeadingSchema,
+    content: SectionContentSchema.describe('Markdown inserted directly below the heading'),
+  }),
+  z.object({
+    op: z.literal('unified_diff'),
+    diff: z.string().min(1).max(100000)
+      .describe('Unified diff hunks (@@ -l,n +l,n @@) against the current document; context lines must match'),
+  }),
+]);
+
+export type PatchOperation = z.infer<typeof PatchOperationSchema>;
+
 // ============ Search Index Types ============
 
 export interface SearchIndex {
@@ -118,9 +180,11 @@ export interface ChunkMetadata {
   language?: string;
   filePath?: string;
   parentContext?: string;
+  breadcrumb?: string;        // Markdown heading path, e.g. "Title > Section > Subsection"
   startLine?: number;
   endLine?: number;
   source?: string;
+  content_type?: 'text' | 'code'; // Embedding space chosen at sync
 }
 
 /**
@@ -136,6 +200,7 @@ export interface ChunkReference {
   chunk_index: number;        // Position within document (0-based)
   preview: string;            // Truncated preview (200 chars)
   relevance: number;          // Rerank score (0-1)
+  embedding_space?: 'text' | 'code'; // Embedding space the chunk was retrieved from
   metadata: ChunkMetadata;    // Additional context
 }
 
@@ -0,0 +1,175 @@
+/**
+ * Usage Store
+ * Per-project daily and monthly counters behind tier limits.
+ *
+ * The Postgres store (usage_counters + increment_usage) is shared by every
+ * serverless instance and survives cold starts; the in-memory store keeps
+ * the old per-process behaviour for tests and deployments without Supabase.
+ * Set USAGE_STORE to "memory" or "postgres" to override the default.
+ */
+
+import { supabase, isSupabaseConfigured } from '../supabase';
+
+export type UsageMetric = 'semantic_search' | 'rag_answer';
+
+export const USAGE_METRICS: UsageMetric[] = ['semantic_search', 'rag_answer'];
+
+export interface UsageCounts {
+  daily: number;
+  monthly: number;
+}
+
+export interface DailyUsage {
+  /** UTC date, YYYY-MM-DD */
+  day: string;
+  metric: UsageMetric;
+  count: number;
+}
+
+export interface UsageStore {
+  id: 'memory' | 'postgres';
+  /** Counts for the UTC day and month containing `at` */
+  get(projectId: string, metric: UsageMetric, at?: Date): Promise<UsageCounts>;
+  /** Add `amount` and return the updated counts */
+  increment(projectId: string, metric: UsageMetric, amount?: number, at?: Date): Promise<UsageCounts>;
+  /** Daily counts for all metrics since `from` (inclusive, UTC day) */
+  daily(projectId: string, from: Date): Promise<DailyUsage[]>;
+}
+
+/** UTC day key, YYYY-MM-DD */
+export function dayKey(at: Date): string {
+  return at.toISOString().slice(0, 10);
+}
+
+/** First day of the UTC month, YYYY-MM-01 */
+export function monthKey(at: Date): string {
+  return `${at.toISOString().slice(0, 7)}-01`;
+}
+
+// ============ In-Memory Store ============
+
+/**
+ * Per-process counters. Each serverless instance has its own, so only use it
+ * for tests and single-instance deployments.
+ */
+export function createMemoryUsageStore(): UsageStore {
+  // Map<`${projectId}:${metric}:${period}:${periodStart}`, count>
+  const counters = new Map<string, number>();
+  const key = (projectId: string, metric: string, period: 'day' | 'month', start: string) =>
+    `${projectId}:${metric}:${period}:${start}`;
+
+  const read = (projectId: string, metric: UsageMetric, at: Date): UsageCounts => ({
+    daily: counters.get(key(projectId, metric, 'day', dayKey(at))) ?? 0,
+    monthly: counters.get(key(projectId, metric, 'month', monthKey(at))) ?? 0,
+  });
+
+  return {
+    id: 'memory',
+    async get(projectId, metric, at = new Date()) {
+      return read(projectId, metric, at);
+    },
+    async increment(projectId, metric, amount = 1, at = new Date()) {
+      const { daily, monthly } = read(projectId, metric, at);
+      counters.set(key(projectId, metric, 'day', dayKey(at)), daily + amount);
+      counters.set(key(projectId, metric, 'month', monthKey(at)), monthly + amount);
+      return { daily: daily + amount, monthly: monthly + amount };
+    },
+    async daily(projectId, from) {
+      const since = dayKey(from);
+      const prefix = `${projectId}:`;
+      const rows: DailyUsage[] = [];
+      for (const [k, count] of counters) {
+        if (!k.startsWith(prefix)) continue;
+        const [, metric, period, start] = k.split(':');
+        if (period === 'day' && start >= since) {
+          rows.push({ day: start, metric: metric as UsageMetric, count });
+        }
+      }
+      return rows.sort((a, b) => a.day.localeCompare(b.day));
+    },
+  };
+}
+
+// ============ Postgres Store ============
+
+export const postgresUsageStore: UsageStore = {
+  id: 'postgres',
+
+  async get(projectId, metric, at = new Date()) {
+    const day = dayKey(at);
+    const month = monthKey(at);
+    const { data, error } = await supabase
+      .from('usage_counters')
+      .select('period, period_start, count')
+      .eq('project_id', projectId)
+      .eq('metric', metric)
+      .in('period_start', [day, month]);
+
+    if (error) {
+      throw new Error(`Failed to read usage: ${error.message}`);
+    }
+
+    const rows = data || [];
+    return {
+      daily: rows.find((r) => r.period === 'day' && r.period_start === day)?.count ?? 0,
+      monthly: rows.find((r) => r.period === 'month' && r.period_start === month)?.count ?? 0,
+    };
+  },
+
+  async increment(projectId, metric, amount = 1, at = new Date()) {
+    const { data, error } = await supabase.rpc('increment_usage', {
+      target_project_id: projectId,
+      usage_metric: metric,
+      usage_day: dayKey(at),
+      amount,
+    });
+
+    if (error) {
+      throw new Error(`Failed to record usage: ${error.message}`);
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return { daily: row?.daily_count ?? 0, monthly: row?.monthly_count ?? 0 };
+  },
+
+  async daily(projectId, from) {
+    const { data, error } = await supabase
+      .from('usage_counters')
+      .select('metric, period_start, count')
+      .eq('project_id', projectId)
+      .eq('period', 'day')
+      .gte('period_start', dayKey(from))
+      .order('period_start', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to read usage: ${error.message}`);
+    }
+
+    return (data || []).map((r) => ({ day: r.period_start, metric: r.metric as UsageMetric, count: r.count }));
+  },
+};
+
+// ============ Store Selection ============
+
+let activeStore: UsageStore | null = null;
+
+/**
+ * Store used for tier limits: USAGE_STORE if set, else Postgres when
+ * Supabase is configured, else in-memory.
+ */
+export function getUsageStore(): UsageStore {
+  if (!activeStore) {
+    const configured = process.env.USAGE_STORE;
+    const usePostgres = configured ? configured === 'postgres' : isSupabaseConfigured();
+    activeStore = usePostgres ? postgresUsageStore : createMemoryUsageStore();
+  }
+  return activeStore;
+}
+
+/**
+ * Replace the active store (tests, custom backends). Pass null to reset to
+ * the default on next use.
+ */
+export function setUsageStore(store: UsageStore | null): void {
+  activeStore = store;
+}
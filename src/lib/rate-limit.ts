@@ -1,118 +1,332 @@
 /**
  * Rate Limiting Utility
- * In-memory rate limiter for API endpoints
+ * Sliding-window and token-bucket rate limits over a pluggable store
  *
- * Note: For production with multiple serverless instances, consider:
- * - Vercel KV (Redis-compatible)
- * - Upstash Rate Limit
- * - Cloudflare Rate Limiting
+ * Stores:
+ * - Postgres (rate_limit_buckets + consume_rate_limit): shared by every
+ *   serverless instance, each decision is one atomic row-locked update
+ * - In-memory: per-process counters for tests, development and
+ *   single-instance deployments
  *
- * This in-memory implementation works for:
- * - Single instance deployments
- * - Development/testing
- * - Basic protection (each instance has its own counter)
+ * The default is Postgres when Supabase is configured; set RATE_LIMIT_STORE
+ * to "memory" or "postgres" to override.
+ *
+ * Algorithms:
+ * - sliding_window: weighted sliding window counter (current window plus the
+ *   overlapping share of the previous one), so bursts at window edges can't
+ *   double the limit
+ * - token_bucket: bucket of maxRequests tokens refilled evenly over windowMs,
+ *   allowing short bursts up to the bucket size
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
-}
+import { supabase, isSupabaseConfigured } from './supabase';
 
-interface RateLimitOptions {
+export type RateLimitAlgorithm = 'sliding_window' | 'token_bucket';
+
+export interface RateLimitOptions {
   windowMs: number; // Time window in milliseconds
-  maxRequests: number; // Max requests per window
+  maxRequests: number; // Max requests per window (bucket size for token_bucket)
+  algorithm?: RateLimitAlgorithm; // Default: sliding_window
 }
 
-interface RateLimitResult {
+export interface RateLimitResult {
   allowed: boolean;
+  limit: number;
   remaining: number;
-  resetIn: number; // Milliseconds until reset
+  resetIn: number; // Milliseconds until the quota is fully available again
+  retryAfter: number; // Milliseconds until the next request can succeed (0 when allowed)
+}
+
+/** Per-key algorithm state, as kept by the in-memory store */
+export interface RateLimitState {
+  // sliding_window
+  windowStart?: number;
+  count?: number;
+  prevCount?: number;
+  // token_bucket
+  tokens?: number;
+  updatedAt?: number;
 }
 
-// In-memory store for rate limits
-const rateLimitStore = new Map<string, RateLimitEntry>();
+export interface RateLimitStore {
+  id: 'memory' | 'postgres';
+  /** Atomically apply one request of `cost` to `key` (a negative cost refunds) */
+  consume(key: string, options: RateLimitOptions, cost?: number): Promise<RateLimitResult>;
+  /** Clear one key, or every key when omitted */
+  reset(key?: string): Promise<void>;
+}
 
-// Cleanup interval to prevent memory leaks (every 5 minutes)
-const CLEANUP_INTERVAL = 5 * 60 * 1000;
-let cleanupScheduled = false;
+// ============ Algorithms ============
 
-function scheduleCleanup() {
-  if (cleanupScheduled) return;
-  cleanupScheduled = true;
+/**
+ * Sliding window counter. Returns the decision and the next state.
+ */
+export function applySlidingWindow(
+  state: RateLimitState | undefined,
+  options: RateLimitOptions,
+  now: number,
+  cost = 1
+): { result: RateLimitResult; state: RateLimitState } {
+  const { windowMs, maxRequests } = options;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
 
-  setInterval(() => {
-    const now = Date.now();
-    for (const [key, entry] of rateLimitStore.entries()) {
-      if (entry.resetAt < now) {
-        rateLimitStore.delete(key);
+  let count = 0;
+  let prevCount = 0;
+  if (state?.windowStart === windowStart) {
+    count = state.count ?? 0;
+    prevCount = state.prevCount ?? 0;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    prevCount = state.count ?? 0;
+  }
+
+  const elapsed = (now - windowStart) / windowMs;
+  const weighted = prevCount * (1 - elapsed) + count;
+  const windowEndsIn = windowStart + windowMs - now;
+
+  if (weighted + cost > maxRequests) {
+    // Wait for the previous window's share to decay, or for the next window
+    let retryAfter = windowEndsIn;
+    if (count + cost <= maxRequests && prevCount > 0) {
+      const freeAt = 1 - (maxRequests - count - cost) / prevCount;
+      retryAfter = Math.max(1, Math.ceil(windowStart + freeAt * windowMs - now));
+    }
+    return {
+      result: { allowed: false, limit: maxRequests, remaining: 0, resetIn: windowEndsIn + windowMs, retryAfter },
+      state: { windowStart, count, prevCount },
+    };
+  }
+
+  count = Math.max(0, count + cost);
+  return {
+    result: {
+      allowed: true,
+      limit: maxRequests,
+      remaining: Math.max(0, Math.floor(maxRequests - weighted - cost)),
+      resetIn: windowEndsIn,
+      retryAfter: 0,
+    },
+    state: { windowStart, count, prevCount },
+  };
+}
+
+/**
+ * Token bucket refilled at maxRequests per windowMs. Returns the decision and
+ * the next state.
+ */
+export function applyTokenBucket(
+  state: RateLimitState | undefined,
+  options: RateLimitOptions,
+  now: number,
+  cost = 1
+): { result: RateLimitResult; state: RateLimitState } {
+  const { windowMs, maxRequests } = options;
+  const ratePerMs = maxRequests / windowMs;
+
+  let tokens = maxRequests;
+  if (state?.tokens !== undefined && state.updatedAt !== undefined) {
+    tokens = Math.min(maxRequests, state.tokens + Math.max(0, now - state.updatedAt) * ratePerMs);
+  }
+
+  if (tokens < cost) {
+    const retryAfter = Math.ceil((cost - tokens) / ratePerMs);
+    return {
+      result: {
+        allowed: false,
+        limit: maxRequests,
+        remaining: 0,
+        resetIn: Math.ceil((maxRequests - tokens) / ratePerMs),
+        retryAfter,
+      },
+      state: { tokens, updatedAt: now },
+    };
+  }
+
+  tokens = Math.min(maxRequests, tokens - cost);
+  return {
+    result: {
+      allowed: true,
+      limit: maxRequests,
+      remaining: Math.floor(tokens),
+      resetIn: Math.ceil((maxRequests - tokens) / ratePerMs),
+      retryAfter: 0,
+    },
+    state: { tokens, updatedAt: now },
+  };
+}
+
+function applyAlgorithm(
+  state: RateLimitState | undefined,
+  options: RateLimitOptions,
+  now: number,
+  cost: number
+) {
+  return options.algorithm === 'token_bucket'
+    ? applyTokenBucket(state, options, now, cost)
+    : applySlidingWindow(state, options, now, cost);
+}
+
+// ============ In-Memory Store ============
+
+/**
+ * Per-process store. Each serverless instance has its own counters, so only
+ * use it for tests, development and single-instance deployments.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, { state: RateLimitState; expiresAt: number }>();
+
+  // Cleanup interval to prevent memory leaks (every 5 minutes)
+  const CLEANUP_INTERVAL = 5 * 60 * 1000;
+  let cleanupScheduled = false;
+
+  function scheduleCleanup() {
+    if (cleanupScheduled) return;
+    cleanupScheduled = true;
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      for (const [key, entry] of entries.entries()) {
+        if (entry.expiresAt < now) {
+          entries.delete(key);
+        }
+      }
+    }, CLEANUP_INTERVAL);
+    timer.unref?.();
+  }
+
+  return {
+    id: 'memory',
+    async consume(key, options, cost = 1) {
+      scheduleCleanup();
+
+      const now = Date.now();
+      const { result, state } = applyAlgorithm(entries.get(key)?.state, options, now, cost);
+      // Sliding windows need the previous window; buckets refill within one
+      entries.set(key, { state, expiresAt: now + 2 * options.windowMs });
+      return result;
+    },
+    async reset(key) {
+      if (key) {
+        entries.delete(key);
+      } else {
+        entries.clear();
       }
+    },
+  };
+}
+
+// ============ Postgres Store ============
+
+export const postgresRateLimitStore: RateLimitStore = {
+  id: 'postgres',
+
+  async consume(key, options, cost = 1) {
+    const { data, error } = await supabase.rpc('consume_rate_limit', {
+      bucket_key: key,
+      algorithm: options.algorithm ?? 'sliding_window',
+      max_requests: options.maxRequests,
+      window_ms: options.windowMs,
+      cost,
+    });
+
+    if (error) {
+      throw new Error(`Failed to apply rate limit: ${error.message}`);
     }
-  }, CLEANUP_INTERVAL);
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      allowed: Boolean(row?.allowed),
+      limit: options.maxRequests,
+      remaining: row?.remaining ?? 0,
+      resetIn: row?.reset_ms ?? 0,
+      retryAfter: row?.retry_after_ms ?? 0,
+    };
+  },
+
+  async reset(key) {
+    const query = supabase.from('rate_limit_buckets').delete();
+    const { error } = key ? await query.eq('key', key) : await query.neq('key', '');
+    if (error) {
+      throw new Error(`Failed to reset rate limit: ${error.message}`);
+    }
+  },
+};
+
+// ============ Store Selection ============
+
+let activeStore: RateLimitStore | null = null;
+
+/**
+ * Store used for rate limits: RATE_LIMIT_STORE if set, else Postgres when
+ * Supabase is configured, else in-memory.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!activeStore) {
+    const configured = process.env.RATE_LIMIT_STORE;
+    const usePostgres = configured ? configured === 'postgres' : isSupabaseConfigured();
+    activeStore = usePostgres ? postgresRateLimitStore : createMemoryRateLimitStore();
+  }
+  return activeStore;
+}
+
+/**
+ * Replace the active store (tests, custom backends). Pass null to reset to
+ * the default on next use.
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  activeStore = store;
 }
 
+// ============ Public API ============
+
 /**
  * Check rate limit for a given identifier
  *
- * @param identifier - Unique identifier (e.g., IP address, user ID, API key prefix)
+ * @param identifier - Unique identifier (e.g., IP address, user ID, API key id)
  * @param options - Rate limit configuration
  * @returns RateLimitResult with allowed status and metadata
  *
+ * If the store is unavailable the request is allowed and the error logged,
+ * so a database outage doesn't take every endpoint down with it.
+ *
  * @example
  * ```typescript
- * const result = checkRateLimit(`user:${userId}`, {
+ * const result = await checkRateLimit(`user:${userId}`, {
  *   windowMs: 60 * 1000, // 1 minute
  *   maxRequests: 60, // 60 requests per minute
  * });
  *
  * if (!result.allowed) {
- *   return new Response('Too many requests', { status: 429 });
+ *   return rateLimitResponse(result, { windowMs: 60 * 1000, maxRequests: 60 });
  * }
  * ```
  */
-export function checkRateLimit(
+export async function checkRateLimit(
   identifier: string,
-  options: RateLimitOptions
-): RateLimitResult {
-  scheduleCleanup();
-
-  const now = Date.now();
-  const entry = rateLimitStore.get(identifier);
-
-  // No existing entry or window has reset
-  if (!entry || entry.resetAt < now) {
-    const newEntry: RateLimitEntry = {
-      count: 1,
-      resetAt: now + options.windowMs,
-    };
-    rateLimitStore.set(identifier, newEntry);
-
-    return {
-      allowed: true,
-      remaining: options.maxRequests - 1,
-      resetIn: options.windowMs,
-    };
+  options: RateLimitOptions,
+  cost = 1
+): Promise<RateLimitResult> {
+  try {
+    return await getRateLimitStore().consume(identifier, options, cost);
+  } catch (error) {
+    console.error('[RateLimit] Store error, allowing request:', error);
+    return { allowed: true, limit: options.maxRequests, remaining: options.maxRequests, resetIn: 0, retryAfter: 0 };
   }
+}
 
-  // Window is active, check limit
-  const resetIn = entry.resetAt - now;
-
-  if (entry.count >= options.maxRequests) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetIn,
-    };
+/**
+ * Give back `cost` requests charged by checkRateLimit, e.g. when a request
+ * passed one limit but was refused by another. Store errors are logged only.
+ */
+export async function refundRateLimit(
+  identifier: string,
+  options: RateLimitOptions,
+  cost = 1
+): Promise<void> {
+  try {
+    await getRateLimitStore().consume(identifier, options, -cost);
+  } catch (error) {
+    console.error('[RateLimit] Store error, refund skipped:', error);
   }
-
-  // Increment counter
-  entry.count += 1;
-  rateLimitStore.set(identifier, entry);
-
-  return {
-    allowed: true,
-    remaining: options.maxRequests - entry.count,
-    resetIn,
-  };
 }
 
 /**
@@ -120,6 +334,7 @@ export function checkRateLimit(
  */
 export const RateLimits = {
   // Public endpoints (unauthenticated)
+  PUBLIC_MCP: { windowMs: 60 * 1000, maxRequests: 10 },
   PUBLIC_SEARCH: { windowMs: 60 * 1000, maxRequests: 10 },
   PUBLIC_READ: { windowMs: 60 * 1000, maxRequests: 20 },
 
@@ -128,6 +343,9 @@ export const RateLimits = {
   AUTH_READ: { windowMs: 60 * 1000, maxRequests: 120 },
   AUTH_WRITE: { windowMs: 60 * 1000, maxRequests: 30 },
 
+  // MCP requests per API key, unless the project configures its own quota
+  MCP_API_KEY: { windowMs: 60 * 1000, maxRequests: 120 },
+
   // Token generation
   TOKEN_GENERATE: { windowMs: 60 * 60 * 1000, maxRequests: 10 }, // 10 per hour
 
@@ -135,6 +353,71 @@ export const RateLimits = {
   GENESIS: { windowMs: 60 * 60 * 1000, maxRequests: 3 }, // 3 per hour
 } as const;
 
+/**
+ * RateLimit-* response headers (IETF RateLimit header fields), plus the
+ * legacy X-RateLimit-* headers and Retry-After when the request was refused.
+ */
+export function rateLimitHeaders(result: RateLimitResult, options: RateLimitOptions): Record<string, string> {
+  const resetSeconds = Math.ceil(result.resetIn / 1000);
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(resetSeconds),
+    'RateLimit-Policy': `${options.maxRequests};w=${Math.ceil(options.windowMs / 1000)}`,
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(Date.now() / 1000) + resetSeconds),
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil(result.retryAfter / 1000)));
+  }
+  return headers;
+}
+
+/**
+ * 429 response for a refused request
+ */
+export function rateLimitResponse(
+  result: RateLimitResult,
+  options: RateLimitOptions,
+  description = 'Too many requests. Please wait before trying again.'
+): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'rate_limit_exceeded',
+      error_description: description,
+      retry_after: Math.max(1, Math.ceil(result.retryAfter / 1000)),
+    }),
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        ...rateLimitHeaders(result, options),
+      },
+    }
+  );
+}
+
+/**
+ * Copy a response, adding rate limit headers
+ */
+export function withRateLimitHeaders(
+  response: Response,
+  result: RateLimitResult,
+  options: RateLimitOptions
+): Response {
+  const headers = new Headers(response.headers);
+  for (const [name, value] of Object.entries(rateLimitHeaders(result, options))) {
+    headers.set(name, value);
+  }
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
 /**
  * Create rate limit middleware for Next.js API routes
  *
@@ -146,7 +429,7 @@ export const RateLimits = {
  * );
  *
  * export async function POST(req: NextRequest) {
- *   const rateLimitResponse = rateLimitMiddleware(req);
+ *   const rateLimitResponse = await rateLimitMiddleware(req);
  *   if (rateLimitResponse) return rateLimitResponse;
  *
  *   // Handle request...
@@ -157,30 +440,12 @@ export function createRateLimitMiddleware(
   getIdentifier: (req: Request) => string,
   options: RateLimitOptions
 ) {
-  return (req: Request): Response | null => {
+  return async (req: Request): Promise<Response | null> => {
     const identifier = getIdentifier(req);
-    const result = checkRateLimit(identifier, options);
+    const result = await checkRateLimit(identifier, options);
 
     if (!result.allowed) {
-      return new Response(
-        JSON.stringify({
-          error: 'rate_limit_exceeded',
-          error_description: 'Too many requests. Please wait before trying again.',
-          retry_after: Math.ceil(result.resetIn / 1000),
-        }),
-        {
-          status: 429,
-          headers: {
-            'Content-Type': 'application/json',
-            'Retry-After': String(Math.ceil(result.resetIn / 1000)),
-            'X-RateLimit-Limit': String(options.maxRequests),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': String(
-              Math.ceil(Date.now() / 1000 + result.resetIn / 1000)
-            ),
-          },
-        }
-      );
+      return rateLimitResponse(result, options);
     }
 
     return null; // Request allowed
@@ -203,13 +468,13 @@ export function getClientIp(req: Request): string {
 /**
  * Clear rate limit for an identifier (for testing)
  */
-export function clearRateLimit(identifier: string): void {
-  rateLimitStore.delete(identifier);
+export async function clearRateLimit(identifier: string): Promise<void> {
+  await getRateLimitStore().reset(identifier);
 }
 
 /**
  * Clear all rate limits (for testing)
  */
-export function clearAllRateLimits(): void {
-  rateLimitStore.clear();
+export async function clearAllRateLimits(): Promise<void> {
+  await getRateLimitStore().reset();
 }
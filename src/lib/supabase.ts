@@ -5,6 +5,7 @@ export interface Project {
   id: string;
   slug: string;
   github_repo?: string; // Deprecated
+  embedding_provider?: string | null; // NULL = deployment default
   created_at: string;
 }
 
@@ -24,6 +25,8 @@ export interface DocumentEmbedding {
   document_id: string;
   content_chunk: string;
   embedding: number[];
+  embedding_model?: string;
+  embedding_dimensions?: number;
   metadata: Record<string, unknown>;
 }
 
@@ -35,6 +38,8 @@ export interface MatchResult {
   file_path: string;
   title: string;
   metadata?: Record<string, unknown>;
+  /** Embedding space (text/code model) the match came from; set by search, not the RPC */
+  embedding_space?: 'text' | 'code';
 }
 
 /**
@@ -109,3 +114,20 @@ export async function getProjectBySlug(
 
   return data as Project | null;
 }
+
+// Replace a project's rows in a table with `rows`, in one transaction
+export async function replaceProjectRows(
+  table: string,
+  projectId: string,
+  rows: Record<string, unknown>[]
+): Promise<void> {
+  const { error } = await supabase.rpc("replace_project_rows", {
+    p_table: table,
+    p_project_id: projectId,
+    p_rows: rows,
+  });
+
+  if (error) {
+    throw new Error(`Failed to replace ${table}: ${error.message}`);
+  }
+}
@@ -1,7 +1,8 @@
 import { createHash } from "crypto";
 import matter from "gray-matter";
 import { supabase, type Document } from "./supabase";
-import { generateEmbedding, detectContentType } from "./ai";
+import { detectContentType } from "./ai";
+import { getEmbeddingProviderForProject, embedBatched } from "./embeddings";
 
 import { astChunker, type CodeChunk } from "./quoth/chunking";
 
@@ -82,6 +83,56 @@ function isValidDocType(type: string): boolean {
   return ['testing-pattern', 'architecture', 'contract', 'meta', 'template'].includes(type);
 }
 
+/**
+ * Frontmatter fields stored on the document row for search filtering
+ */
+export interface SearchableFrontmatter {
+  status: string | null;
+  relatedStack: string[] | null;
+  tags: string[] | null;
+}
+
+/**
+ * Extract status, related_stack and tags from content frontmatter.
+ * Missing or malformed fields are returned as null.
+ */
+export function extractSearchableFrontmatter(content: string): SearchableFrontmatter {
+  try {
+    const { data } = matter(content);
+    return {
+      status: typeof data.status === 'string' ? data.status.trim().toLowerCase() || null : null,
+      relatedStack: toStringList(data.related_stack),
+      tags: toStringList(data.tags),
+    };
+  } catch {
+    return { status: null, relatedStack: null, tags: null };
+  }
+}
+
+/**
+ * Frontmatter review_by date (YYYY-MM-DD), or null when missing or not a date.
+ * YAML parses unquoted dates into Date objects.
+ */
+export function extractReviewBy(content: string): string | null {
+  try {
+    const { data } = matter(content);
+    const value = data.review_by;
+    const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value.trim()) : null;
+    return date && !Number.isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : null;
+  } catch {
+    return null;
+  }
+}
+
+function toStringList(value: unknown): string[] | null {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const list = items
+    .filter((item): item is string | number => typeof item === 'string' || typeof item === 'number')
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : null;
+}
+
 /**
  * Calculate MD5 checksum for content
  */
@@ -96,6 +147,51 @@ export async function chunkContent(filePath: string, content: string): Promise<C
   return astChunker.chunkFile(filePath, content);
 }
 
+/**
+ * Embedding generation currently served by search for a project.
+ * A full reindex writes active + 1 and flips the pointer when complete.
+ */
+export async function getActiveEmbeddingGeneration(projectId: string): Promise<number> {
+  const { data } = await supabase
+    .from("projects")
+    .select("active_embedding_generation")
+    .eq("id", projectId)
+    .single();
+
+  return data?.active_embedding_generation ?? 0;
+}
+
+/**
+ * Timing and retry stats for one sync
+ */
+export interface SyncStats {
+  /** Total wall time of syncDocument */
+  durationMs: number;
+  /** Time spent in the embedding pipeline */
+  embedMs: number;
+  /** Provider requests issued (excluding retries) */
+  batches: number;
+  /** 429 retries across all batches */
+  retries: number;
+  /** Chunks that could not be embedded */
+  failedChunks: number;
+}
+
+/**
+ * Who wrote a document version, recorded on the document and carried into
+ * document_history by the versioning trigger
+ */
+export interface DocumentAuthor {
+  userId?: string | null;
+  source: 'mcp' | 'proposal' | 'repo_sync' | 'rollback';
+}
+
+/** Postgres serialization_failure, raised by write_document_embeddings on a generation change */
+const GENERATION_CHANGED = "40001";
+
+/** Diff-and-write attempts before a sync gives up on a moving generation */
+const MAX_GENERATION_ATTEMPTS = 3;
+
 /**
  * Sync document with INCREMENTAL re-indexing
  * Only re-embed chunks whose content has changed
@@ -107,32 +203,38 @@ export async function syncDocument(
   content: string,
   agentId?: string,
   visibility?: 'project' | 'shared',
-  tags?: string[]
+  tags?: string[],
+  author?: DocumentAuthor
 ): Promise<{ 
   document: Document & { version?: number }; 
   chunksIndexed: number; 
-  chunksReused: number 
+  chunksReused: number;
+  stats: SyncStats;
 }> {
+  const startedAt = Date.now();
   const checksum = calculateChecksum(content);
 
-  // 1. Check if document unchanged
+  // 1. Check if document unchanged (and fully embedded)
   const { data: existing } = await supabase
     .from("documents")
-    .select("id, checksum, version")
+    .select("id, checksum, version, embeddings_incomplete")
     .eq("project_id", projectId)
     .eq("file_path", filePath)
     .single();
 
-  if (existing && existing.checksum === checksum) {
+  if (existing && existing.checksum === checksum && !existing.embeddings_incomplete) {
     return {
-      document: existing as Document & { version?: number },
+      document: { id: existing.id, checksum: existing.checksum, version: existing.version } as Document & { version?: number },
       chunksIndexed: 0,
       chunksReused: 0,
+      stats: { durationMs: Date.now() - startedAt, embedMs: 0, batches: 0, retries: 0, failedChunks: 0 },
     };
   }
 
-  // 2. Extract document type from frontmatter or path
+  // 2. Extract document type and filterable fields from frontmatter or path
   const docType = extractDocType(filePath, content);
+  const searchable = extractSearchableFrontmatter(content);
+  const docTags = tags ?? searchable.tags;
 
   // 3. Upsert document (trigger handles versioning)
   const { data: doc, error: docError } = await supabase
@@ -144,9 +246,14 @@ export async function syncDocument(
       content,
       checksum,
       doc_type: docType,
+      status: searchable.status,
+      related_stack: searchable.relatedStack,
+      review_by: extractReviewBy(content),
       last_updated: new Date().toISOString(),
+      ...(docTags && { tags: docTags }),
       ...(visibility && { visibility }),
       ...(agentId && { agent_id: agentId }),
+      ...(author && { updated_by: author.userId ?? null, update_source: author.source }),
     }, { onConflict: "project_id, file_path" })
     .select()
     .single();
@@ -164,65 +271,129 @@ export async function syncDocument(
     metadata: chunk.metadata
   }));
 
-  // 6. Get existing embeddings
-  const { data: existingEmbeddings } = await supabase
-    .from("document_embeddings")
-    .select("id, chunk_hash")
-    .eq("document_id", doc.id);
-
-  const existingHashes = new Set((existingEmbeddings || []).map(e => e.chunk_hash));
-  const newHashes = new Set(chunkData.map(c => c.hash));
-
-  // 7. Find chunks to embed (changed/new)
-  const chunksToEmbed = chunkData.filter(c => !existingHashes.has(c.hash));
-
-  // 8. Find orphaned embeddings (removed sections)
-  const orphanedIds = (existingEmbeddings || [])
-    .filter(e => !newHashes.has(e.chunk_hash))
-    .map(e => e.id);
-
-  // 9. Delete orphaned
-  if (orphanedIds.length > 0) {
-    await supabase.from("document_embeddings").delete().in("id", orphanedIds);
-  }
-
-  // 10. Generate embeddings for new/changed only
-  let indexedCount = 0;
-  for (const chunk of chunksToEmbed) {
-    try {
+  // 6-11. Diff against the active generation and write the changes. The
+  // write re-checks the generation under a lock on the project row; if a
+  // reindex activated another one in between, diff again against it.
+  const provider = await getEmbeddingProviderForProject(projectId);
+  const embedded = new Map<string, number[]>();
+  const embedStats = { durationMs: 0, batches: 0, retries: 0, failed: 0 };
+  let chunksToEmbed: typeof chunkData = [];
+  let chunksIndexed = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    // 6. Get existing embeddings (active generation only)
+    const generation = await getActiveEmbeddingGeneration(projectId);
+    const { data: existingEmbeddings } = await supabase
+      .from("document_embeddings")
+      .select("id, chunk_hash")
+      .eq("document_id", doc.id)
+      .eq("generation", generation);
+
+    const existingHashes = new Set((existingEmbeddings || []).map(e => e.chunk_hash));
+    const newHashes = new Set(chunkData.map(c => c.hash));
+
+    // 7. Find chunks to embed (changed/new)
+    chunksToEmbed = chunkData.filter(c => !existingHashes.has(c.hash));
+
+    // 8. Find orphaned embeddings (removed sections)
+    const orphanedIds = (existingEmbeddings || [])
+      .filter(e => !newHashes.has(e.chunk_hash))
+      .map(e => e.id);
+
+    // 9. Generate embeddings for new/changed only (batched, rate limited),
+    // reusing the ones from an earlier attempt
+    const missing = chunksToEmbed.filter(chunk => !embedded.has(chunk.hash));
+    const { embeddings, stats } = await embedBatched(provider, missing.map(chunk => ({
+      text: chunk.content,
       // Detect content type (text vs code) for appropriate embedding model
+      contentType: detectContentType(chunk.content),
+    })));
+    missing.forEach((chunk, i) => {
+      const embedding = embeddings[i];
+      if (embedding) embedded.set(chunk.hash, embedding);
+    });
+    embedStats.durationMs += stats.durationMs;
+    embedStats.batches += stats.batches;
+    embedStats.retries += stats.retries;
+    embedStats.failed = chunksToEmbed.filter(chunk => !embedded.has(chunk.hash)).length;
+
+    // 10. Build rows for the chunks that embedded
+    const rows = chunksToEmbed.flatMap((chunk) => {
+      const embedding = embedded.get(chunk.hash);
+      if (!embedding) return [];
       const contentType = detectContentType(chunk.content);
-      const embeddingModel = contentType === 'code' ? 'jina-code-embeddings-1.5b' : 'jina-embeddings-v3';
-      
-      // Generate embedding with appropriate model
-      const embedding = await generateEmbedding(chunk.content, contentType);
-      
-      await supabase.from("document_embeddings").insert({
-        document_id: doc.id,
+      return [{
         content_chunk: chunk.content,
         chunk_hash: chunk.hash,
         embedding,
-        embedding_model: embeddingModel,
+        embedding_model: provider.modelFor(contentType),
+        embedding_dimensions: provider.dimensions,
         metadata: { 
           chunk_index: chunk.index, 
           source: "incremental-sync",
           content_type: contentType,
           ...chunk.metadata
         },
-      });
-      indexedCount++;
-      if (indexedCount < chunksToEmbed.length) {
-        await new Promise(r => setTimeout(r, 4200)); // Rate limit
-      }
-    } catch (error) {
-      console.error(`Failed chunk ${chunk.index}:`, error);
+      }];
+    });
+
+    // 11. Delete orphaned and bulk insert new embeddings in one transaction
+    if (orphanedIds.length === 0 && rows.length === 0) break;
+
+    const { error: writeError } = await supabase.rpc("write_document_embeddings", {
+      p_document_id: doc.id,
+      p_generation: generation,
+      p_delete_ids: orphanedIds,
+      p_rows: rows,
+    });
+
+    if (!writeError) {
+      chunksIndexed = rows.length;
+      break;
+    }
+    if (writeError.code !== GENERATION_CHANGED || attempt >= MAX_GENERATION_ATTEMPTS) {
+      throw new Error(`Failed to write embeddings: ${writeError.message}`);
     }
   }
 
+  // 12. Flag a partial embed so re-running the update retries the failed
+  // chunks instead of returning early on the unchanged checksum
+  if (embedStats.failed > 0 || existing?.embeddings_incomplete) {
+    const { error: flagError } = await supabase
+      .from("documents")
+      .update({ embeddings_incomplete: embedStats.failed > 0 })
+      .eq("id", doc.id);
+    if (flagError) throw new Error(`Failed to update embedding status: ${flagError.message}`);
+  }
+
+  // 13. A reindex building a shadow generation has embedded the old content:
+  // send this document back to its queue so the new generation matches
+  const { data: activeJobs } = await supabase
+    .from("jobs")
+    .select("id")
+    .eq("project_id", projectId)
+    .eq("type", "reindex")
+    .in("status", ["queued", "running"]);
+
+  if (activeJobs && activeJobs.length > 0) {
+    await supabase
+      .from("job_items")
+      .update({ status: "pending", chunks: null, error_message: null, processed_at: null })
+      .eq("document_id", doc.id)
+      .in("job_id", activeJobs.map(j => j.id));
+  }
+
   return {
     document: doc as Document & { version?: number },
-    chunksIndexed: indexedCount,
+    chunksIndexed,
     chunksReused: chunks.length - chunksToEmbed.length,
+    stats: {
+      durationMs: Date.now() - startedAt,
+      embedMs: embedStats.durationMs,
+      batches: embedStats.batches,
+      retries: embedStats.retries,
+      failedChunks: embedStats.failed,
+    },
   };
 }
 
@@ -266,10 +437,12 @@ export async function getSyncStatus(projectId: string): Promise<{
   if (docs && docs.length > 0) {
     const docIds = docs.map((d) => d.id);
 
+    const generation = await getActiveEmbeddingGeneration(projectId);
     const { count } = await supabase
       .from("document_embeddings")
       .select("*", { count: "exact", head: true })
-      .in("document_id", docIds);
+      .in("document_id", docIds)
+      .eq("generation", generation);
 
     embeddingCount = count || 0;
 
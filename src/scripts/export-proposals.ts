@@ -0,0 +1,107 @@
+import dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import { mkdir, writeFile } from 'fs/promises';
+import * as path from 'path';
+
+// Load env vars BEFORE importing libs
+dotenv.config({ path: '.env.local' });
+dotenv.config();
+
+const USAGE = `Usage: npm run proposals:export -- --project <slug|id> --format <branch|patch> [options]
+
+  --project   Project slug or id
+  --format    branch: commit to a new branch of --repo; patch: write .patch files to --out
+  --repo      Local clone of the project's repository (required for branch)
+  --proposal  Proposal id to export (repeatable; default: every applied proposal not exported yet)
+  --branch    Branch to create (default: quoth/proposal-<id> or quoth/proposals-<timestamp>)
+  --base      Commit-ish the export starts from (default: HEAD)
+  --docs      Docs directory in the repo (default: the project's docs_path)
+  --out       Directory for patch files (default: ./quoth-patches)
+  --dry-run   Export without creating the branch or marking the proposals as exported`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      project: { type: 'string' },
+      format: { type: 'string' },
+      repo: { type: 'string' },
+      proposal: { type: 'string', multiple: true },
+      branch: { type: 'string' },
+      base: { type: 'string' },
+      docs: { type: 'string' },
+      out: { type: 'string', default: 'quoth-patches' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  const format = values.format;
+  if (!values.project || (format !== 'branch' && format !== 'patch') || (format === 'branch' && !values.repo)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  // Dynamic import to ensure env vars are loaded first
+  const { supabase } = await import('../lib/supabase');
+  const { getExportableProposals, exportProposals } = await import('../lib/quoth/proposal-export');
+
+  const isUuid = /^[0-9a-f-]{36}$/i.test(values.project);
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('id, slug')
+    .eq(isUuid ? 'id' : 'slug', values.project)
+    .single();
+
+  if (error || !project) {
+    console.error(`Project not found: ${values.project}`);
+    process.exit(1);
+  }
+
+  const proposals = await getExportableProposals(project.id, values.proposal);
+  if (proposals.length === 0) {
+    console.log('No applied proposals waiting for export.');
+    return;
+  }
+
+  console.log(`Exporting ${proposals.length} proposal(s) from ${project.slug} as ${format}...`);
+
+  const result = await exportProposals(project.id, proposals, {
+    format,
+    worktree: values.repo,
+    branch: values.branch,
+    baseRef: values.base,
+    docsPath: values.docs,
+    dryRun: values['dry-run'],
+  });
+
+  if (format === 'patch' && result.exported.length > 0) {
+    await mkdir(values.out!, { recursive: true });
+    for (const [index, item] of result.exported.entries()) {
+      const file = path.join(values.out!, `${String(index + 1).padStart(4, '0')}-proposal-${item.proposalId.slice(0, 8)}.patch`);
+      await writeFile(file, item.patch!);
+      console.log(`  ${file}  (${item.repoPath})`);
+    }
+    console.log(`\nApply with: git am ${path.join(values.out!, '*.patch')}`);
+  }
+
+  if (format === 'branch') {
+    for (const item of result.exported) {
+      console.log(`  ${item.commit.sha!.slice(0, 12)}  ${item.repoPath}`);
+    }
+    if (result.branch) {
+      const note = values['dry-run'] ? ', dry run: not created' : '';
+      console.log(`\nBranch: ${result.branch} (based on ${result.baseCommit?.slice(0, 12)}${note})`);
+    }
+  }
+
+  for (const item of result.skipped) {
+    console.log(`  skipped ${item.proposalId.slice(0, 8)} ${item.repoPath}: ${item.reason}`);
+  }
+
+  console.log(`\nExported: ${result.exported.length}`);
+  console.log(`Skipped: ${result.skipped.length}`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
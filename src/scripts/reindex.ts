@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
+import type { ContentType, EmbeddingProvider } from '../lib/embeddings';
 
 // Load env vars
 dotenv.config({ path: '.env.local' });
@@ -7,7 +8,8 @@ dotenv.config(); // fallback
 
 // Dynamic imports
 let astChunker: any;
-let generateJinaEmbedding: any;
+let embeddingProvider: EmbeddingProvider;
+let detectContentType: (content: string) => ContentType;
 let calculateChecksum: any;
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -28,7 +30,11 @@ async function reindexAll() {
   astChunker = chunkingModule.astChunker;
   
   const aiModule = await import('../lib/ai');
-  generateJinaEmbedding = aiModule.generateJinaEmbedding;
+  detectContentType = aiModule.detectContentType;
+
+  const embeddingsModule = await import('../lib/embeddings');
+  embeddingProvider = embeddingsModule.getEmbeddingProvider();
+  console.log(`Embedding provider: ${embeddingProvider.id}`);
 
   const syncModule = await import('../lib/sync');
   calculateChecksum = syncModule.calculateChecksum;
@@ -48,6 +54,14 @@ async function reindexAll() {
   // 2. Initialize Chunker
   await astChunker.init();
 
+  // Rows must land in each project's active generation to be searchable
+  const { data: projects } = await supabase
+    .from('projects')
+    .select('id, active_embedding_generation');
+  const activeGeneration = new Map<string, number>(
+    (projects || []).map((p) => [p.id, p.active_embedding_generation ?? 0])
+  );
+
   let successCount = 0;
   let failCount = 0;
 
@@ -71,15 +85,18 @@ async function reindexAll() {
         const chunk = chunks[i];
         const hash = calculateChecksum(chunk.content);
         
-        // Generate Jina embedding (512 dims)
-        // Note: ai.ts handles the dimensions and model call
-        const embedding = await generateJinaEmbedding(chunk.content);
+        // Generate embedding (512 dims) with the default provider
+        const contentType = detectContentType(chunk.content);
+        const [embedding] = await embeddingProvider.embedDocuments([chunk.content], contentType);
 
         await supabase.from('document_embeddings').insert({
           document_id: doc.id,
           content_chunk: chunk.content,
           chunk_hash: hash,
           embedding: embedding,
+          embedding_model: embeddingProvider.modelFor(contentType),
+          embedding_dimensions: embeddingProvider.dimensions,
+          generation: activeGeneration.get(doc.project_id) ?? 0,
           metadata: {
             chunk_index: i,
             source: 'reindex-script',
@@ -0,0 +1,36 @@
+import dotenv from 'dotenv';
+
+// Load env vars BEFORE importing libs
+dotenv.config({ path: '.env.local' });
+dotenv.config();
+
+// Per-claim time budget; the loop keeps claiming until the queue is empty
+const BUDGET_MS = 10 * 60 * 1000;
+
+async function main() {
+  // Dynamic import to ensure env vars are loaded first
+  const { runJobWorker } = await import('../lib/quoth/jobs');
+
+  console.log("Starting job worker...");
+
+  let totalJobs = 0;
+  let totalItems = 0;
+
+  for (;;) {
+    const result = await runJobWorker({ maxDurationMs: BUDGET_MS });
+    totalJobs += result.jobsProcessed;
+    totalItems += result.itemsProcessed;
+    console.log(`  - ${result.jobsProcessed} jobs, ${result.itemsProcessed} documents`);
+
+    if (result.jobsProcessed === 0) break;
+  }
+
+  console.log("\nQueue drained.");
+  console.log(`Jobs: ${totalJobs}`);
+  console.log(`Documents: ${totalItems}`);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+import dotenv from 'dotenv';
+import { parseArgs } from 'util';
+
+// Load env vars BEFORE importing libs
+dotenv.config({ path: '.env.local' });
+dotenv.config();
+
+const USAGE = `Usage: npm run drift:scan -- --project <slug|id> (--repo <path> | --bundle <file>) [--ref <commit-ish>] [--dry-run]
+
+  --project  Project slug or id
+  --repo     Local clone of the code the docs describe (default: current directory)
+  --bundle   Git bundle instead of a clone (git bundle create code.bundle HEAD)
+  --ref      Commit-ish to scan (default: HEAD)
+  --dry-run  List findings without recording drift events`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      project: { type: 'string' },
+      repo: { type: 'string' },
+      bundle: { type: 'string' },
+      ref: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.project || (values.repo && values.bundle)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  // Dynamic import to ensure env vars are loaded first
+  const { supabase } = await import('../lib/supabase');
+  const { scanDrift } = await import('../lib/quoth/drift-scanner');
+
+  const isUuid = /^[0-9a-f-]{36}$/i.test(values.project);
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('id, slug')
+    .eq(isUuid ? 'id' : 'slug', values.project)
+    .single();
+
+  if (error || !project) {
+    console.error(`Project not found: ${values.project}`);
+    process.exit(1);
+  }
+
+  const source = values.bundle
+    ? { type: 'bundle' as const, path: values.bundle }
+    : { type: 'worktree' as const, path: values.repo || process.cwd() };
+
+  console.log(`Scanning ${project.slug} against ${source.type} ${source.path}${values['dry-run'] ? ' (dry run)' : ''}...`);
+
+  const result = await scanDrift(project.id, source, {
+    ref: values.ref,
+    dryRun: values['dry-run'],
+  });
+
+  console.log(`\nCommit: ${result.commit}`);
+  for (const finding of result.findings) {
+    const doc = finding.docPath ? ` (${finding.docPath})` : '';
+    console.log(`  [${finding.severity}] ${finding.driftType}: ${finding.description}${doc}`);
+  }
+
+  console.log(`\nDocuments scanned: ${result.documentsScanned}`);
+  console.log(`References checked: ${result.referencesChecked}`);
+  console.log(`Findings: ${result.findings.length}`);
+  if (!result.dryRun) {
+    console.log(`Recorded: ${result.recorded}`);
+    console.log(`Already open: ${result.alreadyOpen}`);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,82 @@
+import dotenv from 'dotenv';
+import { parseArgs } from 'util';
+
+// Load env vars BEFORE importing libs
+dotenv.config({ path: '.env.local' });
+dotenv.config();
+
+const USAGE = `Usage: npm run staleness:scan -- --project <slug|id> (--repo <path> | --bundle <file>) [--ref <commit-ish>] [--dry-run]
+
+  --project  Project slug or id
+  --repo     Local clone of the code the docs describe (default: current directory)
+  --bundle   Git bundle instead of a clone (git bundle create code.bundle HEAD)
+  --ref      Commit-ish to count up to (default: HEAD)
+  --dry-run  List counts without storing them`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      project: { type: 'string' },
+      repo: { type: 'string' },
+      bundle: { type: 'string' },
+      ref: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.project || (values.repo && values.bundle)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  // Dynamic import to ensure env vars are loaded first
+  const { supabase } = await import('../lib/supabase');
+  const { scanCodeStaleness } = await import('../lib/quoth/code-staleness');
+
+  const isUuid = /^[0-9a-f-]{36}$/i.test(values.project);
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('id, slug')
+    .eq(isUuid ? 'id' : 'slug', values.project)
+    .single();
+
+  if (error || !project) {
+    console.error(`Project not found: ${values.project}`);
+    process.exit(1);
+  }
+
+  const source = values.bundle
+    ? { type: 'bundle' as const, path: values.bundle }
+    : { type: 'worktree' as const, path: values.repo || process.cwd() };
+
+  console.log(`Checking ${project.slug} against ${source.type} ${source.path}${values['dry-run'] ? ' (dry run)' : ''}...`);
+
+  const result = await scanCodeStaleness(project.id, source, {
+    ref: values.ref,
+    dryRun: values['dry-run'],
+  });
+
+  console.log(`\nCommit: ${result.commit}`);
+  for (const doc of result.documents) {
+    if (doc.status !== 'checked') continue;
+    console.log(
+      `  [${doc.level}] ${doc.filePath}: ${doc.commits} commit(s), ` +
+      `${doc.changedPaths.length}/${doc.referencedPaths.length} path(s) changed since ${doc.verifiedCommit!.slice(0, 12)}` +
+      (doc.countedSince ? ` (after ${doc.countedSince})` : '')
+    );
+  }
+
+  const count = (status: string) => result.documents.filter((doc) => doc.status === status).length;
+  console.log(`\nChecked: ${count('checked')}`);
+  console.log(`No code references: ${count('no_references')}`);
+  console.log(`No verified commit: ${count('no_verified_commit')}`);
+  console.log(`Unknown verified commit: ${count('unknown_commit')}`);
+  if (!result.dryRun) {
+    console.log(`Updated: ${result.updated}`);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -40,6 +40,32 @@ async function setupWasm() {
       source: path.join(PUBLIC_WASM_DIR, "tree-sitter-python.wasm"),
       build: "node_modules/tree-sitter-python",
     },
+    // Grammars below ship a prebuilt WASM in their npm package
+    {
+      name: "tree-sitter-go.wasm",
+      source: path.join(process.cwd(), "node_modules", "tree-sitter-go", "tree-sitter-go.wasm"),
+      build: null,
+    },
+    {
+      name: "tree-sitter-rust.wasm",
+      source: path.join(process.cwd(), "node_modules", "tree-sitter-rust", "tree-sitter-rust.wasm"),
+      build: null,
+    },
+    {
+      name: "tree-sitter-java.wasm",
+      source: path.join(process.cwd(), "node_modules", "tree-sitter-java", "tree-sitter-java.wasm"),
+      build: null,
+    },
+    {
+      name: "tree-sitter-c_sharp.wasm",
+      source: path.join(process.cwd(), "node_modules", "tree-sitter-c-sharp", "tree-sitter-c_sharp.wasm"),
+      build: null,
+    },
+    {
+      name: "tree-sitter-ruby.wasm",
+      source: path.join(process.cwd(), "node_modules", "tree-sitter-ruby", "tree-sitter-ruby.wasm"),
+      build: null,
+    },
   ];
 
   console.log("📋 Checking WASM files in public/wasm/...\n");
@@ -78,7 +104,7 @@ async function setupWasm() {
 
   if (!allFound) {
     console.log("\n⚠️  Some WASM files are missing. Try running:");
-    console.log("  npm install web-tree-sitter tree-sitter-cli tree-sitter-typescript tree-sitter-javascript tree-sitter-python --save-dev");
+    console.log("  npm install web-tree-sitter tree-sitter-cli tree-sitter-typescript tree-sitter-javascript tree-sitter-python tree-sitter-go tree-sitter-rust tree-sitter-java tree-sitter-c-sharp tree-sitter-ruby --save-dev");
     console.log("  npm run setup:wasm");
     process.exit(1);
   }
@@ -0,0 +1,82 @@
+import dotenv from 'dotenv';
+import { parseArgs } from 'util';
+
+// Load env vars BEFORE importing libs
+dotenv.config({ path: '.env.local' });
+dotenv.config();
+
+const USAGE = `Usage: npm run repo:sync -- --project <slug|id> (--repo <path> | --bundle <file>) [--docs <dir>] [--ref <commit-ish>] [--dry-run]
+
+  --project  Project slug or id
+  --repo     Local clone of the project's repository (default: current directory)
+  --bundle   Git bundle instead of a clone (git bundle create docs.bundle HEAD)
+  --docs     Docs directory in the repo (default: the project's docs_path)
+  --ref      Commit-ish to index (default: HEAD)
+  --dry-run  Show what would change without writing`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      project: { type: 'string' },
+      repo: { type: 'string' },
+      bundle: { type: 'string' },
+      docs: { type: 'string' },
+      ref: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.project || (values.repo && values.bundle)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  // Dynamic import to ensure env vars are loaded first
+  const { supabase } = await import('../lib/supabase');
+  const { syncRepository } = await import('../lib/quoth/repo-sync');
+
+  const isUuid = /^[0-9a-f-]{36}$/i.test(values.project);
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('id, slug')
+    .eq(isUuid ? 'id' : 'slug', values.project)
+    .single();
+
+  if (error || !project) {
+    console.error(`Project not found: ${values.project}`);
+    process.exit(1);
+  }
+
+  const source = values.bundle
+    ? { type: 'bundle' as const, path: values.bundle }
+    : { type: 'worktree' as const, path: values.repo || process.cwd() };
+
+  console.log(`Syncing ${project.slug} from ${source.type} ${source.path}${values['dry-run'] ? ' (dry run)' : ''}...`);
+
+  const result = await syncRepository(project.id, source, {
+    docsPath: values.docs,
+    ref: values.ref,
+    dryRun: values['dry-run'],
+  });
+
+  console.log(`\nCommit: ${result.commit}`);
+  console.log(`Docs path: ${result.docsPath}`);
+  for (const file of result.added) console.log(`  + ${file}`);
+  for (const file of result.updated) console.log(`  ~ ${file}`);
+  for (const file of result.deleted) console.log(`  - ${file}`);
+  for (const failure of result.failed) console.log(`  ! ${failure.path}: ${failure.error}`);
+
+  console.log(`\nAdded: ${result.added.length}`);
+  console.log(`Updated: ${result.updated.length}`);
+  console.log(`Deleted: ${result.deleted.length}`);
+  console.log(`Unchanged: ${result.unchanged}`);
+  console.log(`Failed: ${result.failed.length}`);
+  console.log(`Chunks indexed: ${result.chunksIndexed}`);
+
+  if (result.failed.length > 0) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
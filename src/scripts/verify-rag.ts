@@ -6,7 +6,8 @@ dotenv.config();
 
 async function verify() {
   // Dynamic imports to ensure env vars are loaded first
-  const { generateJinaEmbedding, isAIConfigured } = await import("../lib/ai");
+  const { generateQueryEmbedding, isAIConfigured } = await import("../lib/ai");
+  const { getEmbeddingProvider } = await import("../lib/embeddings");
   const { astChunker } = await import("../lib/quoth/chunking");
 
   console.log("Starting Next-Gen RAG Layout Verification...");
@@ -48,22 +49,23 @@ async function verify() {
     console.error("AST Verification Failed", e);
   }
 
-  // 3. Verify Jina Embeddings
-  console.log("\nTesting Jina Embeddings...");
-  if (process.env.JINA_API_KEY) {
+  // 3. Verify Embeddings
+  const provider = getEmbeddingProvider();
+  console.log(`\nTesting Embeddings (${provider.id})...`);
+  if (provider.isConfigured()) {
     try {
-        const vec = await generateJinaEmbedding("test query");
+        const vec = await generateQueryEmbedding("test query");
         console.log(`Generated Vector Dimension: ${vec.length}`);
         if (vec.length === 512) {
-            console.log("Jina + Matryoshka (512): ✅ Success");
+            console.log(`${provider.modelFor('text')} (512): ✅ Success`);
         } else {
-             console.warn(`Jina Warning: Expected 512 dims, got ${vec.length}`);
+             console.warn(`Embedding Warning: Expected 512 dims, got ${vec.length}`);
         }
     } catch (e) {
-        console.error("Jina Embedding Failed", e);
+        console.error("Embedding Failed", e);
     }
   } else {
-      console.log("Skipping Jina test (No API Key in env)");
+      console.log(`Skipping embedding test (${provider.id} not configured)`);
   }
 }
 
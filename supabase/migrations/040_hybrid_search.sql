@@ -0,0 +1,84 @@
+-- ============================================================
+-- Quoth v3.2: Hybrid Retrieval (Full-Text + Vector)
+-- ============================================================
+-- Adds a Postgres full-text index over document_embeddings.content_chunk so
+-- search can fuse lexical (ts_rank) and vector candidates with reciprocal
+-- rank fusion. Exact identifiers (e.g. useAuthGuard, ERR_TOKEN_EXPIRED) are
+-- frequently missed by embeddings alone.
+--
+-- Safe: Idempotent, additive. Existing RPCs are untouched.
+
+-- ============================================================
+-- 1. Generated tsvector column + GIN index
+-- ============================================================
+ALTER TABLE document_embeddings
+  ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content_chunk, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_content_tsv
+  ON document_embeddings USING gin(content_tsv);
+
+COMMENT ON COLUMN document_embeddings.content_tsv IS
+  'Full-text vector of content_chunk (english config). Used by keyword_match_documents for hybrid retrieval.';
+
+-- ============================================================
+-- 2. keyword_match_documents RPC
+-- ============================================================
+-- Returns the same shape as match_documents so results can be fused client-side.
+-- The query is normalized with the same english config and its lexemes are OR-ed,
+-- so natural-language questions still match chunks containing only some terms;
+-- ts_rank_cd rewards chunks that cover more of them.
+-- similarity = ts_rank_cd normalized to 0..1 (normalization flag 32: rank/(rank+1)).
+
+CREATE OR REPLACE FUNCTION keyword_match_documents (
+  query_text text,
+  match_count int,
+  filter_project_id uuid
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content_chunk text,
+  similarity float,
+  file_path text,
+  title text,
+  metadata jsonb
+)
+LANGUAGE plpgsql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tsq tsquery;
+BEGIN
+  SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | '))
+  INTO tsq
+  FROM unnest(tsvector_to_array(to_tsvector('english', coalesce(query_text, '')))) AS lexeme;
+
+  IF tsq IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    de.id,
+    de.document_id,
+    de.content_chunk,
+    ts_rank_cd(de.content_tsv, tsq, 32)::float AS similarity,
+    d.file_path,
+    d.title,
+    de.metadata
+  FROM document_embeddings de
+  JOIN documents d ON de.document_id = d.id
+  WHERE d.project_id = filter_project_id
+    AND de.content_tsv @@ tsq
+  ORDER BY similarity DESC
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION keyword_match_documents TO authenticated, service_role;
+
+COMMENT ON FUNCTION keyword_match_documents IS
+  'Full-text chunk search scoped to a project. Same return shape as match_documents.
+   Used for hybrid retrieval (reciprocal rank fusion) and the free-tier keyword fallback.';
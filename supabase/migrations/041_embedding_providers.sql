@@ -0,0 +1,49 @@
+-- ============================================================
+-- Quoth v3.2: Pluggable Embedding Providers
+-- ============================================================
+-- Embeddings are no longer hard-wired to Jina. Each project may select a
+-- provider (jina, google, openai-compatible, local); NULL uses the deployment
+-- default (EMBEDDING_PROVIDER env var, else jina).
+--
+-- Every embedding row now records the model and dimension that produced it.
+-- All providers write 512d vectors (the embedding column stays vector(512)).
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Per-project provider selection
+-- ============================================================
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS embedding_provider TEXT;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'projects_embedding_provider_check'
+  ) THEN
+    ALTER TABLE projects ADD CONSTRAINT projects_embedding_provider_check
+      CHECK (embedding_provider IS NULL OR embedding_provider IN (
+        'jina', 'google', 'openai-compatible', 'local'
+      ));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN projects.embedding_provider IS
+  'Embedding provider used to index and search this project. NULL = deployment default. Changing it requires quoth_reindex.';
+
+-- ============================================================
+-- 2. Record dimensions on each embedding row
+-- ============================================================
+ALTER TABLE document_embeddings
+  ADD COLUMN IF NOT EXISTS embedding_dimensions INT;
+
+UPDATE document_embeddings
+SET embedding_dimensions = 512
+WHERE embedding_dimensions IS NULL;
+
+COMMENT ON COLUMN document_embeddings.embedding_dimensions IS
+  'Output dimension of the model that produced this embedding (currently always 512).';
+
+COMMENT ON COLUMN document_embeddings.embedding_model IS
+  'Model that generated this embedding, e.g. jina-embeddings-v3, jina-code-embeddings-1.5b, text-embedding-004, text-embedding-3-small, local-hash-v1. Searches filter on it so query and document vectors always come from the same model.';
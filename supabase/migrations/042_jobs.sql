@@ -0,0 +1,157 @@
+-- ============================================================
+-- Quoth v3.3: Background Jobs (reindex queue)
+-- ============================================================
+-- Long-running work (quoth_reindex) is persisted as a job and processed by a
+-- worker loop (/api/cron/jobs or `npm run jobs:work`) instead of inline in one
+-- MCP call.
+--
+-- Each job has one job_items row per document. Items are the checkpoints: a
+-- worker that crashes or times out leaves its job 'running' with an expired
+-- lease, and the next worker resumes from the remaining pending items.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Jobs table
+-- ============================================================
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('reindex')),
+
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  payload JSONB DEFAULT '{}'::jsonb,
+
+  -- Progress (denormalized from job_items for cheap polling)
+  total_items INTEGER NOT NULL DEFAULT 0,
+  completed_items INTEGER NOT NULL DEFAULT 0,
+  failed_items INTEGER NOT NULL DEFAULT 0,
+  result JSONB,
+  error_message TEXT,
+
+  -- Worker lease
+  locked_by TEXT,
+  locked_until TIMESTAMPTZ,
+  attempts INTEGER NOT NULL DEFAULT 0,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_project
+  ON jobs(project_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_claimable
+  ON jobs(created_at)
+  WHERE status IN ('queued', 'running');
+
+-- Only one active job of each type per project
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_one_active
+  ON jobs(project_id, type)
+  WHERE status IN ('queued', 'running');
+
+COMMENT ON TABLE jobs IS
+  'Persisted background jobs (currently full reindex). Processed by /api/cron/jobs or scripts/run-jobs.ts.';
+
+COMMENT ON COLUMN jobs.status IS
+  'Lifecycle: queued (waiting for a worker), running (leased or resumable after lease expiry), completed, failed (every item failed), cancelled';
+
+COMMENT ON COLUMN jobs.locked_until IS
+  'Worker lease expiry. A running job with an expired lease is picked up again by the next worker.';
+
+-- ============================================================
+-- 2. Job items (per-document checkpoints)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS job_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID REFERENCES jobs(id) ON DELETE CASCADE NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'completed', 'failed')),
+  chunks INTEGER,
+  error_message TEXT,
+  processed_at TIMESTAMPTZ,
+
+  UNIQUE (job_id, document_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_items_pending
+  ON job_items(job_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_job_items_document
+  ON job_items(document_id);
+
+COMMENT ON TABLE job_items IS
+  'One row per document in a job. Completed items are skipped when a job resumes.';
+
+-- ============================================================
+-- 3. Claim RPC (atomic lease)
+-- ============================================================
+CREATE OR REPLACE FUNCTION claim_next_job(
+  worker_id TEXT,
+  lease_seconds INT DEFAULT 120,
+  target_job_id UUID DEFAULT NULL
+)
+RETURNS SETOF jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE jobs
+  SET status = 'running',
+      locked_by = worker_id,
+      locked_until = now() + make_interval(secs => lease_seconds),
+      attempts = jobs.attempts + 1,
+      started_at = COALESCE(jobs.started_at, now()),
+      updated_at = now()
+  WHERE jobs.id = (
+    SELECT j.id FROM jobs j
+    WHERE (j.status = 'queued'
+       OR (j.status = 'running' AND (j.locked_until IS NULL OR j.locked_until < now())))
+      AND (target_job_id IS NULL OR j.id = target_job_id)
+    ORDER BY j.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING jobs.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_next_job FROM anon, authenticated;
+
+COMMENT ON FUNCTION claim_next_job IS
+  'Leases the oldest queued job (or a running job whose lease expired) to worker_id. Returns no rows when nothing is claimable.';
+
+-- ============================================================
+-- 4. RLS Policies
+-- ============================================================
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.job_items ENABLE ROW LEVEL SECURITY;
+
+-- Project members can watch job progress
+CREATE POLICY "Users can view project jobs"
+  ON public.jobs FOR SELECT
+  USING (public.has_project_access(project_id));
+
+CREATE POLICY "Users can view project job items"
+  ON public.job_items FOR SELECT
+  USING (
+    job_id IN (SELECT id FROM public.jobs WHERE public.has_project_access(project_id))
+  );
+
+-- Workers use the service role
+CREATE POLICY "Service role full access to jobs"
+  ON public.jobs FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access to job_items"
+  ON public.job_items FOR ALL
+  USING (auth.role() = 'service_role');
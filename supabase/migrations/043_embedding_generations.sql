@@ -0,0 +1,289 @@
+-- ============================================================
+-- Quoth v3.3: Embedding Generations (atomic swap-in reindex)
+-- ============================================================
+-- A full reindex no longer deletes a document's embeddings before writing new
+-- ones. Instead it writes a shadow generation (active + 1) and flips the
+-- project's pointer once every document is done:
+--
+--   1. reindex job writes rows with generation = active + 1
+--   2. activate_embedding_generation() carries over documents the job did not
+--      produce rows for (failed / created mid-reindex) and flips the pointer
+--   3. gc_embedding_generations() deletes rows from every other generation
+--
+-- All read RPCs filter on projects.active_embedding_generation, so searches
+-- running during a reindex keep seeing the complete previous generation.
+--
+-- Safe: Idempotent. Existing rows become generation 0 (the default active one).
+
+-- ============================================================
+-- 1. Columns
+-- ============================================================
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS active_embedding_generation INT NOT NULL DEFAULT 0;
+
+ALTER TABLE document_embeddings
+  ADD COLUMN IF NOT EXISTS generation INT NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_document_embeddings_doc_generation
+  ON document_embeddings(document_id, generation);
+
+COMMENT ON COLUMN projects.active_embedding_generation IS
+  'Embedding generation served by search. A reindex builds active + 1 and flips this pointer when complete.';
+
+COMMENT ON COLUMN document_embeddings.generation IS
+  'Reindex generation that produced this row. Only rows matching projects.active_embedding_generation are searchable.';
+
+-- ============================================================
+-- 2. Generation swap RPCs
+-- ============================================================
+CREATE OR REPLACE FUNCTION activate_embedding_generation(
+  p_project_id uuid,
+  p_generation int
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_generation int;
+BEGIN
+  SELECT active_embedding_generation INTO current_generation
+  FROM projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF current_generation IS NULL OR current_generation = p_generation THEN
+    RETURN;
+  END IF;
+
+  -- Carry over documents that have no rows in the new generation
+  -- (failed during the reindex, or created after it started)
+  UPDATE document_embeddings de
+  SET generation = p_generation
+  FROM documents d
+  WHERE de.document_id = d.id
+    AND d.project_id = p_project_id
+    AND de.generation = current_generation
+    AND NOT EXISTS (
+      SELECT 1 FROM document_embeddings nde
+      WHERE nde.document_id = de.document_id
+        AND nde.generation = p_generation
+    );
+
+  UPDATE projects
+  SET active_embedding_generation = p_generation
+  WHERE id = p_project_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION gc_embedding_generations(p_project_id uuid)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deleted_count int;
+BEGIN
+  DELETE FROM document_embeddings de
+  USING documents d, projects p
+  WHERE de.document_id = d.id
+    AND d.project_id = p.id
+    AND p.id = p_project_id
+    AND de.generation <> p.active_embedding_generation;
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION activate_embedding_generation FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION gc_embedding_generations FROM anon, authenticated;
+
+COMMENT ON FUNCTION activate_embedding_generation IS
+  'Atomically makes p_generation the searchable generation of a project, carrying over documents missing from it.';
+
+COMMENT ON FUNCTION gc_embedding_generations IS
+  'Deletes embeddings of a project that are not in its active generation (superseded or abandoned shadow rows). Returns rows deleted.';
+
+-- ============================================================
+-- 3. Read RPCs filter on the active generation
+-- ============================================================
+CREATE OR REPLACE FUNCTION match_documents (
+  query_embedding vector(512),
+  match_threshold float,
+  match_count int,
+  filter_project_id uuid,
+  filter_embedding_model text DEFAULT 'jina-embeddings-v3'
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content_chunk text,
+  similarity float,
+  file_path text,
+  title text,
+  metadata jsonb
+)
+LANGUAGE plpgsql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    de.id,
+    de.document_id,
+    de.content_chunk,
+    1 - (de.embedding <=> query_embedding) as similarity,
+    d.file_path,
+    d.title,
+    de.metadata
+  FROM document_embeddings de
+  JOIN documents d ON de.document_id = d.id
+  JOIN projects p ON d.project_id = p.id
+  WHERE d.project_id = filter_project_id
+  AND de.generation = p.active_embedding_generation
+  AND de.embedding_model = filter_embedding_model
+  AND 1 - (de.embedding <=> query_embedding) > match_threshold
+  ORDER BY de.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION keyword_match_documents (
+  query_text text,
+  match_count int,
+  filter_project_id uuid
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content_chunk text,
+  similarity float,
+  file_path text,
+  title text,
+  metadata jsonb
+)
+LANGUAGE plpgsql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tsq tsquery;
+BEGIN
+  SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | '))
+  INTO tsq
+  FROM unnest(tsvector_to_array(to_tsvector('english', coalesce(query_text, '')))) AS lexeme;
+
+  IF tsq IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    de.id,
+    de.document_id,
+    de.content_chunk,
+    ts_rank_cd(de.content_tsv, tsq, 32)::float AS similarity,
+    d.file_path,
+    d.title,
+    de.metadata
+  FROM document_embeddings de
+  JOIN documents d ON de.document_id = d.id
+  JOIN projects p ON d.project_id = p.id
+  WHERE d.project_id = filter_project_id
+    AND de.generation = p.active_embedding_generation
+    AND de.content_tsv @@ tsq
+  ORDER BY similarity DESC
+  LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_chunks_by_ids(
+  chunk_ids uuid[],
+  filter_project_id uuid
+)
+RETURNS TABLE (
+  chunk_id uuid,
+  document_id uuid,
+  document_title text,
+  document_path text,
+  content_chunk text,
+  chunk_index int,
+  metadata jsonb,
+  total_chunks int
+)
+LANGUAGE plpgsql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    de.id as chunk_id,
+    de.document_id,
+    d.title as document_title,
+    d.file_path as document_path,
+    de.content_chunk,
+    COALESCE((de.metadata->>'chunk_index')::int, 0) as chunk_index,
+    de.metadata,
+    (SELECT COUNT(*)::int FROM document_embeddings sub
+     WHERE sub.document_id = de.document_id
+       AND sub.generation = p.active_embedding_generation) as total_chunks
+  FROM document_embeddings de
+  JOIN documents d ON de.document_id = d.id
+  JOIN projects p ON d.project_id = p.id
+  WHERE de.id = ANY(chunk_ids)
+    AND d.project_id = filter_project_id
+    AND de.generation = p.active_embedding_generation
+  ORDER BY d.file_path, COALESCE((de.metadata->>'chunk_index')::int, 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION match_shared_documents(
+  query_embedding vector(512),
+  p_organization_id UUID,
+  match_count INT,
+  filter_tags TEXT[] DEFAULT NULL,
+  filter_agent_id UUID DEFAULT NULL,
+  filter_embedding_model TEXT DEFAULT 'jina-embeddings-v3'
+)
+RETURNS TABLE (
+  document_id UUID,
+  content_chunk TEXT,
+  similarity FLOAT,
+  title TEXT,
+  project_slug TEXT,
+  agent_id UUID,
+  agent_name TEXT,
+  tags TEXT[]
+)
+LANGUAGE plpgsql STABLE
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    de.document_id,
+    de.content_chunk,
+    1 - (de.embedding <=> query_embedding) AS similarity,
+    d.title,
+    p.slug AS project_slug,
+    d.agent_id,
+    a.agent_name,
+    d.tags
+  FROM document_embeddings de
+  JOIN documents d ON de.document_id = d.id
+  JOIN projects p ON d.project_id = p.id
+  LEFT JOIN agents a ON d.agent_id = a.id
+  WHERE d.visibility = 'shared'
+    AND p.organization_id = p_organization_id
+    AND de.generation = p.active_embedding_generation
+    AND de.embedding_model = filter_embedding_model
+    AND (filter_tags IS NULL OR d.tags && filter_tags)
+    AND (filter_agent_id IS NULL OR d.agent_id = filter_agent_id)
+  ORDER BY de.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,203 @@
+-- ============================================================
+-- Quoth v3.4: Search Filters
+-- ============================================================
+-- Lets quoth_search_index and /api/knowledge-base/search narrow retrieval by
+-- document metadata, pushed down into the retrieval RPCs (not post-filtered):
+--
+--   filter_doc_types      documents.doc_type IN (...)
+--   filter_path_regex     documents.file_path ~ regex (compiled from a glob client-side)
+--   filter_statuses       frontmatter status IN (...)
+--   exclude_statuses      frontmatter status NOT IN (...) (documents without status kept)
+--   filter_related_stack  frontmatter related_stack overlaps (...)
+--   filter_tags           documents.tags overlaps (...)
+--   filter_updated_since  documents.last_updated >= timestamp
+--
+-- Every filter defaults to NULL (= no filter), so existing callers are unchanged.
+--
+-- Safe: Idempotent. Old RPC signatures are dropped and recreated with the
+-- filter parameters appended.
+
+-- ============================================================
+-- 1. Frontmatter columns
+-- ============================================================
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS status TEXT,
+  ADD COLUMN IF NOT EXISTS related_stack TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_documents_project_status
+  ON documents(project_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_documents_related_stack
+  ON documents USING gin(related_stack);
+
+COMMENT ON COLUMN documents.status IS
+  'Frontmatter status (e.g. active, draft, deprecated). Written by syncDocument.';
+
+COMMENT ON COLUMN documents.related_stack IS
+  'Frontmatter related_stack list. Written by syncDocument.';
+
+-- Best-effort backfill from inline frontmatter (status: x, related_stack: [a, b]).
+-- The next sync of each document writes the exact parsed values.
+UPDATE documents d
+SET status = lower((regexp_match(fm.block, '^status:\s*["'']?([A-Za-z0-9_-]+)', 'n'))[1])
+FROM (
+  SELECT id, (regexp_match(content, '^---\s*\n(.*?)\n---'))[1] AS block
+  FROM documents
+) fm
+WHERE d.id = fm.id
+  AND d.status IS NULL
+  AND fm.block IS NOT NULL;
+
+UPDATE documents d
+SET related_stack = (
+  SELECT array_agg(trim(both ' "''' FROM item))
+  FROM unnest(string_to_array(fm.stack, ',')) AS item
+  WHERE trim(both ' "''' FROM item) <> ''
+)
+FROM (
+  SELECT id,
+    (regexp_match((regexp_match(content, '^---\s*\n(.*?)\n---'))[1], '^related_stack:\s*\[([^\]]*)\]', 'n'))[1] AS stack
+  FROM documents
+) fm
+WHERE d.id = fm.id
+  AND d.related_stack IS NULL
+  AND fm.stack IS NOT NULL;
+
+-- ============================================================
+-- 2. match_documents with filters
+-- ============================================================
+DROP FUNCTION IF EXISTS match_documents(vector(512), float, int, uuid, text);
+
+CREATE OR REPLACE FUNCTION match_documents (
+  query_embedding vector(512),
+  match_threshold float,
+  match_count int,
+  filter_project_id uuid,
+  filter_embedding_model text DEFAULT 'jina-embeddings-v3',
+  filter_doc_types text[] DEFAULT NULL,
+  filter_path_regex text DEFAULT NULL,
+  filter_statuses text[] DEFAULT NULL,
+  exclude_statuses text[] DEFAULT NULL,
+  filter_related_stack text[] DEFAULT NULL,
+  filter_tags text[] DEFAULT NULL,
+  filter_updated_since timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content_chunk text,
+  similarity float,
+  file_path text,
+  title text,
+  metadata jsonb
+)
+LANGUAGE plpgsql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    de.id,
+    de.document_id,
+    de.content_chunk,
+    1 - (de.embedding <=> query_embedding) as similarity,
+    d.file_path,
+    d.title,
+    de.metadata
+  FROM document_embeddings de
+  JOIN documents d ON de.document_id = d.id
+  JOIN projects p ON d.project_id = p.id
+  WHERE d.project_id = filter_project_id
+  AND de.generation = p.active_embedding_generation
+  AND de.embedding_model = filter_embedding_model
+  AND (filter_doc_types IS NULL OR d.doc_type = ANY(filter_doc_types))
+  AND (filter_path_regex IS NULL OR d.file_path ~ filter_path_regex)
+  AND (filter_statuses IS NULL OR d.status = ANY(filter_statuses))
+  AND (exclude_statuses IS NULL OR d.status IS NULL OR NOT (d.status = ANY(exclude_statuses)))
+  AND (filter_related_stack IS NULL OR d.related_stack && filter_related_stack)
+  AND (filter_tags IS NULL OR d.tags && filter_tags)
+  AND (filter_updated_since IS NULL OR d.last_updated >= filter_updated_since)
+  AND 1 - (de.embedding <=> query_embedding) > match_threshold
+  ORDER BY de.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- ============================================================
+-- 3. keyword_match_documents with filters
+-- ============================================================
+DROP FUNCTION IF EXISTS keyword_match_documents(text, int, uuid);
+
+CREATE OR REPLACE FUNCTION keyword_match_documents (
+  query_text text,
+  match_count int,
+  filter_project_id uuid,
+  filter_doc_types text[] DEFAULT NULL,
+  filter_path_regex text DEFAULT NULL,
+  filter_statuses text[] DEFAULT NULL,
+  exclude_statuses text[] DEFAULT NULL,
+  filter_related_stack text[] DEFAULT NULL,
+  filter_tags text[] DEFAULT NULL,
+  filter_updated_since timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content_chunk text,
+  similarity float,
+  file_path text,
+  title text,
+  metadata jsonb
+)
+LANGUAGE plpgsql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tsq tsquery;
+BEGIN
+  SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | '))
+  INTO tsq
+  FROM unnest(tsvector_to_array(to_tsvector('english', coalesce(query_text, '')))) AS lexeme;
+
+  IF tsq IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    de.id,
+    de.document_id,
+    de.content_chunk,
+    ts_rank_cd(de.content_tsv, tsq, 32)::float AS similarity,
+    d.file_path,
+    d.title,
+    de.metadata
+  FROM document_embeddings de
+  JOIN documents d ON de.document_id = d.id
+  JOIN projects p ON d.project_id = p.id
+  WHERE d.project_id = filter_project_id
+    AND de.generation = p.active_embedding_generation
+    AND (filter_doc_types IS NULL OR d.doc_type = ANY(filter_doc_types))
+    AND (filter_path_regex IS NULL OR d.file_path ~ filter_path_regex)
+    AND (filter_statuses IS NULL OR d.status = ANY(filter_statuses))
+    AND (exclude_statuses IS NULL OR d.status IS NULL OR NOT (d.status = ANY(exclude_statuses)))
+    AND (filter_related_stack IS NULL OR d.related_stack && filter_related_stack)
+    AND (filter_tags IS NULL OR d.tags && filter_tags)
+    AND (filter_updated_since IS NULL OR d.last_updated >= filter_updated_since)
+    AND de.content_tsv @@ tsq
+  ORDER BY similarity DESC
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_documents TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION keyword_match_documents TO authenticated, service_role;
+
+COMMENT ON FUNCTION match_documents IS
+  'Vector chunk search scoped to a project''s active embedding generation, with optional metadata filters (NULL = no filter).';
+
+COMMENT ON FUNCTION keyword_match_documents IS
+  'Full-text chunk search scoped to a project''s active embedding generation, with optional metadata filters (NULL = no filter).
+   Same return shape as match_documents; used for hybrid retrieval and the free-tier keyword fallback.';
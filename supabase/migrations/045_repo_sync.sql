@@ -0,0 +1,65 @@
+-- ============================================================
+-- Quoth v3.5: Repository Sync
+-- ============================================================
+-- Indexes a project's docs folder straight from git (a local working tree via
+-- `npm run repo:sync`, or an uploaded git bundle via
+-- POST /api/projects/:projectId/repo-sync).
+--
+-- Each sync reads the docs directory at one commit, re-syncs documents whose
+-- checksum changed, deletes repository-managed documents that disappeared, and
+-- stamps every synced document with the commit SHA.
+--
+-- Documents created through quoth_propose_update have repo_path = NULL and are
+-- never deleted by a repository sync.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Project settings
+-- ============================================================
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS docs_path TEXT NOT NULL DEFAULT 'docs',
+  ADD COLUMN IF NOT EXISTS repo_synced_commit TEXT,
+  ADD COLUMN IF NOT EXISTS repo_synced_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN projects.docs_path IS
+  'Docs directory inside github_repo indexed by repository sync (relative to the repo root, "." = whole repo).';
+
+COMMENT ON COLUMN projects.repo_synced_commit IS
+  'Commit SHA of the last completed repository sync.';
+
+-- ============================================================
+-- 2. Document provenance
+-- ============================================================
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS repo_path TEXT,
+  ADD COLUMN IF NOT EXISTS last_verified_commit TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_documents_project_repo_path
+  ON documents(project_id, repo_path)
+  WHERE repo_path IS NOT NULL;
+
+COMMENT ON COLUMN documents.repo_path IS
+  'Path of the source file in the project repository. NULL for documents not managed by repository sync.';
+
+COMMENT ON COLUMN documents.last_verified_commit IS
+  'Commit SHA at which the document content was last read from the repository.';
+
+-- ============================================================
+-- 3. Activity event type
+-- ============================================================
+-- The original CHECK only listed the v1 events; recreate it with every
+-- ActivityEventType the application logs.
+ALTER TABLE quoth_activity DROP CONSTRAINT IF EXISTS quoth_activity_event_type_check;
+
+ALTER TABLE quoth_activity ADD CONSTRAINT quoth_activity_event_type_check
+  CHECK (event_type IN (
+    'search', 'read', 'read_chunks', 'propose', 'genesis',
+    'pattern_match', 'pattern_inject', 'drift_detected', 'coverage_scan',
+    'project_create', 'project_update', 'project_delete',
+    'agent_register', 'agent_update', 'agent_remove',
+    'agent_assign_project', 'agent_unassign_project',
+    'agent_message_sent', 'agent_inbox_read',
+    'reindex', 'agent_task_created', 'agent_task_updated',
+    'repo_sync'
+  ));
@@ -0,0 +1,30 @@
+-- ============================================================
+-- Quoth v3.5: Proposal Export
+-- ============================================================
+-- Applied proposals can be exported back to the project repository, either as
+-- commits on a branch of a local clone or as `git am`-ready patch files
+-- (`npm run proposals:export`, GET /api/proposals/:id/patch).
+--
+-- Branch exports fill the existing commit_sha / commit_url columns; every
+-- export records when and how it happened so batches skip proposals that were
+-- already exported.
+--
+-- Safe: Idempotent, additive.
+
+ALTER TABLE document_proposals
+  ADD COLUMN IF NOT EXISTS exported_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS export_format TEXT CHECK (export_format IN ('patch', 'branch')),
+  ADD COLUMN IF NOT EXISTS export_ref TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_proposals_project_unexported
+  ON document_proposals(project_id, applied_at)
+  WHERE status = 'applied' AND exported_at IS NULL;
+
+COMMENT ON COLUMN document_proposals.exported_at IS
+  'When the applied change was exported to the repository (NULL = not exported yet).';
+
+COMMENT ON COLUMN document_proposals.export_format IS
+  'How the change was exported: patch (format-patch file) or branch (commit on a local branch).';
+
+COMMENT ON COLUMN document_proposals.export_ref IS
+  'Branch name for branch exports.';
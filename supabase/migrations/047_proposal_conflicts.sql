@@ -0,0 +1,36 @@
+-- ============================================================
+-- Quoth v3.5: Proposal Conflicts
+-- ============================================================
+-- A proposal snapshots original_content when it is created. If the document
+-- changes before the proposal is approved, approval now three-way merges the
+-- proposed content into the current document (base = original_content)
+-- instead of overwriting it. Overlapping edits leave the proposal in the new
+-- 'conflict' status with the conflicting hunks stored for review.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Base checksum and conflict hunks
+-- ============================================================
+ALTER TABLE document_proposals
+  ADD COLUMN IF NOT EXISTS base_checksum TEXT,
+  ADD COLUMN IF NOT EXISTS conflicts JSONB;
+
+-- Same MD5 hex digest as documents.checksum
+UPDATE document_proposals
+SET base_checksum = md5(original_content)
+WHERE base_checksum IS NULL AND original_content IS NOT NULL;
+
+COMMENT ON COLUMN document_proposals.base_checksum IS
+  'Checksum of the document when the proposal was created (NULL for new documents).';
+
+COMMENT ON COLUMN document_proposals.conflicts IS
+  'Conflicting hunks from the last approval attempt: [{baseLine, base, current, proposed}].';
+
+-- ============================================================
+-- 2. Allow the conflict status
+-- ============================================================
+ALTER TABLE document_proposals DROP CONSTRAINT IF EXISTS document_proposals_status_check;
+
+ALTER TABLE document_proposals ADD CONSTRAINT document_proposals_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'applied', 'error', 'conflict'));
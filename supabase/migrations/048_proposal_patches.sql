@@ -0,0 +1,15 @@
+-- ============================================================
+-- Quoth v3.5: Patch Proposals
+-- ============================================================
+-- quoth_propose_patch edits part of a document (replace/append to a section,
+-- insert after a heading, unified diff hunks) instead of resending it whole.
+-- The operations are stored as submitted; proposed_content still holds the
+-- full resulting document, so approval, merging and export are unchanged.
+--
+-- Safe: Idempotent, additive.
+
+ALTER TABLE document_proposals
+  ADD COLUMN IF NOT EXISTS patch JSONB;
+
+COMMENT ON COLUMN document_proposals.patch IS
+  'Patch operations from quoth_propose_patch ([{op, heading, content} | {op: "unified_diff", diff}]); NULL for full-document proposals.';
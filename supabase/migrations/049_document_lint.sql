@@ -0,0 +1,21 @@
+-- ============================================================
+-- Quoth v3.5: Document Lint Gate
+-- ============================================================
+-- quoth_propose_update and quoth_propose_patch lint the resulting document
+-- (frontmatter schema, genesis embedding rules, broken internal links).
+-- Findings are stored on proposals for reviewers; projects can opt in to
+-- blocking direct apply while a document has lint errors.
+--
+-- Safe: Idempotent, additive.
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS block_on_lint_errors BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN projects.block_on_lint_errors IS
+  'Refuse direct-apply updates whose document has lint errors (invalid frontmatter, broken links).';
+
+ALTER TABLE document_proposals
+  ADD COLUMN IF NOT EXISTS lint_findings JSONB;
+
+COMMENT ON COLUMN document_proposals.lint_findings IS
+  'Lint result for proposed_content when the proposal was created: {errors, warnings, findings[]}.';
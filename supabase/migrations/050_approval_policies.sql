@@ -0,0 +1,108 @@
+-- ============================================================
+-- Quoth v3.6: Approval Policies
+-- ============================================================
+-- Per-path approval rules on top of projects.require_approval.
+--
+-- Rules use CODEOWNERS-style path patterns; the last matching rule (by
+-- position) decides whether a document is auto-applied or how many
+-- approvals, from which roles or users, its proposals need. Paths without a
+-- matching rule keep the project default (require_approval, one admin).
+--
+-- Every approve/reject vote is recorded in proposal_approvals.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Policy rules
+-- ============================================================
+CREATE TABLE IF NOT EXISTS approval_policies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+
+  path_pattern TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+
+  auto_apply BOOLEAN NOT NULL DEFAULT false,
+  required_approvals INTEGER NOT NULL DEFAULT 1 CHECK (required_approvals BETWEEN 1 AND 10),
+  reviewer_roles TEXT[] NOT NULL DEFAULT ARRAY['admin']::TEXT[]
+    CHECK (reviewer_roles <@ ARRAY['admin', 'editor', 'viewer']::TEXT[]),
+  reviewer_user_ids UUID[] NOT NULL DEFAULT ARRAY[]::UUID[],
+  allow_self_approval BOOLEAN NOT NULL DEFAULT false,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_policies_project
+  ON approval_policies(project_id, position);
+
+COMMENT ON TABLE approval_policies IS
+  'Per-path approval rules. The last rule (by position) whose path_pattern matches a document applies.';
+
+COMMENT ON COLUMN approval_policies.path_pattern IS
+  'CODEOWNERS-style pattern relative to the docs root: "contracts/", "/patterns/*.md", "**/api-*.md", "*.md".';
+
+COMMENT ON COLUMN approval_policies.auto_apply IS
+  'Apply matching updates immediately, even when the project requires approval.';
+
+COMMENT ON COLUMN approval_policies.reviewer_roles IS
+  'Project roles whose members may vote. A user listed in reviewer_user_ids may vote regardless of role.';
+
+COMMENT ON COLUMN approval_policies.allow_self_approval IS
+  'When false, the user whose token submitted a proposal cannot approve it.';
+
+-- ============================================================
+-- 2. Proposal author and votes
+-- ============================================================
+ALTER TABLE document_proposals
+  ADD COLUMN IF NOT EXISTS proposed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN document_proposals.proposed_by IS
+  'User whose MCP token submitted the proposal (used to block self-approval).';
+
+CREATE TABLE IF NOT EXISTS proposal_approvals (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  proposal_id UUID REFERENCES document_proposals(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewer_email TEXT NOT NULL,
+  reviewer_role TEXT NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('approve', 'reject')),
+  notes TEXT,
+  policy_id UUID REFERENCES approval_policies(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_approvals_proposal
+  ON proposal_approvals(proposal_id, created_at);
+
+COMMENT ON TABLE proposal_approvals IS
+  'Audit trail of approve/reject votes. Distinct approving reviewers are counted against the policy.';
+
+-- ============================================================
+-- 3. RLS Policies
+-- ============================================================
+ALTER TABLE public.approval_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.proposal_approvals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view project approval policies" ON public.approval_policies;
+CREATE POLICY "Users can view project approval policies"
+  ON public.approval_policies FOR SELECT
+  USING (public.has_project_access(project_id));
+
+DROP POLICY IF EXISTS "Users can view proposal approvals" ON public.proposal_approvals;
+CREATE POLICY "Users can view proposal approvals"
+  ON public.proposal_approvals FOR SELECT
+  USING (
+    proposal_id IN (SELECT id FROM public.document_proposals WHERE public.has_project_access(project_id))
+  );
+
+-- Writes go through the API with the service role
+DROP POLICY IF EXISTS "Service role full access to approval_policies" ON public.approval_policies;
+CREATE POLICY "Service role full access to approval_policies"
+  ON public.approval_policies FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role full access to proposal_approvals" ON public.proposal_approvals;
+CREATE POLICY "Service role full access to proposal_approvals"
+  ON public.proposal_approvals FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,115 @@
+-- ============================================================
+-- Quoth v3.6: Proposal Review Comments and Revisions
+-- ============================================================
+-- Reviewers can leave threaded, line-anchored comments on a proposal and
+-- request changes instead of rejecting it. The authoring agent reads the
+-- comments with quoth_proposal_feedback and submits a revised version on the
+-- same proposal; earlier versions are kept in proposal_revisions.
+--
+-- Approval votes belong to a revision: a new revision needs new approvals.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Revision number and the changes_requested status
+-- ============================================================
+ALTER TABLE document_proposals
+  ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN document_proposals.revision IS
+  'Current revision of proposed_content. Incremented by quoth_proposal_feedback revisions.';
+
+ALTER TABLE document_proposals DROP CONSTRAINT IF EXISTS document_proposals_status_check;
+
+ALTER TABLE document_proposals ADD CONSTRAINT document_proposals_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'applied', 'error', 'conflict', 'changes_requested'));
+
+-- ============================================================
+-- 2. Earlier revisions
+-- ============================================================
+CREATE TABLE IF NOT EXISTS proposal_revisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  proposal_id UUID REFERENCES document_proposals(id) ON DELETE CASCADE NOT NULL,
+  revision INTEGER NOT NULL,
+  proposed_content TEXT NOT NULL,
+  reasoning TEXT,
+  patch JSONB,
+  lint_findings JSONB,
+  created_at TIMESTAMPTZ DEFAULT now(),
+
+  UNIQUE (proposal_id, revision)
+);
+
+COMMENT ON TABLE proposal_revisions IS
+  'Superseded versions of a proposal, saved when the authoring agent submits a revision.';
+
+-- ============================================================
+-- 3. Review comments
+-- ============================================================
+CREATE TABLE IF NOT EXISTS proposal_comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  proposal_id UUID REFERENCES document_proposals(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES proposal_comments(id) ON DELETE CASCADE,
+
+  -- Anchor: 1-based line of proposed_content at `revision` (NULL = whole proposal)
+  revision INTEGER NOT NULL DEFAULT 1,
+  line INTEGER CHECK (line IS NULL OR line > 0),
+  line_text TEXT,
+
+  body TEXT NOT NULL,
+  author_type TEXT NOT NULL DEFAULT 'user' CHECK (author_type IN ('user', 'agent')),
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_name TEXT NOT NULL,
+  resolved BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_comments_proposal
+  ON proposal_comments(proposal_id, created_at);
+
+COMMENT ON TABLE proposal_comments IS
+  'Threaded review comments. Replies set parent_id; only top-level comments carry a line anchor.';
+
+COMMENT ON COLUMN proposal_comments.line_text IS
+  'Text of the anchored line when the comment was made, shown once later revisions move it.';
+
+-- ============================================================
+-- 4. Votes per revision
+-- ============================================================
+ALTER TABLE proposal_approvals
+  ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE proposal_approvals DROP CONSTRAINT IF EXISTS proposal_approvals_decision_check;
+
+ALTER TABLE proposal_approvals ADD CONSTRAINT proposal_approvals_decision_check
+  CHECK (decision IN ('approve', 'reject', 'request_changes'));
+
+-- ============================================================
+-- 5. RLS Policies
+-- ============================================================
+ALTER TABLE public.proposal_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.proposal_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view proposal revisions" ON public.proposal_revisions;
+CREATE POLICY "Users can view proposal revisions"
+  ON public.proposal_revisions FOR SELECT
+  USING (
+    proposal_id IN (SELECT id FROM public.document_proposals WHERE public.has_project_access(project_id))
+  );
+
+DROP POLICY IF EXISTS "Users can view proposal comments" ON public.proposal_comments;
+CREATE POLICY "Users can view proposal comments"
+  ON public.proposal_comments FOR SELECT
+  USING (
+    proposal_id IN (SELECT id FROM public.document_proposals WHERE public.has_project_access(project_id))
+  );
+
+DROP POLICY IF EXISTS "Service role full access to proposal_revisions" ON public.proposal_revisions;
+CREATE POLICY "Service role full access to proposal_revisions"
+  ON public.proposal_revisions FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role full access to proposal_comments" ON public.proposal_comments;
+CREATE POLICY "Service role full access to proposal_comments"
+  ON public.proposal_comments FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,58 @@
+-- ============================================================
+-- Quoth v3.6: Document History Authors
+-- ============================================================
+-- document_history only recorded content and title. Versions now carry who
+-- wrote them, through which path (MCP tool, approved proposal, repository
+-- sync, rollback) and the commit they were last verified against, so the
+-- history API can show authors and quoth_read_doc can answer "what did this
+-- document say at commit X".
+--
+-- A version is valid from the moment the previous one was archived until it
+-- is archived itself; documents.created_at bounds the first version.
+--
+-- Safe: Idempotent, additive. Existing history rows have NULL authors.
+
+-- ============================================================
+-- 1. Author of the current version
+-- ============================================================
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS update_source TEXT,
+  ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ;
+
+-- Existing documents keep NULL (creation time unknown); new ones are stamped
+ALTER TABLE documents ALTER COLUMN created_at SET DEFAULT now();
+
+COMMENT ON COLUMN documents.updated_by IS
+  'User whose action wrote the current version (MCP token owner, proposal author, admin).';
+
+COMMENT ON COLUMN documents.update_source IS
+  'How the current version was written: mcp, proposal, repo_sync or rollback.';
+
+-- ============================================================
+-- 2. Authors on archived versions
+-- ============================================================
+ALTER TABLE document_history
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS update_source TEXT,
+  ADD COLUMN IF NOT EXISTS last_verified_commit TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_document_history_document_version
+  ON document_history(document_id, version);
+
+CREATE OR REPLACE FUNCTION backup_document_before_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Save the old version to history
+  INSERT INTO document_history (document_id, content, title, version, updated_by, update_source, last_verified_commit)
+  VALUES (OLD.id, OLD.content, OLD.title, OLD.version, OLD.updated_by, OLD.update_source, OLD.last_verified_commit);
+
+  -- Increment version on the new record
+  NEW.version = OLD.version + 1;
+  NEW.last_updated = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN document_history.last_verified_commit IS
+  'Last repository commit this version was verified against (repository-synced documents only).';
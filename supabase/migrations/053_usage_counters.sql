@@ -0,0 +1,87 @@
+-- ============================================================
+-- Quoth v3.6: Usage Metering
+-- ============================================================
+-- Tier limits (semantic searches, RAG answers) were counted in an
+-- in-process Map, so every serverless instance had its own counter and
+-- limits reset on cold start. Counters now live in Postgres and are bumped
+-- with a single atomic upsert, per project, metric and period (UTC day and
+-- calendar month).
+--
+-- usage_counters is the billed usage shown on the analytics page; the
+-- activity log remains the source for query-level insights.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Counters
+-- ============================================================
+CREATE TABLE IF NOT EXISTS usage_counters (
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  metric TEXT NOT NULL CHECK (metric IN ('semantic_search', 'rag_answer')),
+  period TEXT NOT NULL CHECK (period IN ('day', 'month')),
+  -- First day of the period (UTC)
+  period_start DATE NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (project_id, metric, period, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_counters_project_period
+  ON usage_counters(project_id, period, period_start DESC);
+
+COMMENT ON TABLE usage_counters IS
+  'Metered usage for tier limits: one row per project, metric and UTC day or month.';
+
+-- ============================================================
+-- 2. Atomic increment
+-- ============================================================
+CREATE OR REPLACE FUNCTION increment_usage(
+  target_project_id UUID,
+  usage_metric TEXT,
+  usage_day DATE DEFAULT (now() AT TIME ZONE 'utc')::date,
+  amount INT DEFAULT 1
+)
+RETURNS TABLE (daily_count INT, monthly_count INT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  day_total INT;
+  month_total INT;
+BEGIN
+  INSERT INTO usage_counters AS c (project_id, metric, period, period_start, count)
+  VALUES (target_project_id, usage_metric, 'day', usage_day, amount)
+  ON CONFLICT (project_id, metric, period, period_start)
+  DO UPDATE SET count = c.count + EXCLUDED.count, updated_at = now()
+  RETURNING c.count INTO day_total;
+
+  INSERT INTO usage_counters AS c (project_id, metric, period, period_start, count)
+  VALUES (target_project_id, usage_metric, 'month', date_trunc('month', usage_day)::date, amount)
+  ON CONFLICT (project_id, metric, period, period_start)
+  DO UPDATE SET count = c.count + EXCLUDED.count, updated_at = now()
+  RETURNING c.count INTO month_total;
+
+  RETURN QUERY SELECT day_total, month_total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION increment_usage FROM anon, authenticated;
+
+COMMENT ON FUNCTION increment_usage IS
+  'Adds amount to the day and month counters of a project metric and returns both totals.';
+
+-- ============================================================
+-- 3. RLS Policies
+-- ============================================================
+ALTER TABLE public.usage_counters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view project usage" ON public.usage_counters;
+CREATE POLICY "Users can view project usage"
+  ON public.usage_counters FOR SELECT
+  USING (public.has_project_access(project_id));
+
+DROP POLICY IF EXISTS "Service role full access to usage_counters" ON public.usage_counters;
+CREATE POLICY "Service role full access to usage_counters"
+  ON public.usage_counters FOR ALL
+  USING (auth.role() = 'service_role');
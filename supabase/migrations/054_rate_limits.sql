@@ -0,0 +1,186 @@
+-- ============================================================
+-- Quoth v3.6: Shared Rate Limits and Per-Project Quotas
+-- ============================================================
+-- Rate limits were kept in an in-process Map, so each serverless instance
+-- enforced its own limit. Buckets now live in Postgres and each decision is
+-- a single row-locked update (consume_rate_limit), using the same
+-- sliding-window counter and token-bucket math as src/lib/rate-limit.ts.
+--
+-- rate_limit_quotas lets project admins set MCP quotas per API key and per
+-- agent; a rule without a subject is the default for every key (or agent)
+-- of the project.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Buckets
+-- ============================================================
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  -- sliding_window: start of the current window (epoch ms) and counts
+  window_start BIGINT,
+  count INTEGER NOT NULL DEFAULT 0,
+  prev_count INTEGER NOT NULL DEFAULT 0,
+  -- token_bucket: tokens left at updated_ms (epoch ms)
+  tokens DOUBLE PRECISION,
+  updated_ms BIGINT,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_expires
+  ON rate_limit_buckets(expires_at);
+
+COMMENT ON TABLE rate_limit_buckets IS
+  'Rate limit state shared by all app instances. Rows are disposable; expired rows are swept by consume_rate_limit.';
+
+-- ============================================================
+-- 2. Atomic consume
+-- ============================================================
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+  bucket_key TEXT,
+  algorithm TEXT,
+  max_requests INT,
+  window_ms BIGINT,
+  cost INT DEFAULT 1
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INT, reset_ms BIGINT, retry_after_ms BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  now_ms BIGINT := (extract(epoch FROM clock_timestamp()) * 1000)::BIGINT;
+  bucket rate_limit_buckets%ROWTYPE;
+  current_start BIGINT;
+  cur INT := 0;
+  prev INT := 0;
+  weighted DOUBLE PRECISION;
+  ends_in BIGINT;
+  rate DOUBLE PRECISION;
+  available DOUBLE PRECISION;
+BEGIN
+  -- Occasionally sweep expired buckets
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_buckets WHERE expires_at < now();
+  END IF;
+
+  INSERT INTO rate_limit_buckets (key, expires_at)
+  VALUES (bucket_key, now())
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT * INTO bucket FROM rate_limit_buckets b WHERE b.key = bucket_key FOR UPDATE;
+
+  IF algorithm = 'token_bucket' THEN
+    rate := max_requests::DOUBLE PRECISION / window_ms;
+    available := max_requests;
+    IF bucket.tokens IS NOT NULL AND bucket.updated_ms IS NOT NULL THEN
+      available := LEAST(max_requests, bucket.tokens + GREATEST(0, now_ms - bucket.updated_ms) * rate);
+    END IF;
+
+    IF available < cost THEN
+      allowed := false;
+      remaining := 0;
+      retry_after_ms := CEIL((cost - available) / rate);
+    ELSE
+      available := available - cost;
+      allowed := true;
+      remaining := FLOOR(available);
+      retry_after_ms := 0;
+    END IF;
+    reset_ms := CEIL((max_requests - available) / rate);
+
+    UPDATE rate_limit_buckets
+    SET tokens = available, updated_ms = now_ms,
+        expires_at = now() + make_interval(secs => 2 * window_ms / 1000.0)
+    WHERE key = bucket_key;
+  ELSE
+    current_start := (now_ms / window_ms) * window_ms;
+    IF bucket.window_start = current_start THEN
+      cur := bucket.count;
+      prev := bucket.prev_count;
+    ELSIF bucket.window_start = current_start - window_ms THEN
+      prev := bucket.count;
+    END IF;
+
+    weighted := prev * (1 - (now_ms - current_start)::DOUBLE PRECISION / window_ms) + cur;
+    ends_in := current_start + window_ms - now_ms;
+
+    IF weighted + cost > max_requests THEN
+      allowed := false;
+      remaining := 0;
+      reset_ms := ends_in + window_ms;
+      retry_after_ms := ends_in;
+      IF cur + cost <= max_requests AND prev > 0 THEN
+        retry_after_ms := GREATEST(1, CEIL(
+          current_start + (1 - (max_requests - cur - cost)::DOUBLE PRECISION / prev) * window_ms - now_ms
+        ));
+      END IF;
+    ELSE
+      cur := cur + cost;
+      allowed := true;
+      remaining := GREATEST(0, FLOOR(max_requests - weighted - cost));
+      reset_ms := ends_in;
+      retry_after_ms := 0;
+    END IF;
+
+    UPDATE rate_limit_buckets
+    SET window_start = current_start, count = cur, prev_count = prev,
+        expires_at = now() + make_interval(secs => 2 * window_ms / 1000.0)
+    WHERE key = bucket_key;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_rate_limit FROM anon, authenticated;
+
+COMMENT ON FUNCTION consume_rate_limit IS
+  'Applies one request of cost to a sliding_window or token_bucket limit and returns the decision.';
+
+-- ============================================================
+-- 3. Per-project MCP quotas
+-- ============================================================
+CREATE TABLE IF NOT EXISTS rate_limit_quotas (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+
+  scope TEXT NOT NULL CHECK (scope IN ('api_key', 'agent')),
+  -- API key id (project_api_keys.id) or agent id; NULL = default for the scope
+  subject TEXT,
+
+  algorithm TEXT NOT NULL DEFAULT 'sliding_window'
+    CHECK (algorithm IN ('sliding_window', 'token_bucket')),
+  max_requests INTEGER NOT NULL CHECK (max_requests BETWEEN 1 AND 100000),
+  window_seconds INTEGER NOT NULL CHECK (window_seconds BETWEEN 1 AND 86400),
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rate_limit_quotas_subject
+  ON rate_limit_quotas(project_id, scope, COALESCE(subject, ''));
+
+COMMENT ON TABLE rate_limit_quotas IS
+  'MCP request quotas per API key or agent. A rule naming the subject overrides the scope default (subject NULL).';
+
+-- ============================================================
+-- 4. RLS Policies
+-- ============================================================
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_quotas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view project rate limit quotas" ON public.rate_limit_quotas;
+CREATE POLICY "Users can view project rate limit quotas"
+  ON public.rate_limit_quotas FOR SELECT
+  USING (public.has_project_access(project_id));
+
+DROP POLICY IF EXISTS "Service role full access to rate_limit_buckets" ON public.rate_limit_buckets;
+CREATE POLICY "Service role full access to rate_limit_buckets"
+  ON public.rate_limit_buckets FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role full access to rate_limit_quotas" ON public.rate_limit_quotas;
+CREATE POLICY "Service role full access to rate_limit_quotas"
+  ON public.rate_limit_quotas FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,21 @@
+-- ============================================================
+-- Quoth v3.6: Drift Fix Proposals
+-- ============================================================
+-- A drift event can be turned into a pending proposal that rewrites the
+-- affected document section to match the code (dashboard "Draft Fix" or the
+-- quoth_drift_fix MCP tool). The event links to the proposal, and applying
+-- the proposal resolves every event linked to it.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Link drift events to the proposal that fixes them
+-- ============================================================
+ALTER TABLE drift_events
+  ADD COLUMN IF NOT EXISTS proposal_id UUID REFERENCES document_proposals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_drift_events_proposal
+  ON drift_events(proposal_id) WHERE proposal_id IS NOT NULL;
+
+COMMENT ON COLUMN drift_events.proposal_id IS
+  'Proposal drafted to fix this drift. The event is resolved when the proposal is applied.';
@@ -0,0 +1,72 @@
+-- ============================================================
+-- Quoth v3.6: Staleness Policies, review_by and Verification
+-- ============================================================
+-- Document health used one set of thresholds for every document. Projects
+-- now set how long documents stay fresh per doc_type and/or path pattern
+-- (contracts after 14 days, architecture after 180); the last matching rule
+-- by position wins, as with approval policies.
+--
+-- A `review_by` frontmatter date overrides the policy until the document is
+-- updated or verified after it. Verifying a document (verified_at) restarts
+-- its staleness without editing it, so no new version is created.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Policy rules
+-- ============================================================
+CREATE TABLE IF NOT EXISTS staleness_policies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+
+  -- NULL matches any type / any path
+  doc_type TEXT CHECK (doc_type IS NULL OR doc_type IN (
+    'testing-pattern', 'architecture', 'contract', 'meta', 'template'
+  )),
+  path_pattern TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+
+  max_age_days INTEGER NOT NULL CHECK (max_age_days BETWEEN 1 AND 3650),
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_staleness_policies_project
+  ON staleness_policies(project_id, position);
+
+COMMENT ON TABLE staleness_policies IS
+  'Per-type and per-path staleness rules. The last rule (by position) matching a document applies.';
+
+COMMENT ON COLUMN staleness_policies.max_age_days IS
+  'Days after the last update or verification at which a document is stale (aging at half, critical at twice).';
+
+-- ============================================================
+-- 2. review_by and verification on documents
+-- ============================================================
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS review_by DATE,
+  ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS verified_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN documents.review_by IS
+  'Frontmatter review_by date. Overrides the staleness policy until the document is updated or verified after it.';
+
+COMMENT ON COLUMN documents.verified_at IS
+  'Last time a member confirmed the document is still accurate. Staleness counts from the later of this and last_updated.';
+
+-- ============================================================
+-- 3. RLS Policies
+-- ============================================================
+ALTER TABLE public.staleness_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view project staleness policies" ON public.staleness_policies;
+CREATE POLICY "Users can view project staleness policies"
+  ON public.staleness_policies FOR SELECT
+  USING (public.has_project_access(project_id));
+
+-- Writes go through the API with the service role
+DROP POLICY IF EXISTS "Service role full access to staleness_policies" ON public.staleness_policies;
+CREATE POLICY "Service role full access to staleness_policies"
+  ON public.staleness_policies FOR ALL
+  USING (auth.role() = 'service_role');
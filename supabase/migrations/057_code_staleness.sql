@@ -0,0 +1,31 @@
+-- ============================================================
+-- Quoth v3.7: Code-Aware Staleness
+-- ============================================================
+-- Calendar age says little about a document whose code never changes, and
+-- nothing about one whose module was rewritten last week. A code staleness
+-- scan counts, per document, the commits touching the files it references
+-- since its verified commit (frontmatter last_verified_commit, else
+-- documents.last_verified_commit) and stores the counts here. Health uses
+-- them until the document is updated or verified again.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Code change counts on documents
+-- ============================================================
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS code_verified_commit TEXT,
+  ADD COLUMN IF NOT EXISTS code_commits_since_verified INTEGER,
+  ADD COLUMN IF NOT EXISTS code_files_changed INTEGER,
+  ADD COLUMN IF NOT EXISTS code_files_referenced INTEGER,
+  ADD COLUMN IF NOT EXISTS code_checked_commit TEXT,
+  ADD COLUMN IF NOT EXISTS code_checked_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN documents.code_verified_commit IS
+  'Commit the code changes were counted from (the document''s verified commit at scan time).';
+
+COMMENT ON COLUMN documents.code_commits_since_verified IS
+  'Commits touching the referenced files between code_verified_commit and code_checked_commit. NULL when the document was not checked.';
+
+COMMENT ON COLUMN documents.code_checked_at IS
+  'Last code staleness scan. Counts are ignored once the document is updated or verified after it.';
@@ -0,0 +1,60 @@
+-- ============================================================
+-- Quoth v3.8: Documentation Gap Analysis
+-- ============================================================
+-- The miss rate says how many searches fail, not what to write. A gap
+-- analysis embeds the project's missed (zero-result) and low-relevance
+-- queries, clusters similar ones, and stores each cluster as a suggested
+-- document: a label, representative queries and a starting template.
+-- Starting a suggestion drafts a new-document proposal from the template.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Suggested documents
+-- ============================================================
+CREATE TABLE IF NOT EXISTS doc_gaps (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+
+  label TEXT NOT NULL,
+  -- Most-missed queries of the cluster, first = most representative
+  representative_queries TEXT[] NOT NULL DEFAULT '{}',
+  query_count INTEGER NOT NULL DEFAULT 0,
+  miss_count INTEGER NOT NULL DEFAULT 0,
+  zero_result_count INTEGER NOT NULL DEFAULT 0,
+  last_missed_at TIMESTAMPTZ,
+
+  suggested_template TEXT,
+  suggested_path TEXT,
+
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'started', 'dismissed')),
+  proposal_id UUID REFERENCES document_proposals(id) ON DELETE SET NULL,
+
+  analyzed_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_doc_gaps_project_status
+  ON doc_gaps(project_id, status, miss_count DESC);
+
+COMMENT ON TABLE doc_gaps IS
+  'Suggested documents from clustered missed searches. Open rows are replaced by each analysis; started and dismissed rows are kept.';
+
+COMMENT ON COLUMN doc_gaps.proposal_id IS
+  'New-document proposal drafted when the suggestion was started.';
+
+-- ============================================================
+-- 2. RLS Policies
+-- ============================================================
+ALTER TABLE public.doc_gaps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view project doc gaps" ON public.doc_gaps;
+CREATE POLICY "Users can view project doc gaps"
+  ON public.doc_gaps FOR SELECT
+  USING (public.has_project_access(project_id));
+
+-- Writes go through the API with the service role
+DROP POLICY IF EXISTS "Service role full access to doc_gaps" ON public.doc_gaps;
+CREATE POLICY "Service role full access to doc_gaps"
+  ON public.doc_gaps FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,82 @@
+-- ============================================================
+-- Quoth v3.8: Generation-Checked Sync Writes
+-- ============================================================
+-- syncDocument diffs a document's chunks against the active embedding
+-- generation, then writes the changes. If a reindex activated a new
+-- generation in between, the rows landed in the superseded generation and
+-- gc_embedding_generations() deleted them.
+--
+-- write_document_embeddings() applies the diff in one transaction, holding a
+-- share lock on the project row (activate_embedding_generation() takes it FOR
+-- UPDATE), and fails with serialization_failure when the active generation is
+-- not the one the diff was made against. The caller diffs again and retries.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Write RPC
+-- ============================================================
+CREATE OR REPLACE FUNCTION write_document_embeddings(
+  p_document_id uuid,
+  p_generation int,
+  p_delete_ids uuid[],
+  p_rows jsonb
+)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_generation int;
+  inserted_count int;
+BEGIN
+  SELECT p.active_embedding_generation INTO current_generation
+  FROM projects p
+  JOIN documents d ON d.project_id = p.id
+  WHERE d.id = p_document_id
+  FOR SHARE OF p;
+
+  IF current_generation IS NULL THEN
+    RAISE EXCEPTION 'Document % not found', p_document_id;
+  END IF;
+
+  IF current_generation <> p_generation THEN
+    RAISE EXCEPTION 'Embedding generation changed from % to %', p_generation, current_generation
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  DELETE FROM document_embeddings
+  WHERE document_id = p_document_id
+    AND id = ANY(coalesce(p_delete_ids, '{}'));
+
+  INSERT INTO document_embeddings (
+    document_id,
+    content_chunk,
+    chunk_hash,
+    embedding,
+    embedding_model,
+    embedding_dimensions,
+    generation,
+    metadata
+  )
+  SELECT
+    p_document_id,
+    r->>'content_chunk',
+    r->>'chunk_hash',
+    (r->'embedding')::text::vector,
+    r->>'embedding_model',
+    (r->>'embedding_dimensions')::int,
+    current_generation,
+    coalesce(r->'metadata', '{}'::jsonb)
+  FROM jsonb_array_elements(coalesce(p_rows, '[]'::jsonb)) AS r;
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+  RETURN inserted_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION write_document_embeddings FROM anon, authenticated;
+
+COMMENT ON FUNCTION write_document_embeddings IS
+  'Deletes orphaned chunks and inserts new ones of a document in one transaction, if p_generation is still the active embedding generation (serialization_failure otherwise). Returns rows inserted.';
@@ -0,0 +1,62 @@
+-- ============================================================
+-- Quoth v3.8: Atomic Per-Project Rule Replacement
+-- ============================================================
+-- Approval policies, rate limit quotas and staleness policies are saved as a
+-- whole list: delete the project's rows, insert the new ones. Done as two
+-- requests, a failed insert left the project with no rules at all.
+--
+-- replace_project_rows() does both in one transaction.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Replace RPC
+-- ============================================================
+CREATE OR REPLACE FUNCTION replace_project_rows(
+  p_table text,
+  p_project_id uuid,
+  p_rows jsonb
+)
+RETURNS int
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  rows_with_project jsonb;
+  column_list text;
+  inserted_count int := 0;
+BEGIN
+  EXECUTE format('DELETE FROM %I WHERE project_id = $1', p_table)
+  USING p_project_id;
+
+  IF p_rows IS NULL OR jsonb_array_length(p_rows) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  -- Every row belongs to p_project_id, whatever the caller sent
+  SELECT jsonb_agg(r || jsonb_build_object('project_id', p_project_id))
+  INTO rows_with_project
+  FROM jsonb_array_elements(p_rows) AS r;
+
+  -- Insert only the columns the rows set, so the others keep their defaults
+  SELECT string_agg(DISTINCT quote_ident(key), ', ')
+  INTO column_list
+  FROM jsonb_array_elements(rows_with_project) AS r, jsonb_object_keys(r) AS key;
+
+  EXECUTE format(
+    'INSERT INTO %1$I (%2$s) SELECT %2$s FROM jsonb_populate_recordset(NULL::%1$I, $1)',
+    p_table,
+    column_list
+  )
+  USING rows_with_project;
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+  RETURN inserted_count;
+END;
+$$;
+
+-- Runs with the caller's rights; only the service role calls it
+REVOKE EXECUTE ON FUNCTION replace_project_rows FROM anon, authenticated;
+
+COMMENT ON FUNCTION replace_project_rows IS
+  'Replaces the rows of p_table belonging to a project with p_rows (JSON objects) in one transaction. Returns rows inserted.';
@@ -0,0 +1,18 @@
+-- ============================================================
+-- Quoth v3.8: Incomplete Embeddings Flag
+-- ============================================================
+-- syncDocument skips documents whose checksum is unchanged. When some chunks
+-- failed to embed, the checksum was still saved, so re-running the update
+-- returned early and the chunks stayed missing until a full reindex. The flag
+-- marks such documents; the next sync re-embeds them even if unchanged.
+--
+-- Safe: Idempotent, additive.
+
+-- ============================================================
+-- 1. Flag on documents
+-- ============================================================
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS embeddings_incomplete BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN documents.embeddings_incomplete IS
+  'Set when chunks of the current content failed to embed. Cleared by the next sync that embeds them all.';
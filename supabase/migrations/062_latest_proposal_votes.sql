@@ -0,0 +1,41 @@
+-- ============================================================
+-- Quoth v3.8: Latest Vote per Reviewer
+-- ============================================================
+-- proposal_approvals is the audit trail of review decisions, so a reviewer
+-- who votes again on the same revision (e.g. retrying an approval after a
+-- conflict) adds a row instead of replacing one. Approvals are counted from
+-- latest_proposal_votes: each reviewer's most recent vote per revision.
+--
+-- Safe: Idempotent, additive. Drops the unique vote index an earlier draft of
+-- this migration created, so votes stay append-only.
+
+-- ============================================================
+-- 1. Votes are append-only
+-- ============================================================
+DROP INDEX IF EXISTS idx_proposal_approvals_unique_vote;
+
+CREATE INDEX IF NOT EXISTS idx_proposal_approvals_reviewer_revision
+  ON proposal_approvals(proposal_id, revision, user_id, created_at DESC);
+
+-- ============================================================
+-- 2. Latest vote view
+-- ============================================================
+-- security_invoker: readers see only the votes RLS lets them see
+CREATE OR REPLACE VIEW latest_proposal_votes
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (proposal_id, revision, user_id)
+  id,
+  proposal_id,
+  revision,
+  user_id,
+  reviewer_email,
+  reviewer_role,
+  decision,
+  notes,
+  policy_id,
+  created_at
+FROM proposal_approvals
+ORDER BY proposal_id, revision, user_id, created_at DESC, id DESC;
+
+COMMENT ON VIEW latest_proposal_votes IS
+  'Each reviewer''s latest vote per proposal revision; approval tallies count these.';
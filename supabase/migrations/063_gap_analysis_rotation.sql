@@ -0,0 +1,15 @@
+-- ============================================================
+-- Quoth v3.8: Gap Analysis Rotation
+-- ============================================================
+-- The gap analysis cron has a time budget and walked projects oldest first,
+-- so projects beyond the budget were never analyzed. It now takes the
+-- projects it reached longest ago (never reached first) and stamps each one
+-- it reaches, so every project gets its turn.
+--
+-- Safe: Idempotent, additive.
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS gap_analysis_ran_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN projects.gap_analysis_ran_at IS
+  'When the gap analysis cron last ran for the project (successfully or not); it runs the least recent first.';
@@ -0,0 +1,115 @@
+-- ============================================================
+-- Quoth v3.8: Rate Limit Refunds
+-- ============================================================
+-- An MCP request is charged to its API key quota and then to its agent
+-- quota. When the agent quota refused it, the key had already been charged
+-- for a request that never ran. The charge is now refunded by applying a
+-- negative cost; consume_rate_limit() clamps refunds so a bucket never holds
+-- more than its full quota (the same clamps as src/lib/rate-limit.ts).
+--
+-- Safe: Idempotent. Positive costs behave as before.
+
+-- ============================================================
+-- 1. Consume RPC (negative cost refunds)
+-- ============================================================
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+  bucket_key TEXT,
+  algorithm TEXT,
+  max_requests INT,
+  window_ms BIGINT,
+  cost INT DEFAULT 1
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INT, reset_ms BIGINT, retry_after_ms BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  now_ms BIGINT := (extract(epoch FROM clock_timestamp()) * 1000)::BIGINT;
+  bucket rate_limit_buckets%ROWTYPE;
+  current_start BIGINT;
+  cur INT := 0;
+  prev INT := 0;
+  weighted DOUBLE PRECISION;
+  ends_in BIGINT;
+  rate DOUBLE PRECISION;
+  available DOUBLE PRECISION;
+BEGIN
+  -- Occasionally sweep expired buckets
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_buckets WHERE expires_at < now();
+  END IF;
+
+  INSERT INTO rate_limit_buckets (key, expires_at)
+  VALUES (bucket_key, now())
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT * INTO bucket FROM rate_limit_buckets b WHERE b.key = bucket_key FOR UPDATE;
+
+  IF algorithm = 'token_bucket' THEN
+    rate := max_requests::DOUBLE PRECISION / window_ms;
+    available := max_requests;
+    IF bucket.tokens IS NOT NULL AND bucket.updated_ms IS NOT NULL THEN
+      available := LEAST(max_requests, bucket.tokens + GREATEST(0, now_ms - bucket.updated_ms) * rate);
+    END IF;
+
+    IF available < cost THEN
+      allowed := false;
+      remaining := 0;
+      retry_after_ms := CEIL((cost - available) / rate);
+    ELSE
+      available := LEAST(max_requests, available - cost);
+      allowed := true;
+      remaining := FLOOR(available);
+      retry_after_ms := 0;
+    END IF;
+    reset_ms := CEIL((max_requests - available) / rate);
+
+    UPDATE rate_limit_buckets
+    SET tokens = available, updated_ms = now_ms,
+        expires_at = now() + make_interval(secs => 2 * window_ms / 1000.0)
+    WHERE key = bucket_key;
+  ELSE
+    current_start := (now_ms / window_ms) * window_ms;
+    IF bucket.window_start = current_start THEN
+      cur := bucket.count;
+      prev := bucket.prev_count;
+    ELSIF bucket.window_start = current_start - window_ms THEN
+      prev := bucket.count;
+    END IF;
+
+    weighted := prev * (1 - (now_ms - current_start)::DOUBLE PRECISION / window_ms) + cur;
+    ends_in := current_start + window_ms - now_ms;
+
+    IF weighted + cost > max_requests THEN
+      allowed := false;
+      remaining := 0;
+      reset_ms := ends_in + window_ms;
+      retry_after_ms := ends_in;
+      IF cur + cost <= max_requests AND prev > 0 THEN
+        retry_after_ms := GREATEST(1, CEIL(
+          current_start + (1 - (max_requests - cur - cost)::DOUBLE PRECISION / prev) * window_ms - now_ms
+        ));
+      END IF;
+    ELSE
+      cur := GREATEST(0, cur + cost);
+      allowed := true;
+      remaining := GREATEST(0, FLOOR(max_requests - weighted - cost));
+      reset_ms := ends_in;
+      retry_after_ms := 0;
+    END IF;
+
+    UPDATE rate_limit_buckets
+    SET window_start = current_start, count = cur, prev_count = prev,
+        expires_at = now() + make_interval(secs => 2 * window_ms / 1000.0)
+    WHERE key = bucket_key;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_rate_limit FROM anon, authenticated;
+
+COMMENT ON FUNCTION consume_rate_limit IS
+  'Applies one request of cost to a sliding_window or token_bucket limit and returns the decision. A negative cost refunds earlier requests.';
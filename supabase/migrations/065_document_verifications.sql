@@ -0,0 +1,46 @@
+-- ============================================================
+-- Quoth v3.8: Verified Commits per Version
+-- ============================================================
+-- documents.last_verified_commit only holds the latest commit a document was
+-- verified at. Repository sync moves it forward on unchanged documents
+-- without archiving a version, so quoth_read_doc as_of=<older commit> found
+-- no version for commits the document was verified at in between.
+--
+-- Repository sync now records every commit it verifies a document at,
+-- together with the version that was current, and commit lookups search
+-- these rows.
+--
+-- Safe: Idempotent, additive. Commits verified before this migration are
+-- only known through last_verified_commit.
+
+-- ============================================================
+-- 1. Verifications
+-- ============================================================
+CREATE TABLE IF NOT EXISTS document_verifications (
+  document_id UUID REFERENCES documents(id) ON DELETE CASCADE NOT NULL,
+  commit_sha TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  verified_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (document_id, commit_sha)
+);
+
+COMMENT ON TABLE document_verifications IS
+  'Repository commits each document was verified at by repository sync, and the version that was current then.';
+
+-- ============================================================
+-- 2. RLS Policies
+-- ============================================================
+ALTER TABLE public.document_verifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view document verifications" ON public.document_verifications;
+CREATE POLICY "Users can view document verifications"
+  ON public.document_verifications FOR SELECT
+  USING (
+    document_id IN (SELECT id FROM public.documents WHERE public.has_project_access(project_id))
+  );
+
+-- Writes go through repository sync with the service role
+DROP POLICY IF EXISTS "Service role full access to document_verifications" ON public.document_verifications;
+CREATE POLICY "Service role full access to document_verifications"
+  ON public.document_verifications FOR ALL
+  USING (auth.role() = 'service_role');